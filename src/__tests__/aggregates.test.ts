@@ -0,0 +1,60 @@
+import { describe, it, expect, expectTypeOf } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return { data: [{ customer_id: 1, total: 10, n: 2 }] } }
+}
+
+const use = (dialect: string) => { const exec = new RecordingExec(dialect); setDefaultExecutor(exec as any); return exec }
+
+describe('aggregates', () => {
+  it('accumulates every helper in call order', () => {
+    use('sqlite')
+    const { sql } = new QueryBuilder('orders').count().sum('amount').avg('amount', 'mean').min('o.amount').max('amount').toSql()
+    expect(sql).toBe('SELECT count(*) as count, sum(amount) as sum_amount, avg(amount) as mean, min(o.amount) as min_amount, max(amount) as max_amount FROM orders')
+  })
+
+  it('selects the GROUP BY columns when nothing else was selected', () => {
+    use('postgres')
+    const { sql, bindings } = new QueryBuilder('orders')
+      .where('status', '=', 'paid')
+      .groupBy(['customer_id', 'region'])
+      .aggregate({ total: ['sum', 'amount'], n: ['count', '*'] })
+      .having('sum(amount)', '>', 100)
+      .toSql()
+    expect(sql).toBe('SELECT customer_id, region, sum(amount) as total, count(*) as n FROM orders WHERE status = ? GROUP BY customer_id, region HAVING sum(amount) > ?')
+    expect(bindings).toEqual(['paid', 100])
+  })
+
+  it('combines with plain selects and quotes reserved aliases', () => {
+    use('mysql')
+    const { sql } = new QueryBuilder('orders').select(['customer_id']).groupBy(['customer_id', 'region']).count('id', 'order').toSql()
+    expect(sql).toBe('SELECT customer_id, count(id) as `order` FROM orders GROUP BY customer_id, region')
+  })
+
+  it('does not mutate the select list, so the builder can be reused', () => {
+    use('sqlite')
+    const q = new QueryBuilder('orders').select(['id'])
+    const counted = q.clone().count()
+    expect(counted.toSql().sql).toBe('SELECT id, count(*) as count FROM orders')
+    expect(counted.toSql().sql).toBe('SELECT id, count(*) as count FROM orders')
+    expect(q.toSql().sql).toBe('SELECT id FROM orders')
+  })
+
+  it('returns rows typed with the aggregate aliases', async () => {
+    use('sqlite')
+    const rows = await new QueryBuilder<{ id?: number; customer_id: number }>('orders').groupBy(['customer_id']).aggregate({ total: ['sum', 'amount'], n: ['count', '*'] }).all()
+    expect(rows).toEqual([{ customer_id: 1, total: 10, n: 2 }])
+    expectTypeOf(rows[0].total).toEqualTypeOf<number>()
+    expectTypeOf(rows[0].customer_id).toEqualTypeOf<number>()
+    const counted = new QueryBuilder<{ id?: number }>('orders').count().sum('o.amount')
+    expectTypeOf(counted).toEqualTypeOf<QueryBuilder<{ id?: number } & Record<'count', number> & Record<'sum_amount', number>>>()
+  })
+
+  it('rejects unknown functions in aggregate()', () => {
+    expect(() => new QueryBuilder('orders').aggregate({ x: ['median' as any, 'amount'] })).toThrow('Invalid aggregate function: median')
+  })
+})
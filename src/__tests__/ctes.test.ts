@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return { data: [{ id: 1 }], affectedRows: 1 } }
+}
+
+const use = (dialect: string) => { const exec = new RecordingExec(dialect); setDefaultExecutor(exec as any); return exec }
+const tree = () => new QueryBuilder('tree').withRecursive('tree',
+  new QueryBuilder('categories').select(['id', 'parent_id']).where('id', '=', 1),
+  new QueryBuilder('categories c').select(['c.id', 'c.parent_id']).innerJoinOn('tree', 'tree.id', 'c.parent_id').where('c.active', '=', 1),
+  { columns: ['id', 'parent_id'] })
+
+describe('common table expressions', () => {
+  it.each([
+    ['sqlite', 'WITH recent AS (SELECT * FROM orders WHERE total > ?) SELECT * FROM recent WHERE status = ? LIMIT ?'],
+    ['postgres', 'WITH recent AS (SELECT * FROM orders WHERE total > ?) SELECT * FROM recent WHERE status = ? LIMIT ?'],
+    ['mysql', 'WITH recent AS (SELECT * FROM orders WHERE total > ?) SELECT * FROM recent WHERE status = ? LIMIT ?'],
+    ['mssql', 'WITH recent AS (SELECT * FROM orders WHERE total > ?) SELECT TOP (?) * FROM recent WHERE status = ?'],
+    ['oracle', 'WITH recent AS (SELECT * FROM orders WHERE total > ?) SELECT * FROM recent WHERE status = ? FETCH FIRST ? ROWS ONLY'],
+  ])('reads from a CTE on %s with the CTE bindings first', (dialect, expected) => {
+    use(dialect)
+    const { sql, bindings } = new QueryBuilder('recent')
+      .with('recent', new QueryBuilder('orders').where('total', '>', 100))
+      .where('status', '=', 'paid')
+      .limit(5)
+      .toSql()
+    expect(sql).toBe(expected)
+    expect(bindings).toEqual(dialect === 'mssql' ? [100, 5, 'paid'] : [100, 'paid', 5])
+  })
+
+  it('merges several CTEs in declaration order with quoted names and columns', () => {
+    use('postgres')
+    const { sql, bindings } = new QueryBuilder('b')
+      .with('a', new QueryBuilder('t').select(['x']).where('x', '>', 1), { columns: ['order'] })
+      .with('b', new QueryBuilder('a').where('order', '<', 9))
+      .where('order', '<>', 5)
+      .toSql()
+    expect(sql).toBe('WITH a ("order") AS (SELECT x FROM t WHERE x > ?), b AS (SELECT * FROM a WHERE "order" < ?) SELECT * FROM b WHERE "order" <> ?')
+    expect(bindings).toEqual([1, 9, 5])
+  })
+
+  it.each([
+    ['postgres', 'WITH RECURSIVE tree (id, parent_id) AS ('],
+    ['sqlite', 'WITH RECURSIVE tree (id, parent_id) AS ('],
+    ['mysql', 'WITH RECURSIVE tree (id, parent_id) AS ('],
+    ['mssql', 'WITH tree (id, parent_id) AS ('],
+    ['oracle', 'WITH tree (id, parent_id) AS ('],
+  ])('compiles recursive CTEs on %s', (dialect, prefix) => {
+    use(dialect)
+    const { sql, bindings } = tree().toSql()
+    expect(sql).toBe(`${prefix}SELECT id, parent_id FROM categories WHERE id = ? UNION ALL SELECT c.id, c.parent_id FROM categories c INNER JOIN tree ON tree.id = c.parent_id WHERE c.active = ?) SELECT * FROM tree`)
+    expect(bindings).toEqual([1, 1])
+  })
+
+  it('uses UNION when unionAll is false and requires columns for oracle recursion', () => {
+    use('sqlite')
+    const q = new QueryBuilder('n').withRecursive('n', new QueryBuilder('one').select(['v']), new QueryBuilder('n').select(['v']), { unionAll: false })
+    expect(q.toSql().sql).toBe('WITH RECURSIVE n AS (SELECT v FROM one UNION SELECT v FROM n) SELECT * FROM n')
+    use('oracle')
+    expect(() => q.toSql()).toThrow('Oracle recursive CTE "n" requires a column list')
+  })
+
+  it.each([
+    ['postgres', 'WITH t AS MATERIALIZED (SELECT id FROM big) SELECT * FROM t'],
+    ['sqlite', 'WITH t AS MATERIALIZED (SELECT id FROM big) SELECT * FROM t'],
+    ['mysql', 'WITH t AS (SELECT id FROM big) SELECT * FROM t'],
+    ['mssql', 'WITH t AS (SELECT id FROM big) SELECT * FROM t'],
+    ['oracle', 'WITH t AS (SELECT /*+ MATERIALIZE */ id FROM big) SELECT * FROM t'],
+  ])('compiles materialized CTEs on %s', (dialect, expected) => {
+    use(dialect)
+    expect(new QueryBuilder('t').withMaterialized('t', new QueryBuilder('big').select(['id'])).toSql().sql).toBe(expected)
+  })
+
+  it('prefixes writes with the CTEs', async () => {
+    const exec = use('postgres')
+    const stale = new QueryBuilder('users').select(['id']).where('active', '=', false)
+    await new QueryBuilder('sessions').with('stale', stale).whereRaw('user_id IN (SELECT id FROM stale)').delete().make()
+    await new QueryBuilder('sessions').with('stale', stale).whereRaw('user_id IN (SELECT id FROM stale)').update({ revoked: true }).returning(['id']).make()
+    expect(exec.calls).toEqual([
+      { sql: 'WITH stale AS (SELECT id FROM users WHERE active = ?) DELETE FROM sessions WHERE user_id IN (SELECT id FROM stale)', bindings: [false] },
+      { sql: 'WITH stale AS (SELECT id FROM users WHERE active = ?) UPDATE sessions SET revoked = ? WHERE user_id IN (SELECT id FROM stale) RETURNING id', bindings: [false, true] },
+    ])
+    const mssql = use('mssql')
+    await new QueryBuilder('logs').with('ids', new QueryBuilder('t').select(['id'])).insert({ a: 1 }).make()
+    expect(mssql.calls[0].sql).toBe('WITH ids AS (SELECT id FROM t) INSERT INTO logs (a) VALUES (?)')
+  })
+
+  it('mysql re-selects through the CTE and rejects WITH before INSERT', async () => {
+    const exec = use('mysql')
+    await new QueryBuilder('users').with('vip', new QueryBuilder('orders').select(['user_id']).where('total', '>', 10))
+      .whereRaw('id IN (SELECT user_id FROM vip)').delete().returning(['id']).make()
+    expect(exec.calls.map(c => c.sql)).toEqual([
+      'WITH vip AS (SELECT user_id FROM orders WHERE total > ?) SELECT id FROM users WHERE id IN (SELECT user_id FROM vip)',
+      'WITH vip AS (SELECT user_id FROM orders WHERE total > ?) DELETE FROM users WHERE id IN (SELECT user_id FROM vip)',
+    ])
+    await expect(new QueryBuilder('t').with('x', new QueryBuilder('y')).insert({ a: 1 }).make()).rejects.toThrow('MySQL does not support WITH before INSERT')
+  })
+
+  it('oracle rejects CTEs on writes', async () => {
+    use('oracle')
+    await expect(new QueryBuilder('t').with('x', new QueryBuilder('y')).where('id', '=', 1).delete().make())
+      .rejects.toThrow('Oracle does not support WITH before DELETE; use a subquery instead')
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+
+vi.mock('../relations-resolver', async (orig) => {
+  const mod = await orig() as any
+  return { ...mod, attachRelations: async (_table: string, rows: any[]) => rows.map(r => ({ ...r, author: { id: r.id * 10 } })) }
+})
+
+const posts = [
+  { id: 1, created_at: '2024-01-01' },
+  { id: 2, created_at: '2024-01-02' },
+  { id: 3, created_at: '2024-01-02' },
+  { id: 4, created_at: '2024-01-03' },
+  { id: 5, created_at: '2024-01-04' },
+]
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any, private rows: any[] = []) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return { data: this.rows } }
+}
+
+const use = (dialect: string, rows: any[] = []) => { const exec = new RecordingExec(dialect, rows); setDefaultExecutor(exec as any); return exec }
+const byDate = ['created_at', 'id']
+const cursorFor = (row: any) => Buffer.from(JSON.stringify([row.created_at, row.id])).toString('base64url')
+
+describe('cursorPaginate()', () => {
+  it('reads the first page with one extra row to detect the next page', async () => {
+    const exec = use('sqlite', posts.slice(0, 3))
+    const page = await new QueryBuilder<any>('posts').where('a', '=', 1).orWhere('b', '=', 2).cursorPaginate({ orderBy: byDate, limit: 2 })
+    expect(exec.calls[0]).toEqual({ sql: 'SELECT * FROM posts WHERE (a = ? OR b = ?) ORDER BY created_at ASC, id ASC LIMIT ?', bindings: [1, 2, 3] })
+    expect(page.data.map(r => r.id)).toEqual([1, 2])
+    expect(page).toMatchObject({ hasNext: true, hasPrev: false, prevCursor: null, nextCursor: cursorFor(posts[1]) })
+  })
+
+  it('continues after a cursor with a tuple comparison', async () => {
+    const exec = use('postgres', posts.slice(2, 4))
+    const page = await new QueryBuilder<any>('posts').cursorPaginate({ orderBy: byDate, limit: 2, after: cursorFor(posts[1]) })
+    expect(exec.calls[0]).toEqual({ sql: 'SELECT * FROM posts WHERE (created_at, id) > (?, ?) ORDER BY created_at ASC, id ASC LIMIT ?', bindings: ['2024-01-02', 2, 3] })
+    expect(page).toMatchObject({ hasNext: false, hasPrev: true, nextCursor: null, prevCursor: cursorFor(posts[2]) })
+  })
+
+  it('walks backwards in reverse order and flips the page', async () => {
+    const exec = use('mysql', [posts[2], posts[1], posts[0]])
+    const page = await new QueryBuilder<any>('posts').cursorPaginate({ orderBy: byDate, limit: 2, before: cursorFor(posts[3]) })
+    expect(exec.calls[0].sql).toBe('SELECT * FROM posts WHERE (created_at, id) < (?, ?) ORDER BY created_at DESC, id DESC LIMIT ?')
+    expect(page.data.map(r => r.id)).toEqual([2, 3])
+    expect(page).toMatchObject({ hasNext: true, hasPrev: true, nextCursor: cursorFor(posts[2]), prevCursor: cursorFor(posts[1]) })
+  })
+
+  it.each([
+    ['mssql', 'SELECT TOP (?) * FROM posts WHERE (created_at > ? OR (created_at = ? AND id > ?)) ORDER BY created_at ASC, id ASC', [3, '2024-01-02', '2024-01-02', 2]],
+    ['oracle', 'SELECT * FROM posts WHERE (created_at > ? OR (created_at = ? AND id > ?)) ORDER BY created_at ASC, id ASC FETCH FIRST ? ROWS ONLY', ['2024-01-02', '2024-01-02', 2, 3]],
+  ])('expands the comparison on %s, which has no row values', async (dialect, sql, bindings) => {
+    const exec = use(dialect)
+    await new QueryBuilder<any>('posts').cursorPaginate({ orderBy: byDate, limit: 2, after: cursorFor(posts[1]) })
+    expect(exec.calls[0]).toEqual({ sql, bindings })
+  })
+
+  it('expands mixed directions and keeps existing filters grouped', async () => {
+    const exec = use('postgres')
+    await new QueryBuilder<any>('posts').where('status', '=', 'live').cursorPaginate({ orderBy: [{ column: 'created_at', direction: 'DESC' }, 'id'], after: cursorFor(posts[1]) })
+    expect(exec.calls[0]).toEqual({
+      sql: 'SELECT * FROM posts WHERE (status = ?) AND (created_at < ? OR (created_at = ? AND id > ?)) ORDER BY created_at DESC, id ASC LIMIT ?',
+      bindings: ['live', '2024-01-02', '2024-01-02', 2, 26],
+    })
+  })
+
+  it('loads relationship() only for the rows of the page', async () => {
+    use('sqlite', posts.slice(0, 3))
+    const page = await new QueryBuilder<any>('posts').relationship().cursorPaginate({ orderBy: ['id'], limit: 2 })
+    expect(page.data).toEqual([{ ...posts[0], author: { id: 10 } }, { ...posts[1], author: { id: 20 } }])
+    expect(page.nextCursor).toBe(Buffer.from('[2]').toString('base64url'))
+  })
+
+  it('rejects invalid cursors and conflicting directions', async () => {
+    use('sqlite')
+    const q = new QueryBuilder<any>('posts')
+    await expect(q.cursorPaginate({ orderBy: byDate, after: 'not-a-cursor' })).rejects.toThrow('Invalid pagination cursor')
+    await expect(q.cursorPaginate({ orderBy: ['id'], after: cursorFor(posts[0]) })).rejects.toThrow('Invalid pagination cursor')
+    await expect(q.cursorPaginate({ orderBy: ['id'], after: 'a', before: 'b' })).rejects.toThrow('cursorPaginate accepts either after or before, not both')
+  })
+
+  it('reads cursor values from uppercase Oracle row keys', async () => {
+    use('oracle', posts.slice(0, 3).map(r => ({ ID: r.id, CREATED_AT: r.created_at })))
+    const page = await new QueryBuilder<any>('posts').cursorPaginate({ orderBy: ['posts.created_at', 'id'], limit: 2 })
+    expect(page.nextCursor).toBe(cursorFor(posts[1]))
+  })
+
+  it('rejects orderBy columns missing from the rows', async () => {
+    use('sqlite', posts.slice(0, 3).map(({ id }) => ({ id })))
+    await expect(new QueryBuilder<any>('posts').select(['id']).cursorPaginate({ orderBy: ['posts.created_at', 'id'], limit: 2 }))
+      .rejects.toThrow('Cursor column posts.created_at must be selected to paginate posts')
+  })
+})
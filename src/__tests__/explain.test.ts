@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+
+class PlanExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any, private plan: any[]) {}
+  async executeQuery(sql: string, bindings: any[] = []) {
+    this.calls.push({ sql, bindings })
+    return { data: /^(EXPLAIN|SELECT)/.test(sql) ? this.plan : [] }
+  }
+}
+
+class SessionExec extends PlanExec {
+  session: PlanExec & { rollback(): Promise<void> }
+  rolledBack = false
+  constructor(dialect: any, plan: any[]) { super(dialect, plan); this.session = Object.assign(new PlanExec(dialect, plan), { rollback: async () => { this.rolledBack = true } }) }
+  async beginTransaction() { return this.session as any }
+}
+
+const use = (dialect: string, plan: any[]) => { const exec = new PlanExec(dialect, plan); setDefaultExecutor(exec as any); return exec }
+const byEmail = () => new QueryBuilder('users').where('email', '=', 'ana@x.com')
+
+describe('explain', () => {
+  it('sqlite runs EXPLAIN QUERY PLAN and builds the tree from parent ids', async () => {
+    const exec = use('sqlite', [
+      { id: 2, parent: 0, notused: 0, detail: 'SCAN o' },
+      { id: 5, parent: 0, notused: 0, detail: 'SEARCH u USING INDEX idx_users_email (email=?)' },
+      { id: 9, parent: 0, notused: 0, detail: 'USE TEMP B-TREE FOR ORDER BY' },
+    ])
+    const plan = await new QueryBuilder('orders o').innerJoin('users u', 'u.id = o.user_id').where('u.email', '=', 'a').orderBy('o.total').explain()
+    expect(exec.calls).toEqual([{ sql: 'EXPLAIN QUERY PLAN SELECT * FROM orders o INNER JOIN users u ON u.id = o.user_id WHERE u.email = ? ORDER BY o.total ASC', bindings: ['a'] }])
+    expect(plan.nodes).toEqual([
+      { operation: 'SCAN', table: 'o', fullScan: true, children: [] },
+      { operation: 'SEARCH', table: 'u', index: 'idx_users_email', fullScan: false, children: [] },
+      { operation: 'USE TEMP B-TREE FOR ORDER BY', fullScan: false, children: [] },
+    ])
+    expect(plan.fullScans).toEqual(['o'])
+    expect(plan.sql).toBe('SELECT * FROM orders o INNER JOIN users u ON u.id = o.user_id WHERE u.email = ? ORDER BY o.total ASC')
+  })
+
+  it('sqlite nests subquery steps and rejects analyze', async () => {
+    use('sqlite', [
+      { id: 3, parent: 0, notused: 0, detail: 'SCAN users USING COVERING INDEX idx_active' },
+      { id: 7, parent: 0, notused: 0, detail: 'CORRELATED SCALAR SUBQUERY 1' },
+      { id: 11, parent: 7, notused: 0, detail: 'SEARCH orders USING INTEGER PRIMARY KEY (rowid=?)' },
+    ])
+    const plan = await new QueryBuilder('users').explain()
+    expect(plan.nodes[0]).toEqual({ operation: 'SCAN', table: 'users', index: 'idx_active', fullScan: false, children: [] })
+    expect(plan.nodes[1].children).toEqual([{ operation: 'SEARCH', table: 'orders', fullScan: false, children: [] }])
+    expect(plan.fullScans).toEqual([])
+    await expect(new QueryBuilder('users').explain({ analyze: true })).rejects.toThrow('EXPLAIN ANALYZE is not supported on sqlite')
+  })
+
+  it('postgres parses the JSON plan, with actual rows when analyzing', async () => {
+    const json = [{ Plan: {
+      'Node Type': 'Hash Join', 'Total Cost': 45.2, 'Plan Rows': 12, 'Actual Rows': 10,
+      Plans: [
+        { 'Node Type': 'Seq Scan', 'Relation Name': 'orders', 'Total Cost': 30.1, 'Plan Rows': 1200, 'Actual Rows': 1187 },
+        { 'Node Type': 'Hash', 'Total Cost': 8.3, 'Plan Rows': 1, 'Actual Rows': 1, Plans: [
+          { 'Node Type': 'Index Scan', 'Relation Name': 'users', 'Index Name': 'users_email_idx', 'Total Cost': 8.3, 'Plan Rows': 1, 'Actual Rows': 1 },
+        ] },
+      ],
+    } }]
+    const exec = use('postgres', [{ 'QUERY PLAN': json }])
+    const plan = await byEmail().explain({ analyze: true })
+    expect(exec.calls[0]).toEqual({ sql: 'EXPLAIN (ANALYZE, FORMAT JSON) SELECT * FROM users WHERE email = ?', bindings: ['ana@x.com'] })
+    expect(plan.nodes).toEqual([{
+      operation: 'Hash Join', rows: 12, cost: 45.2, actualRows: 10, fullScan: false, children: [
+        { operation: 'Seq Scan', table: 'orders', rows: 1200, cost: 30.1, actualRows: 1187, fullScan: true, children: [] },
+        { operation: 'Hash', rows: 1, cost: 8.3, actualRows: 1, fullScan: false, children: [
+          { operation: 'Index Scan', table: 'users', index: 'users_email_idx', rows: 1, cost: 8.3, actualRows: 1, fullScan: false, children: [] },
+        ] },
+      ],
+    }])
+    expect(plan.fullScans).toEqual(['orders'])
+    const text = use('postgres', [{ 'QUERY PLAN': JSON.stringify([{ Plan: { 'Node Type': 'Seq Scan', 'Relation Name': 'users', 'Total Cost': 1, 'Plan Rows': 3 } }]) }])
+    expect((await byEmail().explain()).fullScans).toEqual(['users'])
+    expect(text.calls[0].sql).toBe('EXPLAIN (FORMAT JSON) SELECT * FROM users WHERE email = ?')
+  })
+
+  it('mysql parses EXPLAIN FORMAT=JSON nested loops', async () => {
+    const json = { query_block: { select_id: 1, cost_info: { query_cost: '3.20' }, ordering_operation: { using_filesort: true, nested_loop: [
+      { table: { table_name: 'o', access_type: 'ALL', rows_examined_per_scan: 20, cost_info: { read_cost: '1.75', prefix_cost: '2.00' }, used_columns: ['id'] } },
+      { table: { table_name: 'u', access_type: 'eq_ref', key: 'PRIMARY', used_key_parts: ['id'], rows_examined_per_scan: 1, cost_info: { prefix_cost: '3.20' } } },
+    ] } } }
+    const exec = use('mysql', [{ EXPLAIN: JSON.stringify(json) }])
+    const plan = await new QueryBuilder('orders o').innerJoin('users u', 'u.id = o.user_id').orderBy('o.total').explain()
+    expect(exec.calls[0].sql).toBe('EXPLAIN FORMAT=JSON SELECT * FROM orders o INNER JOIN users u ON u.id = o.user_id ORDER BY o.total ASC')
+    expect(plan.nodes).toEqual([{ operation: 'query_block', cost: 3.2, fullScan: false, children: [
+      { operation: 'ordering_operation', cost: undefined, fullScan: false, children: [
+        { operation: 'ALL', table: 'o', rows: 20, cost: 2, fullScan: true, children: [] },
+        { operation: 'eq_ref', table: 'u', index: 'PRIMARY', rows: 1, cost: 3.2, fullScan: false, children: [] },
+      ] },
+    ] }])
+    expect(plan.fullScans).toEqual(['o'])
+  })
+
+  it('mysql parses the EXPLAIN ANALYZE tree', async () => {
+    const tree = [
+      '-> Nested loop inner join  (cost=4.50 rows=5) (actual time=0.05..0.09 rows=4 loops=1)',
+      '    -> Table scan on o  (cost=2.25 rows=20) (actual time=0.02..0.04 rows=20 loops=1)',
+      '    -> Single-row index lookup on u using PRIMARY (id=o.user_id)  (cost=0.25 rows=1) (actual time=0.001..0.001 rows=0.2 loops=20)',
+    ].join('\n')
+    const exec = use('mysql', [{ EXPLAIN: tree }])
+    const plan = await new QueryBuilder('orders o').innerJoin('users u', 'u.id = o.user_id').explain({ analyze: true })
+    expect(exec.calls[0].sql).toBe('EXPLAIN ANALYZE SELECT * FROM orders o INNER JOIN users u ON u.id = o.user_id')
+    expect(plan.nodes).toEqual([{ operation: 'Nested loop inner join', rows: 5, cost: 4.5, actualRows: 4, fullScan: false, children: [
+      { operation: 'Table scan on o', table: 'o', rows: 20, cost: 2.25, actualRows: 20, fullScan: true, children: [] },
+      { operation: 'Single-row index lookup on u using PRIMARY (id=o.user_id)', table: 'u', index: 'PRIMARY', rows: 1, cost: 0.25, actualRows: 0.2, fullScan: false, children: [] },
+    ] }])
+  })
+
+  it('mssql toggles SHOWPLAN_XML on a pinned connection and parses the RelOp tree', async () => {
+    const xml = '<?xml version="1.0" encoding="utf-16"?><ShowPlanXML xmlns="http://schemas.microsoft.com/sqlserver/2004/07/showplan"><BatchSequence><Batch><Statements><StmtSimple StatementText="SELECT * FROM users WHERE email = @p1"><QueryPlan>'
+      + '<RelOp NodeId="0" PhysicalOp="Nested Loops" LogicalOp="Inner Join" EstimateRows="1" EstimatedTotalSubtreeCost="0.0065"><NestedLoops Optimized="0">'
+      + '<RelOp NodeId="1" PhysicalOp="Index Seek" LogicalOp="Index Seek" EstimateRows="1" EstimatedTotalSubtreeCost="0.0032"><IndexScan><Object Database="[app]" Schema="[dbo]" Table="[users]" Index="[IX_users_email]" IndexKind="NonClustered" /></IndexScan></RelOp>'
+      + '<RelOp NodeId="2" PhysicalOp="Clustered Index Scan" LogicalOp="Clustered Index Scan" EstimateRows="120" EstimatedTotalSubtreeCost="0.0031"><IndexScan><Object Database="[app]" Schema="[dbo]" Table="[orders]" Index="[PK_orders]" /></IndexScan></RelOp>'
+      + '</NestedLoops></RelOp></QueryPlan></StmtSimple></Statements></Batch></BatchSequence></ShowPlanXML>'
+    const exec = new SessionExec('mssql', [{ 'Microsoft SQL Server 2005 XML Showplan': xml }])
+    setDefaultExecutor(exec as any)
+    const plan = await byEmail().explain()
+    expect(exec.calls).toEqual([])
+    expect(exec.session.calls).toEqual([
+      { sql: 'SET SHOWPLAN_XML ON', bindings: [] },
+      { sql: 'SELECT * FROM users WHERE email = ?', bindings: ['ana@x.com'] },
+      { sql: 'SET SHOWPLAN_XML OFF', bindings: [] },
+    ])
+    expect(exec.rolledBack).toBe(true)
+    expect(plan.nodes).toEqual([{ operation: 'Nested Loops', rows: 1, cost: 0.0065, fullScan: false, children: [
+      { operation: 'Index Seek', table: 'users', index: 'IX_users_email', rows: 1, cost: 0.0032, fullScan: false, children: [] },
+      { operation: 'Clustered Index Scan', table: 'orders', index: 'PK_orders', rows: 120, cost: 0.0031, fullScan: true, children: [] },
+    ] }])
+    expect(plan.fullScans).toEqual(['orders'])
+  })
+
+  it('oracle explains into the plan table, reads it back and cleans up', async () => {
+    const exec = new SessionExec('oracle', [
+      { id: 0, parent_id: null, operation: 'SELECT STATEMENT', options: null, object_name: null, object_type: null, cardinality: 1, cost: 3 },
+      { id: 1, parent_id: 0, operation: 'TABLE ACCESS', options: 'BY INDEX ROWID', object_name: 'USERS', object_type: 'TABLE', cardinality: 1, cost: 2 },
+      { id: 2, parent_id: 1, operation: 'INDEX', options: 'RANGE SCAN', object_name: 'USERS_EMAIL_IDX', object_type: 'INDEX', cardinality: 1, cost: 1 },
+      { id: 3, parent_id: 0, operation: 'TABLE ACCESS', options: 'FULL', object_name: 'AUDIT', object_type: 'TABLE', cardinality: 900, cost: 12 },
+    ])
+    setDefaultExecutor(exec as any)
+    const plan = await byEmail().explain()
+    const [explain, read, cleanup] = exec.session.calls
+    const id = read.bindings[0]
+    expect(id).toMatch(/^querykit_\d+$/)
+    expect(explain).toEqual({ sql: `EXPLAIN PLAN SET STATEMENT_ID = '${id}' FOR SELECT * FROM users WHERE email = ?`, bindings: [] })
+    expect(read.sql).toBe('SELECT id "id", parent_id "parent_id", operation "operation", options "options", object_name "object_name", object_type "object_type", cardinality "cardinality", cost "cost" FROM plan_table WHERE statement_id = ? ORDER BY id')
+    expect(cleanup).toEqual({ sql: 'DELETE FROM plan_table WHERE statement_id = ?', bindings: [id] })
+    expect(plan.nodes).toEqual([{ operation: 'SELECT STATEMENT', rows: 1, cost: 3, fullScan: false, children: [
+      { operation: 'TABLE ACCESS BY INDEX ROWID', table: 'USERS', rows: 1, cost: 2, fullScan: false, children: [
+        { operation: 'INDEX RANGE SCAN', index: 'USERS_EMAIL_IDX', rows: 1, cost: 1, fullScan: false, children: [] },
+      ] },
+      { operation: 'TABLE ACCESS FULL', table: 'AUDIT', rows: 900, cost: 12, fullScan: true, children: [] },
+    ] }])
+    expect(plan.fullScans).toEqual(['AUDIT'])
+    await expect(byEmail().explain({ analyze: true })).rejects.toThrow('EXPLAIN ANALYZE is not supported on oracle')
+  })
+
+  it('turns SHOWPLAN off and releases the session when the plan statement fails', async () => {
+    const exec = new SessionExec('mssql', [])
+    exec.session.executeQuery = async (sql: string, bindings: any[] = []) => {
+      exec.session.calls.push({ sql, bindings })
+      if (sql.startsWith('SELECT')) throw new Error('Invalid object name')
+      return { data: [] }
+    }
+    setDefaultExecutor(exec as any)
+    await expect(byEmail().explain()).rejects.toThrow('Invalid object name')
+    expect(exec.session.calls.map(c => c.sql)).toEqual(['SET SHOWPLAN_XML ON', 'SELECT * FROM users WHERE email = ?', 'SET SHOWPLAN_XML OFF'])
+    expect(exec.rolledBack).toBe(true)
+  })
+})
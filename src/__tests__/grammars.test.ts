@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+import { getGrammar, registerGrammar, SqliteGrammar, MysqlGrammar } from '../grammars'
+import { eventManager } from '../event-manager'
+import { runSeed } from '../seed'
+
+const dialects = ['sqlite', 'postgres', 'mysql', 'mssql', 'oracle'] as const
+
+class RecordingExec {
+  writes: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.writes.push({ sql, bindings }); return { data: [], affectedRows: 1 } }
+}
+
+describe.each(dialects)('%s grammar', (dialect) => {
+  let exec: RecordingExec
+  beforeEach(() => { exec = new RecordingExec(dialect); setDefaultExecutor(exec as any) })
+
+  it('compiles limit, offset and pagination', () => {
+    expect(new QueryBuilder('users').where('active', '=', true).limit(5).toSql()).toMatchSnapshot()
+    expect(new QueryBuilder('users').orderBy('id', 'DESC').paginate(3, 20).toSql()).toMatchSnapshot()
+    expect(new QueryBuilder('users').offset(10).toSql()).toMatchSnapshot()
+  })
+
+  it('compiles unions with paging applied to the whole result', () => {
+    const q = new QueryBuilder('users').select(['id']).where('a', '=', 1)
+      .union(new QueryBuilder('admins').select(['id']).where('b', '=', 2))
+      .limit(10)
+    expect(q.toSql()).toMatchSnapshot()
+  })
+
+  it('compiles writes and converts boolean bindings for the driver', async () => {
+    await new QueryBuilder('users').insert({ name: 'a', active: true }).make()
+    await new QueryBuilder('users').where('id', '=', 1).update({ active: false }).make()
+    await new QueryBuilder('users').where('id', '=', 1).increment('logins').make()
+    await new QueryBuilder('users').where('id', '=', 1).delete().make()
+    expect(exec.writes).toMatchSnapshot()
+  })
+
+  it('compiles multi-row inserts', async () => {
+    await new QueryBuilder('users').insert([{ name: 'a', age: 1 }, { name: 'b', age: 2 }]).make()
+    expect(exec.writes).toMatchSnapshot()
+  })
+
+  it('compiles upserts and insertOrIgnore', async () => {
+    await new QueryBuilder('users').upsert([{ email: 'a@x', name: 'a' }, { email: 'b@x', name: 'b' }], { conflict: ['email'] }).make()
+    await new QueryBuilder('users').insertOrIgnore({ email: 'a@x', name: 'a' }, { conflict: ['email'] }).make()
+    expect(exec.writes).toMatchSnapshot()
+  })
+
+  it('uses the dialect boolean literal and concatenation', () => {
+    const grammar = getGrammar(dialect)
+    expect([grammar.compileBoolean(true), grammar.compileBoolean(false), grammar.compileConcat(["'%'", '?', "'%'"])]).toMatchSnapshot()
+    expect(new QueryBuilder('docs').whereJsonContains('tags', 'x').toSql().sql).toMatchSnapshot()
+  })
+})
+
+describe('registerGrammar', () => {
+  it('replaces the compiler used for a dialect', () => {
+    class ConcatFunctionGrammar extends SqliteGrammar {
+      compileConcat(parts: string[]) { return `CONCAT(${parts.join(', ')})` }
+    }
+    const original = getGrammar('sqlite')
+    registerGrammar('sqlite', new ConcatFunctionGrammar())
+    try {
+      expect(getGrammar('sqlite').compileConcat(['a', 'b'])).toBe('CONCAT(a, b)')
+    } finally {
+      registerGrammar('sqlite', original)
+    }
+  })
+
+  it('lets MySQL 8 upserts read from the row alias instead of VALUES()', () => {
+    class Mysql8Grammar extends MysqlGrammar {
+      protected upsertRowAlias = true
+    }
+    expect(getGrammar('mysql').compileUpsert('t', ['id', 'name'], [[1, 'a']], ['id'], ['name']).sql)
+      .toBe('INSERT INTO t (id, name) VALUES (?, ?) ON DUPLICATE KEY UPDATE name = VALUES(name)')
+    expect(new Mysql8Grammar().compileUpsert('t', ['id', 'name'], [[1, 'a'], [2, 'b']], ['id'], ['name']).sql)
+      .toBe('INSERT INTO t (id, name) VALUES (?, ?), (?, ?) AS new ON DUPLICATE KEY UPDATE name = new.name')
+  })
+})
+
+describe('batch insert', () => {
+  let exec: RecordingExec
+  const use = (dialect: string) => { exec = new RecordingExec(dialect); setDefaultExecutor(exec as any) }
+
+  it('chunks rows to stay under the bind-parameter limit and sums changes', async () => {
+    use('sqlite')
+    exec.executeQuery = async (sql: string, bindings: any[] = []) => { exec.writes.push({ sql, bindings }); return { data: [], affectedRows: bindings.length / 2 } }
+    const rows = Array.from({ length: 600 }, (_, i) => ({ id: i, name: `u${i}` }))
+    const result = await new QueryBuilder('users').insert(rows).make()
+    expect(exec.writes.map(w => w.bindings.length)).toEqual([998, 202])
+    expect(result.changes).toBe(600)
+  })
+
+  it('caps sql server at 1000 rows and oracle uses INSERT ALL', async () => {
+    use('mssql')
+    await new QueryBuilder('t').insert(Array.from({ length: 1500 }, (_, i) => ({ id: i }))).make()
+    expect(exec.writes.map(w => w.bindings.length)).toEqual([1000, 500])
+    use('mssql')
+    await new QueryBuilder('t').insert(Array.from({ length: 700 }, (_, i) => ({ id: i, a: i, b: i }))).make()
+    expect(exec.writes.map(w => w.bindings.length)).toEqual([2097, 3])
+    use('oracle')
+    await new QueryBuilder('t').insert([{ id: 1 }, { id: 2 }]).make()
+    expect(exec.writes[0].sql).toBe('INSERT ALL INTO t (id) VALUES (?) INTO t (id) VALUES (?) SELECT 1 FROM DUAL')
+  })
+
+  it('splits rows with different columns into separate statements', async () => {
+    use('postgres')
+    await new QueryBuilder('t').insert([{ a: 1, b: 2 }, { b: 3, a: 4 }, { a: 5 }]).make()
+    expect(exec.writes).toEqual([
+      { sql: 'INSERT INTO t (a, b) VALUES (?, ?), (?, ?)', bindings: [1, 2, 4, 3] },
+      { sql: 'INSERT INTO t (a) VALUES (?)', bindings: [5] },
+    ])
+  })
+
+  it('fires trigger events per row by default or once per batch', async () => {
+    use('sqlite')
+    const seen: any[] = []
+    const offBefore = eventManager.on('querykit:trigger:BEFORE:INSERT:events_t', (ctx: any) => seen.push(['BEFORE', ctx.data]))
+    const offAfter = eventManager.on('querykit:trigger:AFTER:INSERT:events_t', (ctx: any) => seen.push(['AFTER', ctx.data, ctx.result.changes]))
+    try {
+      await new QueryBuilder('events_t').insert([{ id: 1 }, { id: 2 }]).make()
+      expect(seen.map(e => e[0])).toEqual(['BEFORE', 'BEFORE', 'AFTER', 'AFTER'])
+      seen.length = 0
+      await new QueryBuilder('events_t').insert([{ id: 1 }, { id: 2 }], { events: 'batch' }).make()
+      expect(seen).toEqual([['BEFORE', [{ id: 1 }, { id: 2 }]], ['AFTER', [{ id: 1 }, { id: 2 }], 1]])
+    } finally {
+      offBefore(); offAfter()
+    }
+  })
+})
+
+describe('upsert', () => {
+  let exec: RecordingExec
+  const use = (dialect: string) => { exec = new RecordingExec(dialect); setDefaultExecutor(exec as any) }
+
+  it('updates only the requested columns and batches like insert', async () => {
+    use('sqlite')
+    const rows = Array.from({ length: 400 }, (_, i) => ({ sku: `s${i}`, qty: i, name: 'x' }))
+    await new QueryBuilder('stock').upsert(rows, { conflict: ['sku'], update: ['qty'] }).make()
+    expect(exec.writes.map(w => w.bindings.length)).toEqual([999, 201])
+    expect(exec.writes[0].sql).toMatch(/ON CONFLICT \(sku\) DO UPDATE SET qty = excluded\.qty$/)
+  })
+
+  it('insertOrIgnore without conflict columns works on every dialect', async () => {
+    use('mysql')
+    await new QueryBuilder('t').insertOrIgnore({ id: 1 }).make()
+    expect(exec.writes[0].sql).toBe('INSERT IGNORE INTO t (id) VALUES (?)')
+    use('mssql')
+    await new QueryBuilder('t').insertOrIgnore([{ id: 1, name: 'a' }, { id: 2, name: 'b' }]).make()
+    expect(exec.writes[0].sql).toBe('MERGE INTO t WITH (HOLDLOCK) AS target USING (VALUES (?, ?), (?, ?)) AS source (id, name) ON target.id = source.id WHEN NOT MATCHED THEN INSERT (id, name) VALUES (source.id, source.name);')
+    use('oracle')
+    await new QueryBuilder('t').insertOrIgnore({ id: 1, name: 'a' }).make()
+    expect(exec.writes[0].sql).toBe('MERGE INTO t target USING (SELECT ? id, ? name FROM DUAL) source ON (target.id = source.id) WHEN NOT MATCHED THEN INSERT (id, name) VALUES (source.id, source.name)')
+  })
+
+  it('insertOrIgnore on SQL Server and Oracle falls back to a plain INSERT when rows carry no key', async () => {
+    use('mssql')
+    await new QueryBuilder('t').insertOrIgnore({ name: 'a' }).make()
+    expect(exec.writes[0].sql).toBe('INSERT INTO t (name) VALUES (?)')
+    use('oracle')
+    await new QueryBuilder('t').insertOrIgnore({ name: 'a' }).make()
+    expect(exec.writes[0].sql).toBe('INSERT INTO t (name) VALUES (?)')
+  })
+
+  it('runSeed upsert and ignoreDuplicates run a single native statement', async () => {
+    use('postgres')
+    await runSeed('roles', [{ name: 'admin', level: 1 }, { name: 'user', level: 2 }], { uniqueBy: ['name'], upsert: true })
+    await runSeed('roles', [{ name: 'admin', level: 1 }], { uniqueBy: ['name'], ignoreDuplicates: true })
+    expect(exec.writes.map(w => w.sql)).toEqual([
+      'INSERT INTO roles (name, level) VALUES (?, ?), (?, ?) ON CONFLICT (name) DO UPDATE SET level = excluded.level',
+      'INSERT INTO roles (name, level) VALUES (?, ?) ON CONFLICT (name) DO NOTHING',
+    ])
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { setDefaultExecutor, setIdentifierQuoting } from '../config'
+import { QueryBuilder } from '../query-builder'
+import { migration, ColumnType, type MigrationBuilder } from '../migration-dsl'
+import { getGrammar } from '../grammars'
+
+class RecordingExec {
+  writes: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.writes.push({ sql, bindings }); return { data: [], affectedRows: 1 } }
+}
+
+describe('identifier quoting', () => {
+  let exec: RecordingExec
+  const use = (dialect: string) => { exec = new RecordingExec(dialect); setDefaultExecutor(exec as any) }
+  beforeEach(() => use('sqlite'))
+  afterEach(() => setIdentifierQuoting('auto'))
+
+  it.each([
+    ['sqlite', 'SELECT "order".* FROM "order" WHERE "user" = ? ORDER BY "group" ASC'],
+    ['postgres', 'SELECT "order".* FROM "order" WHERE "user" = ? ORDER BY "group" ASC'],
+    ['mysql', 'SELECT `order`.* FROM `order` WHERE `user` = ? ORDER BY `group` ASC'],
+    ['mssql', 'SELECT [order].* FROM [order] WHERE [user] = ? ORDER BY [group] ASC'],
+    ['oracle', 'SELECT "ORDER".* FROM "ORDER" WHERE "USER" = ? ORDER BY "GROUP" ASC'],
+  ])('quotes reserved words with the %s quote style', (dialect, expected) => {
+    use(dialect)
+    const { sql } = new QueryBuilder('order').select(['order.*']).where('user', '=', 1).orderBy('group').toSql()
+    expect(sql).toBe(expected)
+  })
+
+  it('leaves plain names untouched and handles table.column, aliases and expressions', () => {
+    const { sql } = new QueryBuilder('orders')
+      .select(['o.id as order', 'u.name', 'COUNT(*) as total'])
+      .innerJoinOn('users u', 'u.id', 'o.user_id')
+      .whereColumn('o.created_at', '>', 'u.created_at')
+      .groupBy(['o.id'])
+      .toSql()
+    expect(sql).toBe('SELECT o.id as "order", u.name, COUNT(*) as total FROM orders INNER JOIN users u ON u.id = o.user_id WHERE o.created_at > u.created_at GROUP BY o.id')
+  })
+
+  it.each(['sqlite', 'postgres', 'mysql', 'mssql', 'oracle'])('passes expressions in WHERE and ORDER BY through unquoted on %s', dialect => {
+    use(dialect)
+    const { sql } = new QueryBuilder('users').select(['id']).where('DATE(created_at)', '=', '2024-01-01').orderBy('LOWER(name)').toSql()
+    expect(sql).toContain('WHERE DATE(created_at) = ?')
+    expect(sql).toContain('ORDER BY LOWER(name) ASC')
+    setIdentifierQuoting('strict')
+    expect(() => new QueryBuilder('users').orderBy('LOWER(name)').toSql()).toThrow('Invalid identifier: LOWER(name)')
+  })
+
+  it('keeps expressions unquoted in the ORDER BY of scoped writes', async () => {
+    use('mysql')
+    await new QueryBuilder('users').where('active', '=', 1).orderBy('LOWER(name)').limit(1).update({ flag: 1 }).make()
+    expect(exec.writes[0].sql).toBe('UPDATE users SET flag = ? WHERE active = ? ORDER BY LOWER(name) ASC LIMIT ?')
+  })
+
+  it('quotes injected keys passed to update() instead of concatenating them', async () => {
+    use('mysql')
+    await new QueryBuilder('users').where('id', '=', 1).update({ 'name = 1, role': 'x', 'a`b': 2 }).make()
+    expect(exec.writes[0].sql).toBe('UPDATE users SET `name = 1, role` = ?, `a``b` = ? WHERE id = ?')
+    use('mssql')
+    await new QueryBuilder('users').insert({ 'x]; DROP TABLE users; --': 1 }).make()
+    expect(exec.writes[0].sql).toBe('INSERT INTO users ([x]]; DROP TABLE users; --]) VALUES (?)')
+  })
+
+  it('always mode quotes every identifier and folds case like the unquoted name would', () => {
+    setIdentifierQuoting('always')
+    use('postgres')
+    expect(new QueryBuilder('Users').select(['id']).where('Email', '=', 'a').toSql().sql)
+      .toBe('SELECT "id" FROM "users" WHERE "email" = ?')
+    use('oracle')
+    expect(new QueryBuilder('users').select(['id']).toSql().sql).toBe('SELECT "ID" FROM "USERS"')
+  })
+
+  it('strict mode rejects identifiers that are not plain names', async () => {
+    setIdentifierQuoting('strict')
+    expect(() => new QueryBuilder('users').where('id; --', '=', 1).toSql()).toThrow('Invalid identifier: id; --')
+    expect(() => new QueryBuilder('users').select(['COUNT(*)']).toSql()).toThrow('Invalid identifier')
+    await expect(new QueryBuilder('users').where('id', '=', 1).update({ 'a b': 1 }).make()).rejects.toThrow('Invalid identifier: a b')
+    expect(new QueryBuilder('users').select(['u.id as uid']).where('u.order', '=', 1).toSql().sql)
+      .toBe('SELECT u.id as uid FROM users WHERE u."order" = ?')
+  })
+
+  it('none mode keeps the legacy verbatim output', () => {
+    setIdentifierQuoting('none')
+    expect(new QueryBuilder('order').where('user', '=', 1).toSql().sql).toBe('SELECT * FROM order WHERE user = ?')
+  })
+
+  it('quotes names in migration DDL', async () => {
+    const statements: string[] = []
+    const step = migration((b: MigrationBuilder) => {
+      b.createTable('order', {
+        id: { type: ColumnType.Int, primaryKey: true },
+        user: { type: ColumnType.Int, references: { table: 'user', column: 'key' } },
+      })
+      b.createIndex('order', ['user'])
+    })
+    await step({ query: async (sql: string) => { statements.push(sql); return { data: [] } }, dialect: 'mysql' } as any)
+    expect(statements).toEqual([
+      'CREATE TABLE `order` (id INT PRIMARY KEY, `user` INT REFERENCES `user` (`key`))',
+      'CREATE INDEX IF NOT EXISTS order_user_idx ON `order` (`user`)',
+    ])
+  })
+
+  it('exposes the grammar helpers for custom SQL', () => {
+    expect(getGrammar('mssql').wrapTable('dbo.order as o')).toBe('dbo.[order] as o')
+    expect(getGrammar('postgres').quoteIdentifier('we"ird')).toBe('"we""ird"')
+  })
+
+  it('drops AS from Oracle table aliases', () => {
+    use('oracle')
+    expect(new QueryBuilder('users as u').select(['u.id']).innerJoin('orders AS o', 'o.user_id = u.id').toSql().sql)
+      .toBe('SELECT u.id FROM users u INNER JOIN orders o ON o.user_id = u.id')
+    expect(getGrammar('oracle').wrapTable('app.order as o', 'none')).toBe('app.order o')
+    expect(getGrammar('oracle').wrapTable('order as o')).toBe('"ORDER" o')
+  })
+})
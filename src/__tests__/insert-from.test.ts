@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+import { table } from '../table'
+import { eventManager } from '../event-manager'
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return { data: [{ id: 1 }, { id: 2 }], affectedRows: 2 } }
+}
+
+const use = (dialect: string) => { const exec = new RecordingExec(dialect); setDefaultExecutor(exec as any); return exec }
+const closed = () => table('orders').select(['id', 'total']).where('status', '=', 'closed').where('total', '>', 10)
+
+describe('insertFrom', () => {
+  it.each([
+    ['sqlite', 'INSERT INTO archive (id, total) SELECT id, total FROM orders WHERE status = ? AND total > ?'],
+    ['postgres', 'INSERT INTO archive (id, total) SELECT id, total FROM orders WHERE status = ? AND total > ?'],
+    ['mysql', 'INSERT INTO archive (id, total) SELECT id, total FROM orders WHERE status = ? AND total > ?'],
+    ['mssql', 'INSERT INTO archive (id, total) SELECT id, total FROM orders WHERE status = ? AND total > ?'],
+    ['oracle', 'INSERT INTO archive (id, total) SELECT id, total FROM orders WHERE status = ? AND total > ?'],
+  ])('compiles a single INSERT ... SELECT on %s and reports changes', async (dialect, expected) => {
+    const exec = use(dialect)
+    const result = await table('archive').insertFrom(['id', 'total'], closed()).make()
+    expect(exec.calls).toEqual([{ sql: expected, bindings: ['closed', 10] }])
+    expect(result.changes).toBe(2)
+  })
+
+  it('merges CTE, source and paging bindings in placeholder order', async () => {
+    const exec = use('postgres')
+    const source = new QueryBuilder('recent').with('recent', new QueryBuilder('orders').where('total', '>', 100)).select(['id']).where('status', '=', 'paid').limit(5)
+    await new QueryBuilder('archive').with('skip', new QueryBuilder('bans').select(['order_id']).where('kind', '=', 'fraud'))
+      .insertFrom(['id'], source.whereRaw('id NOT IN (SELECT order_id FROM skip)')).make()
+    expect(exec.calls[0]).toEqual({
+      sql: 'WITH skip AS (SELECT order_id FROM bans WHERE kind = ?) INSERT INTO archive (id) WITH recent AS (SELECT * FROM orders WHERE total > ?) SELECT id FROM recent WHERE status = ? AND id NOT IN (SELECT order_id FROM skip) LIMIT ?',
+      bindings: ['fraud', 100, 'paid', 5],
+    })
+  })
+
+  it('hoists the source CTEs before the INSERT on mssql', async () => {
+    const exec = use('mssql')
+    const source = new QueryBuilder('recent').with('recent', new QueryBuilder('orders').where('total', '>', 100)).select(['id']).where('status', '=', 'paid')
+    await new QueryBuilder('archive').insertFrom(['id'], source).returning(['id']).make()
+    expect(exec.calls[0]).toEqual({
+      sql: 'WITH recent AS (SELECT * FROM orders WHERE total > ?) INSERT INTO archive (id) OUTPUT INSERTED.id SELECT id FROM recent WHERE status = ?',
+      bindings: [100, 'paid'],
+    })
+    expect(source.toSql().sql).toBe('WITH recent AS (SELECT * FROM orders WHERE total > ?) SELECT id FROM recent WHERE status = ?')
+  })
+
+  it('returns rows where the dialect supports it and rejects otherwise', async () => {
+    const exec = use('postgres')
+    const result = await table('archive').insertFrom(['id', 'total'], closed()).returning(['id']).make()
+    expect(exec.calls[0].sql).toBe('INSERT INTO archive (id, total) SELECT id, total FROM orders WHERE status = ? AND total > ? RETURNING id')
+    expect(result.rows).toEqual([{ id: 1 }, { id: 2 }])
+    use('mysql')
+    await expect(table('archive').insertFrom(['id'], closed()).returning(['id']).make()).rejects.toThrow('MySQL cannot return rows from INSERT ... SELECT')
+    use('oracle')
+    await expect(table('archive').insertFrom(['id'], closed()).returning(['id']).make()).rejects.toThrow('Oracle INSERT ... SELECT does not support RETURNING')
+  })
+
+  it('fires one BEFORE/AFTER INSERT pair with the columns and compiled select', async () => {
+    use('sqlite')
+    const seen: any[] = []
+    const offBefore = eventManager.on('querykit:trigger:BEFORE:INSERT:archive', (p: any) => seen.push(['BEFORE', p.data, p.result]))
+    const offAfter = eventManager.on('querykit:trigger:AFTER:INSERT:archive', (p: any) => seen.push(['AFTER', p.data, p.result?.changes]))
+    await table('archive').insertFrom(['id', 'total'], closed()).make()
+    offBefore(); offAfter()
+    const data = { columns: ['id', 'total'], select: { sql: 'SELECT id, total FROM orders WHERE status = ? AND total > ?', bindings: ['closed', 10] } }
+    expect(seen).toEqual([['BEFORE', data, undefined], ['AFTER', data, 2]])
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return { data: [{ total: 1 }], affectedRows: 1 } }
+}
+
+const use = (dialect: string) => { const exec = new RecordingExec(dialect); setDefaultExecutor(exec as any); return exec }
+const queued = () => new QueryBuilder('jobs').where('status', '=', 'queued').orderBy('id').limit(5)
+
+describe('row locks', () => {
+  it.each([
+    ['postgres', 'SELECT * FROM jobs WHERE status = ? ORDER BY id ASC LIMIT ? FOR UPDATE', 'SELECT * FROM jobs WHERE status = ? ORDER BY id ASC LIMIT ? FOR UPDATE SKIP LOCKED'],
+    ['mysql', 'SELECT * FROM jobs WHERE status = ? ORDER BY id ASC LIMIT ? FOR UPDATE', 'SELECT * FROM jobs WHERE status = ? ORDER BY id ASC LIMIT ? FOR UPDATE SKIP LOCKED'],
+    ['mssql', 'SELECT TOP (?) * FROM jobs WITH (UPDLOCK) WHERE status = ? ORDER BY id ASC', 'SELECT TOP (?) * FROM jobs WITH (UPDLOCK, READPAST) WHERE status = ? ORDER BY id ASC'],
+    ['sqlite', 'SELECT * FROM jobs WHERE status = ? ORDER BY id ASC LIMIT ?', 'SELECT * FROM jobs WHERE status = ? ORDER BY id ASC LIMIT ?'],
+  ])('compiles forUpdate and skipLocked on %s', (dialect, locked, skipping) => {
+    use(dialect)
+    expect(queued().forUpdate().toSql().sql).toBe(locked)
+    expect(queued().forUpdate().skipLocked().toSql().sql).toBe(skipping)
+  })
+
+  it.each([
+    ['postgres', 'SELECT * FROM stock WHERE sku = ? FOR SHARE NOWAIT'],
+    ['mysql', 'SELECT * FROM stock WHERE sku = ? FOR SHARE NOWAIT'],
+    ['mssql', 'SELECT * FROM stock WITH (REPEATABLEREAD, NOWAIT) WHERE sku = ?'],
+    ['oracle', null],
+    ['sqlite', 'SELECT * FROM stock WHERE sku = ?'],
+  ])('compiles forShare with noWait on %s', (dialect, expected) => {
+    use(dialect)
+    const q = new QueryBuilder('stock').where('sku', '=', 'A1').forShare().noWait()
+    if (expected === null) expect(() => q.toSql()).toThrow('Oracle does not support shared row locks; use forUpdate()')
+    else expect(q.toSql().sql).toBe(expected)
+  })
+
+  it('oracle locks for update but not together with a row limit', () => {
+    use('oracle')
+    expect(new QueryBuilder('jobs').where('id', '=', 1).forUpdate().noWait().toSql().sql).toBe('SELECT * FROM jobs WHERE id = ? FOR UPDATE NOWAIT')
+    expect(new QueryBuilder('jobs').where('id', '=', 1).skipLocked().toSql().sql).toBe('SELECT * FROM jobs WHERE id = ? FOR UPDATE SKIP LOCKED')
+    expect(() => queued().forUpdate().toSql()).toThrow('Oracle does not support FOR UPDATE with a row limit')
+  })
+
+  it('keeps the mode and wait policy independent of call order and across clones', () => {
+    use('postgres')
+    expect(new QueryBuilder('t').noWait().forShare().toSql().sql).toBe('SELECT * FROM t FOR SHARE NOWAIT')
+    expect(new QueryBuilder('t').sharedLock().skipLocked().toSql().sql).toBe('SELECT * FROM t FOR SHARE SKIP LOCKED')
+    const base = new QueryBuilder('t').forUpdate()
+    expect(base.clone().skipLocked().toSql().sql).toBe('SELECT * FROM t FOR UPDATE SKIP LOCKED')
+    expect(base.toSql().sql).toBe('SELECT * FROM t FOR UPDATE')
+  })
+
+  it('places the SQL Server hint on the base table before joins', () => {
+    use('mssql')
+    const { sql } = new QueryBuilder('jobs j').innerJoin('queues q', 'q.id = j.queue_id').where('q.name', '=', 'mail').forUpdate().skipLocked().toSql()
+    expect(sql).toBe('SELECT * FROM jobs j WITH (UPDLOCK, READPAST) INNER JOIN queues q ON q.id = j.queue_id WHERE q.name = ?')
+  })
+
+  it('does not lock the count query of paginateWithMeta nor the key subquery of writes', async () => {
+    const exec = use('postgres')
+    await new QueryBuilder('jobs').where('status', '=', 'queued').forUpdate().paginateWithMeta(1, 10)
+    expect(exec.calls.map(c => c.sql)).toEqual([
+      'SELECT count(*) as total FROM jobs WHERE status = ?',
+      'SELECT * FROM jobs WHERE status = ? LIMIT ? OFFSET ? FOR UPDATE',
+    ])
+    await new QueryBuilder('jobs').where('status', '=', 'queued').orderBy('id').limit(2).forUpdate().update({ status: 'running' }).make()
+    expect(exec.calls[2].sql).toBe('UPDATE jobs SET status = ? WHERE jobs.id IN (SELECT jobs.id FROM jobs WHERE status = ? ORDER BY id ASC LIMIT ?)')
+  })
+})
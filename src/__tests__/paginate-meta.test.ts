@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+import { simulationManager } from '../simulation-manager'
+
+vi.mock('../relations-resolver', async (orig) => {
+  const mod = await orig() as any
+  return { ...mod, attachRelations: async (_table: string, rows: any[]) => rows.map(r => ({ ...r, loaded: true })) }
+})
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any, private total: any = 42) {}
+  async executeQuery(sql: string, bindings: any[] = []) {
+    this.calls.push({ sql, bindings })
+    return { data: /count\(\*\)/.test(sql) ? [{ TOTAL: this.total }] : [{ id: 1 }, { id: 2 }] }
+  }
+}
+
+const use = (dialect: string, total?: any) => { const exec = new RecordingExec(dialect, total); setDefaultExecutor(exec as any); return exec }
+
+describe('paginateWithMeta()', () => {
+  afterEach(() => simulationManager.stop())
+
+  it('counts without ORDER BY, paging or eager loading and returns the metadata', async () => {
+    const exec = use('sqlite', '42')
+    const result = await new QueryBuilder<any>('orders').where('status', '=', 'paid').orderBy('id', 'DESC').limit(3).relationship().paginateWithMeta(2, 10)
+    expect(exec.calls).toEqual([
+      { sql: 'SELECT count(*) as total FROM orders WHERE status = ?', bindings: ['paid'] },
+      { sql: 'SELECT * FROM orders WHERE status = ? ORDER BY id DESC LIMIT ? OFFSET ?', bindings: ['paid', 10, 10] },
+    ])
+    expect(result).toEqual({ data: [{ id: 1, loaded: true }, { id: 2, loaded: true }], total: 42, perPage: 10, currentPage: 2, lastPage: 5 })
+  })
+
+  it('wraps GROUP BY and DISTINCT queries in a subquery count', async () => {
+    const exec = use('postgres')
+    await new QueryBuilder<any>('orders').select(['user_id', 'SUM(total) as amount']).groupBy(['user_id']).having('SUM(total)', '>', 100).orderBy('amount', 'DESC').paginateWithMeta()
+    await new QueryBuilder<any>('orders').select(['user_id']).distinct().paginateWithMeta()
+    expect(exec.calls[0]).toEqual({
+      sql: 'SELECT count(*) as total FROM (SELECT user_id, SUM(total) as amount FROM orders GROUP BY user_id HAVING SUM(total) > ?) querykit_count',
+      bindings: [100],
+    })
+    expect(exec.calls[2].sql).toBe('SELECT count(*) as total FROM (SELECT DISTINCT user_id FROM orders) querykit_count')
+  })
+
+  it('hoists CTEs out of the derived table', async () => {
+    const exec = use('mssql')
+    await new QueryBuilder<any>('recent').with('recent', new QueryBuilder('orders').where('total', '>', 5)).select(['user_id']).groupBy(['user_id']).paginateWithMeta(1, 5)
+    expect(exec.calls[0]).toEqual({
+      sql: 'WITH recent AS (SELECT * FROM orders WHERE total > ?) SELECT count(*) as total FROM (SELECT user_id FROM recent GROUP BY user_id) querykit_count',
+      bindings: [5],
+    })
+  })
+
+  it('normalizes the page arguments and reports at least one page', async () => {
+    use('sqlite', 0)
+    const result = await new QueryBuilder<any>('orders').paginateWithMeta(0, 0)
+    expect(result).toMatchObject({ total: 0, perPage: 25, currentPage: 1, lastPage: 1 })
+  })
+
+  it('counts virtual rows in simulation', async () => {
+    use('sqlite')
+    await simulationManager.start({ t: [{ id: 1, a: 1 }, { id: 2, a: 1 }, { id: 3, a: 2 }] })
+    const result = await new QueryBuilder<any>('t').where('a', '=', 1).paginateWithMeta(1, 1)
+    expect(result).toEqual({ data: [{ id: 1, a: 1 }], total: 2, perPage: 1, currentPage: 1, lastPage: 2 })
+  })
+})
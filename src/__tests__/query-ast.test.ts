@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+import { raw } from '../raw'
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return { data: [], affectedRows: 1 } }
+}
+
+const use = (dialect: string) => { const exec = new RecordingExec(dialect); setDefaultExecutor(exec as any); return exec }
+const roundTrip = (q: QueryBuilder<any>) => QueryBuilder.fromAST(JSON.parse(JSON.stringify(q.toAST())))
+
+const complex = () => new QueryBuilder('orders o')
+  .with('vip', new QueryBuilder('customers').select(['id']).where('tier', '=', 'gold'))
+  .select(['o.id', 'o.customer_id'])
+  .selectRaw('o.total * 2 AS doubled')
+  .selectSub(new QueryBuilder('items').select(['COUNT(*)']).whereRaw('items.order_id = o.id'), 'item_count')
+  .window('w', { partitionBy: ['o.customer_id'], orderBy: [{ column: 'o.created_at', direction: 'DESC' }], frame: { start: { preceding: 2 }, end: 'CURRENT ROW' } })
+  .selectWindow('lag', { column: 'o.total', window: 'w', default: 0, alias: 'prev' })
+  .leftJoin('customers c', 'c.id = o.customer_id')
+  .joinSub(new QueryBuilder('payments').select(['order_id']).where('status', '=', 'ok'), 'p', 'p.order_id = o.id', 'LEFT')
+  .where('o.status', '=', 'paid')
+  .where(q => q.whereIn('o.customer_id', new QueryBuilder('vip').select(['id'])).orWhereBetween('o.total', [10, 99]))
+  .whereNotNull('o.shipped_at')
+  .whereColumn('o.updated_at', '>', 'o.created_at')
+  .whereExists(new QueryBuilder('refunds').whereRaw('refunds.order_id = o.id AND refunds.amount > ?', [5]))
+  .whereRaw('o.created_at >= ?', [new Date('2026-01-02T03:04:05.000Z')])
+  .groupBy(['o.id', 'o.customer_id', 'o.total', 'o.created_at'])
+  .havingRaw('COUNT(*) > 0')
+  .orderBy('o.created_at', 'DESC')
+  .limit(20)
+  .offset(40)
+  .forUpdate()
+  .skipLocked()
+  .unionAll(new QueryBuilder('archived_orders').select(['id', 'customer_id']))
+
+describe('query AST', () => {
+  it('round-trips a complex query through JSON and compiles to the same SQL', () => {
+    use('postgres')
+    const original = complex()
+    const rebuilt = roundTrip(original)
+    expect(rebuilt.toSql()).toEqual(original.toSql())
+    expect(rebuilt.toAST()).toEqual(original.toAST())
+  })
+
+  it('is a documented, versioned tree of plain data', () => {
+    use('sqlite')
+    const ast = new QueryBuilder('users').select(['id']).selectRaw('UPPER(name) AS upper').where('id', 'IN', [1n, 2n] as any).whereNull('deleted_at').limit(5).toAST()
+    expect(ast).toEqual({
+      version: 1,
+      table: 'users',
+      select: ['id', { raw: 'UPPER(name) AS upper' }],
+      distinct: false,
+      aggregates: [],
+      joins: [],
+      where: [
+        { type: 'basic', logical: 'AND', column: 'id', operator: 'IN', value: [{ $bigint: '1' }, { $bigint: '2' }] },
+        { type: 'null', logical: 'AND', column: 'deleted_at', not: false },
+      ],
+      groupBy: [],
+      having: [],
+      orderBy: [],
+      limit: 5,
+      windows: [],
+      unions: [],
+      ctes: [],
+    })
+  })
+
+  it('restores raw, date, bigint and buffer values with their types', () => {
+    use('sqlite')
+    const at = new Date('2026-05-06T07:08:09.000Z')
+    const blob = Buffer.from([1, 2, 3])
+    const { bindings } = roundTrip(new QueryBuilder('t').where('at', '=', at).where('n', '=', 9007199254740993n as any).where('blob', '=', blob).where('x', '=', raw('NOW()') as any)).toSql()
+    expect(bindings[0]).toBeInstanceOf(Date)
+    expect(bindings[0].toISOString()).toBe(at.toISOString())
+    expect(bindings[1]).toBe(9007199254740993n)
+    expect(Buffer.isBuffer(bindings[2]) && bindings[2].equals(blob)).toBe(true)
+    expect(bindings[3].toSQL()).toBe('NOW()')
+  })
+
+  it('keeps plain objects with $-prefixed keys as data', async () => {
+    const exec = use('sqlite')
+    const at = new Date('2026-05-06T07:08:09.000Z')
+    const payload = { $raw: '1); DROP TABLE users; --', nested: { $date: 'x', at } }
+    await roundTrip(new QueryBuilder('events').insert({ payload })).make()
+    expect(exec.calls[0].bindings[0]).toEqual(payload)
+    expect(exec.calls[0].bindings[0].nested.at).toBeInstanceOf(Date)
+    const { bindings } = roundTrip(new QueryBuilder('t').where('meta', '=', { $raw: '1 OR 1=1' } as any).where('d', '=', { $date: 'x' } as any).where('q', '=', { $query: {}, $object: 1 } as any)).toSql()
+    expect(bindings).toEqual([{ $raw: '1 OR 1=1' }, { $date: 'x' }, { $query: {}, $object: 1 }])
+    expect(new QueryBuilder('t').where('meta', '=', { $bigint: '1' } as any).toAST().where[0].value).toEqual({ $object: { $bigint: '1' } })
+  })
+
+  it('carries pending writes, including insertFrom subqueries, returning and banks', async () => {
+    const exec = use('postgres')
+    const update = new QueryBuilder('users').bank('main').where('id', '=', 7).update({ seen_at: new Date('2026-01-01T00:00:00.000Z') }).returning(['id'], { key: 'uid' })
+    const copy = new QueryBuilder('archive').insertFrom(['id', 'total'], new QueryBuilder('orders').select(['id', 'total']).where('status', '=', 'closed'))
+    const upsert = new QueryBuilder('tags').upsert([{ slug: 'a' }], { conflict: ['slug'], events: 'batch' })
+    for (const q of [update, copy, upsert]) await roundTrip(q).make()
+    for (const q of [update, copy, upsert]) await q.make()
+    expect(exec.calls.slice(0, 3)).toEqual(exec.calls.slice(3))
+    expect(exec.calls[0].bindings[0]).toBeInstanceOf(Date)
+  })
+
+  it('returns independent state and keeps the relations flag and memory limit', () => {
+    use('sqlite')
+    const original = new QueryBuilder('users').where('a', '=', 1).relationship().memoryLimit({ bytes: 1024, strategy: 'paginate', key: 'id' })
+    const ast = original.toAST()
+    expect(ast.relations).toBe(true)
+    expect(ast.memoryLimit).toEqual({ bytes: 1024, strategy: 'paginate', key: 'id' })
+    const rebuilt = QueryBuilder.fromAST(ast)
+    rebuilt.where('b', '=', 2)
+    expect(original.toSql().sql).toBe('SELECT * FROM users WHERE a = ?')
+    expect(QueryBuilder.fromAST(ast).toAST()).toEqual(ast)
+  })
+
+  it('rejects unknown versions and callbacks it cannot serialize', () => {
+    expect(() => QueryBuilder.fromAST({ version: 2 } as any)).toThrow('Unsupported query AST version: 2')
+    expect(() => new QueryBuilder('u').relationship(rel => rel('posts')).toAST()).toThrow('toAST() cannot serialize a relationship() selector function')
+    expect(() => new QueryBuilder('u').memoryLimit({ bytes: 10, onLimitReached: () => {} }).toAST()).toThrow('toAST() cannot serialize the onLimitReached callback of memoryLimit()')
+    expect(() => new QueryBuilder('u').where('x', '=', new Map() as any).toAST()).toThrow('Cannot serialize a Map value into a query AST')
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+import { OutBind } from '../grammars'
+
+const oracleCalls: { sql: string; binds: any[] }[] = []
+
+;(globalThis as any).__vitest_mocks__ = {
+  pg: {
+    Pool: function(this: any) {
+      return { query: async ({ text }: any) => ({ rows: /RETURNING/.test(text) ? [{ id: 41, created_at: 'now' }, { id: 42, created_at: 'now' }] : [], rowCount: 2 }) }
+    }
+  },
+  oracledb: {
+    OUT_FORMAT_OBJECT: 1,
+    BIND_OUT: 3003,
+    STRING: 2001,
+    NUMBER: 2010,
+    createPool: async () => ({
+      getConnection: async () => ({
+        execute: async (sql: string, binds: any[]) => { oracleCalls.push({ sql, binds }); return { rowsAffected: 1, outBinds: binds.filter(b => b?.dir === 3003).map(b => [b.type === 2010 ? 7 : 'Ana']) } },
+        close: async () => {},
+      })
+    })
+  },
+}
+
+import { PostgresExecutor } from '../adapters/postgresql'
+import { OracleExecutor } from '../adapters/oracle'
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any, private respond: (sql: string) => any = () => ({ data: [{ id: 1 }], affectedRows: 1 })) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return this.respond(sql) }
+}
+
+describe('returning()', () => {
+  it.each([
+    ['sqlite', 'INSERT INTO users (name) VALUES (?) RETURNING id, name', 'UPDATE users SET name = ? WHERE id = ? RETURNING *', 'DELETE FROM users WHERE id = ? RETURNING id'],
+    ['postgres', 'INSERT INTO users (name) VALUES (?) RETURNING id, name', 'UPDATE users SET name = ? WHERE id = ? RETURNING *', 'DELETE FROM users WHERE id = ? RETURNING id'],
+    ['mssql', 'INSERT INTO users (name) OUTPUT INSERTED.id, INSERTED.name VALUES (?)', 'UPDATE users SET name = ? OUTPUT INSERTED.* WHERE id = ?', 'DELETE FROM users OUTPUT DELETED.id WHERE id = ?'],
+  ])('compiles %s writes with the native clause', async (dialect, insert, update, del) => {
+    const exec = new RecordingExec(dialect)
+    setDefaultExecutor(exec as any)
+    const res = await new QueryBuilder('users').insert({ name: 'a' }).returning(['id', 'name']).make()
+    await new QueryBuilder('users').where('id', '=', 1).update({ name: 'b' }).returning().make()
+    await new QueryBuilder('users').where('id', '=', 1).delete().returning(['id']).make()
+    expect(exec.calls.map(c => c.sql)).toEqual([insert, update, del])
+    expect(res).toEqual({ changes: 1, lastInsertRowid: 1, rows: [{ id: 1 }] })
+  })
+
+  it('sql server MERGE outputs the inserted rows', async () => {
+    const exec = new RecordingExec('mssql')
+    setDefaultExecutor(exec as any)
+    await new QueryBuilder('users').upsert({ email: 'a', name: 'A' }, { conflict: ['email'] }).returning(['id']).make()
+    expect(exec.calls[0].sql).toMatch(/VALUES \(source\.email, source\.name\) OUTPUT INSERTED\.id;$/)
+  })
+
+  it('oracle uses RETURNING INTO one row at a time', async () => {
+    const exec = new RecordingExec('oracle')
+    setDefaultExecutor(exec as any)
+    await new QueryBuilder('users').insert([{ name: 'a' }, { name: 'b' }]).returning(['id']).make()
+    expect(exec.calls.map(c => c.sql)).toEqual([
+      'INSERT INTO users (name) VALUES (?) RETURNING id INTO ?',
+      'INSERT INTO users (name) VALUES (?) RETURNING id INTO ?',
+    ])
+    expect(exec.calls[0].bindings).toEqual(['a', new OutBind('id', 'number')])
+    await expect(new QueryBuilder('users').insert({ name: 'a' }).returning().make()).rejects.toThrow('Oracle RETURNING requires explicit columns')
+  })
+
+  it('mysql re-selects inserted rows by auto-increment id and updated rows by key', async () => {
+    const exec = new RecordingExec('mysql', sql => {
+      if (sql.startsWith('INSERT')) return [[], { affectedRows: 2, insertId: 10 }]
+      if (sql.startsWith('UPDATE')) return [[], { affectedRows: 1 }]
+      if (sql.startsWith('SELECT id FROM')) return { data: [{ id: 5 }] }
+      return { data: [{ id: 10, name: 'a' }, { id: 11, name: 'b' }] }
+    })
+    setDefaultExecutor(exec as any)
+    const ins = await new QueryBuilder('users').insert([{ name: 'a' }, { name: 'b' }]).returning(['id', 'name']).make()
+    expect(ins.rows).toEqual([{ id: 10, name: 'a' }, { id: 11, name: 'b' }])
+    await new QueryBuilder('users').where('status', '=', 'x').update({ status: 'y' }).returning(['id', 'status']).make()
+    expect(exec.calls.map(c => [c.sql, c.bindings])).toEqual([
+      ['INSERT INTO users (name) VALUES (?), (?)', ['a', 'b']],
+      ['SELECT id, name FROM users WHERE id IN (?, ?)', [10, 11]],
+      ['SELECT id FROM users WHERE status = ?', ['x']],
+      ['UPDATE users SET status = ? WHERE status = ?', ['y', 'x']],
+      ['SELECT id, status FROM users WHERE id IN (?)', [5]],
+    ])
+  })
+
+  it('mysql reads rows before deleting them', async () => {
+    const exec = new RecordingExec('mysql', sql => sql.startsWith('SELECT') ? { data: [{ id: 3 }] } : [[], { affectedRows: 1 }])
+    setDefaultExecutor(exec as any)
+    const res = await new QueryBuilder('users').where('id', '=', 3).delete().returning(['id']).make()
+    expect(res.rows).toEqual([{ id: 3 }])
+    expect(exec.calls.map(c => c.sql)).toEqual(['SELECT id FROM users WHERE id = ?', 'DELETE FROM users WHERE id = ?'])
+  })
+
+  it('postgres executor returns the rows and the last id', async () => {
+    setDefaultExecutor(new PostgresExecutor({}) as any)
+    const res = await new QueryBuilder('users').insert([{ name: 'a' }, { name: 'b' }]).returning(['id', 'created_at']).make()
+    expect(res.lastInsertRowid).toBe(42)
+    expect(res.rows?.map(r => r.id)).toEqual([41, 42])
+  })
+
+  it('oracle executor turns out-binds into rows', async () => {
+    setDefaultExecutor(new OracleExecutor({}) as any)
+    const res = await new QueryBuilder('users').insert({ name: 'Ana' }).returning(['id', 'name']).make()
+    expect(oracleCalls[0].sql).toBe('INSERT INTO users (name) VALUES (:1) RETURNING id, name INTO :2, :3')
+    expect(oracleCalls[0].binds).toEqual(['Ana', { dir: 3003, type: 2010 }, { dir: 3003, type: 2001 }])
+    expect(res.rows).toEqual([{ id: 7, name: 'Ana' }])
+    expect(typeof res.lastInsertRowid).toBe('number')
+  })
+
+  it('oracle executor binds the returning() key as a number', async () => {
+    setDefaultExecutor(new OracleExecutor({}) as any)
+    oracleCalls.length = 0
+    const res = await new QueryBuilder('users').where('code', '=', 'x').update({ name: 'Ana' }).returning(['name', 'code'], { key: 'code' }).make()
+    expect(oracleCalls[0].binds.slice(-2)).toEqual([{ dir: 3003, type: 2001 }, { dir: 3003, type: 2010 }])
+    expect(res.rows).toEqual([{ name: 'Ana', code: 7 }])
+  })
+
+  it('better-sqlite3 reads RETURNING statements', async () => {
+    ;(globalThis as any).__vitest_mocks__.betterSqlite3 = function() {
+      return { prepare: vi.fn((sql: string) => ({ reader: /RETURNING/.test(sql), all: () => [{ id: 9 }], run: () => ({ changes: 1, lastInsertRowid: 9 }) })) }
+    }
+    const { BetterSqlite3Executor } = await import('../adapters/better-sqlite3')
+    setDefaultExecutor(new BetterSqlite3Executor(':memory:'))
+    const res = await new QueryBuilder('t').insert({ a: 1 }).returning(['id']).make()
+    expect(res).toEqual({ changes: 1, lastInsertRowid: 9, rows: [{ id: 9 }] })
+  })
+})
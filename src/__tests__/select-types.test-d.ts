@@ -0,0 +1,52 @@
+import { describe, it, expectTypeOf } from 'vitest'
+import { QueryBuilder } from '../query-builder'
+
+interface User { id: number; name: string; email: string; deleted_at?: Date }
+interface Post { id: number; user_id: number; title: string }
+
+const users = () => new QueryBuilder<User>('users')
+
+describe('select projections', () => {
+  it('picks the selected columns', () => {
+    expectTypeOf(users().select(['id', 'name']).all()).toEqualTypeOf<Promise<Pick<User, 'id' | 'name'>[]>>()
+    expectTypeOf(users().select(['id', 'deleted_at']).first()).toEqualTypeOf<Pick<User, 'id' | 'deleted_at'> | undefined>()
+  })
+
+  it('keeps the whole row for *, no arguments and non-literal column lists', () => {
+    const columns: string[] = ['id']
+    expectTypeOf(users().select().all()).toEqualTypeOf<Promise<User[]>>()
+    expectTypeOf(users().select(['*']).all()).toEqualTypeOf<Promise<User[]>>()
+    expectTypeOf(users().select(columns).all()).toEqualTypeOf<Promise<User[]>>()
+    expectTypeOf(users().select(['users.*', 'name as label']).all()).toEqualTypeOf<Promise<(User & { label: string })[]>>()
+  })
+
+  it('types aliases, table prefixes and raw expressions', () => {
+    const rows = users().select(['name as label', 'users.email', 'u.id AS uid', 'UPPER(name) as upper']).allSync()
+    expectTypeOf(rows).toEqualTypeOf<{ label: string; email: string; uid: number; upper: unknown }[]>()
+  })
+
+  it('adds typed keys for aggregates and aliased select helpers', () => {
+    expectTypeOf(users().select(['name']).count().sum('id', 'total').all()).toEqualTypeOf<Promise<(Pick<User, 'name'> & Record<'count', number> & Record<'total', number>)[]>>()
+    const row = users().select(['id']).selectCount('*', 'n').selectSub(new QueryBuilder<Post>('posts').select(['title']), 'last_title').first()!
+    expectTypeOf(row.n).toEqualTypeOf<number>()
+    expectTypeOf(row.last_title).toEqualTypeOf<string | null>()
+    expectTypeOf(users().selectExpression('1').first()).toEqualTypeOf<User | undefined>()
+  })
+
+  it('merges joined rows, nullable on the optional side', () => {
+    expectTypeOf(users().innerJoin<Post>('posts', 'posts.user_id = users.id').select(['users.name', 'posts.title']).all()).toEqualTypeOf<Promise<{ name: string; title: string }[]>>()
+    expectTypeOf(users().leftJoin<Post>('posts', 'posts.user_id = users.id').select(['users.name', 'posts.title']).all()).toEqualTypeOf<Promise<{ name: string; title: string | null }[]>>()
+    expectTypeOf(users().rightJoinOn<Post>('posts', 'users.id', 'posts.user_id').select(['users.name', 'posts.title']).all()).toEqualTypeOf<Promise<{ name: string | null; title: string }[]>>()
+    const latest = new QueryBuilder<Post>('posts').select(['user_id', 'MAX(id) as last_id'])
+    expectTypeOf(users().joinSub(latest, 'l', 'l.user_id = users.id', 'LEFT').select(['users.id', 'l.last_id']).all()).toEqualTypeOf<Promise<{ id: number; last_id: unknown }[]>>()
+  })
+
+  it('returns precise types from pluck and find', () => {
+    expectTypeOf(users().pluck('email')).toEqualTypeOf<Promise<string[]>>()
+    expectTypeOf(users().pluckSync('id')).toEqualTypeOf<number[]>()
+    expectTypeOf(users().find(1)).toEqualTypeOf<User | undefined>()
+    expectTypeOf(users().select(['id', 'name']).find(1)).toEqualTypeOf<Pick<User, 'id' | 'name'> | undefined>()
+    // @ts-expect-error not a column of User
+    users().pluck('missing')
+  })
+})
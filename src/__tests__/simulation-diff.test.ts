@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { simulationManager } from '../simulation-manager'
+import { diffSnapshots, exportDiff } from '../simulation-diff'
+import { QueryBuilder } from '../query-builder'
+
+const products = () => new QueryBuilder<any>('products')
+
+describe('simulation snapshots and diffs', () => {
+  beforeEach(async () => {
+    await simulationManager.start({
+      products: [{ id: 1, name: 'pen', stock: 10 }, { id: 2, name: 'ink', stock: 0 }],
+      tags: [{ label: 'office' }],
+    })
+  })
+  afterEach(() => simulationManager.stop())
+
+  it('restores a snapshot taken mid-scenario', async () => {
+    const before = simulationManager.snapshot()
+    await products().where('id', '=', 1).delete().make()
+    await new QueryBuilder<any>('audit').insert({ note: 'x' }).make()
+    simulationManager.restore(before)
+    expect(simulationManager.getStateFor('products')).toHaveLength(2)
+    expect(simulationManager.getStateFor('audit')).toBeUndefined()
+    await products().where('id', '=', 2).update({ stock: 1 }).make()
+    expect(before.tables.products[1].stock).toBe(0)
+  })
+
+  it('diffs against the start state or a given snapshot', async () => {
+    await products().where('id', '=', 1).update({ stock: 9 }).make()
+    const mid = simulationManager.snapshot()
+    await products().insert({ id: 3, name: 'cap', stock: 5 }).make()
+    await products().where('id', '=', 2).delete().make()
+    await new QueryBuilder<any>('tags').insert({ label: 'school' }).make()
+
+    expect(simulationManager.diff()).toEqual({
+      products: {
+        inserted: [{ id: 3, name: 'cap', stock: 5 }],
+        updated: [{ before: { id: 1, name: 'pen', stock: 10 }, after: { id: 1, name: 'pen', stock: 9 } }],
+        deleted: [{ id: 2, name: 'ink', stock: 0 }],
+      },
+      tags: { inserted: [{ label: 'school' }], updated: [], deleted: [] },
+    })
+    expect(simulationManager.diff(mid).products.updated).toEqual([])
+  })
+
+  it('matches rows by custom keys and compares keyless rows whole', () => {
+    const diff = diffSnapshots(
+      { tables: { stock: [{ sku: 'a', qty: 1 }, { sku: 'b', qty: 2 }], logs: [{ msg: 'x' }, { msg: 'x' }] } },
+      { tables: { stock: [{ sku: 'a', qty: 5 }], logs: [{ msg: 'x' }, { msg: 'y' }] } },
+      { keys: { stock: ['sku'] } },
+    )
+    expect(diff.stock).toEqual({ inserted: [], updated: [{ before: { sku: 'a', qty: 1 }, after: { sku: 'a', qty: 5 } }], deleted: [{ sku: 'b', qty: 2 }] })
+    expect(diff.logs).toEqual({ inserted: [{ msg: 'y' }], updated: [], deleted: [{ msg: 'x' }] })
+  })
+
+  it('exports the diff as JSON or per-dialect SQL', async () => {
+    await products().insert({ id: 3, name: "o'clock", stock: 5 }).make()
+    await products().where('id', '=', 1).update({ stock: 9, active: false }).make()
+    await products().where('id', '=', 2).delete().make()
+    await new QueryBuilder<any>('tags').where('label', '=', 'office').delete().make()
+    const diff = simulationManager.diff()
+
+    expect(JSON.parse(exportDiff(diff, { format: 'json' }))).toEqual(diff)
+    expect(exportDiff(diff, { format: 'sql', dialect: 'sqlite' }).split('\n')).toEqual([
+      `INSERT INTO products (id, name, stock) VALUES (3, 'o''clock', 5);`,
+      'UPDATE products SET stock = 9, active = 0 WHERE id = 1;',
+      'DELETE FROM products WHERE id = 2;',
+      `DELETE FROM tags WHERE label = 'office';`,
+    ])
+    expect(exportDiff(diff, { format: 'sql', dialect: 'postgres' })).toContain('UPDATE products SET stock = 9, active = FALSE WHERE id = 1;')
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { simulationManager } from '../simulation-manager'
+import { QueryBuilder } from '../query-builder'
+import { TriggerManager } from '../trigger-manager'
+import { setDefaultExecutor } from '../config'
+
+class RecordingExec {
+  calls: string[] = []
+  dialect = 'sqlite'
+  executeQuery(sql: string) { this.calls.push(sql); return Promise.resolve({ data: [], affectedRows: 1 }) }
+  executeQuerySync(sql: string) { this.calls.push(sql); return { data: [] } }
+  runSync(sql: string) { this.calls.push(sql); return { changes: 1, lastInsertRowid: 1 } }
+}
+
+const tick = () => new Promise(r => setTimeout(r, 0))
+const users = () => new QueryBuilder<any>('users')
+const state = () => ({ users: [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }] })
+
+describe('simulationManager.run()', () => {
+  let exec: RecordingExec
+  beforeEach(() => { exec = new RecordingExec(); setDefaultExecutor(exec as any) })
+  afterEach(() => simulationManager.stop())
+
+  it('keeps concurrent simulations isolated from each other', async () => {
+    const [removed, renamed] = await Promise.all([
+      simulationManager.run(state(), async () => {
+        await users().where('id', '=', 1).delete().make()
+        await tick()
+        return users().pluck('name')
+      }),
+      simulationManager.run(state(), async () => {
+        await tick()
+        await users().where('id', '=', 2).update({ name: 'Ann' }).make()
+        return users().orderBy('id').pluck('name')
+      }),
+    ])
+    expect(removed).toEqual(['Jane'])
+    expect(renamed).toEqual(['John', 'Ann'])
+    expect(simulationManager.isActive()).toBe(false)
+    expect(exec.calls).toEqual([])
+  })
+
+  it('shadows the global simulation, which stays the fallback outside run()', async () => {
+    await simulationManager.start({ users: [{ id: 9, name: 'Global' }] })
+    const inside = await simulationManager.run(state(), async () => {
+      await users().insert({ id: 3, name: 'Zoe' }).make()
+      return { ids: await users().pluck('id'), diff: simulationManager.diff() }
+    })
+    expect(inside).toEqual({ ids: [1, 2, 3], diff: { users: { inserted: [{ id: 3, name: 'Zoe' }], updated: [], deleted: [] } } })
+    expect(await users().pluck('name')).toEqual(['Global'])
+    expect(simulationManager.diff()).toEqual({})
+  })
+
+  it('scopes strict mode and trigger side effects to the callback', async () => {
+    const tm = new TriggerManager()
+    tm.create('log_delete', { when: 'AFTER', action: 'DELETE', table: 'users', body: async ctx => {
+      await ctx.qb('audit').insert({ note: 'deleted' }).make()
+    } })
+    const audit = await simulationManager.run({ ...state(), audit: [] }, async () => {
+      await users().where('id', '=', 1).delete().make()
+      await tick()
+      expect(() => users().run()).toThrow('Strict simulation: run(users)')
+      return simulationManager.getStateFor('audit')
+    }, { strict: true })
+    tm.drop('log_delete')
+    expect(audit).toEqual([{ note: 'deleted' }])
+    expect(simulationManager.getStateFor('audit')).toBeUndefined()
+    users().run()
+    expect(exec.calls).toHaveLength(1)
+  })
+})
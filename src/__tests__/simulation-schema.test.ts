@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { simulationManager } from '../simulation-manager'
+import { introspectSchema } from '../simulation-schema'
+import { MigrationBuilder, ColumnType, ColumnDefault } from '../migration-dsl'
+import { QueryBuilder } from '../query-builder'
+
+const migrations = () => new MigrationBuilder()
+  .createTable('users', {
+    id: { type: ColumnType.Int, primaryKey: true, autoIncrement: true },
+    email: { type: ColumnType.String, notNull: true, unique: true },
+    token: { type: ColumnType.Uuid, default: ColumnDefault.UuidV4 },
+    created_at: { type: ColumnType.Timestamp, default: ColumnDefault.CurrentTimestamp },
+    status: { type: ColumnType.String, default: 'active' },
+  })
+  .createTable('posts', {
+    id: { type: ColumnType.Int, primaryKey: true, autoIncrement: true },
+    user_id: { type: ColumnType.Int, references: { table: 'users', onDelete: 'CASCADE' } },
+  })
+  .createTable('comments', {
+    id: { type: ColumnType.Int, primaryKey: true, autoIncrement: true },
+    post_id: { type: ColumnType.Int, references: { table: 'posts', onDelete: 'SET NULL' } },
+    author_id: { type: ColumnType.Int, references: { table: 'users' } },
+  })
+  .createJoinTable('user_tags', 'users', 'tags', { cascade: true })
+
+const state = () => ({
+  users: [{ id: 1, email: 'a@x.io' }, { id: 2, email: 'b@x.io' }],
+  posts: [{ id: 10, user_id: 1 }],
+  comments: [{ id: 100, post_id: 10, author_id: 2 }],
+  tags: [{ id: 1 }],
+  user_tags: [{ users_id: 1, tags_id: 1 }],
+})
+const users = () => new QueryBuilder<any>('users')
+
+describe('schema-aware simulation', () => {
+  afterEach(() => simulationManager.stop())
+
+  it('fills auto-increment ids and defaults on insert', async () => {
+    await simulationManager.start(state(), { schema: migrations() })
+    const res = await users().insert({ email: 'c@x.io' }).make()
+    expect(res.lastInsertRowid).toBe(3)
+    const [row] = await users().where('id', '=', 3).all()
+    expect(row).toMatchObject({ id: 3, email: 'c@x.io', status: 'active' })
+    expect(row.token).toMatch(/^[0-9a-f-]{36}$/)
+    expect(Number.isNaN(Date.parse(row.created_at))).toBe(false)
+  })
+
+  it('rejects NOT NULL, unique and foreign key violations without changing state', async () => {
+    await simulationManager.start(state(), { schema: migrations() })
+    await expect(users().insert({ id: 5 }).make()).rejects.toThrow('NOT NULL constraint failed: users.email')
+    await expect(users().insert([{ email: 'n@x.io' }, { email: 'a@x.io' }]).make()).rejects.toThrow('UNIQUE constraint failed: users.email')
+    await expect(users().insert({ id: 1, email: 'z@x.io' }).make()).rejects.toThrow('UNIQUE constraint failed: users.id')
+    await expect(users().where('id', '=', 2).update({ email: 'a@x.io' }).make()).rejects.toThrow('UNIQUE constraint failed: users.email')
+    await expect(new QueryBuilder<any>('posts').insert({ user_id: 99 }).make()).rejects.toThrow('FOREIGN KEY constraint failed: posts.user_id references users')
+    await expect(new QueryBuilder<any>('user_tags').insert({ users_id: 1, tags_id: 1 }).make()).rejects.toThrow('UNIQUE constraint failed: user_tags.users_id, user_tags.tags_id')
+    expect(simulationManager.diff()).toEqual({})
+  })
+
+  it('insertOrIgnore skips rows that violate primary or unique keys', async () => {
+    await simulationManager.start(state(), { schema: migrations() })
+    const res = await users().insertOrIgnore([{ id: 1, email: 'z@x.io' }, { email: 'b@x.io' }, { email: 'c@x.io' }]).make()
+    expect(res.changes).toBe(1)
+    expect(await users().pluck('email')).toEqual(['a@x.io', 'b@x.io', 'c@x.io'])
+    await expect(users().insertOrIgnore({ id: 9 }).make()).rejects.toThrow('NOT NULL constraint failed: users.email')
+  })
+
+  it('applies ON DELETE actions across tables', async () => {
+    await simulationManager.start(state(), { schema: migrations() })
+    await expect(users().where('id', '=', 2).delete().make()).rejects.toThrow('FOREIGN KEY constraint failed: comments.author_id references users')
+    await users().where('id', '=', 1).delete().make()
+    expect(simulationManager.getStateFor('posts')).toEqual([])
+    expect(simulationManager.getStateFor('comments')).toEqual([{ id: 100, post_id: null, author_id: 2 }])
+    expect(simulationManager.getStateFor('user_tags')).toEqual([])
+    expect(Object.keys(simulationManager.diff())).toEqual(['users', 'posts', 'comments', 'user_tags'])
+  })
+
+  it('uses schema primary keys to match rows in diff()', async () => {
+    await simulationManager.start({ stock: [{ sku: 'a', qty: 1 }] }, { schema: { stock: { columns: { sku: { primaryKey: true } } } } })
+    await new QueryBuilder<any>('stock').where('sku', '=', 'a').update({ qty: 2 }).make()
+    expect(simulationManager.diff().stock.updated).toEqual([{ before: { sku: 'a', qty: 1 }, after: { sku: 'a', qty: 2 } }])
+  })
+
+  it('introspects a SQLite schema', async () => {
+    const results: Record<string, any[]> = {
+      table_info: [
+        { name: 'id', type: 'INTEGER', not_null: 0, dflt_value: null, pk: 1 },
+        { name: 'email', type: 'TEXT', not_null: 1, dflt_value: null, pk: 0 },
+        { name: 'status', type: 'TEXT', not_null: 0, dflt_value: "'active'", pk: 0 },
+        { name: 'created_at', type: 'DATETIME', not_null: 0, dflt_value: 'CURRENT_TIMESTAMP', pk: 0 },
+        { name: 'team_id', type: 'INTEGER', not_null: 0, dflt_value: null, pk: 0 },
+      ],
+      index_list: [{ name: 'users_email_idx', is_unique: 1, origin: 'c' }],
+      index_info: [{ name: 'email' }],
+      foreign_key_list: [{ column_name: 'team_id', ref_table: 'teams', ref_column: 'id', on_delete: 'SET NULL' }],
+    }
+    const exec = {
+      dialect: 'sqlite' as const,
+      executeQuerySync: () => ({ data: [] }),
+      executeQuery: async (sql: string) => ({ data: results[/pragma_(\w+)/.exec(sql)![1]] }),
+    }
+    expect(await introspectSchema(['users'], exec)).toEqual({
+      users: {
+        columns: {
+          id: { primaryKey: true, autoIncrement: true },
+          email: { notNull: true },
+          status: { default: 'active' },
+          created_at: { default: ColumnDefault.CurrentTimestamp },
+          team_id: { references: { table: 'teams', column: 'id', onDelete: 'SET NULL' } },
+        },
+        unique: [['email']],
+      },
+    })
+  })
+})
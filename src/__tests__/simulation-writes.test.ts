@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { simulationManager } from '../simulation-manager'
+import { QueryBuilder } from '../query-builder'
+import { Model } from '../model'
+import { runSeed } from '../seed'
+import { TriggerManager } from '../trigger-manager'
+import { setDefaultExecutor } from '../config'
+import { raw } from '../raw'
+
+class RecordingExec {
+  calls: string[] = []
+  dialect = 'sqlite'
+  executeQuery(sql: string) { this.calls.push(sql); return Promise.resolve({ data: [], affectedRows: 1 }) }
+  executeQuerySync(sql: string) { this.calls.push(sql); return { data: [] } }
+  runSync(sql: string) { this.calls.push(sql); return { changes: 1, lastInsertRowid: 1 } }
+}
+
+class Product extends Model {
+  static tableName = 'products'
+  fillable = ['name', 'stock']
+}
+
+const state = () => ({
+  products: [{ id: 1, name: 'pen', stock: 10 }, { id: 2, name: 'ink', stock: 0 }],
+  audit: [] as any[],
+})
+const products = () => new QueryBuilder<any>('products')
+
+describe('writes in simulation mode', () => {
+  let exec: RecordingExec
+  beforeEach(async () => {
+    exec = new RecordingExec()
+    setDefaultExecutor(exec as any)
+    await simulationManager.start(state())
+  })
+  afterEach(() => simulationManager.stop())
+
+  it('applies make() writes to the virtual tables without touching the executor', async () => {
+    expect(await products().insert({ id: 3, name: 'cap', stock: 5 }).make()).toEqual({ changes: 1, lastInsertRowid: 3 })
+    expect(await products().where('stock', '>', 0).update({ stock: raw('stock - 1') }).make()).toEqual({ changes: 2, lastInsertRowid: 0 })
+    expect(await products().where('name', '=', 'ink').delete().make()).toMatchObject({ changes: 1 })
+    await products().upsert([{ id: 1, name: 'pen', stock: 99 }], { conflict: ['id'] }).make()
+    await products().insertOrIgnore([{ id: 3, name: 'dup', stock: 0 }], { conflict: ['id'] }).make()
+    expect(simulationManager.getStateFor('products')).toEqual([{ id: 1, name: 'pen', stock: 99 }, { id: 3, name: 'cap', stock: 4 }])
+    expect(exec.calls).toEqual([])
+  })
+
+  it('insertOrIgnore without conflict skips rows repeating the returning() key', async () => {
+    const res = await products().insertOrIgnore([{ id: 1, name: 'dup' }, { id: 3, name: 'cap' }, { name: 'nokey' }]).make()
+    expect(res.changes).toBe(2)
+    expect(await products().pluck('name')).toEqual(['pen', 'ink', 'cap', 'nokey'])
+    await new QueryBuilder<any>('audit').insertOrIgnore([{ uid: 7 }, { uid: 7 }]).returning(['uid'], { key: 'uid' }).make()
+    expect(simulationManager.getStateFor('audit')).toEqual([{ uid: 7 }])
+  })
+
+  it('runs increment, updateOrInsert and insertFrom against virtual state', async () => {
+    await products().where('id', '=', 2).increment('stock', 3).make()
+    await products().updateOrInsert({ name: 'pen' }, { stock: 1 }).make()
+    await products().updateOrInsert({ name: 'cap' }, { id: 3, stock: 7 }).make()
+    await new QueryBuilder<any>('audit').insertFrom(['product', 'qty'], products().select(['name', 'stock']).where('stock', '>', 2)).make()
+    expect(await products().orderBy('id').pluck('stock')).toEqual([1, 3, 7])
+    expect(simulationManager.getStateFor('audit')).toEqual([{ product: 'ink', qty: 3 }, { product: 'cap', qty: 7 }])
+    expect(exec.calls).toEqual([])
+  })
+
+  it('scopes updates by order and limit and returns rows', async () => {
+    const res = await products().orderBy('stock', 'DESC').limit(1).update({ name: 'top' }).returning(['id', 'name']).make()
+    expect(res.rows).toEqual([{ id: 1, name: 'top' }])
+    expect(products().where('name', '=', 'top').allSync().map(r => r.id)).toEqual([1])
+  })
+
+  it('routes Model.save, Model.delete and runSeed to the simulation', async () => {
+    const p = new Product()
+    p.fill({ name: 'ruler', stock: 2 })
+    await p.save()
+    const saved = Object.assign(new Product(), { id: 1, name: 'pen', stock: 0 })
+    await saved.save()
+    await Object.assign(new Product(), { id: 2 }).delete()
+    expect(simulationManager.getStateFor('products')).toEqual([{ id: 1, name: 'pen', stock: 0 }, { name: 'ruler', stock: 2 }])
+    expect(await runSeed('audit', [{ product: 'a', qty: 1 }, { product: 'b', qty: 2 }], { truncate: true })).toBe(2)
+    expect(simulationManager.getStateFor('audit')).toHaveLength(2)
+    expect(exec.calls).toEqual([])
+  })
+
+  it('still fires semantic triggers, whose queries also stay virtual', async () => {
+    const tm = new TriggerManager()
+    tm.create('audit_stock', { when: 'AFTER', action: 'UPDATE', table: 'products', body: async ctx => {
+      await ctx.qb('audit').insert({ product: 'changed', qty: ctx.result.changes }).make()
+    } })
+    await products().where('id', '=', 1).update({ stock: 5 }).make()
+    await new Promise(r => setTimeout(r, 0))
+    tm.drop('audit_stock')
+    expect(simulationManager.getStateFor('audit')).toEqual([{ product: 'changed', qty: 1 }])
+    expect(exec.calls).toEqual([])
+  })
+
+  it('raises on any real executor access in strict mode', async () => {
+    simulationManager.stop()
+    await simulationManager.start(state(), { strict: true })
+    await products().where('id', '=', 1).update({ stock: 1 }).make()
+    expect(() => products().run()).toThrow('Strict simulation: run(products) would touch a real executor')
+    await expect(products().explain()).rejects.toThrow('Strict simulation: explain(products)')
+    await expect(runSeed('audit', { run: ctx => ctx.exec.executeQuery('SELECT 1', []).then(() => []) })).rejects.toThrow('Strict simulation: runSeed(audit)')
+    expect(() => new TriggerManager().createTrigger('t', 'products', 'AFTER', 'INSERT', 'SELECT 1;')).toThrow('Strict simulation: createTrigger(t)')
+    expect(exec.calls).toEqual([])
+  })
+})
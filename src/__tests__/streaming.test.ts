@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { Readable } from 'node:stream'
+import { EventEmitter } from 'node:events'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+import { simulationManager } from '../simulation-manager'
+import { eventManager } from '../event-manager'
+
+const pgCalls: string[] = []
+const mysqlCalls: { sql: string; bindings: any[] }[] = []
+const mssqlInputs: any[] = []
+const oracleCalls: { sql: string; binds: any[]; options: any }[] = []
+const oracleClosed = vi.fn()
+
+;(globalThis as any).__vitest_mocks__ = {
+  pg: {
+    Pool: function(this: any) {
+      let fetched = 0
+      const client = {
+        query: async (q: any) => {
+          const text = typeof q === 'string' ? q : q.text
+          pgCalls.push(text)
+          if (!text.startsWith('FETCH')) return { rows: [] }
+          const rows = [1, 2, 3, 4, 5].slice(fetched, fetched + 2).map(id => ({ id }))
+          fetched += rows.length
+          return { rows }
+        },
+        release: () => pgCalls.push('release'),
+      }
+      return { connect: async () => client }
+    }
+  },
+  mysql2: {
+    createPool: () => ({
+      pool: { query: (sql: string, bindings: any[]) => { mysqlCalls.push({ sql, bindings }); return { stream: () => Readable.from([{ id: 1 }, { id: 2 }]) } } },
+    })
+  },
+  mssql: {
+    ConnectionPool: function(this: any) {
+      return {
+        connect: async () => ({
+          request: () => {
+            const req: any = new EventEmitter()
+            req.input = (name: string, value: any) => mssqlInputs.push([name, value])
+            req.pause = vi.fn()
+            req.resume = vi.fn()
+            req.query = (text: string) => {
+              mssqlInputs.push(text)
+              setImmediate(() => { for (const id of [1, 2, 3]) req.emit('row', { id }); req.emit('done') })
+            }
+            return req
+          }
+        })
+      }
+    }
+  },
+  oracledb: {
+    OUT_FORMAT_OBJECT: 1,
+    createPool: async () => ({
+      getConnection: async () => ({
+        queryStream: (sql: string, binds: any[], options: any) => { oracleCalls.push({ sql, binds, options }); return Readable.from([{ ID: 1 }, { ID: 2 }]) },
+        close: oracleClosed,
+      })
+    })
+  },
+  betterSqlite3: function() {
+    return { prepare: (sql: string) => ({ iterate: function* (...bindings: any[]) { yield { sql, bindings }; yield { sql, bindings } } }) }
+  },
+}
+
+import { PostgresExecutor } from '../adapters/postgresql'
+import { MysqlExecutor } from '../adapters/mysql'
+import { SqlServerExecutor } from '../adapters/sqlserver'
+import { OracleExecutor } from '../adapters/oracle'
+import { BetterSqlite3Executor } from '../adapters/better-sqlite3'
+
+const table = Array.from({ length: 7 }, (_, i) => ({ id: i + 1, name: `user-${i + 1}` }))
+
+class PagingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  dialect = 'sqlite'
+  async executeQuery(sql: string, bindings: any[] = []) {
+    this.calls.push({ sql, bindings })
+    const keyed = sql.includes('id > ?') ? table.filter(r => r.id > bindings[bindings.length - 2]) : table
+    const offset = sql.includes('OFFSET') ? bindings[bindings.length - 1] : 0
+    const limit = sql.includes('OFFSET') ? bindings[bindings.length - 2] : bindings[bindings.length - 1]
+    return { data: sql.includes('LIMIT') ? keyed.slice(offset, offset + limit) : keyed }
+  }
+}
+
+const collect = async <X>(source: AsyncIterable<X>) => { const out: X[] = []; for await (const item of source) out.push(item); return out }
+
+describe('chunk() and lazy()', () => {
+  it('reads LIMIT/OFFSET pages until a short page', async () => {
+    const exec = new PagingExec()
+    setDefaultExecutor(exec as any)
+    const seen: [number[], number][] = []
+    const done = await new QueryBuilder<any>('users').orderBy('id').chunk(3, rows => { seen.push([rows.map(r => r.id), 0]) })
+    expect(done).toBe(true)
+    expect(seen.map(s => s[0])).toEqual([[1, 2, 3], [4, 5, 6], [7]])
+    expect(exec.calls.map(c => c.bindings)).toEqual([[3, 0], [3, 3], [3, 6]])
+    expect(exec.calls[0].sql).toBe('SELECT * FROM users ORDER BY id ASC LIMIT ? OFFSET ?')
+  })
+
+  it('stops when the callback returns false and respects an existing limit/offset', async () => {
+    const exec = new PagingExec()
+    setDefaultExecutor(exec as any)
+    const pages: number[] = []
+    expect(await new QueryBuilder<any>('users').chunk(2, (_rows, page) => { pages.push(page); return page < 2 ? undefined : false })).toBe(false)
+    expect(pages).toEqual([1, 2])
+    exec.calls = []
+    const ids = (await collect(new QueryBuilder<any>('users').offset(1).limit(5).lazy(2))).map(r => r.id)
+    expect(ids).toEqual([2, 3, 4, 5, 6])
+    expect(exec.calls.map(c => c.bindings)).toEqual([[2, 1], [2, 3], [1, 5]])
+  })
+
+  it('rejects invalid chunk sizes', async () => {
+    setDefaultExecutor(new PagingExec() as any)
+    await expect(new QueryBuilder('users').chunk(0, () => {})).rejects.toThrow('Invalid chunk size: 0')
+  })
+})
+
+describe('stream()', () => {
+  it('falls back to lazy pages when the executor cannot stream', async () => {
+    const exec = new PagingExec()
+    setDefaultExecutor(exec as any)
+    expect((await collect(new QueryBuilder<any>('users').stream({ batchSize: 4 }))).length).toBe(7)
+    expect(exec.calls.length).toBe(2)
+  })
+
+  it('passes the compiled query to the executor stream', async () => {
+    const stream = vi.fn(async function* () { yield { id: 1 } })
+    setDefaultExecutor({ dialect: 'postgres', executeQuery: async () => ({ data: [] }), stream } as any)
+    const rows = await collect(new QueryBuilder<any>('users').where('active', '=', true).stream({ batchSize: 50 }))
+    expect(rows).toEqual([{ id: 1 }])
+    expect(stream).toHaveBeenCalledWith('SELECT * FROM users WHERE active = ?', [true], { batchSize: 50 })
+  })
+
+  it('better-sqlite3 iterates the prepared statement', async () => {
+    setDefaultExecutor(new BetterSqlite3Executor(':memory:'))
+    const rows = await collect(new QueryBuilder<any>('t').where('a', '=', 1).stream())
+    expect(rows).toEqual([{ sql: 'SELECT * FROM t WHERE a = ?', bindings: [1] }, { sql: 'SELECT * FROM t WHERE a = ?', bindings: [1] }])
+  })
+
+  it('emits BEFORE:READ and AFTER:READ, also when the loop breaks early', async () => {
+    setDefaultExecutor(new BetterSqlite3Executor(':memory:') as any)
+    const seen: string[] = []
+    const offs = ['BEFORE', 'AFTER'].map(t => eventManager.on(`querykit:trigger:${t}:READ:events`, () => { seen.push(t) }))
+    for await (const _row of new QueryBuilder<any>('events').stream()) break
+    offs.forEach(off => off())
+    expect(seen).toEqual(['BEFORE', 'AFTER'])
+  })
+
+  it('postgres fetches from a cursor inside its own transaction and cleans up on break', async () => {
+    setDefaultExecutor(new PostgresExecutor({}) as any)
+    const ids: number[] = []
+    for await (const row of new QueryBuilder<any>('users').where('id', '>', 0).stream({ batchSize: 2 })) {
+      ids.push(row.id)
+      if (ids.length === 3) break
+    }
+    expect(ids).toEqual([1, 2, 3])
+    expect(pgCalls).toEqual([
+      'BEGIN',
+      expect.stringMatching(/^DECLARE querykit_cursor_\d+ NO SCROLL CURSOR FOR SELECT \* FROM users WHERE id > \$1$/),
+      expect.stringMatching(/^FETCH FORWARD 2 FROM querykit_cursor_\d+$/),
+      expect.stringMatching(/^FETCH FORWARD 2 FROM querykit_cursor_\d+$/),
+      'COMMIT',
+      'release',
+    ])
+  })
+
+  it('mysql streams through the callback pool', async () => {
+    setDefaultExecutor(new MysqlExecutor({}) as any)
+    expect(await collect(new QueryBuilder<any>('users').where('a', '=', 2).stream())).toEqual([{ id: 1 }, { id: 2 }])
+    expect(mysqlCalls).toEqual([{ sql: 'SELECT * FROM users WHERE a = ?', bindings: [2] }])
+  })
+
+  it('sql server turns row events into iteration', async () => {
+    setDefaultExecutor(new SqlServerExecutor({}) as any)
+    const rows = await collect(new QueryBuilder<any>('users').where('a', '=', 3).stream({ batchSize: 2 }))
+    expect(rows.map(r => r.id)).toEqual([1, 2, 3])
+    expect(mssqlInputs).toEqual([['p1', 3], 'SELECT * FROM users WHERE a = @p1'])
+  })
+
+  it('oracle uses queryStream and closes the connection', async () => {
+    setDefaultExecutor(new OracleExecutor({}) as any)
+    expect(await collect(new QueryBuilder<any>('users').where('a', '=', 4).stream({ batchSize: 10 }))).toEqual([{ ID: 1 }, { ID: 2 }])
+    expect(oracleCalls).toEqual([{ sql: 'SELECT * FROM users WHERE a = :1', binds: [4], options: { outFormat: 1, fetchArraySize: 10 } }])
+    expect(oracleClosed).toHaveBeenCalled()
+  })
+})
+
+describe('memoryLimit()', () => {
+  afterEach(() => simulationManager.stop())
+
+  it('returns the rows that fit and reports the usage', async () => {
+    setDefaultExecutor(new PagingExec() as any)
+    const onLimitReached = vi.fn()
+    const rows = await new QueryBuilder<any>('users').memoryLimit({ bytes: 100, strategy: 'chunk', chunkSize: 2, onLimitReached }).all()
+    // cada linha: id (4 + 8) + name (8 + 12) = 32 bytes
+    expect(rows.map(r => r.id)).toEqual([1, 2, 3])
+    expect(onLimitReached).toHaveBeenCalledWith(128, 100)
+  })
+
+  it('throws without onLimitReached and reads everything under the budget', async () => {
+    setDefaultExecutor(new PagingExec() as any)
+    await expect(new QueryBuilder('users').memoryLimit({ bytes: 64 }).all()).rejects.toThrow('Memory limit of 64 bytes exceeded reading users')
+    expect((await new QueryBuilder('users').memoryLimit({ bytes: 1024 }).all()).length).toBe(7)
+    expect(() => new QueryBuilder('users').memoryLimit({ bytes: 0 })).toThrow('Invalid memory limit: 0')
+  })
+
+  it('paginate reads by key keeping the original conditions grouped', async () => {
+    const exec = new PagingExec()
+    setDefaultExecutor(exec as any)
+    const rows = await new QueryBuilder<any>('users').where('a', '=', 1).orWhere('b', '=', 2).memoryLimit({ bytes: 1024, strategy: 'paginate', chunkSize: 4 }).all()
+    expect(rows.length).toBe(7)
+    expect(exec.calls.map(c => c.sql)).toEqual([
+      'SELECT * FROM users WHERE (a = ? OR b = ?) ORDER BY id ASC LIMIT ?',
+      'SELECT * FROM users WHERE (a = ? OR b = ?) AND id > ? ORDER BY id ASC LIMIT ?',
+    ])
+    expect(exec.calls[1].bindings).toEqual([1, 2, 4, 4])
+  })
+
+  it('paginate honours limit(), reads qualified keys and rejects unselected keys', async () => {
+    const exec = new PagingExec()
+    setDefaultExecutor(exec as any)
+    const rows = await new QueryBuilder<any>('users').limit(5).memoryLimit({ bytes: 1024, strategy: 'paginate', chunkSize: 2, key: 'users.id' }).all()
+    expect(rows.map(r => r.id)).toEqual([1, 2, 3, 4, 5])
+    expect(exec.calls.map(c => c.bindings)).toEqual([[2], [2, 2], [4, 1]])
+    await expect(new QueryBuilder<any>('users').memoryLimit({ bytes: 1024, strategy: 'paginate', chunkSize: 2, key: 'uid' }).all())
+      .rejects.toThrow('Key column uid must be selected to paginate users by key')
+  })
+
+  it('paginate reads the key from uppercase Oracle row keys', async () => {
+    const exec = new PagingExec()
+    exec.executeQuery = async function(sql, bindings = []) {
+      const res = await PagingExec.prototype.executeQuery.call(this, sql, bindings)
+      return { data: res.data.map(r => Object.fromEntries(Object.entries(r).map(([k, v]) => [k.toUpperCase(), v]))) }
+    }
+    setDefaultExecutor(exec as any)
+    const rows = await new QueryBuilder<any>('users').memoryLimit({ bytes: 1024, strategy: 'paginate', chunkSize: 4 }).all()
+    expect(rows.map(r => r.ID)).toEqual([1, 2, 3, 4, 5, 6, 7])
+    expect(exec.calls[1].bindings).toEqual([4, 4])
+  })
+
+  it('applies to simulated tables too', async () => {
+    setDefaultExecutor(new PagingExec() as any)
+    await simulationManager.start({ users: table })
+    const onLimitReached = vi.fn()
+    expect((await new QueryBuilder<any>('users').memoryLimit({ bytes: 70, onLimitReached }).all()).length).toBe(2)
+    expect(onLimitReached).toHaveBeenCalledOnce()
+    expect((await collect(new QueryBuilder<any>('users').lazy(3))).length).toBe(7)
+  })
+})
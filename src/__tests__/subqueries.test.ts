@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return { data: [], affectedRows: 1 } }
+}
+
+const use = (dialect: string) => { const exec = new RecordingExec(dialect); setDefaultExecutor(exec as any); return exec }
+
+describe('subqueries', () => {
+  it('selects from a derived table', () => {
+    use('sqlite')
+    const totals = new QueryBuilder('orders').select(['user_id', 'SUM(total) as amount']).where('status', '=', 'paid').groupBy(['user_id'])
+    const { sql, bindings } = new QueryBuilder('orders').fromSub(totals, 't').where('t.amount', '>', 1000).toSql()
+    expect(sql).toBe('SELECT * FROM (SELECT user_id, SUM(total) as amount FROM orders WHERE status = ? GROUP BY user_id) t WHERE t.amount > ?')
+    expect(bindings).toEqual(['paid', 1000])
+  })
+
+  it('adds scalar subqueries to the select list', () => {
+    use('postgres')
+    const count = new QueryBuilder('orders').select(['COUNT(*)']).whereRaw('orders.user_id = users.id').where('status', '=', 'open')
+    const { sql, bindings } = new QueryBuilder('users').select(['id']).selectSub(count, 'open_orders').where('active', '=', 1).toSql()
+    expect(sql).toBe('SELECT id, (SELECT COUNT(*) FROM orders WHERE orders.user_id = users.id AND status = ?) AS open_orders FROM users WHERE active = ?')
+    expect(bindings).toEqual(['open', 1])
+  })
+
+  it('joins a subquery with the given join type', () => {
+    use('mysql')
+    const latest = new QueryBuilder('orders').select(['user_id', 'MAX(created_at) as last_at']).where('total', '>', 0).groupBy(['user_id'])
+    const { sql, bindings } = new QueryBuilder('users').select(['users.id', 'l.last_at']).joinSub(latest, 'l', 'l.user_id = users.id', 'LEFT').where('users.id', '<', 50).toSql()
+    expect(sql).toBe('SELECT users.id, l.last_at FROM users LEFT JOIN (SELECT user_id, MAX(created_at) as last_at FROM orders WHERE total > ? GROUP BY user_id) l ON l.user_id = users.id WHERE users.id < ?')
+    expect(bindings).toEqual([0, 50])
+  })
+
+  it('compiles IN / NOT IN with subqueries in every where variant', () => {
+    use('sqlite')
+    const buyers = new QueryBuilder('orders').select(['user_id']).where('total', '>', 100)
+    const { sql, bindings } = new QueryBuilder('users')
+      .where('a', '=', 1)
+      .whereIn('id', buyers)
+      .orWhereIn('id', buyers)
+      .whereNotIn('id', new QueryBuilder('bans').select(['user_id']))
+      .orWhereNotIn('id', [7])
+      .toSql()
+    expect(sql).toBe('SELECT * FROM users WHERE a = ? AND id IN (SELECT user_id FROM orders WHERE total > ?) OR id IN (SELECT user_id FROM orders WHERE total > ?) AND id NOT IN (SELECT user_id FROM bans) OR id NOT IN (?)')
+    expect(bindings).toEqual([1, 100, 100, 7])
+  })
+
+  it('merges bindings in placeholder order across select, from, join, where and paging', () => {
+    use('mssql')
+    const sub = (table: string, v: any) => new QueryBuilder(table).select(['id']).where('v', '=', v)
+    const { sql, bindings } = new QueryBuilder('x')
+      .select(['d.id'])
+      .selectSub(new QueryBuilder('s').select(['MAX(v)']).where('k', '=', 'select'), 'm')
+      .fromSub(sub('src', 'from'), 'd')
+      .joinSub(sub('j', 'join'), 'j', 'j.id = d.id')
+      .whereIn('d.id', sub('w', 'where'))
+      .limit(3)
+      .toSql()
+    expect(sql).toBe('SELECT TOP (?) d.id, (SELECT MAX(v) FROM s WHERE k = ?) AS m FROM (SELECT id FROM src WHERE v = ?) d INNER JOIN (SELECT id FROM j WHERE v = ?) j ON j.id = d.id WHERE d.id IN (SELECT id FROM w WHERE v = ?)')
+    expect(bindings).toEqual([3, 'select', 'from', 'join', 'where'])
+  })
+
+  it('never writes AS before table aliases so oracle accepts the derived tables', async () => {
+    const exec = use('oracle')
+    await new QueryBuilder('orders').select(['o.id']).fromSub(new QueryBuilder('orders').select(['id']), 'o').selectSub(new QueryBuilder('dual').select(['1']), 'one').all()
+    expect(exec.calls[0].sql).toBe('SELECT o.id, (SELECT 1 FROM dual) AS one FROM (SELECT id FROM orders) o')
+  })
+
+  it('quotes subquery aliases like any other identifier', () => {
+    use('postgres')
+    const { sql } = new QueryBuilder('t').fromSub(new QueryBuilder('t'), 'order').joinSub(new QueryBuilder('u'), 'user', '"user".id = "order".id').toSql()
+    expect(sql).toBe('SELECT * FROM (SELECT * FROM t) "order" INNER JOIN (SELECT * FROM u) "user" ON "user".id = "order".id')
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+import { Model } from '../model'
+import { runSeed } from '../seed'
+import { migrateUp } from '../migration-manager'
+import { transaction } from '../transaction'
+
+const log: string[] = []
+
+;(globalThis as any).__vitest_mocks__ = {
+  pg: {
+    Pool: function(this: any) {
+      return {
+        query: async ({ text }: any) => { log.push(`pool:${text}`); return { rows: [], rowCount: 1 } },
+        connect: async () => ({
+          query: async (q: any) => { log.push(`client:${typeof q === 'string' ? q : q.text}`); return { rows: [], rowCount: 1 } },
+          release: () => { log.push('release') },
+        }),
+      }
+    }
+  },
+  mysql2: {
+    createPool: () => ({
+      execute: async (sql: string) => { log.push(`pool:${sql}`); return [[], { affectedRows: 1 }] },
+      getConnection: async () => ({
+        beginTransaction: async () => { log.push('conn:BEGIN') },
+        execute: async (sql: string) => { log.push(`conn:${sql}`); return [[], { affectedRows: 1, insertId: 5 }] },
+        commit: async () => { log.push('conn:COMMIT') },
+        rollback: async () => { log.push('conn:ROLLBACK') },
+        release: () => { log.push('release') },
+      }),
+    })
+  },
+  mssql: {
+    ConnectionPool: function(this: any) {
+      return { connect: async () => ({ request: () => ({ input: () => {}, query: async (sql: string) => { log.push(`pool:${sql}`); return { recordset: [], rowsAffected: [1] } } }) }) }
+    },
+    Transaction: function(this: any) {
+      this.begin = async () => { log.push('tx:BEGIN') }
+      this.commit = async () => { log.push('tx:COMMIT') }
+      this.rollback = async () => { log.push('tx:ROLLBACK') }
+      this.request = () => ({ input: () => {}, query: async (sql: string) => { log.push(`tx:${sql}`); return { recordset: [], rowsAffected: [1] } } })
+    }
+  },
+  oracledb: {
+    OUT_FORMAT_OBJECT: 1,
+    createPool: async () => ({
+      getConnection: async () => ({
+        execute: async (sql: string, _b: any[], opts: any) => { log.push(`conn:${sql}:${opts.autoCommit}`); return { rows: [], rowsAffected: 1 } },
+        commit: async () => { log.push('conn:COMMIT') },
+        rollback: async () => { log.push('conn:ROLLBACK') },
+        close: async () => { log.push('close') },
+      })
+    })
+  },
+}
+
+import { PostgresExecutor } from '../adapters/postgresql'
+import { MysqlExecutor } from '../adapters/mysql'
+import { SqlServerExecutor } from '../adapters/sqlserver'
+import { OracleExecutor } from '../adapters/oracle'
+
+class SingleConnExec {
+  calls: string[] = []
+  async executeQuery(sql: string, _bindings: any[] = []) { this.calls.push(sql); return { data: [] } }
+  runSync(sql: string, _bindings: any[] = []) { this.calls.push(sql); return { changes: 1, lastInsertRowid: 1 } }
+}
+
+class User extends Model {
+  static tableName = 'users'
+  fillable = ['name']
+}
+
+describe('transaction()', () => {
+  beforeEach(() => { log.length = 0 })
+
+  it('commits on success and rolls back on error for single-connection executors', async () => {
+    const exec = new SingleConnExec()
+    setDefaultExecutor(exec as any)
+    const out = await transaction(async () => {
+      await new QueryBuilder('t').insert({ a: 1 }).make()
+      return 'ok'
+    })
+    expect(out).toBe('ok')
+    await expect(transaction(async () => { throw new Error('boom') })).rejects.toThrow('boom')
+    expect(exec.calls.map(s => s.split(' ')[0])).toEqual(['BEGIN', 'INSERT', 'COMMIT', 'BEGIN', 'ROLLBACK'])
+  })
+
+  it('nested calls use savepoints and only undo the failing one', async () => {
+    const exec = new SingleConnExec()
+    setDefaultExecutor(exec as any)
+    await transaction(async trx => {
+      await trx.transaction(async inner => { expect(inner.depth).toBe(1) })
+      await transaction(async () => { throw new Error('inner') }).catch(() => {})
+    })
+    expect(exec.calls).toEqual([
+      'BEGIN',
+      'SAVEPOINT qk_sp_1', 'RELEASE SAVEPOINT qk_sp_1',
+      'SAVEPOINT qk_sp_2', 'ROLLBACK TO SAVEPOINT qk_sp_2',
+      'COMMIT',
+    ])
+  })
+
+  it('gives concurrent sibling savepoints distinct names', async () => {
+    const exec = new SingleConnExec()
+    setDefaultExecutor(exec as any)
+    await transaction(async trx => {
+      await Promise.all([
+        trx.transaction(async () => { await new Promise(r => setTimeout(r, 0)) }),
+        trx.transaction(async inner => { await inner.transaction(async () => {}); throw new Error('inner') }).catch(() => {}),
+      ])
+    })
+    expect(exec.calls).toEqual([
+      'BEGIN',
+      'SAVEPOINT qk_sp_1', 'SAVEPOINT qk_sp_2',
+      'SAVEPOINT qk_sp_3', 'RELEASE SAVEPOINT qk_sp_3', 'ROLLBACK TO SAVEPOINT qk_sp_2',
+      'RELEASE SAVEPOINT qk_sp_1',
+      'COMMIT',
+    ])
+  })
+
+  it('postgres pins one pooled client for QueryBuilder, Model.save and runSeed', async () => {
+    setDefaultExecutor(new PostgresExecutor({}) as any)
+    await transaction(async () => {
+      await new QueryBuilder('users').where('id', '=', 1).update({ name: 'x' }).make()
+      const u = new User(); u.fill({ name: 'A' }); await u.save()
+      await runSeed('roles', [{ name: 'admin' }])
+    })
+    expect(log.some(l => l.startsWith('pool:'))).toBe(false)
+    expect(log[0]).toBe('client:BEGIN')
+    expect(log.filter(l => l.startsWith('client:INSERT')).length).toBe(2)
+    expect(log.slice(-2)).toEqual(['client:COMMIT', 'release'])
+  })
+
+  it('mysql uses a dedicated connection and releases it after rollback', async () => {
+    setDefaultExecutor(new MysqlExecutor({}) as any)
+    await expect(transaction(async () => {
+      await new QueryBuilder('users').insert({ name: 'a' }).make()
+      throw new Error('fail')
+    })).rejects.toThrow('fail')
+    expect(log).toEqual(['conn:BEGIN', 'conn:INSERT INTO users (name) VALUES (?)', 'conn:ROLLBACK', 'release'])
+  })
+
+  it('sqlserver runs requests on the transaction and uses SAVE TRANSACTION for nesting', async () => {
+    setDefaultExecutor(new SqlServerExecutor({}) as any)
+    await transaction(async trx => {
+      await trx.transaction(async () => { await trx.query('SELECT 1') })
+    })
+    expect(log).toEqual(['tx:BEGIN', 'tx:SAVE TRANSACTION qk_sp_1', 'tx:SELECT 1', 'tx:COMMIT'])
+  })
+
+  it('oracle disables autoCommit on the pinned connection', async () => {
+    setDefaultExecutor(new OracleExecutor({}) as any)
+    await transaction(async () => {
+      await new QueryBuilder('users').where('id', '=', 1).delete().make()
+    })
+    expect(log).toEqual(['conn:DELETE FROM users WHERE id = :1:false', 'conn:COMMIT', 'close'])
+  })
+
+  it('migrations run on the transaction executor', async () => {
+    const exec = new SingleConnExec()
+    setDefaultExecutor(exec as any)
+    const applied = await transaction(() => migrateUp([{ id: '001', up: 'CREATE TABLE a (id INT)' }]))
+    expect(applied).toEqual({ applied: ['001'] })
+    expect(exec.calls[0]).toBe('BEGIN')
+    expect(exec.calls).toContain('CREATE TABLE a (id INT)')
+    expect(exec.calls.at(-1)).toBe('COMMIT')
+  })
+
+  it('better-sqlite3 issues BEGIN/COMMIT on the database', async () => {
+    const statements: string[] = []
+    ;(globalThis as any).__vitest_mocks__.betterSqlite3 = function() {
+      return { prepare: vi.fn((sql: string) => ({ run: () => { statements.push(sql); return { changes: 1, lastInsertRowid: 1 } }, all: () => [] })) }
+    }
+    const { BetterSqlite3Executor } = await import('../adapters/better-sqlite3')
+    setDefaultExecutor(new BetterSqlite3Executor(':memory:'))
+    await transaction(async () => { await new QueryBuilder('t').insert({ a: 1 }).make() })
+    expect(statements).toEqual(['BEGIN', 'INSERT INTO t (a) VALUES (?)', 'COMMIT'])
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { simulationManager } from '../simulation-manager'
+import { QueryBuilder } from '../query-builder'
+import { setDefaultExecutor } from '../config'
+import { raw } from '../raw'
+
+const state = () => ({
+  users: [
+    { id: 1, name: 'Ana', email: 'ana@x.com', role: 'admin', age: 31, team_id: 1, deleted_at: null },
+    { id: 2, name: 'bruno', email: 'bruno@y.com', role: 'user', age: 25, team_id: 1, deleted_at: null },
+    { id: 3, name: 'Carla', email: 'carla@x.com', role: 'user', age: 42, team_id: 2, deleted_at: '2026-01-01' },
+    { id: 4, name: 'Davi', email: null, role: 'guest', age: null, team_id: null, deleted_at: null },
+  ],
+  teams: [{ id: 1, name: 'Core' }, { id: 2, name: 'Ops' }, { id: 3, name: 'Empty' }],
+  orders: [
+    { id: 10, user_id: 1, total: 50, status: 'paid' },
+    { id: 11, user_id: 1, total: 30, status: 'open' },
+    { id: 12, user_id: 2, total: 70, status: 'paid' },
+    { id: 13, user_id: 3, total: 20, status: 'paid' },
+  ],
+})
+
+const users = () => new QueryBuilder<any>('users')
+const use = (dialect: string) => setDefaultExecutor({ dialect, executeQuery: async () => { throw new Error('executor touched') } } as any)
+const ids = (rows: any[]) => rows.map(r => r.id)
+
+describe('in-memory query evaluator (simulation)', () => {
+  beforeEach(async () => {
+    use('sqlite')
+    await simulationManager.start(state())
+  })
+  afterEach(() => simulationManager.stop())
+
+  it('evaluates every where clause type', async () => {
+    expect(ids(await users().where('age', '>', 30).all())).toEqual([1, 3])
+    expect(ids(await users().where('email', 'LIKE', '%@x.com').all())).toEqual([1, 3])
+    expect(ids(await users().whereIn('role', ['user', 'guest']).whereNotNull('age').all())).toEqual([2, 3])
+    expect(ids(await users().whereBetween('age', [25, 31]).all())).toEqual([1, 2])
+    expect(ids(await users().whereNull('email').all())).toEqual([4])
+    expect(ids(await users().whereColumn('id', '<', 'age').where('id', '!=', 1).all())).toEqual([2, 3])
+    expect(ids(await users().whereRaw('LOWER(name) = ? OR age + 1 > ?', ['bruno', 42]).all())).toEqual([2, 3])
+    expect(ids(await users().where('role', '=', 'user').where(q => q.where('age', '<', 30).orWhere('deleted_at', 'IS NOT NULL' as any, null)).all())).toEqual([2, 3])
+  })
+
+  it('runs IN and EXISTS subqueries, including correlated ones', async () => {
+    const payers = new QueryBuilder<any>('orders').select(['user_id']).where('status', '=', 'paid')
+    expect(ids(await users().whereIn('id', payers).all())).toEqual([1, 2, 3])
+    const bigOrder = new QueryBuilder<any>('orders').whereRaw('orders.user_id = users.id AND orders.total > ?', [40])
+    expect(ids(await users().whereExists(bigOrder).all())).toEqual([1, 2])
+    expect(ids(await users().whereNotExists(bigOrder).all())).toEqual([3, 4])
+  })
+
+  it('orders with NULLs placed per dialect, then applies offset and limit', async () => {
+    expect(ids(await users().orderBy('age', 'DESC').all())).toEqual([3, 1, 2, 4])
+    use('postgres')
+    expect(ids(await users().orderBy('age').all())).toEqual([2, 1, 3, 4])
+    expect(ids(await users().orderBy('id', 'DESC').offset(1).limit(2).all())).toEqual([3, 2])
+  })
+
+  it('matches LIKE case-insensitively except on PostgreSQL and Oracle', async () => {
+    expect(ids(await users().where('name', 'LIKE', 'b%').all())).toEqual([2])
+    expect(ids(await users().where('name', 'LIKE', 'A%').all())).toEqual([1])
+    expect(ids(await users().where('name', 'LIKE', 'a%').all())).toEqual([1])
+    use('postgres')
+    expect(ids(await users().where('name', 'LIKE', 'a%').all())).toEqual([])
+  })
+
+  it('projects columns, aliases and expressions', async () => {
+    const rows = await users().select(['id', 'name as label', 'UPPER(role) AS r', 'age * 2 doubled']).where('id', '<', 3).all()
+    expect(rows).toEqual([{ id: 1, label: 'Ana', r: 'ADMIN', doubled: 62 }, { id: 2, label: 'bruno', r: 'USER', doubled: 50 }])
+    const cased = await users().select(["CASE WHEN age >= 30 THEN 'senior' ELSE 'junior' END AS band"]).whereNotNull('age').distinct().orderBy('band').all()
+    expect(cased).toEqual([{ band: 'junior' }, { band: 'senior' }])
+  })
+
+  it('groups and aggregates with having', async () => {
+    const rows = await new QueryBuilder<any>('orders').select(['user_id']).selectCount('*', 'n').selectSum('total', 'spent').groupBy(['user_id']).havingRaw('COUNT(*) > 0').orderBy('spent', 'DESC').all()
+    expect(rows).toEqual([{ user_id: 1, n: 2, spent: 80 }, { user_id: 2, n: 1, spent: 70 }, { user_id: 3, n: 1, spent: 20 }])
+    expect(await new QueryBuilder<any>('orders').where('status', '=', 'paid').count().all()).toEqual([{ count: 3 }])
+    expect(await new QueryBuilder<any>('orders').where('total', '>', 999).sum('total', 'sum').all()).toEqual([{ sum: null }])
+    expect(await users().avg('age', 'a').max('age', 'm').all()).toEqual([{ a: 98 / 3, m: 42 }])
+    expect(await users().select(['team_id']).groupBy(['team_id']).having('team_id', '=', 1).all()).toEqual([{ team_id: 1 }])
+  })
+
+  it('joins virtual tables, null-filling the optional side', async () => {
+    const inner = await users().select(['users.name', 'teams.name as team']).innerJoin('teams', 'teams.id = users.team_id').orderBy('users.id').all()
+    expect(inner).toEqual([{ name: 'Ana', team: 'Core' }, { name: 'bruno', team: 'Core' }, { name: 'Carla', team: 'Ops' }])
+    const left = await new QueryBuilder<any>('users u').select(['u.id', 't.name as team']).leftJoin('teams t', 't.id = u.team_id').all()
+    expect(left.map(r => r.team)).toEqual(['Core', 'Core', 'Ops', null])
+    const right = await users().select(['teams.name']).selectCount('users.id', 'members').rightJoin('teams', 'teams.id = users.team_id').groupBy(['teams.name']).orderBy('teams.name').all()
+    expect(right).toEqual([{ name: 'Core', members: 2 }, { name: 'Empty', members: 0 }, { name: 'Ops', members: 1 }])
+  })
+
+  it('evaluates unions, CTEs and window functions', async () => {
+    const union = await users().select(['name']).where('id', '=', 1).unionAll(new QueryBuilder<any>('teams').select(['name'])).union(users().select(['name']).where('id', '=', 1)).orderBy('name').all()
+    expect(union.map(r => r.name)).toEqual(['Ana', 'Core', 'Empty', 'Ops'])
+    const counting = await new QueryBuilder<any>('nums')
+      .withRecursive('nums', new QueryBuilder<any>('teams').select(['1 AS n']).limit(1), new QueryBuilder<any>('nums').select(['n + 1']).where('n', '<', 5), { columns: ['n'] })
+      .all()
+    expect(counting.map(r => r.n)).toEqual([1, 2, 3, 4, 5])
+    const ranked = await new QueryBuilder<any>('orders').select(['id']).selectWindow('row_number', { partitionBy: ['user_id'], orderBy: [{ column: 'total', direction: 'DESC' }], alias: 'pos' }).selectWindow('sum', { column: 'total', orderBy: ['id'], alias: 'running' }).orderBy('id').all()
+    expect(ranked).toEqual([{ id: 10, pos: 1, running: 50 }, { id: 11, pos: 2, running: 80 }, { id: 12, pos: 1, running: 150 }, { id: 13, pos: 1, running: 170 }])
+  })
+
+  it('uses the same matching for simulated updates and deletes', async () => {
+    const upd = users()
+    await upd.initial()
+    upd.whereIn('role', ['user', 'guest']).where('age', '>', 30).update({ role: 'senior' })
+    upd.tracking()
+    expect(ids(await users().where('role', '=', 'senior').all())).toEqual([3])
+    const del = users()
+    await del.initial()
+    del.whereNull('team_id').delete()
+    del.tracking()
+    expect(ids(await users().all())).toEqual([1, 2, 3])
+  })
+
+  it('rejects SQL outside the supported subset instead of ignoring it', async () => {
+    await expect(users().whereRaw('json_extract(meta, ?) = 1', ['$.a']).all()).rejects.toThrow('Cannot simulate SQL function: JSON_EXTRACT')
+    await expect(users().where('age', '>', raw('(SELECT 1)') as any).all()).rejects.toThrow('Cannot simulate SQL: (SELECT 1)')
+  })
+})
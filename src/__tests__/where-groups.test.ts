@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+import { simulationManager } from '../simulation-manager'
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any = 'sqlite') {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return { data: [], affectedRows: 1 } }
+}
+
+describe('nested where groups', () => {
+  let exec: RecordingExec
+  beforeEach(() => { exec = new RecordingExec(); setDefaultExecutor(exec as any) })
+
+  it('wraps callback conditions in parentheses and keeps binding order', () => {
+    const { sql, bindings } = new QueryBuilder('users')
+      .where('a', '=', 1)
+      .where(q => q.where('b', '=', 2).orWhere('c', '=', 3))
+      .toSql()
+    expect(sql).toBe('SELECT * FROM users WHERE a = ? AND (b = ? OR c = ?)')
+    expect(bindings).toEqual([1, 2, 3])
+  })
+
+  it('nests to any depth and mixes the OR variants', () => {
+    const { sql, bindings } = new QueryBuilder('users')
+      .where('active', '=', true)
+      .orWhere(q => q
+        .whereIn('role', ['admin', 'owner'])
+        .orWhere(q2 => q2.whereNull('banned_at').orWhereNotNull('approved_at').orWhereBetween('age', [18, 30])))
+      .orWhereNotIn('id', [9])
+      .orWhereColumn('updated_at', '>', 'created_at')
+      .orWhereRaw('score > ?', [10])
+      .toSql()
+    expect(sql).toBe(
+      'SELECT * FROM users WHERE active = ? OR (role IN (?, ?) OR (banned_at IS NULL OR approved_at IS NOT NULL OR age BETWEEN ? AND ?))'
+      + ' OR id NOT IN (?) OR updated_at > created_at OR score > ?'
+    )
+    expect(bindings).toEqual([true, 'admin', 'owner', 18, 30, 9, 10])
+  })
+
+  it('keeps OR clauses in call order instead of appending them after every AND', () => {
+    const { sql } = new QueryBuilder('t').where('a', '=', 1).orWhere('b', '=', 2).where('c', '=', 3).toSql()
+    expect(sql).toBe('SELECT * FROM t WHERE a = ? OR b = ? AND c = ?')
+  })
+
+  it('supports exists variants and ignores empty groups', () => {
+    const sub = new QueryBuilder('orders').whereRaw('orders.user_id = users.id')
+    const { sql } = new QueryBuilder('users').where(() => {}).where('a', '=', 1).orWhereExists(sub).orWhereNotExists(sub).toSql()
+    expect(sql).toBe('SELECT * FROM users WHERE a = ? OR EXISTS (SELECT * FROM orders WHERE orders.user_id = users.id) OR NOT EXISTS (SELECT * FROM orders WHERE orders.user_id = users.id)')
+  })
+
+  it('applies the groups to update and delete', async () => {
+    await new QueryBuilder('users').where('tenant', '=', 1).where(q => q.where('a', '=', 2).orWhereNull('b')).update({ flag: 1 }).make()
+    await new QueryBuilder('users').where(q => q.where('a', '=', 2).orWhere('b', '=', 3)).where('tenant', '=', 1).delete().make()
+    expect(exec.calls).toEqual([
+      { sql: 'UPDATE users SET flag = ? WHERE tenant = ? AND (a = ? OR b IS NULL)', bindings: [1, 1, 2] },
+      { sql: 'DELETE FROM users WHERE (a = ? OR b = ?) AND tenant = ?', bindings: [2, 3, 1] },
+    ])
+  })
+
+  it('clone() keeps the groups', () => {
+    const base = new QueryBuilder('t').where(q => q.where('a', '=', 1).orWhere('b', '=', 2))
+    expect(base.clone().where('c', '=', 3).toSql().sql).toBe('SELECT * FROM t WHERE (a = ? OR b = ?) AND c = ?')
+    expect(base.toSql().sql).toBe('SELECT * FROM t WHERE (a = ? OR b = ?)')
+  })
+})
+
+describe('nested where groups in simulation', () => {
+  beforeEach(async () => {
+    setDefaultExecutor(new RecordingExec() as any)
+    await simulationManager.start({ t: [{ id: 1, a: 1, b: 1 }, { id: 2, a: 1, b: 2 }, { id: 3, a: 2, b: 3 }, { id: 4, a: 3, b: 3 }] })
+  })
+  afterEach(() => simulationManager.stop())
+
+  it('filters with AND before OR precedence and nested groups', async () => {
+    const grouped = await new QueryBuilder<any>('t').where('a', '=', 1).where(q => q.where('b', '=', 2).orWhere('b', '=', 9)).all()
+    expect(grouped.map(r => r.id)).toEqual([2])
+    const flat = await new QueryBuilder<any>('t').where('a', '=', 1).where('b', '=', 2).orWhere('b', '=', 3).all()
+    expect(flat.map(r => r.id)).toEqual([2, 3, 4])
+  })
+
+  it('applies grouped conditions to virtual updates and deletes', async () => {
+    const upd = new QueryBuilder<any>('t')
+    await upd.initial()
+    upd.where(q => q.where('id', '=', 1).orWhere('id', '=', 3)).update({ b: 0 })
+    upd.tracking()
+    expect(upd['virtualTable'].filter((r: any) => r.b === 0).map((r: any) => r.id)).toEqual([1, 3])
+
+    const del = new QueryBuilder<any>('t')
+    await del.initial()
+    del.where('a', '=', 3).orWhere(q => q.where('a', '=', 1).where('b', '=', 2)).delete()
+    del.tracking()
+    expect(del['virtualTable'].map((r: any) => r.id)).toEqual([1, 3])
+  })
+})
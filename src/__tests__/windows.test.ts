@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+
+const use = (dialect: string) => setDefaultExecutor({ dialect, executeQuery: async () => ({ data: [] }) } as any)
+
+const moving = () => new QueryBuilder('sales')
+  .window('last7', { partitionBy: ['store'], orderBy: ['day'], frame: { start: { preceding: 6 }, end: 'CURRENT ROW' } })
+  .select(['day'])
+  .selectWindow('avg', { column: 'total', window: 'last7', alias: 'avg_7d' })
+  .selectWindow('sum', { column: 'total', window: 'last7', alias: 'sum_7d' })
+
+describe('window functions', () => {
+  it('compiles ranking functions with partition and order', () => {
+    use('postgres')
+    const { sql } = new QueryBuilder('employees')
+      .select(['name'])
+      .selectWindow('rank', { partitionBy: ['department'], orderBy: [{ column: 'salary', direction: 'DESC' }], alias: 'position' })
+      .selectWindow('dense_rank', { orderBy: ['salary'] })
+      .selectWindow('ntile', { orderBy: ['salary'], buckets: 4, alias: 'quartile' })
+      .toSql()
+    expect(sql).toBe('SELECT name, RANK() OVER (PARTITION BY department ORDER BY salary DESC) AS position, DENSE_RANK() OVER (ORDER BY salary) AS dense_rank, NTILE(4) OVER (ORDER BY salary) AS quartile FROM employees')
+  })
+
+  it('binds the LAG/LEAD default after the select-list position', () => {
+    use('sqlite')
+    const { sql, bindings } = new QueryBuilder('sales')
+      .select(['day'])
+      .selectWindow('lag', { column: 'total', orderBy: ['day'], default: 0, alias: 'prev' })
+      .selectWindow('lead', { column: 'total', orderBy: ['day'], offset: 2, alias: 'next2' })
+      .where('store', '=', 7)
+      .toSql()
+    expect(sql).toBe('SELECT day, LAG(total, 1, ?) OVER (ORDER BY day) AS prev, LEAD(total, 2) OVER (ORDER BY day) AS next2 FROM sales WHERE store = ?')
+    expect(bindings).toEqual([0, 7])
+  })
+
+  it.each([
+    ['sqlite', 'SELECT day, AVG(total) OVER last7 AS avg_7d, SUM(total) OVER last7 AS sum_7d FROM sales WINDOW last7 AS (PARTITION BY store ORDER BY day ROWS BETWEEN 6 PRECEDING AND CURRENT ROW)'],
+    ['postgres', 'SELECT day, AVG(total) OVER last7 AS avg_7d, SUM(total) OVER last7 AS sum_7d FROM sales WINDOW last7 AS (PARTITION BY store ORDER BY day ROWS BETWEEN 6 PRECEDING AND CURRENT ROW)'],
+    ['mysql', 'SELECT day, AVG(total) OVER last7 AS avg_7d, SUM(total) OVER last7 AS sum_7d FROM sales WINDOW last7 AS (PARTITION BY store ORDER BY day ROWS BETWEEN 6 PRECEDING AND CURRENT ROW)'],
+    ['mssql', 'SELECT day, AVG(total) OVER (PARTITION BY store ORDER BY day ROWS BETWEEN 6 PRECEDING AND CURRENT ROW) AS avg_7d, SUM(total) OVER (PARTITION BY store ORDER BY day ROWS BETWEEN 6 PRECEDING AND CURRENT ROW) AS sum_7d FROM sales'],
+    ['oracle', 'SELECT day, AVG(total) OVER (PARTITION BY store ORDER BY day ROWS BETWEEN 6 PRECEDING AND CURRENT ROW) AS avg_7d, SUM(total) OVER (PARTITION BY store ORDER BY day ROWS BETWEEN 6 PRECEDING AND CURRENT ROW) AS sum_7d FROM sales'],
+  ])('emits named windows natively or inline on %s', (dialect, expected) => {
+    use(dialect)
+    expect(moving().toSql().sql).toBe(expected)
+  })
+
+  it('places WINDOW before ORDER BY and paging', () => {
+    use('mysql')
+    const { sql } = new QueryBuilder('scores')
+      .window('w', { partitionBy: ['game'], orderBy: [{ column: 'points', direction: 'DESC' }] })
+      .selectWindow('rank', { window: 'w' })
+      .groupBy(['game', 'points'])
+      .orderBy('game')
+      .limit(10)
+      .toSql()
+    expect(sql).toBe('SELECT *, RANK() OVER w AS `rank` FROM scores GROUP BY game, points WINDOW w AS (PARTITION BY game ORDER BY points DESC) ORDER BY game ASC LIMIT ?')
+  })
+
+  it.each([
+    ['sqlite', 'ROW_NUMBER() OVER () AS rn'],
+    ['mssql', 'ROW_NUMBER() OVER (ORDER BY (SELECT NULL)) AS rn'],
+    ['oracle', 'ROW_NUMBER() OVER (ORDER BY NULL) AS rn'],
+  ])('uses the %s default ordering for ranking functions without ORDER BY', (dialect, expected) => {
+    use(dialect)
+    expect(new QueryBuilder('t').selectWindow('row_number', { alias: 'rn' }).toSql().sql).toContain(expected)
+  })
+
+  it('selectRowNumber uses the native function with the query ORDER BY on every dialect', () => {
+    use('sqlite')
+    const { sql } = new QueryBuilder('users').select(['id']).selectRowNumber('pos').orderBy('score', 'DESC').toSql()
+    expect(sql).toBe('SELECT id, ROW_NUMBER() OVER (ORDER BY score DESC) AS pos FROM users ORDER BY score DESC')
+  })
+
+  it('validates frames, functions and window names', () => {
+    use('mssql')
+    expect(() => new QueryBuilder('t').selectWindow('sum', { column: 'v', orderBy: ['d'], frame: { unit: 'RANGE', start: { preceding: 1 }, end: 'CURRENT ROW' } }).toSql())
+      .toThrow('SQL Server RANGE frames only support UNBOUNDED and CURRENT ROW bounds')
+    expect(() => new QueryBuilder('t').selectWindow('sum', { column: 'v', frame: { start: { preceding: -1 } } }).toSql()).toThrow('Invalid window frame offset: -1')
+    expect(() => new QueryBuilder('t').selectWindow('sum', { column: 'v', frame: { start: '1; DROP' as any } }).toSql()).toThrow('Invalid window frame bound')
+    expect(() => new QueryBuilder('t').selectWindow('ntile', { buckets: 0 }).toSql()).toThrow('Invalid buckets for ntile: 0')
+    expect(() => new QueryBuilder('t').selectWindow('lag', {})).toThrow('Window function lag requires a column')
+    expect(() => new QueryBuilder('t').selectWindow('rank', { window: 'nope' })).toThrow('Unknown window: nope')
+  })
+})
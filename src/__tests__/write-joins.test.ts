@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { setDefaultExecutor } from '../config'
+import { QueryBuilder } from '../query-builder'
+
+class RecordingExec {
+  calls: { sql: string; bindings: any[] }[] = []
+  constructor(public dialect: any, private respond: (sql: string) => any = () => ({ data: [], affectedRows: 2 })) {}
+  async executeQuery(sql: string, bindings: any[] = []) { this.calls.push({ sql, bindings }); return this.respond(sql) }
+}
+
+const use = (dialect: string, respond?: (sql: string) => any) => { const exec = new RecordingExec(dialect, respond); setDefaultExecutor(exec as any); return exec }
+
+const joinedUpdate = () => new QueryBuilder('users')
+  .innerJoin('orders', 'orders.user_id = users.id')
+  .where('orders.total', '>', 100)
+  .update({ vip: 1 })
+const joinedDelete = () => new QueryBuilder('sessions')
+  .innerJoin('users', 'users.id = sessions.user_id')
+  .where('users.banned', '=', 1)
+  .delete()
+
+describe('writes with joins', () => {
+  it.each([
+    ['postgres', 'UPDATE users SET vip = ? FROM orders WHERE orders.user_id = users.id AND (orders.total > ?)', 'DELETE FROM sessions USING users WHERE users.id = sessions.user_id AND (users.banned = ?)'],
+    ['sqlite', 'UPDATE users SET vip = ? FROM orders WHERE orders.user_id = users.id AND (orders.total > ?)', 'DELETE FROM sessions WHERE sessions.id IN (SELECT sessions.id FROM sessions INNER JOIN users ON users.id = sessions.user_id WHERE users.banned = ?)'],
+    ['mysql', 'UPDATE users INNER JOIN orders ON orders.user_id = users.id SET vip = ? WHERE orders.total > ?', 'DELETE sessions FROM sessions INNER JOIN users ON users.id = sessions.user_id WHERE users.banned = ?'],
+    ['mssql', 'UPDATE users SET vip = ? FROM users INNER JOIN orders ON orders.user_id = users.id WHERE orders.total > ?', 'DELETE sessions FROM sessions INNER JOIN users ON users.id = sessions.user_id WHERE users.banned = ?'],
+    ['oracle', 'UPDATE users SET vip = ? WHERE users.id IN (SELECT users.id FROM users INNER JOIN orders ON orders.user_id = users.id WHERE orders.total > ?)', 'DELETE FROM sessions WHERE sessions.id IN (SELECT sessions.id FROM sessions INNER JOIN users ON users.id = sessions.user_id WHERE users.banned = ?)'],
+  ])('compiles joined writes on %s', async (dialect, update, del) => {
+    const exec = use(dialect, sql => dialect === 'mysql' && !sql.startsWith('SELECT') ? [[], { affectedRows: 2 }] : { data: [], affectedRows: 2 })
+    expect((await joinedUpdate().make()).changes).toBe(2)
+    await joinedDelete().make()
+    expect(exec.calls).toEqual([{ sql: update, bindings: [1, 100] }, { sql: del, bindings: [1] }])
+  })
+
+  it('falls back to a key subquery for LEFT joins on postgres and keeps join bindings in order', async () => {
+    const exec = use('postgres')
+    const recent = new QueryBuilder('orders').select(['user_id']).where('created_at', '>', '2024-01-01')
+    await new QueryBuilder('users u').leftJoin('profiles p', 'p.user_id = u.id').whereNull('p.id').update({ incomplete: true }).make()
+    await new QueryBuilder('users').joinSub(recent, 'r', 'r.user_id = users.id').where('active', '=', true).update({ recent: true }).make()
+    expect(exec.calls).toEqual([
+      { sql: 'UPDATE users u SET incomplete = ? WHERE u.id IN (SELECT u.id FROM users u LEFT JOIN profiles p ON p.user_id = u.id WHERE p.id IS NULL)', bindings: [true] },
+      { sql: 'UPDATE users SET recent = ? FROM (SELECT user_id FROM orders WHERE created_at > ?) r WHERE r.user_id = users.id AND (active = ?)', bindings: [true, '2024-01-01', true] },
+    ])
+  })
+
+  it('uses the alias as the target on mssql and mysql', async () => {
+    const mssql = use('mssql')
+    await new QueryBuilder('users u').innerJoin('orders o', 'o.user_id = u.id').where('o.total', '>', 5).update({ vip: 1 }).returning(['id']).make()
+    expect(mssql.calls[0].sql).toBe('UPDATE u SET vip = ? OUTPUT INSERTED.id FROM users u INNER JOIN orders o ON o.user_id = u.id WHERE o.total > ?')
+    const mysql = use('mysql', () => [[], { affectedRows: 1 }])
+    await new QueryBuilder('sessions s').leftJoin('users u', 'u.id = s.user_id').whereNull('u.id').delete().make()
+    expect(mysql.calls[0].sql).toBe('DELETE s FROM sessions s LEFT JOIN users u ON u.id = s.user_id WHERE u.id IS NULL')
+  })
+})
+
+describe('writes with orderBy and limit', () => {
+  const oldest = () => new QueryBuilder('jobs').where('status', '=', 'queued').orderBy('created_at').limit(50)
+
+  it.each([
+    ['mysql', 'UPDATE jobs SET status = ? WHERE status = ? ORDER BY created_at ASC LIMIT ?', ['running', 'queued', 50]],
+    ['sqlite', 'UPDATE jobs SET status = ? WHERE jobs.id IN (SELECT jobs.id FROM jobs WHERE status = ? ORDER BY created_at ASC LIMIT ?)', ['running', 'queued', 50]],
+    ['postgres', 'UPDATE jobs SET status = ? WHERE jobs.id IN (SELECT jobs.id FROM jobs WHERE status = ? ORDER BY created_at ASC LIMIT ?)', ['running', 'queued', 50]],
+    ['mssql', 'UPDATE jobs SET status = ? WHERE jobs.id IN (SELECT TOP (?) jobs.id FROM jobs WHERE status = ? ORDER BY created_at ASC)', ['running', 50, 'queued']],
+    ['oracle', 'UPDATE jobs SET status = ? WHERE jobs.id IN (SELECT jobs.id FROM jobs WHERE status = ? ORDER BY created_at ASC FETCH FIRST ? ROWS ONLY)', ['running', 'queued', 50]],
+  ])('limits updates on %s', async (dialect, sql, bindings) => {
+    const exec = use(dialect, () => dialect === 'mysql' ? [[], { affectedRows: 50 }] : { data: [], affectedRows: 50 })
+    await oldest().update({ status: 'running' }).make()
+    expect(exec.calls[0]).toEqual({ sql, bindings })
+  })
+
+  it('wraps the key subquery in a derived table on mysql when joins and limit are combined', async () => {
+    const exec = use('mysql', () => [[], { affectedRows: 1 }])
+    await new QueryBuilder('jobs').innerJoin('queues', 'queues.id = jobs.queue_id').where('queues.paused', '=', 0).orderBy('jobs.id').limit(10).delete().make()
+    expect(exec.calls[0]).toEqual({
+      sql: 'DELETE FROM jobs WHERE jobs.id IN (SELECT * FROM (SELECT jobs.id FROM jobs INNER JOIN queues ON queues.id = jobs.queue_id WHERE queues.paused = ? ORDER BY jobs.id ASC LIMIT ?) querykit_keys)',
+      bindings: [0, 10],
+    })
+  })
+
+  it('emulates offsets and allows a limit without WHERE', async () => {
+    const exec = use('mysql', () => [[], { affectedRows: 1 }])
+    await new QueryBuilder('logs').orderBy('id').limit(1000).delete().make()
+    await new QueryBuilder('logs').orderBy('id').limit(10).offset(5).increment('hits').make()
+    expect(exec.calls.map(c => c.sql)).toEqual([
+      'DELETE FROM logs WHERE 1 = 1 ORDER BY id ASC LIMIT ?',
+      'UPDATE logs SET hits = hits + ? WHERE logs.id IN (SELECT * FROM (SELECT logs.id FROM logs ORDER BY id ASC LIMIT ? OFFSET ?) querykit_keys)',
+    ])
+    await expect(new QueryBuilder('logs').orderBy('id').delete().make()).rejects.toThrow('Delete operations must have a WHERE clause.')
+  })
+
+  it('mysql re-selects the rows reached by a joined write', async () => {
+    const exec = use('mysql', sql => sql.startsWith('SELECT') ? { data: [{ id: 7, vip: 1 }] } : [[], { affectedRows: 1 }])
+    const res = await joinedUpdate().returning(['id', 'vip']).make()
+    expect(res.rows).toEqual([{ id: 7, vip: 1 }])
+    expect(exec.calls.map(c => c.sql)).toEqual([
+      'SELECT users.id FROM users INNER JOIN orders ON orders.user_id = users.id WHERE orders.total > ?',
+      'UPDATE users INNER JOIN orders ON orders.user_id = users.id SET vip = ? WHERE orders.total > ?',
+      'SELECT id, vip FROM users WHERE id IN (?)',
+    ])
+  })
+})
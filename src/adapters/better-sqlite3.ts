@@ -4,6 +4,7 @@ import { createRequire } from 'node:module';
 export type BetterSqlite3Database = any;
 
 export class BetterSqlite3Executor implements DatabaseExecutor {
+  public dialect: 'sqlite' = 'sqlite';
   private db: BetterSqlite3Database;
 
   constructor(dbFilePath: string) {
@@ -16,7 +17,8 @@ export class BetterSqlite3Executor implements DatabaseExecutor {
 
   executeQuerySync(sql: string, bindings: any[] = []): QueryResult {
     const stmt = this.db.prepare(sql);
-    if (/^select\s/i.test(sql)) {
+    // statements with RETURNING are readers too
+    if (stmt.reader || /^select\s/i.test(sql)) {
       const data = stmt.all(...bindings);
       return { data };
     }
@@ -33,4 +35,22 @@ export class BetterSqlite3Executor implements DatabaseExecutor {
     const info = stmt.run(...bindings);
     return { changes: info.changes, lastInsertRowid: info.lastInsertRowid };
   }
+
+  async *stream(sql: string, bindings: any[] = []): AsyncGenerator<any> {
+    // iterate() busca uma linha por vez do statement preparado
+    for (const row of this.db.prepare(sql).iterate(...bindings)) yield row;
+  }
+
+  async beginTransaction(): Promise<DatabaseExecutor> {
+    this.db.prepare('BEGIN').run();
+    return {
+      dialect: this.dialect,
+      executeQuery: (sql: string, bindings: any[] = []) => this.executeQuery(sql, bindings),
+      executeQuerySync: (sql: string, bindings: any[] = []) => this.executeQuerySync(sql, bindings),
+      runSync: (sql: string, bindings: any[] = []) => this.runSync(sql, bindings),
+      stream: (sql: string, bindings: any[] = []) => this.stream(sql, bindings),
+      commit: async () => { this.db.prepare('COMMIT').run(); },
+      rollback: async () => { this.db.prepare('ROLLBACK').run(); },
+    };
+  }
 } 
\ No newline at end of file
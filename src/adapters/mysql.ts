@@ -11,6 +11,26 @@ function ensureMysql() {
 
 function convertPlaceholders(sql: string): string { return sql; }
 
+async function runMysql(target: any, sql: string, bindings: any[]): Promise<any> {
+  const conv = convertPlaceholders(sql);
+  const [rows, info] = await target.execute(conv, bindings);
+  if (/^\s*select/i.test(conv)) {
+    return { data: rows } as QueryResult;
+  }
+  return [rows, info];
+}
+
+// streams só existem na API de callbacks, exposta por trás do wrapper de promises
+async function* streamMysql(target: any, sql: string, bindings: any[]): AsyncGenerator<any> {
+  const core = target.pool || target.connection || target;
+  const rows = core.query(convertPlaceholders(sql), bindings).stream();
+  try {
+    for await (const row of rows) yield row;
+  } finally {
+    rows.destroy?.();
+  }
+}
+
 export type MysqlExecutorConfig = {
   host?: string;
   port?: number;
@@ -39,11 +59,22 @@ export class MysqlExecutor implements DatabaseExecutor {
   }
 
   async executeQuery(sql: string, bindings: any[] = []): Promise<any> {
-    const conv = convertPlaceholders(sql);
-    const [rows, info] = await this.pool.execute(conv, bindings);
-    if (/^\s*select/i.test(conv)) {
-      return { data: rows } as QueryResult;
-    }
-    return [rows, info];
+    return runMysql(this.pool, sql, bindings);
+  }
+
+  stream(sql: string, bindings: any[] = []): AsyncGenerator<any> {
+    return streamMysql(this.pool, sql, bindings);
+  }
+
+  async beginTransaction(): Promise<DatabaseExecutor> {
+    const conn = await this.pool.getConnection();
+    try { await conn.beginTransaction(); } catch (err) { conn.release(); throw err; }
+    return {
+      dialect: this.dialect,
+      executeQuery: (sql: string, bindings: any[] = []) => runMysql(conn, sql, bindings),
+      stream: (sql: string, bindings: any[] = []) => streamMysql(conn, sql, bindings),
+      commit: async () => { try { await conn.commit(); } finally { conn.release(); } },
+      rollback: async () => { try { await conn.rollback(); } finally { conn.release(); } },
+    };
   }
 } 
\ No newline at end of file
@@ -1,5 +1,6 @@
-import type { DatabaseExecutor, QueryResult } from '../types';
+import type { DatabaseExecutor, QueryResult, StreamOptions } from '../types';
 import { createRequire } from 'node:module';
+import { OutBind } from '../grammars/grammar';
 
 let oracledb: any;
 function ensureOracle() {
@@ -15,6 +16,37 @@ function toOracle(sql: string): { sql: string } {
   return { sql: out };
 }
 
+function returnedRows(columns: string[], outBinds: any[]): any[] {
+  const count = Array.isArray(outBinds[0]) ? outBinds[0].length : 0;
+  const names = columns.map(c => c.replace(/^"(.*)"$/, '$1'));
+  return Array.from({ length: count }, (_, i) => Object.fromEntries(names.map((name, j) => [name, outBinds[j][i]])));
+}
+
+async function runOracle(conn: any, sql: string, bindings: any[], autoCommit: boolean): Promise<QueryResult> {
+  const { sql: text } = toOracle(sql);
+  const outColumns: string[] = [];
+  const binds = bindings.map(b => {
+    if (!(b instanceof OutBind)) return b;
+    outColumns.push(b.column);
+    return { dir: oracledb.BIND_OUT, type: b.type === 'number' ? oracledb.NUMBER : oracledb.STRING };
+  });
+  const res = await conn.execute(text, binds, { outFormat: oracledb.OUT_FORMAT_OBJECT, autoCommit });
+  const rows = outColumns.length > 0 ? returnedRows(outColumns, (res as any).outBinds || []) : ((res as any).rows || []);
+  const affectedRows = (res as any).rowsAffected;
+  const lastInsertId = (res as any).lastRowid;
+  return { data: rows, affectedRows, lastInsertId };
+}
+
+async function* streamOracle(conn: any, sql: string, bindings: any[], batchSize: number): AsyncGenerator<any> {
+  const { sql: text } = toOracle(sql);
+  const rows = conn.queryStream(text, bindings, { outFormat: oracledb.OUT_FORMAT_OBJECT, fetchArraySize: batchSize });
+  try {
+    for await (const row of rows) yield row;
+  } finally {
+    rows.destroy();
+  }
+}
+
 export type OracleExecutorConfig = {
   user?: string;
   password?: string;
@@ -48,14 +80,34 @@ export class OracleExecutor implements DatabaseExecutor {
     const pool = await this.getPool();
     const conn = await pool.getConnection();
     try {
-      const { sql: text } = toOracle(sql);
-      const res = await conn.execute(text, bindings, { outFormat: oracledb.OUT_FORMAT_OBJECT, autoCommit: true });
-      const rows = (res as any).rows || [];
-      const affectedRows = (res as any).rowsAffected;
-      const lastInsertId = (res as any).lastRowid;
-      return { data: rows, affectedRows, lastInsertId };
+      return await runOracle(conn, sql, bindings, true);
     } finally {
       try { await conn.close(); } catch {}
     }
   }
+
+  async *stream(sql: string, bindings: any[] = [], options: StreamOptions = {}): AsyncGenerator<any> {
+    const pool = await this.getPool();
+    const conn = await pool.getConnection();
+    try {
+      yield* streamOracle(conn, sql, bindings, options.batchSize || 1000);
+    } finally {
+      try { await conn.close(); } catch {}
+    }
+  }
+
+  async beginTransaction(): Promise<DatabaseExecutor> {
+    const pool = await this.getPool();
+    const conn = await pool.getConnection();
+    const finish = async (action: 'commit' | 'rollback') => {
+      try { await conn[action](); } finally { try { await conn.close(); } catch {} }
+    };
+    return {
+      dialect: this.dialect,
+      executeQuery: (sql: string, bindings: any[] = []) => runOracle(conn, sql, bindings, false),
+      stream: (sql: string, bindings: any[] = [], options: StreamOptions = {}) => streamOracle(conn, sql, bindings, options.batchSize || 1000),
+      commit: () => finish('commit'),
+      rollback: () => finish('rollback'),
+    };
+  }
 } 
\ No newline at end of file
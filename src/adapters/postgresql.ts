@@ -1,4 +1,4 @@
-import type { DatabaseExecutor, QueryResult } from '../types';
+import type { DatabaseExecutor, QueryResult, StreamOptions } from '../types';
 import { createRequire } from 'node:module';
 
 let pg: any;
@@ -15,6 +15,36 @@ function toPgParams(sql: string): { sql: string } {
   return { sql: out };
 }
 
+async function runPg(queryable: any, sql: string, bindings: any[]): Promise<QueryResult> {
+  const { sql: text } = toPgParams(sql);
+  const res = await queryable.query({ text, values: bindings });
+  return { data: res.rows, affectedRows: (res as any).rowCount };
+}
+
+let cursorSeq = 0;
+
+// DECLARE/FETCH só existem dentro de uma transação; fora de uma, abre e fecha a própria
+async function* streamPg(client: any, sql: string, bindings: any[], batchSize: number, ownTransaction: boolean): AsyncGenerator<any> {
+  const { sql: text } = toPgParams(sql);
+  const cursor = `querykit_cursor_${++cursorSeq}`;
+  let failed = false;
+  if (ownTransaction) await client.query('BEGIN');
+  try {
+    await client.query({ text: `DECLARE ${cursor} NO SCROLL CURSOR FOR ${text}`, values: bindings });
+    while (true) {
+      const res = await client.query(`FETCH FORWARD ${batchSize} FROM ${cursor}`);
+      for (const row of res.rows) yield row;
+      if (res.rows.length < batchSize) break;
+    }
+  } catch (err) {
+    failed = true;
+    throw err;
+  } finally {
+    if (ownTransaction) await client.query(failed ? 'ROLLBACK' : 'COMMIT');
+    else if (!failed) await client.query(`CLOSE ${cursor}`);
+  }
+}
+
 export type PostgresExecutorConfig = {
   connectionString?: string;
   host?: string;
@@ -46,8 +76,30 @@ export class PostgresExecutor implements DatabaseExecutor {
   }
 
   async executeQuery(sql: string, bindings: any[] = []): Promise<QueryResult> {
-    const { sql: text } = toPgParams(sql);
-    const res = await this.pool.query({ text, values: bindings });
-    return { data: res.rows, affectedRows: (res as any).rowCount };
+    return runPg(this.pool, sql, bindings);
+  }
+
+  async *stream(sql: string, bindings: any[] = [], options: StreamOptions = {}): AsyncGenerator<any> {
+    const client = await this.pool.connect();
+    try {
+      yield* streamPg(client, sql, bindings, options.batchSize || 1000, true);
+    } finally {
+      client.release();
+    }
+  }
+
+  async beginTransaction(): Promise<DatabaseExecutor> {
+    const client = await this.pool.connect();
+    try { await client.query('BEGIN'); } catch (err) { client.release(); throw err; }
+    const finish = async (statement: string) => {
+      try { await client.query(statement); } finally { client.release(); }
+    };
+    return {
+      dialect: this.dialect,
+      executeQuery: (sql: string, bindings: any[] = []) => runPg(client, sql, bindings),
+      stream: (sql: string, bindings: any[] = [], options: StreamOptions = {}) => streamPg(client, sql, bindings, options.batchSize || 1000, false),
+      commit: () => finish('COMMIT'),
+      rollback: () => finish('ROLLBACK'),
+    };
   }
 } 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import type { DatabaseExecutor, QueryResult } from '../types';
+import type { DatabaseExecutor, QueryResult, StreamOptions } from '../types';
 import { createRequire } from 'node:module';
 
 let mssql: any;
@@ -16,6 +16,50 @@ function toMssql(sql: string): { sql: string; paramNames: string[] } {
   return { sql: out, paramNames: names };
 }
 
+async function runMssql(request: any, sql: string, bindings: any[]): Promise<QueryResult> {
+  const { sql: text, paramNames } = toMssql(sql);
+  paramNames.forEach((name, idx) => { request.input(name, bindings[idx]); });
+  const res = await request.query(text);
+  const rows = res.recordset || [];
+  const affectedRows = Array.isArray(res.rowsAffected) ? res.rowsAffected.reduce((a: number, b: number) => a + b, 0) : undefined;
+  return { data: rows, affectedRows };
+}
+
+// converte os eventos row/done/error em iteração, pausando a request quando o buffer enche
+async function* streamMssql(request: any, sql: string, bindings: any[], highWaterMark: number): AsyncGenerator<any> {
+  const { sql: text, paramNames } = toMssql(sql);
+  paramNames.forEach((name, idx) => { request.input(name, bindings[idx]); });
+  request.stream = true;
+  const buffer: any[] = [];
+  let done = false;
+  let failure: any;
+  let paused = false;
+  let wake: (() => void) | undefined;
+  const notify = () => { const fn = wake; wake = undefined; fn?.(); };
+  request.on('row', (row: any) => {
+    buffer.push(row);
+    if (buffer.length >= highWaterMark && !paused) { paused = true; request.pause(); }
+    notify();
+  });
+  request.on('error', (err: any) => { failure = err; notify(); });
+  request.on('done', () => { done = true; notify(); });
+  request.query(text);
+  try {
+    while (true) {
+      if (buffer.length > 0) {
+        yield buffer.shift();
+        if (paused && buffer.length === 0) { paused = false; request.resume(); }
+        continue;
+      }
+      if (failure) throw failure;
+      if (done) return;
+      await new Promise<void>(resolve => { wake = resolve; });
+    }
+  } finally {
+    if (!done && !failure) request.cancel?.();
+  }
+}
+
 export type SqlServerExecutorConfig = {
   user?: string;
   password?: string;
@@ -45,12 +89,24 @@ export class SqlServerExecutor implements DatabaseExecutor {
 
   async executeQuery(sql: string, bindings: any[] = []): Promise<QueryResult> {
     const pool = await this.pool;
-    const { sql: text, paramNames } = toMssql(sql);
-    const request = pool.request();
-    paramNames.forEach((name, idx) => { request.input(name, bindings[idx]); });
-    const res = await request.query(text);
-    const rows = res.recordset || [];
-    const affectedRows = Array.isArray(res.rowsAffected) ? res.rowsAffected.reduce((a: number, b: number) => a + b, 0) : undefined;
-    return { data: rows, affectedRows };
+    return runMssql(pool.request(), sql, bindings);
+  }
+
+  async *stream(sql: string, bindings: any[] = [], options: StreamOptions = {}): AsyncGenerator<any> {
+    const pool = await this.pool;
+    yield* streamMssql(pool.request(), sql, bindings, options.batchSize || 1000);
+  }
+
+  async beginTransaction(): Promise<DatabaseExecutor> {
+    const pool = await this.pool;
+    const tx = new mssql.Transaction(pool);
+    await tx.begin();
+    return {
+      dialect: this.dialect,
+      executeQuery: (sql: string, bindings: any[] = []) => runMssql(tx.request(), sql, bindings),
+      stream: (sql: string, bindings: any[] = [], options: StreamOptions = {}) => streamMssql(tx.request(), sql, bindings, options.batchSize || 1000),
+      commit: async () => { await tx.commit(); },
+      rollback: async () => { await tx.rollback(); },
+    };
   }
 } 
\ No newline at end of file
@@ -1,4 +1,6 @@
 import type { DatabaseExecutor, EventBus, SimulationController, MultiDbRegistry } from './types';
+import type { IdentifierQuoting } from './grammars/grammar';
+import { resolveTransactionExecutor } from './transaction-scope';
 
 /**
  * Configuração global do QueryKit que permite definir executors padrão,
@@ -28,6 +30,7 @@ export const QueryKitConfig: {
   defaultDialect?: 'sqlite' | 'mysql' | 'postgres' | 'mssql' | 'oracle';
   tableToDatabase?: Record<string, string>;
   executorResolver?: (tableName: string) => DatabaseExecutor | undefined;
+  identifierQuoting?: IdentifierQuoting;
 } = {} as any;
 
 /**
@@ -140,6 +143,27 @@ export function setDatabaseName(name: string) { (QueryKitConfig as any).database
  */
 export function setDefaultDialect(dialect: 'sqlite' | 'mysql' | 'postgres' | 'mssql' | 'oracle') { (QueryKitConfig as any).defaultDialect = dialect; }
 
+/**
+ * Define como nomes de tabelas e colunas são citados no SQL gerado.
+ * 
+ * @param mode - 'auto' (padrão, cita palavras reservadas e nomes com caracteres especiais),
+ * 'always' (cita todos), 'strict' (como 'auto', mas rejeita nomes que não sejam simples) ou
+ * 'none' (concatena sem alteração)
+ * 
+ * @example
+ * ```typescript
+ * // Dados iniciais
+ * const payload = JSON.parse(body); // { "name = 'x' --": 1 }
+ * 
+ * // Como usar
+ * setIdentifierQuoting('strict');
+ * await new QueryBuilder('users').where('id', '=', 1).update(payload).make();
+ * 
+ * // Output: Error: Invalid identifier: name = 'x' --
+ * ```
+ */
+export function setIdentifierQuoting(mode: IdentifierQuoting) { QueryKitConfig.identifierQuoting = mode; }
+
 /**
  * Define o mapeamento de tabelas para bancos de dados específicos.
  * 
@@ -187,6 +211,7 @@ export function setExecutorResolver(resolver: (tableName: string) => DatabaseExe
 /**
  * Obtém o executor apropriado para uma tabela específica, considerando
  * todas as configurações disponíveis (resolver personalizado, múltiplos bancos, etc.).
+ * Dentro de `transaction()`, devolve o executor fixado na conexão da transação.
  * 
  * @param tableName - Nome da tabela para qual se deseja o executor
  * @param banksHint - Lista opcional de bancos para tentar primeiro
@@ -207,6 +232,10 @@ export function setExecutorResolver(resolver: (tableName: string) => DatabaseExe
  * ```
  */
 export function getExecutorForTable(tableName: string, banksHint?: string[] | undefined): DatabaseExecutor {
+  return resolveTransactionExecutor(resolveExecutor(tableName, banksHint));
+}
+
+function resolveExecutor(tableName: string, banksHint?: string[] | undefined): DatabaseExecutor {
   const cfg: any = QueryKitConfig as any;
   if (cfg.executorResolver) {
     const ex = cfg.executorResolver(tableName);
@@ -0,0 +1,787 @@
+import type { DatabaseExecutor } from '../types';
+
+/**
+ * Dialetos SQL suportados pelos executores.
+ */
+export type Dialect = NonNullable<DatabaseExecutor['dialect']>;
+
+/**
+ * Trecho SQL compilado junto com seus bindings, na ordem dos placeholders.
+ */
+export type SqlFragment = { sql: string; bindings: any[] };
+
+/**
+ * Tipo de statement que recebe a cláusula WITH (alguns dialetos só aceitam CTEs em SELECT).
+ */
+export type StatementKind = 'select' | 'insert' | 'update' | 'delete';
+
+/**
+ * CTE (`WITH name AS (...)`) já compilada pelo QueryBuilder.
+ * Em CTEs recursivas, `query` traz a âncora e a parte recursiva já unidas.
+ */
+export type CommonTableExpression = {
+  /** Nome da CTE (já citado) */
+  name: string;
+  /** Colunas declaradas (já citadas; vazio para herdar da query) */
+  columns: string[];
+  /** Query da CTE */
+  query: SqlFragment;
+  /** Se a query referencia a própria CTE */
+  recursive: boolean;
+  /** Se a CTE deve ser materializada (dica ignorada por dialetos sem suporte) */
+  materialized: boolean;
+};
+
+/**
+ * Limite de um frame de janela: palavra-chave ou deslocamento (inteiro não negativo).
+ */
+export type WindowFrameBound = 'UNBOUNDED PRECEDING' | 'CURRENT ROW' | 'UNBOUNDED FOLLOWING' | { preceding: number } | { following: number };
+
+/**
+ * Frame de uma janela (`ROWS|RANGE BETWEEN start AND end`; sem `end`, apenas `ROWS start`).
+ */
+export type WindowFrame = { unit?: 'ROWS' | 'RANGE'; start: WindowFrameBound; end?: WindowFrameBound };
+
+/**
+ * Definição de janela com colunas já citadas pelo QueryBuilder (`orderBy` inclui a direção).
+ */
+export type WindowDefinition = { partitionBy: string[]; orderBy: string[]; frame?: WindowFrame };
+
+/**
+ * Opções de `explain()`.
+ */
+export type ExplainOptions = {
+  /** Executa a query e inclui as linhas reais no plano (PostgreSQL e MySQL) */
+  analyze?: boolean;
+};
+
+/**
+ * Statements que produzem o plano: `before` e `after` preparam e desfazem o estado da sessão
+ * (rodam na mesma conexão que `plan`), e o resultado de `plan` é o que a gramática interpreta.
+ */
+export type ExplainStatements = { before: SqlFragment[]; plan: SqlFragment; after: SqlFragment[] };
+
+/**
+ * Nó do plano de execução, normalizado entre os dialetos.
+ */
+export type QueryPlanNode = {
+  /** Operação como o banco a nomeia (ex.: 'Seq Scan', 'SEARCH', 'TABLE ACCESS FULL') */
+  operation: string;
+  /** Tabela lida pelo nó */
+  table?: string;
+  /** Índice usado pelo nó */
+  index?: string;
+  /** Linhas estimadas */
+  rows?: number;
+  /** Custo estimado, na unidade do banco */
+  cost?: number;
+  /** Linhas reais (com `analyze`) */
+  actualRows?: number;
+  /** Se o nó lê a tabela inteira */
+  fullScan: boolean;
+  /** Nós filhos */
+  children: QueryPlanNode[];
+};
+
+const FRAME_KEYWORDS = ['UNBOUNDED PRECEDING', 'CURRENT ROW', 'UNBOUNDED FOLLOWING'];
+
+/**
+ * Partes de um SELECT já montadas pelo QueryBuilder, prontas para a gramática compilar.
+ *
+ * @example
+ * ```typescript
+ * // Dados iniciais
+ * const components: SelectComponents = {
+ *   distinct: false, columns: ['id', 'name'], from: 'users', joins: [],
+ *   where: { sql: 'active = ?', bindings: [1] }, groupBy: [], orders: ['name ASC'],
+ *   limit: 10, unions: [],
+ * };
+ *
+ * // Como usar
+ * const { sql, bindings } = getGrammar('mssql').compileSelect(components);
+ *
+ * // Output: "SELECT TOP (?) id, name FROM users WHERE active = ? ORDER BY name ASC", [10, 1]
+ * ```
+ */
+export type SelectComponents = {
+  /** Se deve aplicar DISTINCT */
+  distinct: boolean;
+  /** Expressões da lista de seleção */
+  columns: string[];
+  /** Bindings das subconsultas na lista de seleção */
+  columnBindings?: any[];
+  /** Tabela (com alias opcional) ou tabela derivada `(SELECT ...) alias` */
+  from: string;
+  /** Bindings da tabela derivada do FROM */
+  fromBindings?: any[];
+  /** Cláusulas JOIN completas */
+  joins: string[];
+  /** Bindings das subconsultas usadas nos JOINs */
+  joinBindings?: any[];
+  /** Condição WHERE */
+  where?: SqlFragment;
+  /** Colunas do GROUP BY */
+  groupBy: string[];
+  /** Condição HAVING */
+  having?: SqlFragment;
+  /** Janelas nomeadas (`WINDOW name AS (...)`), com nomes já citados */
+  windows?: { name: string; definition: WindowDefinition }[];
+  /** Itens do ORDER BY (ex.: 'name ASC') */
+  orders: string[];
+  /** Limite de linhas */
+  limit?: number;
+  /** Deslocamento de linhas */
+  offset?: number;
+  /** Queries unidas com UNION / UNION ALL */
+  unions: { type: 'UNION' | 'UNION ALL'; query: SqlFragment }[];
+  /** CTEs declaradas antes do SELECT */
+  ctes?: CommonTableExpression[];
+  /** Lock das linhas lidas (`forUpdate()` / `forShare()`) */
+  lock?: RowLock;
+};
+
+/**
+ * Lock de linha de um SELECT. Só tem efeito dentro de uma transação.
+ */
+export type RowLock = {
+  /** UPDATE bloqueia para escrita; SHARE impede que outras transações alterem as linhas */
+  mode: 'UPDATE' | 'SHARE';
+  /** O que fazer com linhas já bloqueadas: pular (`SKIP LOCKED`) ou falhar na hora (`NOWAIT`) */
+  wait?: 'SKIP LOCKED' | 'NOWAIT';
+};
+
+/**
+ * JOINs, ordenação e limite de um UPDATE/DELETE. Dialetos que não os aceitam diretamente
+ * (ver `supportsWriteModifiers`) recebem a escrita restrita por uma subquery de chaves.
+ */
+export type WriteModifiers = {
+  /** Referência à tabela alvo: o alias, se houver, ou o próprio nome (já citada) */
+  target?: string;
+  /** JOINs com tabela (ou tabela derivada) e condição já compiladas */
+  joins?: { type: 'INNER' | 'LEFT' | 'RIGHT'; table: string; on: string }[];
+  /** Bindings das subconsultas usadas nos JOINs */
+  joinBindings?: any[];
+  /** Itens do ORDER BY (ex.: 'created_at ASC') */
+  orders?: string[];
+  /** Limite de linhas escritas */
+  limit?: number;
+};
+
+/**
+ * Binding de saída usado pelo Oracle em `RETURNING ... INTO`. O adapter o converte em bind OUT
+ * do driver e devolve os valores capturados como linhas em `QueryResult.data`.
+ */
+export class OutBind {
+  /**
+   * @param column - Coluna retornada (como aparece no SQL)
+   * @param type - Tipo do bind no driver; a chave de `returning()` é `number`, as demais colunas `string`
+   */
+  constructor(public readonly column: string, public readonly type: 'string' | 'number' = 'string') {}
+}
+
+/**
+ * Modo de quoting de identificadores (tabelas, colunas, aliases).
+ * - `auto`: cita apenas nomes que precisam (palavras reservadas ou caracteres fora de `[A-Za-z0-9_$]`)
+ * - `always`: cita todos os identificadores
+ * - `strict`: como `auto`, mas rejeita identificadores que não sejam nomes simples
+ * - `none`: concatena os nomes sem alteração
+ */
+export type IdentifierQuoting = 'auto' | 'always' | 'strict' | 'none';
+
+const PLAIN_NAME = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+
+/**
+ * Palavras reservadas comuns a todos os dialetos; cada gramática pode acrescentar as suas.
+ */
+export const COMMON_RESERVED_WORDS = [
+  'all', 'alter', 'and', 'any', 'as', 'asc', 'between', 'by', 'case', 'check', 'column', 'constraint',
+  'create', 'cross', 'current_date', 'current_time', 'current_timestamp', 'current_user', 'default',
+  'delete', 'desc', 'distinct', 'drop', 'else', 'end', 'except', 'exists', 'false', 'fetch', 'for',
+  'foreign', 'from', 'full', 'grant', 'group', 'having', 'in', 'index', 'inner', 'insert', 'intersect',
+  'into', 'is', 'join', 'left', 'like', 'limit', 'not', 'null', 'offset', 'on', 'or', 'order', 'outer',
+  'primary', 'references', 'right', 'select', 'set', 'table', 'then', 'to', 'true', 'union', 'unique',
+  'update', 'user', 'using', 'values', 'when', 'where', 'with',
+];
+
+/**
+ * Compilador SQL base. Implementa a sintaxe do SQLite; cada dialeto sobrescreve
+ * apenas o que diverge (paginação, literais booleanos, concatenação, savepoints).
+ *
+ * @example
+ * ```typescript
+ * // Dados iniciais
+ * class MyGrammar extends Grammar {
+ *   readonly dialect = 'postgres' as const;
+ *   compileConcat(parts: string[]) { return `CONCAT(${parts.join(', ')})`; }
+ * }
+ *
+ * // Como usar
+ * registerGrammar('postgres', new MyGrammar());
+ *
+ * // Output: QueryBuilders em executores postgres passam a usar MyGrammar
+ * ```
+ */
+export class Grammar {
+  readonly dialect: Dialect = 'sqlite';
+  protected openQuote = '"';
+  protected closeQuote = '"';
+  protected reservedWords = new Set(COMMON_RESERVED_WORDS);
+  /** Máximo de parâmetros por statement (SQLite < 3.32 aceita 999; versões novas, 32766) */
+  protected maxBindings = 999;
+  /** Máximo de linhas por INSERT multi-linha */
+  protected maxInsertRows = Infinity;
+  /** Se o dialeto exige `WITH RECURSIVE` (SQL Server e Oracle detectam a recursão sozinhos) */
+  protected recursiveKeyword = true;
+  /** Se o dialeto aceita `FOR UPDATE` / `FOR SHARE` (o SQLite bloqueia o banco inteiro e ignora os locks de linha) */
+  protected rowLocking = false;
+  /** Se o dialeto aceita a cláusula WINDOW; sem ela o QueryBuilder repete a definição em cada OVER */
+  readonly supportsNamedWindows: boolean = true;
+  /** Se o dialeto compara tuplas com `<`/`>` (`(a, b) > (?, ?)`); sem isso a comparação é expandida */
+  readonly supportsRowValues: boolean = true;
+  /** Se o dialeto devolve as linhas escritas (RETURNING / OUTPUT); sem isso o QueryBuilder relê pela chave */
+  readonly supportsReturning: boolean = true;
+  /** Se o retorno funciona em INSERTs multi-linha e upserts (no Oracle só em statements de uma linha) */
+  readonly supportsBatchReturning: boolean = true;
+  /** Se o SELECT de um `INSERT ... SELECT` pode ter o próprio WITH; sem isso as CTEs sobem para antes do INSERT */
+  readonly supportsWithInInsertSelect: boolean = true;
+  /** Se o upsert precisa de colunas de conflito (MERGE); sem elas o `insertOrIgnore()` usa a chave de `returning()` */
+  readonly requiresConflictTarget: boolean = false;
+
+  /**
+   * Cita um identificador, escapando o caractere de fechamento.
+   *
+   * @param name - Nome sem quoting
+   * @returns Nome citado no estilo do dialeto
+   */
+  quoteIdentifier(name: string): string {
+    return `${this.openQuote}${name.split(this.closeQuote).join(this.closeQuote + this.closeQuote)}${this.closeQuote}`;
+  }
+
+  /**
+   * Ajusta a caixa de um nome simples antes de citá-lo, preservando a semântica que ele
+   * teria sem aspas (Oracle converte para maiúsculas, PostgreSQL para minúsculas).
+   *
+   * @param name - Nome simples
+   * @returns Nome com a caixa do dialeto
+   */
+  protected foldCase(name: string): string {
+    return name;
+  }
+
+  private wrapSegment(segment: string, mode: IdentifierQuoting): string {
+    if (segment === '*') return segment;
+    if (!PLAIN_NAME.test(segment)) {
+      if (mode === 'strict') throw new Error(`Invalid identifier: ${segment}`);
+      return this.quoteIdentifier(segment);
+    }
+    if (mode === 'always' || this.reservedWords.has(segment.toLowerCase())) return this.quoteIdentifier(this.foldCase(segment));
+    return segment;
+  }
+
+  /**
+   * Tenta interpretar um valor como referência `nome`, `tabela.coluna` ou `tabela.*`,
+   * com alias opcional (`x as y`, ou também `x y` no modo de alias `bare`).
+   */
+  private wrapReference(value: string, mode: IdentifierQuoting, alias: 'as' | 'bare' | 'none'): string | null {
+    let base = value.trim();
+    let suffix = '';
+    const aliased = alias === 'none' ? null : (alias === 'bare' ? /^(\S+)(\s+as\s+|\s+)(\S+)$/i : /^(\S+)(\s+as\s+)(\S+)$/i).exec(base);
+    if (aliased) {
+      if (!PLAIN_NAME.test(aliased[3])) return null;
+      base = aliased[1];
+      suffix = `${aliased[2]}${this.wrapSegment(aliased[3], mode)}`;
+    }
+    const segments = base.split('.');
+    const valid = segments.every((seg, i) => PLAIN_NAME.test(seg) || (seg === '*' && i === segments.length - 1));
+    if (!valid) return null;
+    return segments.map(seg => this.wrapSegment(seg, mode)).join('.') + suffix;
+  }
+
+  /**
+   * Cita uma coluna que também pode ser uma expressão (lista de seleção, GROUP BY, HAVING).
+   * Referências simples são citadas conforme o modo; expressões passam sem alteração,
+   * exceto no modo `strict`, que as rejeita.
+   *
+   * @param value - Coluna, `tabela.coluna`, `coluna as alias` ou expressão
+   * @param mode - Modo de quoting
+   * @returns SQL da coluna
+   * @throws Error no modo `strict` quando o valor não é um nome simples
+   */
+  wrap(value: string, mode: IdentifierQuoting = 'auto'): string {
+    if (mode === 'none') return value;
+    const wrapped = this.wrapReference(value, mode, 'as');
+    if (wrapped !== null) return wrapped;
+    if (mode === 'strict') throw new Error(`Invalid identifier: ${value}`);
+    return value;
+  }
+
+  /**
+   * Cita um identificador de coluna (`coluna` ou `tabela.coluna`).
+   * Valores que não são nomes simples são citados por inteiro, nunca concatenados crus.
+   *
+   * @param value - Nome da coluna
+   * @param mode - Modo de quoting
+   * @returns Identificador citado
+   * @throws Error no modo `strict` quando o valor não é um nome simples
+   */
+  wrapIdentifier(value: string, mode: IdentifierQuoting = 'auto'): string {
+    if (mode === 'none') return value;
+    const wrapped = this.wrapReference(value, mode, 'none');
+    if (wrapped !== null) return wrapped;
+    if (mode === 'strict') throw new Error(`Invalid identifier: ${value}`);
+    return this.quoteIdentifier(value);
+  }
+
+  /**
+   * Cita um nome de tabela, aceitando schema (`schema.tabela`) e alias (`tabela as t` ou `tabela t`).
+   *
+   * @param value - Nome da tabela
+   * @param mode - Modo de quoting
+   * @returns Tabela citada
+   * @throws Error no modo `strict` quando o valor não é um nome simples
+   */
+  wrapTable(value: string, mode: IdentifierQuoting = 'auto'): string {
+    if (mode === 'none') return value;
+    const wrapped = this.wrapReference(value, mode, 'bare');
+    if (wrapped !== null) return wrapped;
+    if (mode === 'strict') throw new Error(`Invalid identifier: ${value}`);
+    return this.quoteIdentifier(value);
+  }
+
+  /**
+   * Compila um SELECT completo.
+   *
+   * @param c - Partes do SELECT
+   * @returns SQL e bindings na ordem dos placeholders
+   */
+  compileSelect(c: SelectComponents): SqlFragment {
+    const bindings: any[] = [];
+    let sql = `SELECT ${c.distinct ? 'DISTINCT ' : ''}${this.compileTop(c, bindings)}${c.columns.join(', ')} FROM ${c.from}${this.compileTableHints(c)}`;
+    bindings.push(...(c.columnBindings || []), ...(c.fromBindings || []));
+    if (c.joins.length > 0) { sql += ` ${c.joins.join(' ')}`; bindings.push(...(c.joinBindings || [])); }
+    if (c.where?.sql) { sql += ` WHERE ${c.where.sql}`; bindings.push(...c.where.bindings); }
+    if (c.groupBy.length > 0) sql += ` GROUP BY ${c.groupBy.join(', ')}`;
+    if (c.having?.sql) { sql += ` HAVING ${c.having.sql}`; bindings.push(...c.having.bindings); }
+    if (c.windows && c.windows.length > 0) sql += ` WINDOW ${c.windows.map(w => `${w.name} AS (${this.compileWindow(w.definition)})`).join(', ')}`;
+    for (const part of c.unions) { sql += ` ${part.type} ${part.query.sql}`; bindings.push(...part.query.bindings); }
+    if (c.orders.length > 0) sql += ` ORDER BY ${c.orders.join(', ')}`;
+    sql += this.compileLimitOffset(c, bindings);
+    sql += this.compileLock(c);
+    return this.compileWith(c.ctes || [], { sql, bindings });
+  }
+
+  /**
+   * Compila as dicas de tabela após o FROM (usadas pelo SQL Server para locks de linha).
+   *
+   * @param _c - Componentes do SELECT
+   * @returns SQL das dicas, com espaço inicial, ou vazio
+   */
+  protected compileTableHints(_c: SelectComponents): string {
+    return '';
+  }
+
+  /**
+   * Compila o lock de linha ao final do SELECT (`FOR UPDATE SKIP LOCKED`).
+   * Vazio quando o dialeto não tem locks de linha.
+   *
+   * @param c - Componentes do SELECT
+   * @returns SQL do lock, com espaço inicial, ou vazio
+   */
+  protected compileLock(c: SelectComponents): string {
+    if (!c.lock || !this.rowLocking) return '';
+    return ` FOR ${c.lock.mode}${c.lock.wait ? ` ${c.lock.wait}` : ''}`;
+  }
+
+  /**
+   * Prefixa o statement com a cláusula WITH. Os bindings das CTEs vêm antes dos do statement.
+   *
+   * @param ctes - CTEs na ordem de declaração
+   * @param statement - Statement compilado
+   * @param kind - Tipo do statement
+   * @returns SQL e bindings com o WITH aplicado (o próprio statement quando não há CTEs)
+   */
+  compileWith(ctes: CommonTableExpression[], statement: SqlFragment, kind: StatementKind = 'select'): SqlFragment {
+    if (ctes.length === 0) return statement;
+    const recursive = this.recursiveKeyword && ctes.some(cte => cte.recursive) ? 'RECURSIVE ' : '';
+    const sql = `WITH ${recursive}${ctes.map(cte => this.compileCte(cte)).join(', ')} ${statement.sql}`;
+    return { sql, bindings: [...ctes.flatMap(cte => cte.query.bindings), ...statement.bindings] };
+  }
+
+  /**
+   * Compila uma CTE (`name (cols) AS [MATERIALIZED] (...)`).
+   *
+   * @param cte - CTE compilada pelo QueryBuilder
+   * @returns SQL da CTE
+   */
+  protected compileCte(cte: CommonTableExpression): string {
+    const columns = cte.columns.length > 0 ? ` (${cte.columns.join(', ')})` : '';
+    return `${cte.name}${columns} AS ${cte.materialized ? 'MATERIALIZED ' : ''}(${cte.query.sql})`;
+  }
+
+  /**
+   * Compila uma chamada de função de janela (`RANK() OVER (...)`).
+   *
+   * @param name - Nome da função (ex.: 'rank', 'lag')
+   * @param args - Argumentos já compilados
+   * @param over - Nome da janela ou definição entre parênteses
+   * @returns Expressão SQL
+   */
+  compileWindowFunction(name: string, args: string[], over: string): string {
+    return `${name.toUpperCase()}(${args.join(', ')}) OVER ${over}`;
+  }
+
+  /**
+   * Compila o conteúdo de uma janela (`PARTITION BY ... ORDER BY ... ROWS ...`).
+   *
+   * @param definition - Definição da janela
+   * @param ordered - Se a função exige ORDER BY (ranking, LAG/LEAD, NTILE); sem ordenação, usa a ordem padrão do dialeto
+   * @returns SQL sem os parênteses
+   */
+  compileWindow(definition: WindowDefinition, ordered = false): string {
+    const parts: string[] = [];
+    if (definition.partitionBy.length > 0) parts.push(`PARTITION BY ${definition.partitionBy.join(', ')}`);
+    if (definition.orderBy.length > 0) parts.push(`ORDER BY ${definition.orderBy.join(', ')}`);
+    else if (ordered && this.compileWindowDefaultOrder()) parts.push(this.compileWindowDefaultOrder());
+    if (definition.frame) parts.push(this.compileFrame(definition.frame));
+    return parts.join(' ');
+  }
+
+  /**
+   * ORDER BY usado por funções que exigem ordenação quando a janela não define nenhuma.
+   *
+   * @returns SQL do ORDER BY (vazio quando o dialeto aceita a janela sem ordenação)
+   */
+  protected compileWindowDefaultOrder(): string {
+    return '';
+  }
+
+  /**
+   * Compila o frame da janela. Deslocamentos viram literais inteiros.
+   *
+   * @param frame - Frame da janela
+   * @returns SQL do frame
+   * @throws Error se um limite não for uma palavra-chave válida ou um inteiro não negativo
+   */
+  protected compileFrame(frame: WindowFrame): string {
+    const bound = (b: WindowFrameBound): string => {
+      if (typeof b === 'string') {
+        if (!FRAME_KEYWORDS.includes(b)) throw new Error(`Invalid window frame bound: ${b}`);
+        return b;
+      }
+      const [offset, direction] = 'preceding' in b ? [b.preceding, 'PRECEDING'] : [b.following, 'FOLLOWING'];
+      if (!Number.isInteger(offset) || offset < 0) throw new Error(`Invalid window frame offset: ${offset}`);
+      return `${offset} ${direction}`;
+    };
+    const unit = frame.unit === 'RANGE' ? 'RANGE' : 'ROWS';
+    return frame.end ? `${unit} BETWEEN ${bound(frame.start)} AND ${bound(frame.end)}` : `${unit} ${bound(frame.start)}`;
+  }
+
+  /**
+   * Compila a condição de paginação por cursor: linhas depois (ou antes) da tupla `values` na ordenação.
+   * Com todas as colunas no mesmo sentido e suporte a row values, gera `(a, b) > (?, ?)`;
+   * caso contrário, expande para `(a > ? OR (a = ? AND b > ?))`.
+   *
+   * @param columns - Colunas da ordenação (já citadas)
+   * @param operators - `>` ou `<` por coluna, conforme o sentido da ordenação
+   * @param values - Valores da linha de referência, na ordem das colunas
+   * @returns Condição com os bindings na ordem dos placeholders
+   */
+  compileKeysetCondition(columns: string[], operators: ('<' | '>')[], values: any[]): SqlFragment {
+    if (columns.length > 1 && this.supportsRowValues && operators.every(op => op === operators[0])) {
+      return { sql: `(${columns.join(', ')}) ${operators[0]} (${columns.map(() => '?').join(', ')})`, bindings: [...values] };
+    }
+    const bindings: any[] = [];
+    const branches = columns.map((column, i) => {
+      bindings.push(...values.slice(0, i), values[i]);
+      return [...columns.slice(0, i).map(prev => `${prev} = ?`), `${column} ${operators[i]} ?`].join(' AND ');
+    });
+    const sql = branches.length > 1 ? `(${branches.map((b, i) => i === 0 ? b : `(${b})`).join(' OR ')})` : branches[0];
+    return { sql, bindings };
+  }
+
+  /**
+   * Prefixo da lista de seleção usado para limitar linhas (ex.: TOP no SQL Server).
+   *
+   * @param _c - Partes do SELECT
+   * @param _bindings - Bindings acumulados
+   * @returns Prefixo SQL (vazio por padrão)
+   */
+  protected compileTop(_c: SelectComponents, _bindings: any[]): string {
+    return '';
+  }
+
+  /**
+   * Cláusulas de paginação ao final do SELECT.
+   * O SQLite exige LIMIT antes de OFFSET, então usa LIMIT -1 quando só há offset.
+   *
+   * @param c - Partes do SELECT
+   * @param bindings - Bindings acumulados
+   * @returns SQL de paginação
+   */
+  protected compileLimitOffset(c: SelectComponents, bindings: any[]): string {
+    let sql = '';
+    if (typeof c.limit === 'number') { sql += ' LIMIT ?'; bindings.push(c.limit); }
+    else if (typeof c.offset === 'number') sql += ' LIMIT -1';
+    if (typeof c.offset === 'number') { sql += ' OFFSET ?'; bindings.push(c.offset); }
+    return sql;
+  }
+
+  /**
+   * Compila um INSERT de uma linha.
+   *
+   * @param table - Tabela de destino (já citada)
+   * @param columns - Colunas (já citadas)
+   * @param values - Valores na ordem das colunas
+   * @param returning - Colunas a devolver (já citadas; `*` para todas)
+   * @returns SQL e bindings
+   */
+  compileInsert(table: string, columns: string[], values: any[], returning: string[] = []): SqlFragment {
+    return this.compileInsertBatch(table, columns, [values], returning);
+  }
+
+  /**
+   * Compila um INSERT multi-linha (`VALUES (...), (...)`).
+   * O chamador deve respeitar `insertChunkSize` para não exceder o limite de parâmetros.
+   *
+   * @param table - Tabela de destino (já citada)
+   * @param columns - Colunas (já citadas)
+   * @param rows - Valores de cada linha, na ordem das colunas
+   * @param returning - Colunas a devolver (já citadas; `*` para todas)
+   * @returns SQL e bindings
+   */
+  compileInsertBatch(table: string, columns: string[], rows: any[][], returning: string[] = []): SqlFragment {
+    const placeholders = `(${columns.map(() => '?').join(', ')})`;
+    const bindings = rows.flat();
+    const sql = `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${rows.map(() => placeholders).join(', ')}`;
+    return { sql: sql + this.compileReturning(returning, bindings), bindings };
+  }
+
+  /**
+   * Compila um `INSERT INTO ... SELECT`, com os bindings do SELECT na ordem dos placeholders.
+   *
+   * @param table - Tabela de destino (já citada)
+   * @param columns - Colunas preenchidas pelo SELECT, na ordem da lista de seleção (já citadas)
+   * @param select - SELECT compilado
+   * @param returning - Colunas a devolver (já citadas; `*` para todas)
+   * @returns SQL e bindings
+   */
+  compileInsertSelect(table: string, columns: string[], select: SqlFragment, returning: string[] = []): SqlFragment {
+    const bindings = [...select.bindings];
+    const sql = `INSERT INTO ${table} (${columns.join(', ')}) ${select.sql}`;
+    return { sql: sql + this.compileReturning(returning, bindings), bindings };
+  }
+
+  /**
+   * Compila um upsert multi-linha. Com `update` vazio, as linhas em conflito são ignoradas
+   * (base para `insertOrIgnore`). SQLite e PostgreSQL usam `ON CONFLICT ... DO UPDATE`.
+   *
+   * @param table - Tabela de destino (já citada)
+   * @param columns - Colunas inseridas (já citadas)
+   * @param rows - Valores de cada linha, na ordem das colunas
+   * @param conflict - Colunas da chave única que detecta o conflito (já citadas)
+   * @param update - Colunas atualizadas quando há conflito (já citadas)
+   * @param returning - Colunas a devolver (já citadas; `*` para todas)
+   * @returns SQL e bindings
+   * @throws Error se houver colunas para atualizar sem colunas de conflito
+   */
+  compileUpsert(table: string, columns: string[], rows: any[][], conflict: string[], update: string[], returning: string[] = []): SqlFragment {
+    if (update.length > 0 && conflict.length === 0) throw new Error('Upsert requires conflict columns');
+    const insert = this.compileInsertBatch(table, columns, rows);
+    const target = conflict.length > 0 ? ` (${conflict.join(', ')})` : '';
+    const action = update.length > 0 ? `DO UPDATE SET ${update.map(c => `${c} = excluded.${c}`).join(', ')}` : 'DO NOTHING';
+    return { sql: `${insert.sql} ON CONFLICT${target} ${action}${this.compileReturning(returning, insert.bindings)}`, bindings: insert.bindings };
+  }
+
+  /**
+   * Quantas linhas cabem em um INSERT sem exceder os limites do dialeto.
+   *
+   * @param columnCount - Número de colunas por linha
+   * @returns Linhas por statement (no mínimo 1)
+   */
+  insertChunkSize(columnCount: number): number {
+    return Math.max(1, Math.min(this.maxInsertRows, Math.floor(this.maxBindings / Math.max(1, columnCount))));
+  }
+
+  /**
+   * Se o dialeto compila o UPDATE/DELETE com estes JOINs, ORDER BY e LIMIT diretamente.
+   * SQLite e PostgreSQL aceitam `UPDATE ... FROM` com INNER JOINs, mas não ordenação nem limite.
+   *
+   * @param kind - Tipo da escrita
+   * @param modifiers - JOINs, ordenação e limite pedidos
+   * @returns false quando a escrita deve ser restrita por `compileKeyRestriction`
+   */
+  supportsWriteModifiers(kind: 'update' | 'delete', modifiers: WriteModifiers): boolean {
+    if ((modifiers.orders?.length ?? 0) > 0 || modifiers.limit !== undefined) return false;
+    const joins = modifiers.joins || [];
+    return joins.length === 0 || (kind === 'update' && joins.every(j => j.type === 'INNER'));
+  }
+
+  /**
+   * Restringe uma escrita às chaves devolvidas por um SELECT (`key IN (SELECT ...)`),
+   * usado quando o dialeto não aceita os JOINs, a ordenação ou o limite na própria escrita.
+   *
+   * @param key - Coluna chave qualificada pela tabela alvo (já citada)
+   * @param select - SELECT das chaves, com JOINs, WHERE, ORDER BY e limite
+   * @returns Condição WHERE
+   */
+  compileKeyRestriction(key: string, select: SqlFragment): SqlFragment {
+    return { sql: `${key} IN (${select.sql})`, bindings: [...select.bindings] };
+  }
+
+  /**
+   * Condições dos JOINs somadas ao WHERE, para dialetos que listam as tabelas em FROM/USING.
+   */
+  protected joinedWhere(joins: NonNullable<WriteModifiers['joins']>, where: SqlFragment): string {
+    if (joins.length === 0) return where.sql;
+    const conditions = joins.map(j => /\bOR\b/i.test(j.on) ? `(${j.on})` : j.on);
+    return where.sql ? `${conditions.join(' AND ')} AND (${where.sql})` : conditions.join(' AND ');
+  }
+
+  /**
+   * Compila um UPDATE. Com JOINs, usa `UPDATE ... SET ... FROM tabelas WHERE condições`.
+   *
+   * @param table - Tabela de destino
+   * @param set - Lista SET já montada
+   * @param where - Condição WHERE
+   * @param returning - Colunas a devolver (já citadas; `*` para todas)
+   * @param modifiers - JOINs aceitos por `supportsWriteModifiers`
+   * @returns SQL e bindings
+   */
+  compileUpdate(table: string, set: SqlFragment, where: SqlFragment, returning: string[] = [], modifiers: WriteModifiers = {}): SqlFragment {
+    const joins = modifiers.joins || [];
+    const bindings = [...set.bindings, ...(modifiers.joinBindings || []), ...where.bindings];
+    const from = joins.length > 0 ? ` FROM ${joins.map(j => j.table).join(', ')}` : '';
+    return { sql: `UPDATE ${table} SET ${set.sql}${from} WHERE ${this.joinedWhere(joins, where)}${this.compileReturning(returning, bindings)}`, bindings };
+  }
+
+  /**
+   * Compila um DELETE.
+   *
+   * @param table - Tabela de destino
+   * @param where - Condição WHERE
+   * @param returning - Colunas a devolver (já citadas; `*` para todas)
+   * @param _modifiers - JOINs, ordenação e limite (ignorados aqui: o SQLite não os aceita em DELETE)
+   * @returns SQL e bindings
+   */
+  compileDelete(table: string, where: SqlFragment, returning: string[] = [], _modifiers: WriteModifiers = {}): SqlFragment {
+    const bindings = [...where.bindings];
+    return { sql: `DELETE FROM ${table} WHERE ${where.sql}${this.compileReturning(returning, bindings)}`, bindings };
+  }
+
+  /**
+   * Cláusula de retorno ao final do statement (`RETURNING ...` no SQLite 3.35+ e PostgreSQL).
+   *
+   * @param returning - Colunas a devolver (vazio para nenhuma)
+   * @param _bindings - Bindings acumulados (dialetos com binds de saída acrescentam aqui)
+   * @returns SQL da cláusula
+   */
+  protected compileReturning(returning: string[], _bindings: any[]): string {
+    return returning.length > 0 ? ` RETURNING ${returning.join(', ')}` : '';
+  }
+
+  /**
+   * Literal booleano do dialeto.
+   *
+   * @param value - Valor booleano
+   * @returns Literal SQL
+   */
+  compileBoolean(value: boolean): string {
+    return value ? '1' : '0';
+  }
+
+  /**
+   * Concatenação de strings no dialeto.
+   *
+   * @param parts - Expressões SQL a concatenar
+   * @returns Expressão de concatenação
+   */
+  compileConcat(parts: string[]): string {
+    return parts.join(' || ');
+  }
+
+  /**
+   * Converte bindings para tipos aceitos pelo driver (booleanos viram 1/0 por padrão).
+   *
+   * @param bindings - Bindings gerados pelo QueryBuilder
+   * @returns Bindings prontos para execução
+   */
+  prepareBindings(bindings: any[]): any[] {
+    return bindings.map(b => typeof b === 'boolean' ? (b ? 1 : 0) : b);
+  }
+
+  /**
+   * Compila os statements do plano de execução de um SELECT (`EXPLAIN QUERY PLAN` no SQLite).
+   *
+   * @param query - SELECT compilado
+   * @param options - Opções do explain
+   * @returns Statements a executar, na mesma conexão
+   * @throws Error com `analyze`: o SQLite não executa a query para medir o plano
+   */
+  compileExplain(query: SqlFragment, options: ExplainOptions = {}): ExplainStatements {
+    if (options.analyze) throw new Error(`EXPLAIN ANALYZE is not supported on ${this.dialect}`);
+    return { before: [], plan: { sql: `EXPLAIN QUERY PLAN ${query.sql}`, bindings: query.bindings }, after: [] };
+  }
+
+  /**
+   * Converte o resultado do statement `plan` na árvore normalizada. No SQLite cada linha traz
+   * `id`, `parent` e `detail` (`SCAN users`, `SEARCH users USING INDEX idx_email (email=?)`),
+   * sem estimativas de linhas ou custo.
+   *
+   * @param rows - Linhas devolvidas pelo statement `plan`
+   * @returns Nós raiz do plano
+   */
+  parseExplain(rows: any[]): QueryPlanNode[] {
+    const byId = new Map<number, QueryPlanNode>();
+    const roots: QueryPlanNode[] = [];
+    for (const row of rows) {
+      const detail = String(row.detail ?? '');
+      const access = /^(SCAN|SEARCH)(?: TABLE)? (\S+)(?: AS \S+)?(?: USING (?:COVERING |AUTOMATIC (?:PARTIAL )?COVERING )?INDEX (\S+))?/.exec(detail);
+      const constant = !access || /^(CONSTANT|SUBQUERY|CO-ROUTINE)$/.test(access[2]);
+      const node: QueryPlanNode = {
+        operation: access ? access[1] : detail,
+        ...(access && !constant ? { table: access[2] } : {}),
+        ...(access?.[3] ? { index: access[3] } : {}),
+        fullScan: !constant && access![1] === 'SCAN' && !/ USING /.test(detail),
+        children: [],
+      };
+      byId.set(Number(row.id), node);
+      const parent = byId.get(Number(row.parent));
+      (parent ? parent.children : roots).push(node);
+    }
+    return roots;
+  }
+
+  /**
+   * SQL para iniciar uma transação em executores de conexão única.
+   */
+  compileBegin(): string {
+    return 'BEGIN';
+  }
+
+  /**
+   * SQL para criar um savepoint.
+   *
+   * @param name - Nome do savepoint
+   */
+  compileSavepoint(name: string): string {
+    return `SAVEPOINT ${name}`;
+  }
+
+  /**
+   * SQL para voltar a um savepoint.
+   *
+   * @param name - Nome do savepoint
+   */
+  compileRollbackToSavepoint(name: string): string {
+    return `ROLLBACK TO SAVEPOINT ${name}`;
+  }
+
+  /**
+   * SQL para liberar um savepoint, ou null quando o dialeto não possui o comando.
+   *
+   * @param name - Nome do savepoint
+   */
+  compileReleaseSavepoint(name: string): string | null {
+    return `RELEASE SAVEPOINT ${name}`;
+  }
+}
@@ -0,0 +1,65 @@
+import { Grammar, type Dialect } from './grammar';
+import { SqliteGrammar } from './sqlite';
+import { PostgresGrammar } from './postgres';
+import { MysqlGrammar } from './mysql';
+import { MssqlGrammar } from './mssql';
+import { OracleGrammar } from './oracle';
+
+export * from './grammar.js';
+export * from './sqlite.js';
+export * from './postgres.js';
+export * from './mysql.js';
+export * from './mssql.js';
+export * from './oracle.js';
+
+const grammars: Record<Dialect, Grammar> = {
+  sqlite: new SqliteGrammar(),
+  postgres: new PostgresGrammar(),
+  mysql: new MysqlGrammar(),
+  mssql: new MssqlGrammar(),
+  oracle: new OracleGrammar(),
+};
+
+/**
+ * Obtém a gramática registrada para um dialeto (SQLite quando omitido).
+ *
+ * @param dialect - Dialeto do executor
+ * @returns Gramática do dialeto
+ *
+ * @example
+ * ```typescript
+ * // Dados iniciais
+ * const grammar = getGrammar('oracle');
+ *
+ * // Como usar
+ * grammar.compileConcat(['first_name', "' '", 'last_name']);
+ *
+ * // Output: "first_name || ' ' || last_name"
+ * ```
+ */
+export function getGrammar(dialect?: Dialect): Grammar {
+  return grammars[dialect || 'sqlite'];
+}
+
+/**
+ * Substitui a gramática de um dialeto, permitindo customizar a geração de SQL.
+ *
+ * @param dialect - Dialeto a substituir
+ * @param grammar - Nova gramática
+ *
+ * @example
+ * ```typescript
+ * // Dados iniciais
+ * class LegacyMssqlGrammar extends MssqlGrammar {
+ *   compileConcat(parts: string[]) { return parts.join(' + '); }
+ * }
+ *
+ * // Como usar
+ * registerGrammar('mssql', new LegacyMssqlGrammar());
+ *
+ * // Output: SQL Server passa a concatenar com '+'
+ * ```
+ */
+export function registerGrammar(dialect: Dialect, grammar: Grammar): void {
+  grammars[dialect] = grammar;
+}
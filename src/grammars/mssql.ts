@@ -0,0 +1,215 @@
+import { Grammar, COMMON_RESERVED_WORDS, type CommonTableExpression, type Dialect, type ExplainOptions, type ExplainStatements, type QueryPlanNode, type SelectComponents, type SqlFragment, type WindowFrame, type WriteModifiers } from './grammar';
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function xmlAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, value] of source.matchAll(/([\w:]+)="([^"]*)"/g)) attrs[name] = value.replace(/&(\w+);/g, (m, e) => XML_ENTITIES[e] ?? m);
+  return attrs;
+}
+
+const unbracket = (name?: string) => name?.replace(/^\[|\]$/g, '');
+
+// percorre as tags do ShowPlanXML: cada RelOp vira um nó e o primeiro Object dentro dele dá a tabela e o índice
+function showplanNodes(xml: string): QueryPlanNode[] {
+  const roots: QueryPlanNode[] = [];
+  const stack: QueryPlanNode[] = [];
+  for (const [, closing, tag, attrSource, selfClosing] of xml.matchAll(/<(\/?)([\w:]+)([^>]*?)(\/?)>/g)) {
+    if (tag === 'RelOp') {
+      if (closing) { stack.pop(); continue; }
+      const attrs = xmlAttributes(attrSource);
+      const node: QueryPlanNode = {
+        operation: attrs.PhysicalOp,
+        rows: attrs.EstimateRows !== undefined ? Number(attrs.EstimateRows) : undefined,
+        cost: attrs.EstimatedTotalSubtreeCost !== undefined ? Number(attrs.EstimatedTotalSubtreeCost) : undefined,
+        fullScan: attrs.PhysicalOp === 'Table Scan' || attrs.PhysicalOp === 'Clustered Index Scan',
+        children: [],
+      };
+      (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+      if (!selfClosing) stack.push(node);
+    } else if (tag === 'Object' && !closing && stack.length > 0) {
+      const node = stack[stack.length - 1];
+      if (node.table) continue;
+      const attrs = xmlAttributes(attrSource);
+      if (attrs.Table) node.table = unbracket(attrs.Table);
+      if (attrs.Index) node.index = unbracket(attrs.Index);
+    }
+  }
+  return roots;
+}
+
+/**
+ * Gramática do SQL Server: TOP (?) para limite simples, OFFSET ... FETCH NEXT para paginação
+ * (com ORDER BY (SELECT NULL) quando a query não define ordenação), savepoints via SAVE TRANSACTION,
+ * identificadores entre colchetes, INSERT com até 1000 linhas / 2100 parâmetros e retorno via OUTPUT.
+ * CTEs recursivas dispensam RECURSIVE e não há dica de materialização; no `INSERT ... SELECT` elas vêm antes do INSERT. Janelas são sempre inline.
+ * Sem comparação de tuplas com `<`/`>`: a paginação por cursor usa a forma expandida.
+ * UPDATE/DELETE com JOINs usam `FROM`; ordenação e limite passam por uma subquery de chaves.
+ * Locks de linha viram dicas de tabela: `WITH (UPDLOCK | REPEATABLEREAD[, READPAST | NOWAIT])`.
+ * O plano estimado vem de `SET SHOWPLAN_XML ON` (clustered index scan conta como leitura completa).
+ */
+export class MssqlGrammar extends Grammar {
+  readonly dialect: Dialect = 'mssql';
+  readonly supportsNamedWindows = false;
+  readonly supportsRowValues = false;
+  readonly supportsWithInInsertSelect = false;
+  readonly requiresConflictTarget = true;
+  protected openQuote = '[';
+  protected closeQuote = ']';
+  // limite de 2100 do servidor, com folga para os parâmetros que o driver acrescenta (sp_executesql)
+  protected maxBindings = 2098;
+  protected maxInsertRows = 1000;
+  protected recursiveKeyword = false;
+  protected reservedWords = new Set([...COMMON_RESERVED_WORDS, 'file', 'identity', 'key', 'open', 'percent', 'plan', 'public', 'rule', 'top', 'tran', 'transaction', 'view']);
+
+  private usesTop(c: SelectComponents): boolean {
+    return typeof c.limit === 'number' && typeof c.offset !== 'number' && c.unions.length === 0;
+  }
+
+  protected compileTop(c: SelectComponents, bindings: any[]): string {
+    if (!this.usesTop(c)) return '';
+    bindings.push(c.limit);
+    return 'TOP (?) ';
+  }
+
+  protected compileTableHints(c: SelectComponents): string {
+    if (!c.lock) return '';
+    const hints = [c.lock.mode === 'UPDATE' ? 'UPDLOCK' : 'REPEATABLEREAD'];
+    if (c.lock.wait) hints.push(c.lock.wait === 'SKIP LOCKED' ? 'READPAST' : 'NOWAIT');
+    return ` WITH (${hints.join(', ')})`;
+  }
+
+  protected compileLimitOffset(c: SelectComponents, bindings: any[]): string {
+    if (this.usesTop(c) || (typeof c.limit !== 'number' && typeof c.offset !== 'number')) return '';
+    let sql = c.orders.length > 0 ? '' : ' ORDER BY (SELECT NULL)';
+    sql += ' OFFSET ? ROWS';
+    bindings.push(c.offset ?? 0);
+    if (typeof c.limit === 'number') { sql += ' FETCH NEXT ? ROWS ONLY'; bindings.push(c.limit); }
+    return sql;
+  }
+
+  /**
+   * INSERT multi-linha com `OUTPUT INSERTED.*` antes de VALUES.
+   */
+  compileInsertBatch(table: string, columns: string[], rows: any[][], returning: string[] = []): SqlFragment {
+    const placeholders = `(${columns.map(() => '?').join(', ')})`;
+    const sql = `INSERT INTO ${table} (${columns.join(', ')})${this.compileOutput(returning, 'INSERTED')} VALUES ${rows.map(() => placeholders).join(', ')}`;
+    return { sql, bindings: rows.flat() };
+  }
+
+  compileInsertSelect(table: string, columns: string[], select: SqlFragment, returning: string[] = []): SqlFragment {
+    return { sql: `INSERT INTO ${table} (${columns.join(', ')})${this.compileOutput(returning, 'INSERTED')} ${select.sql}`, bindings: [...select.bindings] };
+  }
+
+  /**
+   * JOINs entram no `FROM` do UPDATE/DELETE; TOP sem ORDER BY escolheria linhas arbitrárias,
+   * então ordenação e limite passam pela subquery de chaves.
+   */
+  supportsWriteModifiers(_kind: 'update' | 'delete', modifiers: WriteModifiers): boolean {
+    return (modifiers.orders?.length ?? 0) === 0 && modifiers.limit === undefined;
+  }
+
+  /**
+   * Com JOINs ou alias, `UPDATE alvo SET ... OUTPUT ... FROM t JOIN ... WHERE ...`.
+   */
+  compileUpdate(table: string, set: SqlFragment, where: SqlFragment, returning: string[] = [], modifiers: WriteModifiers = {}): SqlFragment {
+    const output = this.compileOutput(returning, 'INSERTED');
+    const from = this.compileWriteFrom(table, modifiers);
+    if (!from) return { sql: `UPDATE ${table} SET ${set.sql}${output} WHERE ${where.sql}`, bindings: [...set.bindings, ...where.bindings] };
+    return { sql: `UPDATE ${modifiers.target} SET ${set.sql}${output}${from} WHERE ${where.sql}`, bindings: [...set.bindings, ...(modifiers.joinBindings || []), ...where.bindings] };
+  }
+
+  compileDelete(table: string, where: SqlFragment, returning: string[] = [], modifiers: WriteModifiers = {}): SqlFragment {
+    const output = this.compileOutput(returning, 'DELETED');
+    const from = this.compileWriteFrom(table, modifiers);
+    if (!from) return { sql: `DELETE FROM ${table}${output} WHERE ${where.sql}`, bindings: [...where.bindings] };
+    return { sql: `DELETE ${modifiers.target}${output}${from} WHERE ${where.sql}`, bindings: [...(modifiers.joinBindings || []), ...where.bindings] };
+  }
+
+  // FROM só é necessário com JOINs ou quando a tabela alvo tem alias
+  private compileWriteFrom(table: string, modifiers: WriteModifiers): string {
+    const joins = modifiers.joins || [];
+    if (joins.length === 0 && (!modifiers.target || modifiers.target === table)) return '';
+    return ` FROM ${table}${joins.map(j => ` ${j.type} JOIN ${j.table} ON ${j.on}`).join('')}`;
+  }
+
+  /**
+   * Cláusula OUTPUT (`INSERTED.*` / `DELETED.*`), posicionada antes de VALUES/WHERE pelo chamador.
+   */
+  private compileOutput(returning: string[], source: 'INSERTED' | 'DELETED'): string {
+    return returning.length > 0 ? ` OUTPUT ${returning.map(c => `${source}.${c}`).join(', ')}` : '';
+  }
+
+  /**
+   * Upsert via MERGE com as linhas em uma tabela derivada `VALUES`. `WITH (HOLDLOCK)` mantém o bloqueio de
+   * faixa da chave até o fim: sem ele, dois MERGE concorrentes da mesma chave caem ambos no NOT MATCHED.
+   *
+   * @throws Error se `conflict` estiver vazio (o MERGE precisa da condição de junção)
+   */
+  compileUpsert(table: string, columns: string[], rows: any[][], conflict: string[], update: string[], returning: string[] = []): SqlFragment {
+    if (conflict.length === 0) throw new Error('SQL Server upserts require conflict columns');
+    const values = rows.map(() => `(${columns.map(() => '?').join(', ')})`).join(', ');
+    let sql = `MERGE INTO ${table} WITH (HOLDLOCK) AS target USING (VALUES ${values}) AS source (${columns.join(', ')})`;
+    sql += ` ON ${conflict.map(c => `target.${c} = source.${c}`).join(' AND ')}`;
+    if (update.length > 0) sql += ` WHEN MATCHED THEN UPDATE SET ${update.map(c => `target.${c} = source.${c}`).join(', ')}`;
+    sql += ` WHEN NOT MATCHED THEN INSERT (${columns.join(', ')}) VALUES (${columns.map(c => `source.${c}`).join(', ')})`;
+    sql += `${this.compileOutput(returning, 'INSERTED')};`;
+    return { sql, bindings: rows.flat() };
+  }
+
+  protected compileWindowDefaultOrder(): string {
+    return 'ORDER BY (SELECT NULL)';
+  }
+
+  /**
+   * @throws Error em frames RANGE com deslocamento numérico (o SQL Server só aceita UNBOUNDED e CURRENT ROW)
+   */
+  protected compileFrame(frame: WindowFrame): string {
+    const numeric = [frame.start, frame.end].some(b => typeof b === 'object');
+    if (frame.unit === 'RANGE' && numeric) throw new Error('SQL Server RANGE frames only support UNBOUNDED and CURRENT ROW bounds');
+    return super.compileFrame(frame);
+  }
+
+  protected compileCte(cte: CommonTableExpression): string {
+    return super.compileCte({ ...cte, materialized: false });
+  }
+
+  compileConcat(parts: string[]): string {
+    return `CONCAT(${parts.join(', ')})`;
+  }
+
+  prepareBindings(bindings: any[]): any[] {
+    return bindings;
+  }
+
+  compileBegin(): string {
+    return 'BEGIN TRANSACTION';
+  }
+
+  compileSavepoint(name: string): string {
+    return `SAVE TRANSACTION ${name}`;
+  }
+
+  compileRollbackToSavepoint(name: string): string {
+    return `ROLLBACK TRANSACTION ${name}`;
+  }
+
+  compileReleaseSavepoint(_name: string): string | null {
+    return null;
+  }
+
+  /**
+   * Com SHOWPLAN_XML ligado a query não é executada: a sessão devolve o plano estimado em XML.
+   *
+   * @throws Error com `analyze` (o plano real vem num segundo result set, que os executores não devolvem)
+   */
+  compileExplain(query: SqlFragment, options: ExplainOptions = {}): ExplainStatements {
+    if (options.analyze) throw new Error('EXPLAIN ANALYZE is not supported on mssql');
+    return { before: [{ sql: 'SET SHOWPLAN_XML ON', bindings: [] }], plan: query, after: [{ sql: 'SET SHOWPLAN_XML OFF', bindings: [] }] };
+  }
+
+  parseExplain(rows: any[]): QueryPlanNode[] {
+    const xml = rows[0] ? Object.values(rows[0])[0] : undefined;
+    return typeof xml === 'string' ? showplanNodes(xml) : [];
+  }
+}
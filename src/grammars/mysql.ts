@@ -0,0 +1,191 @@
+import { Grammar, COMMON_RESERVED_WORDS, type CommonTableExpression, type Dialect, type ExplainOptions, type ExplainStatements, type QueryPlanNode, type SelectComponents, type SqlFragment, type StatementKind, type WriteModifiers } from './grammar';
+
+// blocos do EXPLAIN FORMAT=JSON que envolvem outros blocos; os arrays listam blocos irmãos
+const MYSQL_PLAN_BLOCKS = ['query_block', 'ordering_operation', 'grouping_operation', 'duplicates_removal', 'windowing', 'union_result', 'materialized_from_subquery'];
+const MYSQL_PLAN_LISTS = ['nested_loop', 'query_specifications', 'attached_subqueries', 'optimized_away_subqueries'];
+
+const toNumber = (value: any): number | undefined => value === undefined || value === null ? undefined : Number(value);
+
+function mysqlJsonNodes(block: any): QueryPlanNode[] {
+  const nodes: QueryPlanNode[] = [];
+  for (const [key, value] of Object.entries<any>(block || {})) {
+    if (key === 'table') {
+      nodes.push({
+        operation: value.access_type,
+        table: value.table_name,
+        ...(value.key ? { index: value.key } : {}),
+        rows: toNumber(value.rows_examined_per_scan),
+        cost: toNumber(value.cost_info?.prefix_cost ?? value.cost_info?.read_cost),
+        fullScan: value.access_type === 'ALL',
+        children: mysqlJsonNodes(value),
+      });
+    } else if (MYSQL_PLAN_BLOCKS.includes(key)) {
+      nodes.push({ operation: key, cost: toNumber(value.cost_info?.query_cost), fullScan: false, children: mysqlJsonNodes(value) });
+    } else if (MYSQL_PLAN_LISTS.includes(key) && Array.isArray(value)) {
+      nodes.push(...value.flatMap(mysqlJsonNodes));
+    }
+  }
+  return nodes;
+}
+
+// `EXPLAIN ANALYZE` só tem o formato de árvore: uma linha `-> operação (cost=... rows=...) (actual ... rows=...)` por nó
+function mysqlTreeNodes(text: string): QueryPlanNode[] {
+  const roots: QueryPlanNode[] = [];
+  const stack: { depth: number; node: QueryPlanNode }[] = [];
+  for (const line of text.split('\n')) {
+    const match = /^(\s*)-> (.*)$/.exec(line);
+    if (!match) continue;
+    const body = match[2];
+    const operation = body.replace(/\s+\((?:cost|actual)[^)]*\).*$/, '');
+    const table = /\bon (\S+)/.exec(operation)?.[1];
+    const index = /\busing (\S+)/.exec(operation)?.[1];
+    const estimate = /\(cost=([\d.e+]+) rows=([\d.e+]+)\)/.exec(body);
+    const actual = /\(actual time=[^ ]+ rows=([\d.e+]+)/.exec(body);
+    const node: QueryPlanNode = {
+      operation,
+      ...(table ? { table } : {}),
+      ...(index ? { index } : {}),
+      ...(estimate ? { rows: Number(estimate[2]), cost: Number(estimate[1]) } : {}),
+      ...(actual ? { actualRows: Number(actual[1]) } : {}),
+      fullScan: /^Table scan on /.test(operation),
+      children: [],
+    };
+    const depth = match[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].node.children : roots).push(node);
+    stack.push({ depth, node });
+  }
+  return roots;
+}
+
+/**
+ * Gramática do MySQL: identificadores com crases, CONCAT() para concatenação e LIMIT máximo quando só há offset.
+ * UPDATE/DELETE aceitam JOINs ou ORDER BY/LIMIT, mas não os dois juntos. `FOR SHARE`, `SKIP LOCKED` e `NOWAIT` exigem MySQL 8.
+ * O plano vem de `EXPLAIN FORMAT=JSON`; com `analyze`, da árvore de `EXPLAIN ANALYZE` (8.0.18+).
+ */
+export class MysqlGrammar extends Grammar {
+  readonly dialect: Dialect = 'mysql';
+  readonly supportsReturning = false;
+  protected openQuote = '`';
+  protected closeQuote = '`';
+  protected maxBindings = 65535;
+  protected rowLocking = true;
+  /** Usa o alias de linha (`AS new`, MySQL 8.0.19+) no lugar de `VALUES(c)` em `ON DUPLICATE KEY UPDATE` */
+  protected upsertRowAlias = false;
+  protected reservedWords = new Set([...COMMON_RESERVED_WORDS, 'div', 'interval', 'key', 'keys', 'long', 'match', 'mod', 'range', 'rank', 'read', 'regexp', 'rlike', 'row', 'rows', 'show', 'usage', 'window', 'write', 'xor']);
+
+  protected compileLimitOffset(c: SelectComponents, bindings: any[]): string {
+    let sql = '';
+    if (typeof c.limit === 'number') { sql += ' LIMIT ?'; bindings.push(c.limit); }
+    else if (typeof c.offset === 'number') sql += ' LIMIT 18446744073709551615';
+    if (typeof c.offset === 'number') { sql += ' OFFSET ?'; bindings.push(c.offset); }
+    return sql;
+  }
+
+  /**
+   * Upsert via `ON DUPLICATE KEY UPDATE` (o MySQL usa qualquer chave única, então `conflict` é ignorado);
+   * sem colunas para atualizar vira `INSERT IGNORE`.
+   * `VALUES(c)` é aceito pelo MySQL 5.7 e pelo MariaDB, mas está obsoleto desde o MySQL 8.0.20 e gera avisos;
+   * com `upsertRowAlias` a atualização lê do alias de linha (`AS new ... c = new.c`), que exige 8.0.19+.
+   *
+   * @example
+   * ```typescript
+   * // Dados iniciais
+   * class Mysql8Grammar extends MysqlGrammar {
+   *   protected upsertRowAlias = true;
+   * }
+   *
+   * // Como usar
+   * registerGrammar('mysql', new Mysql8Grammar());
+   *
+   * // Output: INSERT INTO t (id, name) VALUES (?, ?) AS new ON DUPLICATE KEY UPDATE name = new.name
+   * ```
+   */
+  compileUpsert(table: string, columns: string[], rows: any[][], _conflict: string[], update: string[]): SqlFragment {
+    const { sql, bindings } = this.compileInsertBatch(table, columns, rows);
+    if (update.length === 0) return { sql: sql.replace(/^INSERT /, 'INSERT IGNORE '), bindings };
+    if (this.upsertRowAlias) return { sql: `${sql} AS new ON DUPLICATE KEY UPDATE ${update.map(c => `${c} = new.${c}`).join(', ')}`, bindings };
+    return { sql: `${sql} ON DUPLICATE KEY UPDATE ${update.map(c => `${c} = VALUES(${c})`).join(', ')}`, bindings };
+  }
+
+  supportsWriteModifiers(_kind: 'update' | 'delete', modifiers: WriteModifiers): boolean {
+    const ordered = (modifiers.orders?.length ?? 0) > 0 || modifiers.limit !== undefined;
+    return !(ordered && (modifiers.joins?.length ?? 0) > 0);
+  }
+
+  /**
+   * `UPDATE t JOIN ... SET ... WHERE ... ORDER BY ... LIMIT ?`.
+   */
+  compileUpdate(table: string, set: SqlFragment, where: SqlFragment, _returning: string[] = [], modifiers: WriteModifiers = {}): SqlFragment {
+    const bindings = [...(modifiers.joinBindings || []), ...set.bindings, ...where.bindings];
+    const sql = `UPDATE ${table}${this.compileWriteJoins(modifiers)} SET ${set.sql} WHERE ${where.sql}${this.compileWriteLimit(modifiers, bindings)}`;
+    return { sql, bindings };
+  }
+
+  /**
+   * Com JOINs, `DELETE alvo FROM t JOIN ...`; sem eles, `DELETE FROM t ... ORDER BY ... LIMIT ?`.
+   */
+  compileDelete(table: string, where: SqlFragment, _returning: string[] = [], modifiers: WriteModifiers = {}): SqlFragment {
+    const bindings = [...(modifiers.joinBindings || []), ...where.bindings];
+    const head = (modifiers.joins?.length ?? 0) > 0 ? `DELETE ${modifiers.target || table} FROM ${table}${this.compileWriteJoins(modifiers)}` : `DELETE FROM ${table}`;
+    return { sql: `${head} WHERE ${where.sql}${this.compileWriteLimit(modifiers, bindings)}`, bindings };
+  }
+
+  /**
+   * O MySQL não aceita LIMIT em `IN (subquery)` nem ler a tabela que está sendo alterada;
+   * a subquery vira uma tabela derivada, materializada antes da escrita.
+   */
+  compileKeyRestriction(key: string, select: SqlFragment): SqlFragment {
+    return { sql: `${key} IN (SELECT * FROM (${select.sql}) querykit_keys)`, bindings: [...select.bindings] };
+  }
+
+  private compileWriteJoins(modifiers: WriteModifiers): string {
+    return (modifiers.joins || []).map(j => ` ${j.type} JOIN ${j.table} ON ${j.on}`).join('');
+  }
+
+  private compileWriteLimit(modifiers: WriteModifiers, bindings: any[]): string {
+    let sql = (modifiers.orders?.length ?? 0) > 0 ? ` ORDER BY ${modifiers.orders!.join(', ')}` : '';
+    if (modifiers.limit !== undefined) { sql += ' LIMIT ?'; bindings.push(modifiers.limit); }
+    return sql;
+  }
+
+  /**
+   * O MySQL 8 aceita WITH antes de SELECT, UPDATE e DELETE, mas não antes de INSERT.
+   *
+   * @throws Error em INSERTs com CTEs
+   */
+  compileWith(ctes: CommonTableExpression[], statement: SqlFragment, kind: StatementKind = 'select'): SqlFragment {
+    if (ctes.length > 0 && kind === 'insert') throw new Error('MySQL does not support WITH before INSERT');
+    return super.compileWith(ctes, statement, kind);
+  }
+
+  /**
+   * O MySQL decide sozinho quando materializar; a dica é omitida.
+   */
+  protected compileCte(cte: CommonTableExpression): string {
+    return super.compileCte({ ...cte, materialized: false });
+  }
+
+  compileBoolean(value: boolean): string {
+    return value ? 'TRUE' : 'FALSE';
+  }
+
+  compileConcat(parts: string[]): string {
+    return `CONCAT(${parts.join(', ')})`;
+  }
+
+  prepareBindings(bindings: any[]): any[] {
+    return bindings;
+  }
+
+  compileExplain(query: SqlFragment, options: ExplainOptions = {}): ExplainStatements {
+    return { before: [], plan: { sql: `${options.analyze ? 'EXPLAIN ANALYZE' : 'EXPLAIN FORMAT=JSON'} ${query.sql}`, bindings: query.bindings }, after: [] };
+  }
+
+  parseExplain(rows: any[]): QueryPlanNode[] {
+    const output = rows[0]?.EXPLAIN;
+    if (output === undefined) return [];
+    if (typeof output !== 'string') return mysqlJsonNodes(output);
+    return output.trimStart().startsWith('{') ? mysqlJsonNodes(JSON.parse(output)) : mysqlTreeNodes(output);
+  }
+}
@@ -0,0 +1,166 @@
+import { Grammar, OutBind, COMMON_RESERVED_WORDS, type CommonTableExpression, type Dialect, type ExplainOptions, type ExplainStatements, type IdentifierQuoting, type QueryPlanNode, type SelectComponents, type SqlFragment, type StatementKind, type WriteModifiers } from './grammar';
+
+let explainCount = 0;
+
+/**
+ * Gramática do Oracle (12c+): OFFSET ... ROWS / FETCH FIRST|NEXT ... ROWS ONLY.
+ * Transações começam implicitamente e não há RELEASE SAVEPOINT. Nomes citados ficam em maiúsculas.
+ * Janelas são sempre inline e funções de ranking sem ordenação recebem ORDER BY NULL.
+ * Sem comparação de tuplas com `<`/`>`: a paginação por cursor usa a forma expandida.
+ * UPDATE/DELETE não aceitam JOIN, ORDER BY nem limite: passam sempre por uma subquery de chaves.
+ * Só há `FOR UPDATE`, e não junto de OFFSET/FETCH. O plano é gravado por `EXPLAIN PLAN` e lido da PLAN_TABLE.
+ */
+export class OracleGrammar extends Grammar {
+  readonly dialect: Dialect = 'oracle';
+  readonly supportsBatchReturning = false;
+  readonly supportsNamedWindows = false;
+  readonly supportsRowValues = false;
+  readonly requiresConflictTarget = true;
+  protected maxBindings = 65535;
+  protected recursiveKeyword = false;
+  protected rowLocking = true;
+  protected reservedWords = new Set([...COMMON_RESERVED_WORDS, 'access', 'comment', 'date', 'file', 'level', 'minus', 'mode', 'number', 'public', 'resource', 'row', 'rowid', 'rownum', 'rows', 'session', 'size', 'start', 'sysdate', 'uid', 'view']);
+
+  supportsWriteModifiers(_kind: 'update' | 'delete', modifiers: WriteModifiers): boolean {
+    return (modifiers.joins?.length ?? 0) === 0 && (modifiers.orders?.length ?? 0) === 0 && modifiers.limit === undefined;
+  }
+
+  protected foldCase(name: string): string {
+    return name.toUpperCase();
+  }
+
+  /**
+   * O Oracle não aceita `AS` em alias de tabela: `users as u` vira `users u`.
+   */
+  wrapTable(value: string, mode: IdentifierQuoting = 'auto'): string {
+    return super.wrapTable(value, mode).replace(/^(\S+)\s+as\s+(\S+)$/i, '$1 $2');
+  }
+
+  protected compileLimitOffset(c: SelectComponents, bindings: any[]): string {
+    let sql = '';
+    const hasOffset = typeof c.offset === 'number';
+    if (hasOffset) { sql += ' OFFSET ? ROWS'; bindings.push(c.offset); }
+    if (typeof c.limit === 'number') { sql += hasOffset ? ' FETCH NEXT ? ROWS ONLY' : ' FETCH FIRST ? ROWS ONLY'; bindings.push(c.limit); }
+    return sql;
+  }
+
+  /**
+   * @throws Error para `forShare()` ou para lock junto de limite/deslocamento (ORA-02014)
+   */
+  protected compileLock(c: SelectComponents): string {
+    if (!c.lock) return '';
+    if (c.lock.mode === 'SHARE') throw new Error('Oracle does not support shared row locks; use forUpdate()');
+    if (typeof c.limit === 'number' || typeof c.offset === 'number') throw new Error('Oracle does not support FOR UPDATE with a row limit');
+    return super.compileLock(c);
+  }
+
+  /**
+   * O Oracle não aceita `VALUES (...), (...)`; várias linhas usam INSERT ALL.
+   */
+  compileInsertBatch(table: string, columns: string[], rows: any[][], returning: string[] = []): SqlFragment {
+    if (rows.length === 1) return super.compileInsertBatch(table, columns, rows, returning);
+    if (returning.length > 0) throw new Error('Oracle INSERT ALL does not support RETURNING');
+    const into = `INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
+    return { sql: `INSERT ALL ${rows.map(() => into).join(' ')} SELECT 1 FROM DUAL`, bindings: rows.flat() };
+  }
+
+  /**
+   * `RETURNING ... INTO` só devolve uma linha; o `INSERT ... SELECT` pode gravar várias.
+   */
+  compileInsertSelect(table: string, columns: string[], select: SqlFragment, returning: string[] = []): SqlFragment {
+    if (returning.length > 0) throw new Error('Oracle INSERT ... SELECT does not support RETURNING');
+    return super.compileInsertSelect(table, columns, select);
+  }
+
+  /**
+   * Upsert via MERGE com as linhas em um `SELECT ... FROM DUAL UNION ALL ...`.
+   *
+   * @throws Error se `conflict` estiver vazio (o MERGE precisa da condição de junção)
+   */
+  compileUpsert(table: string, columns: string[], rows: any[][], conflict: string[], update: string[], returning: string[] = []): SqlFragment {
+    if (conflict.length === 0) throw new Error('Oracle upserts require conflict columns');
+    if (returning.length > 0) throw new Error('Oracle MERGE does not support RETURNING');
+    const source = rows.map((_, i) => `SELECT ${columns.map(c => (i === 0 ? `? ${c}` : '?')).join(', ')} FROM DUAL`).join(' UNION ALL ');
+    let sql = `MERGE INTO ${table} target USING (${source}) source`;
+    sql += ` ON (${conflict.map(c => `target.${c} = source.${c}`).join(' AND ')})`;
+    if (update.length > 0) sql += ` WHEN MATCHED THEN UPDATE SET ${update.map(c => `target.${c} = source.${c}`).join(', ')}`;
+    sql += ` WHEN NOT MATCHED THEN INSERT (${columns.join(', ')}) VALUES (${columns.map(c => `source.${c}`).join(', ')})`;
+    return { sql, bindings: rows.flat() };
+  }
+
+  protected compileWindowDefaultOrder(): string {
+    return 'ORDER BY NULL';
+  }
+
+  /**
+   * O Oracle só aceita WITH no início de queries; INSERT/UPDATE/DELETE/MERGE precisam de subconsultas.
+   *
+   * @throws Error em escritas com CTEs
+   */
+  compileWith(ctes: CommonTableExpression[], statement: SqlFragment, kind: StatementKind = 'select'): SqlFragment {
+    if (ctes.length > 0 && kind !== 'select') throw new Error(`Oracle does not support WITH before ${kind.toUpperCase()}; use a subquery instead`);
+    return super.compileWith(ctes, statement, kind);
+  }
+
+  /**
+   * CTEs recursivas exigem a lista de colunas; a materialização vira a dica de otimizador MATERIALIZE no SELECT da CTE.
+   *
+   * @throws Error em CTE recursiva sem colunas
+   */
+  protected compileCte(cte: CommonTableExpression): string {
+    if (cte.recursive && cte.columns.length === 0) throw new Error(`Oracle recursive CTE "${cte.name}" requires a column list`);
+    const sql = cte.materialized ? cte.query.sql.replace(/^SELECT /, 'SELECT /*+ MATERIALIZE */ ') : cte.query.sql;
+    return super.compileCte({ ...cte, query: { ...cte.query, sql }, materialized: false });
+  }
+
+  /**
+   * `RETURNING ... INTO` com um bind de saída por coluna; o adapter devolve os valores como linhas.
+   */
+  protected compileReturning(returning: string[], bindings: any[]): string {
+    if (returning.length === 0) return '';
+    if (returning.includes('*')) throw new Error('Oracle RETURNING requires explicit columns');
+    bindings.push(...returning.map(c => new OutBind(c)));
+    return ` RETURNING ${returning.join(', ')} INTO ${returning.map(() => '?').join(', ')}`;
+  }
+
+  compileReleaseSavepoint(_name: string): string | null {
+    return null;
+  }
+
+  /**
+   * `EXPLAIN PLAN` grava o plano na PLAN_TABLE sob um STATEMENT_ID próprio, que é lido e apagado em seguida.
+   * A query não recebe bindings: o Oracle só analisa o SQL, sem executá-lo.
+   *
+   * @throws Error com `analyze` (o plano real exige DBMS_XPLAN sobre o cursor executado)
+   */
+  compileExplain(query: SqlFragment, options: ExplainOptions = {}): ExplainStatements {
+    if (options.analyze) throw new Error('EXPLAIN ANALYZE is not supported on oracle');
+    const id = `querykit_${++explainCount}`;
+    const columns = ['id', 'parent_id', 'operation', 'options', 'object_name', 'object_type', 'cardinality', 'cost'].map(c => `${c} "${c}"`).join(', ');
+    return {
+      before: [{ sql: `EXPLAIN PLAN SET STATEMENT_ID = '${id}' FOR ${query.sql}`, bindings: [] }],
+      plan: { sql: `SELECT ${columns} FROM plan_table WHERE statement_id = ? ORDER BY id`, bindings: [id] },
+      after: [{ sql: 'DELETE FROM plan_table WHERE statement_id = ?', bindings: [id] }],
+    };
+  }
+
+  parseExplain(rows: any[]): QueryPlanNode[] {
+    const byId = new Map<number, QueryPlanNode>();
+    const roots: QueryPlanNode[] = [];
+    for (const row of rows) {
+      const index = String(row.object_type ?? '').startsWith('INDEX');
+      const node: QueryPlanNode = {
+        operation: [row.operation, row.options].filter(Boolean).join(' '),
+        ...(row.object_name ? (index ? { index: row.object_name } : { table: row.object_name }) : {}),
+        ...(row.cardinality != null ? { rows: Number(row.cardinality) } : {}),
+        ...(row.cost != null ? { cost: Number(row.cost) } : {}),
+        fullScan: row.operation === 'TABLE ACCESS' && row.options === 'FULL',
+        children: [],
+      };
+      byId.set(Number(row.id), node);
+      const parent = row.parent_id == null ? undefined : byId.get(Number(row.parent_id));
+      (parent ? parent.children : roots).push(node);
+    }
+    return roots;
+  }
+}
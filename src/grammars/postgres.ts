@@ -0,0 +1,63 @@
+import { Grammar, COMMON_RESERVED_WORDS, type Dialect, type ExplainOptions, type ExplainStatements, type QueryPlanNode, type SelectComponents, type SqlFragment, type WriteModifiers } from './grammar';
+
+/**
+ * Gramática do PostgreSQL: OFFSET sem LIMIT, booleanos nativos e nomes citados em minúsculas.
+ * Escritas com INNER JOIN usam `UPDATE ... FROM` e `DELETE ... USING`. O plano vem de `EXPLAIN (FORMAT JSON)`.
+ */
+export class PostgresGrammar extends Grammar {
+  readonly dialect: Dialect = 'postgres';
+  protected maxBindings = 65535;
+  protected rowLocking = true;
+  protected reservedWords = new Set([...COMMON_RESERVED_WORDS, 'analyse', 'analyze', 'array', 'collate', 'do', 'only', 'placing', 'returning', 'session_user', 'some', 'symmetric', 'window']);
+
+  protected foldCase(name: string): string {
+    return name.toLowerCase();
+  }
+
+  protected compileLimitOffset(c: SelectComponents, bindings: any[]): string {
+    let sql = '';
+    if (typeof c.limit === 'number') { sql += ' LIMIT ?'; bindings.push(c.limit); }
+    if (typeof c.offset === 'number') { sql += ' OFFSET ?'; bindings.push(c.offset); }
+    return sql;
+  }
+
+  supportsWriteModifiers(_kind: 'update' | 'delete', modifiers: WriteModifiers): boolean {
+    if ((modifiers.orders?.length ?? 0) > 0 || modifiers.limit !== undefined) return false;
+    return (modifiers.joins || []).every(j => j.type === 'INNER');
+  }
+
+  compileDelete(table: string, where: SqlFragment, returning: string[] = [], modifiers: WriteModifiers = {}): SqlFragment {
+    const joins = modifiers.joins || [];
+    if (joins.length === 0) return super.compileDelete(table, where, returning);
+    const bindings = [...(modifiers.joinBindings || []), ...where.bindings];
+    return { sql: `DELETE FROM ${table} USING ${joins.map(j => j.table).join(', ')} WHERE ${this.joinedWhere(joins, where)}${this.compileReturning(returning, bindings)}`, bindings };
+  }
+
+  compileBoolean(value: boolean): string {
+    return value ? 'TRUE' : 'FALSE';
+  }
+
+  prepareBindings(bindings: any[]): any[] {
+    return bindings;
+  }
+
+  compileExplain(query: SqlFragment, options: ExplainOptions = {}): ExplainStatements {
+    return { before: [], plan: { sql: `EXPLAIN (${options.analyze ? 'ANALYZE, ' : ''}FORMAT JSON) ${query.sql}`, bindings: query.bindings }, after: [] };
+  }
+
+  parseExplain(rows: any[]): QueryPlanNode[] {
+    const raw = rows[0]?.['QUERY PLAN'];
+    const plans: any[] = typeof raw === 'string' ? JSON.parse(raw) : raw || [];
+    const toNode = (plan: any): QueryPlanNode => ({
+      operation: plan['Node Type'],
+      ...(plan['Relation Name'] ? { table: plan['Relation Name'] } : {}),
+      ...(plan['Index Name'] ? { index: plan['Index Name'] } : {}),
+      rows: plan['Plan Rows'],
+      cost: plan['Total Cost'],
+      ...(plan['Actual Rows'] !== undefined ? { actualRows: plan['Actual Rows'] } : {}),
+      fullScan: plan['Node Type'] === 'Seq Scan',
+      children: (plan.Plans || []).map(toNode),
+    });
+    return plans.map(p => toNode(p.Plan));
+  }
+}
@@ -0,0 +1,10 @@
+import { Grammar, type Dialect } from './grammar';
+
+/**
+ * Gramática do SQLite. A gramática base já segue a sintaxe do SQLite.
+ * Locks de linha (`forUpdate()`, `forShare()`) não são compilados: o SQLite bloqueia o banco inteiro
+ * na escrita, e `BEGIN IMMEDIATE` é o equivalente para reservar a escrita antes de ler.
+ */
+export class SqliteGrammar extends Grammar {
+  readonly dialect: Dialect = 'sqlite';
+}
@@ -4,6 +4,7 @@ export * from './table'
 export * from './raw'
 export * from './model'
 export * from './query-builder'
+export * from './query-ast'
 export * from './event-manager'
 export * from './database-manager'
 export * from './scheduler'
@@ -11,8 +12,13 @@ export * from './view-manager'
 export * from './trigger-manager'
 export * from './parallel-query'
 export * from './simulation-manager'
+export * from './simulation-diff'
+export * from './simulation-schema'
 export * from './migration-manager'
 export * from './migration-dsl'
 export * from './relations-resolver'
 export * from './adapters'
-export * from './seed'
\ No newline at end of file
+export * from './seed'
+export * from './transaction'
+export * from './grammars'
+
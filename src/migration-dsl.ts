@@ -1,4 +1,6 @@
 import type { MigrationContext, MigrationStep } from './migration-manager'
+import { QueryKitConfig } from './config'
+import { getGrammar, type Dialect } from './grammars'
 
 /**
  * Tipos de colunas suportados pelo sistema de migração.
@@ -128,6 +130,18 @@ export type ColumnOptions = {
   references?: ForeignKeyOptions
 }
 
+/**
+ * Definição de uma coluna em `createTable()` e `addColumn()`: tipo mais opções.
+ */
+export type ColumnDefinition = { type: ColumnType } & ColumnOptions
+
+/**
+ * Estrutura de uma tabela segundo as operações registradas no builder.
+ * `unique` lista os conjuntos de colunas únicos vindos de `createIndex(..., { unique: true })`
+ * e de `createJoinTable()`.
+ */
+export type TableDefinition = { columns: Record<string, ColumnDefinition>; unique: string[][] }
+
 /**
  * Construtor de migrações com DSL fluente.
  * Permite definir operações de migração de forma declarativa e legível.
@@ -152,6 +166,8 @@ export type ColumnOptions = {
  */
 export class MigrationBuilder {
   private steps: ((ctx: MigrationContext) => Promise<void>)[] = []
+  private tables: Record<string, TableDefinition> = {}
+  private uniqueIndexes: Record<string, { table: string; columns: string[] }> = {}
 
   /**
    * Mapeia tipos de coluna para tipos SQL específicos do dialeto.
@@ -327,6 +343,28 @@ export class MigrationBuilder {
     return String(v)
   }
 
+  /**
+   * Cita um nome de coluna ou índice conforme o dialeto e o modo de quoting configurado.
+   *
+   * @param dialect - Dialeto alvo
+   * @param name - Nome a citar
+   * @returns Identificador pronto para o DDL
+   */
+  private quoteName(dialect: string | undefined, name: string): string {
+    return getGrammar((dialect || QueryKitConfig.defaultDialect) as Dialect).wrapIdentifier(name, QueryKitConfig.identifierQuoting || 'auto')
+  }
+
+  /**
+   * Cita um nome de tabela (com schema opcional) conforme o dialeto e o modo de quoting configurado.
+   *
+   * @param dialect - Dialeto alvo
+   * @param name - Tabela
+   * @returns Tabela pronta para o DDL
+   */
+  private quoteTable(dialect: string | undefined, name: string): string {
+    return getGrammar((dialect || QueryKitConfig.defaultDialect) as Dialect).wrapTable(name, QueryKitConfig.identifierQuoting || 'auto')
+  }
+
   /**
    * Constrói definição completa de coluna em SQL.
    * 
@@ -337,7 +375,7 @@ export class MigrationBuilder {
    * @returns String SQL da definição da coluna
    */
   private colDef(dialect: string | undefined, name: string, type: ColumnType, opts: ColumnOptions = {}): string {
-    const parts: string[] = [name, this.typeFor(dialect, type, opts.length, opts.precision, opts.scale)]
+    const parts: string[] = [this.quoteName(dialect, name), this.typeFor(dialect, type, opts.length, opts.precision, opts.scale)]
     if (opts.primaryKey) parts.push('PRIMARY KEY')
     if (opts.notNull) parts.push('NOT NULL')
     if (opts.unique) parts.push('UNIQUE')
@@ -387,7 +425,7 @@ export class MigrationBuilder {
 
     if (opts.references) {
       const refCol = opts.references.column || 'id'
-      let ref = `REFERENCES ${opts.references.table} (${refCol})`
+      let ref = `REFERENCES ${this.quoteTable(dialect, opts.references.table)} (${this.quoteName(dialect, refCol)})`
       if (opts.references.onDelete) ref += ` ON DELETE ${opts.references.onDelete}`
       if (opts.references.onUpdate) ref += ` ON UPDATE ${opts.references.onUpdate}`
       parts.push(ref)
@@ -418,10 +456,11 @@ export class MigrationBuilder {
    * // Output: Operação de criação de tabela adicionada ao builder
    * ```
    */
-  createTable(name: string, columns: Record<string, { type: ColumnType } & ColumnOptions>): this {
+  createTable(name: string, columns: Record<string, ColumnDefinition>): this {
+    this.tables[name] = { columns: { ...columns }, unique: [] }
     this.steps.push(async (ctx) => {
       const cols = Object.entries(columns).map(([n, def]) => this.colDef(ctx.dialect, n, def.type, def))
-      const sql = `CREATE TABLE ${name} (${cols.join(', ')})`
+      const sql = `CREATE TABLE ${this.quoteTable(ctx.dialect, name)} (${cols.join(', ')})`
       await ctx.query(sql)
     })
     return this
@@ -445,7 +484,8 @@ export class MigrationBuilder {
    * ```
    */
   dropTable(name: string): this {
-    this.steps.push(async (ctx) => { await ctx.query(`DROP TABLE IF EXISTS ${name}`) })
+    delete this.tables[name]
+    this.steps.push(async (ctx) => { await ctx.query(`DROP TABLE IF EXISTS ${this.quoteTable(ctx.dialect, name)}`) })
     return this
   }
 
@@ -472,9 +512,10 @@ export class MigrationBuilder {
    * // Output: Operação de adição de coluna adicionada ao builder
    * ```
    */
-  addColumn(table: string, column: string, def: { type: ColumnType } & ColumnOptions): this {
+  addColumn(table: string, column: string, def: ColumnDefinition): this {
+    if (this.tables[table]) this.tables[table].columns[column] = def
     this.steps.push(async (ctx) => {
-      const sql = `ALTER TABLE ${table} ADD COLUMN ${this.colDef(ctx.dialect, column, def.type, def)}`
+      const sql = `ALTER TABLE ${this.quoteTable(ctx.dialect, table)} ADD COLUMN ${this.colDef(ctx.dialect, column, def.type, def)}`
       await ctx.query(sql)
     })
     return this
@@ -499,8 +540,13 @@ export class MigrationBuilder {
    * ```
    */
   dropColumn(table: string, column: string): this {
+    const def = this.tables[table]
+    if (def) {
+      delete def.columns[column]
+      def.unique = def.unique.filter(cols => !cols.includes(column))
+    }
     this.steps.push(async (ctx) => {
-      await ctx.query(`ALTER TABLE ${table} DROP COLUMN ${column}`)
+      await ctx.query(`ALTER TABLE ${this.quoteTable(ctx.dialect, table)} DROP COLUMN ${this.quoteName(ctx.dialect, column)}`)
     })
     return this
   }
@@ -525,8 +571,13 @@ export class MigrationBuilder {
    * ```
    */
   renameColumn(table: string, from: string, to: string): this {
+    const def = this.tables[table]
+    if (def && def.columns[from]) {
+      def.columns = Object.fromEntries(Object.entries(def.columns).map(([n, c]) => [n === from ? to : n, c]))
+      def.unique = def.unique.map(cols => cols.map(c => c === from ? to : c))
+    }
     this.steps.push(async (ctx) => {
-      await ctx.query(`ALTER TABLE ${table} RENAME COLUMN ${from} TO ${to}`)
+      await ctx.query(`ALTER TABLE ${this.quoteTable(ctx.dialect, table)} RENAME COLUMN ${this.quoteName(ctx.dialect, from)} TO ${this.quoteName(ctx.dialect, to)}`)
     })
     return this
   }
@@ -552,10 +603,14 @@ export class MigrationBuilder {
    * ```
    */
   createIndex(table: string, columns: string[], opts: { unique?: boolean; name?: string } = {}): this {
+    if (opts.unique && this.tables[table]) {
+      this.tables[table].unique.push([...columns])
+      this.uniqueIndexes[opts.name || `${table}_${columns.join('_')}_idx`] = { table, columns }
+    }
     this.steps.push(async (ctx) => {
       const name = opts.name || `${table}_${columns.join('_')}_idx`
       const uniq = opts.unique ? 'UNIQUE ' : ''
-      const sql = `CREATE ${uniq}INDEX IF NOT EXISTS ${name} ON ${table} (${columns.join(', ')})`
+      const sql = `CREATE ${uniq}INDEX IF NOT EXISTS ${this.quoteName(ctx.dialect, name)} ON ${this.quoteTable(ctx.dialect, table)} (${columns.map(c => this.quoteName(ctx.dialect, c)).join(', ')})`
       await ctx.query(sql)
     })
     return this
@@ -579,7 +634,10 @@ export class MigrationBuilder {
    * ```
    */
   dropIndex(name: string): this {
-    this.steps.push(async (ctx) => { await ctx.query(`DROP INDEX IF EXISTS ${name}`) })
+    const index = this.uniqueIndexes[name]
+    if (index && this.tables[index.table]) this.tables[index.table].unique = this.tables[index.table].unique.filter(cols => cols.join() !== index.columns.join())
+    delete this.uniqueIndexes[name]
+    this.steps.push(async (ctx) => { await ctx.query(`DROP INDEX IF EXISTS ${this.quoteName(ctx.dialect, name)}`) })
     return this
   }
 
@@ -608,6 +666,16 @@ export class MigrationBuilder {
    * ```
    */
   createJoinTable(name: string, leftTable: string, rightTable: string, opts: { cascade?: boolean; leftKeyName?: string; rightKeyName?: string } = {}): this {
+    const leftKey = opts.leftKeyName || `${leftTable}_id`
+    const rightKey = opts.rightKeyName || `${rightTable}_id`
+    const onDelete = opts.cascade ? 'CASCADE' : undefined
+    this.tables[name] = {
+      columns: {
+        [leftKey]: { type: ColumnType.Int, notNull: true, references: { table: leftTable, onDelete } },
+        [rightKey]: { type: ColumnType.Int, notNull: true, references: { table: rightTable, onDelete } },
+      },
+      unique: [[leftKey, rightKey]],
+    }
     this.steps.push(async (ctx) => {
       const leftCol = opts.leftKeyName || `${leftTable}_id`
       const rightCol = opts.rightKeyName || `${rightTable}_id`
@@ -616,11 +684,11 @@ export class MigrationBuilder {
         this.colDef(ctx.dialect, leftCol, ColumnType.Int, { notNull: true, references: { table: leftTable, onDelete: on } }),
         this.colDef(ctx.dialect, rightCol, ColumnType.Int, { notNull: true, references: { table: rightTable, onDelete: on } }),
       ]
-      const sql = `CREATE TABLE ${name} (${cols.join(', ')})`
+      const sql = `CREATE TABLE ${this.quoteTable(ctx.dialect, name)} (${cols.join(', ')})`
       await ctx.query(sql)
       // composite unique to avoid duplicates
       const idxName = `${name}_${leftCol}_${rightCol}_uniq`
-      await ctx.query(`CREATE UNIQUE INDEX IF NOT EXISTS ${idxName} ON ${name} (${leftCol}, ${rightCol})`)
+      await ctx.query(`CREATE UNIQUE INDEX IF NOT EXISTS ${this.quoteName(ctx.dialect, idxName)} ON ${this.quoteTable(ctx.dialect, name)} (${this.quoteName(ctx.dialect, leftCol)}, ${this.quoteName(ctx.dialect, rightCol)})`)
     })
     return this
   }
@@ -669,6 +737,28 @@ export class MigrationBuilder {
   async apply(ctx: MigrationContext): Promise<void> {
     for (const s of this.steps) await s(ctx)
   }
+
+  /**
+   * Descreve as tabelas resultantes das operações registradas até aqui, sem executar nada.
+   * Tabelas que o builder não criou são ignoradas por `addColumn()`, `dropColumn()` e afins.
+   * 
+   * @returns Colunas e conjuntos únicos de cada tabela criada
+   * 
+   * @example
+   * ```typescript
+   * // Dados iniciais
+   * const migrationBuilder = new MigrationBuilder();
+   * migrationBuilder.createTable('users', { id: { type: ColumnType.Int, primaryKey: true, autoIncrement: true } });
+   * 
+   * // Como usar
+   * const tables = migrationBuilder.schema();
+   * 
+   * // Output: { users: { columns: { id: { type: 'Int', primaryKey: true, autoIncrement: true } }, unique: [] } }
+   * ```
+   */
+  schema(): Record<string, TableDefinition> {
+    return structuredClone(this.tables)
+  }
 }
 
 /**
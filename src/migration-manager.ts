@@ -1,6 +1,8 @@
 import type { DatabaseExecutor } from './types'
 import { QueryKitConfig } from './config'
+import { resolveTransactionExecutor } from './transaction-scope'
 import { QueryBuilder } from './query-builder'
+import { simulationManager } from './simulation-manager'
 
 /**
  * Passo de migração que pode ser string SQL, array de strings ou função.
@@ -75,15 +77,17 @@ export type MigrationContext = {
 
 /**
  * Obtém executor do banco de dados, priorizando o explícito.
+ * Dentro de `transaction()`, usa a conexão fixada da transação.
  * 
  * @param explicit - Executor explícito opcional
  * @returns Executor configurado
  * @throws Error se nenhum executor estiver disponível
  */
 function getExec(explicit?: DatabaseExecutor): DatabaseExecutor {
+  simulationManager.assertExecutorAllowed('migrations')
   const exec = explicit || (QueryKitConfig as any).defaultExecutor
   if (!exec) throw new Error('No executor configured for QueryKit')
-  return exec
+  return resolveTransactionExecutor(exec)
 }
 
 /**
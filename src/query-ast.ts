@@ -0,0 +1,138 @@
+import { Raw } from './raw';
+import type { RowLock } from './grammars';
+import type { Operator, WindowFunction, WindowSpec, MemoryLimitOptions } from './query-builder';
+
+/**
+ * Versão do formato de `QueryAST`. Muda a cada alteração incompatível; `fromAST()` rejeita outras versões.
+ */
+export const QUERY_AST_VERSION = 1;
+
+/**
+ * Valor serializável em JSON. Valores sem representação JSON viram objetos marcados:
+ * `{ $raw }` (expressões `raw()`), `{ $date }` (ISO 8601), `{ $bigint }`, `{ $bytes }` (Buffer em base64),
+ * `{ $undefined: true }` (posições de array) e `{ $query }` (subquery, como `QueryAST`).
+ * Objetos comuns com chaves iniciadas por `$` vão dentro de `{ $object }`, para não serem lidos como marcados.
+ */
+export type AstValue =
+  | null
+  | boolean
+  | number
+  | string
+  | AstValue[]
+  | { $raw: string }
+  | { $date: string }
+  | { $bigint: string }
+  | { $bytes: string }
+  | { $undefined: true }
+  | { $query: QueryAST }
+  | { $object: { [key: string]: AstValue } }
+  | { [key: string]: AstValue };
+
+/**
+ * Condição de WHERE/HAVING. Espelha as cláusulas do QueryBuilder: `query` guarda subqueries de
+ * IN/EXISTS e `clauses` os grupos entre parênteses.
+ */
+export type WhereNode = {
+  type: 'basic' | 'raw' | 'column' | 'in' | 'null' | 'between' | 'exists' | 'nested';
+  logical: 'AND' | 'OR';
+  column?: string;
+  operator?: Operator;
+  value?: AstValue;
+  sql?: string;
+  not?: boolean;
+  query?: QueryAST;
+  clauses?: WhereNode[];
+};
+
+/**
+ * Item da lista de seleção: coluna, expressão raw, subquery escalar ou função de janela.
+ */
+export type SelectNode =
+  | string
+  | { raw: string }
+  | { subquery: QueryAST; alias: string }
+  | { window: WindowFunction; options: { [key: string]: AstValue }; queryOrder?: boolean };
+
+/**
+ * JOIN com tabela (`table` + `on`) ou com subquery (`query`, com o alias em `table`).
+ */
+export type JoinNode = { type: 'INNER' | 'LEFT' | 'RIGHT'; table: string; on: string; left?: string; right?: string; query?: QueryAST };
+
+/**
+ * Escrita pendente (`insert()`, `update()`, ...), com os dados já serializados.
+ */
+export type WriteNode = { type: string; data?: AstValue; attributes?: AstValue; options?: AstValue };
+
+/**
+ * Estado completo de um QueryBuilder em JSON puro (`JSON.stringify` / `JSON.parse` preservam tudo).
+ * Não inclui estado de execução (tracking, tabela virtual) nem callbacks.
+ */
+export type QueryAST = {
+  version: typeof QUERY_AST_VERSION;
+  table: string;
+  alias?: string;
+  from?: { query: QueryAST; alias: string };
+  select: SelectNode[];
+  distinct: boolean;
+  aggregates: { func: 'count' | 'sum' | 'avg' | 'min' | 'max'; column: string; alias?: string }[];
+  joins: JoinNode[];
+  where: WhereNode[];
+  groupBy: string[];
+  having: WhereNode[];
+  orderBy: { column: string; direction: 'ASC' | 'DESC' }[];
+  limit?: number;
+  offset?: number;
+  windows: { name: string; spec: WindowSpec }[];
+  unions: { type: 'UNION' | 'UNION ALL'; query: QueryAST }[];
+  ctes: { name: string; columns: string[]; query: QueryAST; recursivePart?: QueryAST; unionAll: boolean; materialized: boolean }[];
+  lock?: RowLock;
+  banks?: string[];
+  returning?: { columns?: string[]; key: string };
+  memoryLimit?: Omit<MemoryLimitOptions, 'onLimitReached'>;
+  relations?: true;
+  write?: WriteNode;
+};
+
+/**
+ * Converte um valor para `AstValue`. `encodeQuery` serializa as subqueries encontradas no caminho.
+ *
+ * @throws Error para funções e instâncias de classes sem representação
+ */
+export function encodeAstValue(value: any, encodeQuery: (query: any) => QueryAST, isQuery: (value: any) => boolean): AstValue {
+  if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value === undefined) return { $undefined: true };
+  if (typeof value === 'bigint') return { $bigint: value.toString() };
+  if (value instanceof Raw) return { $raw: value.toSQL() };
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (Buffer.isBuffer(value)) return { $bytes: value.toString('base64') };
+  if (isQuery(value)) return { $query: encodeQuery(value) };
+  if (Array.isArray(value)) return value.map(v => encodeAstValue(v, encodeQuery, isQuery));
+  const proto = typeof value === 'object' ? Object.getPrototypeOf(value) : undefined;
+  if (proto !== Object.prototype && proto !== null) throw new Error(`Cannot serialize ${typeof value === 'function' ? 'a function' : `a ${proto?.constructor?.name ?? typeof value} value`} into a query AST`);
+  const out: { [key: string]: AstValue } = {};
+  for (const [key, v] of Object.entries(value)) if (v !== undefined) out[key] = encodeAstValue(v, encodeQuery, isQuery);
+  // dados do usuário (ex.: JSON `{ $raw: '...' }`) não podem virar valores marcados na volta
+  return Object.keys(out).some(key => key.startsWith('$')) ? { $object: out } : out;
+}
+
+/**
+ * Reconstrói um valor serializado por `encodeAstValue`.
+ */
+export function decodeAstValue(value: AstValue | undefined, decodeQuery: (ast: QueryAST) => any): any {
+  if (value === null || value === undefined || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(v => decodeAstValue(v, decodeQuery));
+  if ('$object' in value && value.$object && typeof value.$object === 'object' && !Array.isArray(value.$object)) return decodeEntries(value.$object as { [key: string]: AstValue }, decodeQuery);
+  if ('$raw' in value && typeof value.$raw === 'string') return new Raw(value.$raw);
+  if ('$date' in value && typeof value.$date === 'string') return new Date(value.$date);
+  if ('$bigint' in value && typeof value.$bigint === 'string') return BigInt(value.$bigint);
+  if ('$bytes' in value && typeof value.$bytes === 'string') return Buffer.from(value.$bytes, 'base64');
+  if ('$undefined' in value && value.$undefined === true) return undefined;
+  if ('$query' in value && value.$query && typeof value.$query === 'object') return decodeQuery(value.$query as QueryAST);
+  return decodeEntries(value as { [key: string]: AstValue }, decodeQuery);
+}
+
+function decodeEntries(value: { [key: string]: AstValue }, decodeQuery: (ast: QueryAST) => any): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [key, v] of Object.entries(value)) out[key] = decodeAstValue(v, decodeQuery);
+  return out;
+}
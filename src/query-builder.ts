@@ -1,7 +1,13 @@
+import type { DatabaseExecutor, StreamOptions } from './types';
 import { QueryKitConfig, getExecutorForTable } from './config';
-import { raw } from './raw';
+import { raw, Raw } from './raw';
 import { simulationManager } from './simulation-manager';
 import { eventManager } from './event-manager';
+import { resolveTransactionExecutor } from './transaction-scope';
+import { QUERY_AST_VERSION, encodeAstValue, decodeAstValue, type AstValue, type QueryAST, type SelectNode, type WhereNode } from './query-ast';
+import { evaluateQuery, evaluateExpression, matchesWhere, type VirtualQueryOptions } from './virtual-query'
+import { VirtualConstraints } from './virtual-constraints';
+import { getGrammar, OutBind, type Grammar, type Dialect, type SqlFragment, type IdentifierQuoting, type CommonTableExpression, type StatementKind, type WindowFrame, type WindowDefinition, type WriteModifiers, type RowLock, type ExplainOptions, type QueryPlanNode } from './grammars';
 
 /**
  * Operadores SQL suportados para comparações em cláusulas WHERE.
@@ -16,7 +22,7 @@ export type Operator = '=' | '!=' | '<>' | '>' | '>=' | '<' | '<=' | 'LIKE' | 'N
  * @template T - Tipo genérico da entidade da tabela
  */
 type WhereClause<T = any> = {
-  type: 'basic' | 'raw' | 'column' | 'in' | 'null' | 'between' | 'exists';
+  type: 'basic' | 'raw' | 'column' | 'in' | 'null' | 'between' | 'exists' | 'nested';
   column?: keyof T | string;
   operator?: Operator;
   value?: any;
@@ -24,19 +30,212 @@ type WhereClause<T = any> = {
   query?: QueryBuilder<any>;
   logical: 'AND' | 'OR';
   not?: boolean;
+  /** Condições do grupo entre parênteses (tipo 'nested') */
+  clauses?: WhereClause<T>[];
 };
 
+/**
+ * Subconsulta na lista de seleção (`(SELECT ...) AS alias`), adicionada por `selectSub`.
+ */
+type SubquerySelect = { subquery: QueryBuilder<any>; alias: string };
+
+/**
+ * Função de janela na lista de seleção, compilada em `toSql()` com a gramática do executor.
+ * `queryOrder` usa o ORDER BY da própria query quando a janela não define ordenação.
+ */
+type WindowSelect = { windowFunction: WindowFunction; options: WindowOptions; queryOrder?: boolean };
+
 /**
  * Configuração de função de agregação SQL.
  * Define a função (COUNT, SUM, AVG, MIN, MAX), coluna alvo e alias opcional.
  */
 type Aggregate = { func: 'count' | 'sum' | 'avg' | 'min' | 'max'; column: string; alias?: string };
 
+/**
+ * Funções aceitas por `aggregate()`.
+ */
+const AGGREGATE_FUNCTIONS: Aggregate['func'][] = ['count', 'sum', 'avg', 'min', 'max'];
+
+/**
+ * Alias padrão de um agregado: `count` para COUNT(*), senão `função_coluna` sem o prefixo da tabela.
+ */
+type AggregateAlias<F extends string, C extends string> = C extends '*' ? F : C extends `${string}.${infer R}` ? AggregateAlias<F, R> : `${F}_${C}`;
+
+/**
+ * Colunas de `select()` que trazem a linha inteira: `*` e `tabela.*`.
+ */
+type StarColumn = '*' | `${string}.*`;
+
+/**
+ * Chave de uma coluna no resultado: o alias de `expr as alias`, senão o nome sem o prefixo da tabela.
+ */
+type SelectedKey<C extends string> = C extends `${string} as ${infer A}` | `${string} AS ${infer A}` ? A : C extends `${string}.${infer K}` ? SelectedKey<K> : C;
+
+/**
+ * Tipo de uma coluna selecionada, buscado em T pelo nome sem alias nem prefixo; expressões ficam `unknown`.
+ */
+type SelectedValue<T, C extends string> = C extends `${infer E} as ${string}` | `${infer E} AS ${string}` ? SelectedValue<T, E> : C extends `${string}.${infer K}` ? SelectedValue<T, K> : C extends keyof T ? T[C] : unknown;
+
+type Flatten<X> = { [K in keyof X]: X[K] };
+
+/**
+ * Linha devolvida por `select(columns)`: `Pick<T, ...>` para nomes simples, chaves do alias ou sem prefixo
+ * para as demais e T inteiro quando há `*`. Listas de `string` não literais mantêm T.
+ */
+type Projection<T, C extends string> = string extends C ? T
+  : [Exclude<C, StarColumn>] extends [never] ? T
+  : ([Extract<C, StarColumn>] extends [never] ? unknown : T) & Flatten<Pick<T, PlainColumn<T, C>> & { [K in Exclude<C, StarColumn | PlainColumn<T, C>> as SelectedKey<K>]: SelectedValue<T, K> }>;
+
+type PlainColumn<T, C extends string> = Extract<Exclude<C, `${string}.${string}` | `${string} ${string}`>, keyof T>;
+
+type Nullable<X> = { [K in keyof X]: X[K] | null };
+
+/**
+ * Linha após um JOIN com a tabela de linhas J: as colunas do lado opcional aceitam `null`.
+ */
+type JoinedRow<T, J, Type extends 'INNER' | 'LEFT' | 'RIGHT'> = Type extends 'LEFT' ? T & Nullable<J> : Type extends 'RIGHT' ? Nullable<T> & J : T & J;
+
+/**
+ * Agregados de `aggregate()`: alias do resultado → `[função, coluna]`.
+ */
+export type AggregateSpec = Record<string, [Aggregate['func'], string]>;
+
+/**
+ * Opções de INSERT.
+ * `events` define se os eventos BEFORE/AFTER INSERT disparam uma vez por linha (padrão)
+ * ou uma única vez para o lote, com todas as linhas em `data`.
+ */
+export type InsertOptions = { events?: 'row' | 'batch' };
+
+/**
+ * Opções de upsert: colunas da chave única (`conflict`) e colunas atualizadas quando a linha já existe
+ * (padrão: todas as colunas inseridas que não são de conflito).
+ */
+export type UpsertOptions = InsertOptions & { conflict: string[]; update?: string[] };
+
+/**
+ * Opções de `insertOrIgnore`. SQL Server e Oracle exigem `conflict` (o MERGE precisa da condição de junção).
+ */
+export type InsertOrIgnoreOptions = InsertOptions & { conflict?: string[] };
+
+/**
+ * Opções de CTE: colunas declaradas em `WITH name (cols) AS (...)`.
+ */
+export type CteOptions = { columns?: string[] };
+
+/**
+ * Opções de CTE recursiva: `unionAll` (padrão true) une âncora e parte recursiva com UNION ALL; false usa UNION.
+ * No Oracle, `columns` é obrigatório.
+ */
+export type RecursiveCteOptions = CteOptions & { unionAll?: boolean };
+
+/**
+ * Funções de janela aceitas por `selectWindow`.
+ */
+export type WindowFunction = 'row_number' | 'rank' | 'dense_rank' | 'lag' | 'lead' | 'sum' | 'avg' | 'ntile';
+
+/**
+ * Definição de janela: partição, ordenação (coluna ou `{ column, direction }`) e frame.
+ */
+export type WindowSpec = {
+  partitionBy?: string[];
+  orderBy?: (string | { column: string; direction?: 'ASC' | 'DESC' })[];
+  frame?: WindowFrame;
+};
+
+/**
+ * Opções de `selectWindow`. `window` referencia uma janela declarada com `window()` e, quando informado,
+ * substitui a definição inline. `column` é exigido por LAG/LEAD/SUM/AVG; `offset` e `default` valem para
+ * LAG/LEAD e `buckets` para NTILE.
+ */
+export type WindowOptions = WindowSpec & { column?: string; alias?: string; window?: string; offset?: number; default?: any; buckets?: number };
+
+/**
+ * Resultado de `make()`. `rows` traz as linhas escritas quando a query usa `returning()`.
+ */
+export type WriteResult = { changes: number; lastInsertRowid: number | bigint; rows?: any[] };
+
+/**
+ * Opções de `cursorPaginate`. `orderBy` é a chave da paginação e deve terminar numa coluna única
+ * (ex.: `['created_at', 'id']`); `after`/`before` recebem os cursores devolvidos pela página anterior.
+ */
+export type CursorPaginateOptions = {
+  orderBy: (string | { column: string; direction?: 'ASC' | 'DESC' })[];
+  after?: string | null;
+  before?: string | null;
+  limit?: number;
+};
+
+/**
+ * Página de `cursorPaginate`. Os cursores são opacos e ficam `null` quando não há página naquele sentido.
+ */
+export type CursorPage<U> = { data: U[]; nextCursor: string | null; prevCursor: string | null; hasNext: boolean; hasPrev: boolean };
+
+/**
+ * Resultado de `paginateWithMeta`: linhas da página, total de linhas da query e metadados da paginação.
+ */
+export type PaginatedResult<U> = { data: U[]; total: number; perPage: number; currentPage: number; lastPage: number };
+
+/**
+ * Resultado de `explain()`: árvore normalizada do plano, tabelas lidas por inteiro e as linhas cruas do banco.
+ */
+export type QueryPlan = { dialect: Dialect; sql: string; bindings: any[]; nodes: QueryPlanNode[]; fullScans: string[]; raw: any[] };
+
+function collectFullScans(nodes: QueryPlanNode[], tables: Set<string> = new Set()): string[] {
+  for (const node of nodes) {
+    if (node.fullScan) tables.add(node.table ?? node.operation);
+    collectFullScans(node.children, tables);
+  }
+  return [...tables];
+}
+
+// cursores opacos: valores da chave da linha em JSON, codificados em base64url
+function encodeCursor(values: any[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+// valor de uma coluna na linha: `users.id` chega como `id`, e o Oracle devolve nomes não citados em maiúsculas (`ID`)
+function columnValue(row: Record<string, any>, column: string): any {
+  const field = column.split('.').pop()!;
+  if (field in row) return row[field];
+  const folded = field.toLowerCase();
+  const match = Object.keys(row).find(k => k.toLowerCase() === folded);
+  return match === undefined ? undefined : row[match];
+}
+
+function decodeCursor(cursor: string, size: number): any[] {
+  let values: unknown;
+  try { values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')); } catch {}
+  if (!Array.isArray(values) || values.length !== size) throw new Error('Invalid pagination cursor');
+  return values;
+}
+
 /**
  * Opções para controle de limite de memória durante execução de queries.
  * Permite definir estratégias de chunking, streaming ou paginação.
+ * `strategy` escolhe como as linhas são lidas: `'stream'` (padrão) usa o cursor do driver,
+ * `'chunk'` faz lotes LIMIT/OFFSET e `'paginate'` faz lotes pela chave `key` (padrão `'id'`).
+ * `chunkSize` é o tamanho de cada lote (padrão 1000).
  */
-type MemoryLimitOptions = { bytes: number; strategy?: 'chunk' | 'stream' | 'paginate'; onLimitReached?: (currentUsage: number, limit: number) => void };
+export type MemoryLimitOptions = {
+  bytes: number;
+  strategy?: 'chunk' | 'stream' | 'paginate';
+  chunkSize?: number;
+  key?: string;
+  onLimitReached?: (currentUsage: number, limit: number) => void;
+};
+
+// estimativa do tamanho de uma linha em memória: 2 bytes por caractere, 8 por número/data
+function estimateBytes(value: any): number {
+  if (value === null || value === undefined) return 8;
+  if (typeof value === 'string') return value.length * 2;
+  if (typeof value === 'boolean') return 4;
+  if (typeof value !== 'object') return 8;
+  if (value instanceof Date) return 8;
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (Array.isArray(value)) return value.reduce((sum: number, item: any) => sum + estimateBytes(item), 0);
+  return Object.keys(value).reduce((sum, key) => sum + key.length * 2 + estimateBytes(value[key]), 0);
+}
 
 /**
  * Seletor de relacionamentos para carregamento eager de dados relacionados.
@@ -93,8 +292,7 @@ export type RelationshipSelector<T> = (rel: (name: string, select?: string[]) =>
 export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
   private tableName: string;
   private whereClauses: WhereClause<T>[] = [];
-  private orWhereClauses: WhereClause<T>[] = [];
-  private joins: { type: 'INNER' | 'LEFT' | 'RIGHT'; table: string; on: string }[] = [];
+  private joins: { type: 'INNER' | 'LEFT' | 'RIGHT'; table: string; on: string; left?: string; right?: string; query?: QueryBuilder<any> }[] = [];
   private selectColumns: (keyof T | string | any)[] = ['*'];
   private orderClauses: { column: string; direction: 'ASC' | 'DESC' }[] = [];
   private limitValue?: number;
@@ -102,11 +300,18 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
   private groupByColumns: string[] = [];
   private havingClauses: WhereClause<T>[] = [];
   private isDistinct = false;
-  private pendingAction?: { type: string; data?: any; attributes?: any };
+  private pendingAction?: { type: string; data?: any; attributes?: any; options?: InsertOptions & { conflict?: string[]; update?: string[] } };
   private aggregates: Aggregate[] = [];
   private tableAlias?: string;
+  private fromSubquery?: { query: QueryBuilder<any>; alias: string };
+  private windowDefinitions: { name: string; spec: WindowSpec }[] = [];
   private unionParts: { type: 'UNION' | 'UNION ALL'; query: QueryBuilder<any> }[] = [];
+  private ctes: { name: string; columns: string[]; query: QueryBuilder<any>; recursivePart?: QueryBuilder<any>; unionAll: boolean; materialized: boolean }[] = [];
   private targetBanks?: string[];
+  private returningColumns?: string[];
+  private returningKey = 'id';
+  private memoryLimitOptions?: MemoryLimitOptions;
+  private rowLock?: RowLock;
 
   private isTracking: boolean = false;
   private isSeeding: boolean = false;
@@ -218,7 +423,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * }
    */
   public hasPendingWrite(): boolean {
-    return !!this.pendingAction && ['insert', 'update', 'delete', 'updateOrInsert', 'increment', 'decrement'].includes(this.pendingAction.type);
+    return !!this.pendingAction && ['insert', 'upsert', 'insertOrIgnore', 'update', 'delete', 'updateOrInsert', 'increment', 'decrement'].includes(this.pendingAction.type);
   }
 
   /**
@@ -355,10 +560,38 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
 
   private applyWhereClausesToVirtual(data: T[]): T[] {
     if (this.whereClauses.length === 0) return data;
-    return data.filter(row => this.whereClauses.every(clause => {
-      if (clause.type === 'basic' && clause.operator === '=') return row[clause.column as keyof T] === clause.value;
-      return true;
-    }));
+    const where = this.virtualAST().where;
+    const table = this.tableAlias ? `${this.tableName} ${this.tableAlias}` : this.tableName;
+    return data.filter(row => matchesWhere(row, table, where, this.virtualOptions()));
+  }
+
+  /**
+   * AST usado pelo avaliador em memória: sem escrita pendente, relacionamentos nem limite de memória,
+   * que não afetam as linhas do SELECT.
+   */
+  private virtualAST(): QueryAST {
+    const q = this.clone();
+    q.pendingAction = undefined;
+    q.includeAllRelations = false;
+    q.memoryLimitOptions = undefined;
+    return q.toAST();
+  }
+
+  // lê o resultado da simulação; tabela sem estado virtual devolve []
+  private readVirtual<U>(): U[] {
+    const virtualData = simulationManager.getStateFor(this.virtualName());
+    if (virtualData) this.virtualTable = JSON.parse(JSON.stringify(virtualData));
+    else if (!this.fromSubquery && !this.ctes.some(c => c.name === this.tableName)) return [];
+    return evaluateQuery(this.virtualAST(), this.virtualOptions()) as U[];
+  }
+
+  // nome da tabela no estado virtual, sem o alias
+  private virtualName(): string {
+    return this.tableName.trim().split(/\s+/)[0];
+  }
+
+  private virtualOptions(): VirtualQueryOptions {
+    return { tables: name => name === this.tableName && this.isTracking && !simulationManager.isActive() ? this.virtualTable : simulationManager.getStateFor(name), dialect: this.resolveDialect() };
   }
 
   private executeVirtualAction(): void {
@@ -366,6 +599,19 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
     const { type, data } = this.pendingAction;
     switch (type) {
       case 'insert': this.virtualTable.push(...data); break;
+      case 'upsert':
+      case 'insertOrIgnore': {
+        const conflict = this.pendingAction.options?.conflict || [];
+        for (const row of data) {
+          const existing = conflict.length > 0 ? this.virtualTable.find(r => conflict.every(c => r[c] === row[c])) : undefined;
+          if (!existing) { this.virtualTable.push({ ...row }); continue; }
+          if (type === 'upsert') {
+            const update = this.pendingAction.options?.update || Object.keys(row).filter(k => !conflict.includes(k));
+            update.forEach(c => { (existing as any)[c] = row[c]; });
+          }
+        }
+        break;
+      }
       case 'update': {
         const rowsToUpdate = this.applyWhereClausesToVirtual(this.virtualTable);
         rowsToUpdate.forEach(row => Object.assign(row, data));
@@ -384,15 +630,18 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
   /**
    * Define as colunas a serem selecionadas na consulta.
    * Por padrão seleciona todas as colunas (*) se nenhuma for especificada.
+   * O tipo da linha acompanha a projeção: nomes simples viram `Pick<T, ...>`, `expr as alias` adiciona
+   * a chave do alias e `tabela.coluna` a chave sem o prefixo.
    * 
    * @param columns - Array de nomes de colunas ou chaves do tipo T
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @returns QueryBuilder tipado com as colunas selecionadas
    * 
    * @example
    * // Exemplo básico - Seleção de colunas específicas
    * const users = await new QueryBuilder<User>('users')
    *   .select(['id', 'name', 'email'])
    *   .all();
+   * // users: Pick<User, 'id' | 'name' | 'email'>[]
    * 
    * @example
    * // Exemplo intermediário - Seleção com tipos genéricos
@@ -427,7 +676,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  select(columns: (keyof T | string)[] = ['*']): this { this.track('select', { columns }); this.selectColumns = columns.map(c => String(c)); return this; }
+  select<C extends keyof T | string = '*'>(columns: C[] = ['*'] as C[]): QueryBuilder<Projection<T, C & string>> { this.track('select', { columns }); this.selectColumns = columns.map(c => String(c)); return this as any; }
   
   /**
    * Adiciona uma expressão SQL raw à seleção.
@@ -471,6 +720,44 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   .all();
    */
   selectRaw(sql: string): this { this.track('selectRaw', { sql }); this.selectColumns.push(raw(sql)); return this; }
+
+  /**
+   * Adiciona uma subconsulta escalar à lista de seleção (`(SELECT ...) AS alias`).
+   * Os bindings da subconsulta entram antes dos bindings do FROM e do WHERE.
+   * 
+   * @param query - Subconsulta que retorna um único valor por linha
+   * @param alias - Nome da coluna resultante
+   * @returns QueryBuilder com a chave do alias tipada pelo valor da subconsulta (ou `null`)
+   * 
+   * @example
+   * // Dados iniciais
+   * const lastOrder = new QueryBuilder('orders').select(['MAX(created_at)']).whereRaw('orders.user_id = users.id');
+   * 
+   * // Como usar
+   * const users = await new QueryBuilder('users').select(['id', 'name']).selectSub(lastOrder, 'last_order_at').all();
+   * 
+   * // Output: SELECT id, name, (SELECT MAX(created_at) FROM orders WHERE orders.user_id = users.id) AS last_order_at FROM users
+   */
+  selectSub<A extends string, S extends { id?: any } & Record<string, any>>(query: QueryBuilder<S>, alias: A): QueryBuilder<T & Record<A, S[keyof S] | null>> { this.track('selectSub', { alias }); this.selectColumns.push({ subquery: query, alias } as SubquerySelect); return this as any; }
+
+  /**
+   * Usa uma subconsulta como origem da query (`FROM (SELECT ...) alias`).
+   * A tabela do construtor continua sendo usada para resolver o executor.
+   * 
+   * @param query - Subconsulta da tabela derivada
+   * @param alias - Alias da tabela derivada
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Dados iniciais
+   * const totals = new QueryBuilder('orders').select(['user_id', 'SUM(total) as amount']).where('status', '=', 'paid').groupBy(['user_id']);
+   * 
+   * // Como usar
+   * const top = await new QueryBuilder('orders').fromSub(totals, 't').where('t.amount', '>', 1000).orderBy('t.amount', 'DESC').all();
+   * 
+   * // Output: SELECT * FROM (SELECT user_id, SUM(total) as amount FROM orders WHERE status = ? GROUP BY user_id) t WHERE t.amount > ? ORDER BY t.amount DESC
+   */
+  fromSub(query: QueryBuilder<any>, alias: string): this { this.track('fromSub', { alias }); this.fromSubquery = { query, alias }; return this; }
   
   /**
    * Adiciona colunas de agregação à seleção.
@@ -612,8 +899,18 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *     return query;
    *   }
    * }
+   * 
+   * @example
+   * // Exemplo com grupo - Condições entre parênteses via callback
+   * const users = await new QueryBuilder<User>('users')
+   *   .where('active', '=', true)
+   *   .where(q => q.where('role', '=', 'admin').orWhere(q2 => q2.where('role', '=', 'editor').whereNotNull('verified_at')))
+   *   .all();
+   * // SQL: WHERE active = ? AND (role = ? OR (role = ? AND verified_at IS NOT NULL))
    */
-  where(column: keyof T | string, operator: Operator, value: any): this { this.track('where', { column, operator, value }); this.whereClauses.push({ type: 'basic', column, operator, value, logical: 'AND' }); return this; }
+  where(callback: (query: QueryBuilder<T>) => unknown): this;
+  where(column: keyof T | string, operator: Operator, value: any): this;
+  where(column: keyof T | string | ((query: QueryBuilder<T>) => unknown), operator?: Operator, value?: any): this { if (typeof column === 'function') return this.whereNested(column, 'AND'); this.track('where', { column, operator, value }); this.whereClauses.push({ type: 'basic', column, operator, value, logical: 'AND' }); return this; }
   
   /**
    * Adiciona uma cláusula OR WHERE à consulta.
@@ -661,8 +958,31 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *     return await query.all();
    *   }
    * }
+   * 
+   * @example
+   * // Exemplo com grupo - OR de um conjunto de condições
+   * const orders = await new QueryBuilder<Order>('orders')
+   *   .where('status', '=', 'paid')
+   *   .orWhere(q => q.where('status', '=', 'pending').where('total', '<', 100))
+   *   .all();
+   * // SQL: WHERE status = ? OR (status = ? AND total < ?)
+   */
+  orWhere(callback: (query: QueryBuilder<T>) => unknown): this;
+  orWhere(column: keyof T | string, operator: Operator, value: any): this;
+  orWhere(column: keyof T | string | ((query: QueryBuilder<T>) => unknown), operator?: Operator, value?: any): this { if (typeof column === 'function') return this.whereNested(column, 'OR'); this.track('orWhere', { column, operator, value }); this.whereClauses.push({ type: 'basic', column, operator, value, logical: 'OR' }); return this; }
+
+  /**
+   * Monta um grupo de condições entre parênteses a partir do callback.
+   * O callback recebe um QueryBuilder da mesma tabela; apenas suas cláusulas WHERE são aproveitadas.
+   * Grupos vazios são ignorados.
    */
-  orWhere(column: keyof T | string, operator: Operator, value: any): this { this.track('orWhere', { column, operator, value }); this.orWhereClauses.push({ type: 'basic', column, operator, value, logical: 'OR' }); return this; }
+  private whereNested(callback: (query: QueryBuilder<T>) => unknown, logical: 'AND' | 'OR'): this {
+    const group = new QueryBuilder<T>(this.tableName);
+    callback(group);
+    this.track(logical === 'AND' ? 'where' : 'orWhere', { nested: group.whereClauses.length });
+    if (group.whereClauses.length > 0) this.whereClauses.push({ type: 'nested', clauses: group.whereClauses, logical });
+    return this;
+  }
   
   /**
    * Adiciona uma cláusula WHERE condicionalmente.
@@ -796,8 +1116,10 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
   /**
    * Prepara uma operação de INSERT na tabela.
    * Os dados não são inseridos até que .make() seja chamado.
+   * Arrays viram INSERTs multi-linha, divididos automaticamente conforme o limite de parâmetros do dialeto.
    * 
    * @param data - Dados a serem inseridos (objeto único ou array de objetos)
+   * @param options - `events: 'batch'` dispara um único par BEFORE/AFTER INSERT para todas as linhas
    * @returns Instância atual do QueryBuilder para method chaining
    * 
    * @example
@@ -857,7 +1179,77 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  insert(data: Partial<T> | Partial<T>[]): this { this.track('insert', { data }); const dataAsArray = Array.isArray(data) ? data : [data]; this.pendingAction = { type: 'insert', data: dataAsArray }; return this; }
+  insert(data: Partial<T> | Partial<T>[], options: InsertOptions = {}): this { this.track('insert', { data }); const dataAsArray = Array.isArray(data) ? data : [data]; this.pendingAction = { type: 'insert', data: dataAsArray, options }; return this; }
+
+  /**
+   * Prepara um upsert atômico: insere as linhas e, quando a chave em `conflict` já existe,
+   * atualiza as colunas de `update`. Compila para `ON CONFLICT DO UPDATE` (SQLite, PostgreSQL),
+   * `ON DUPLICATE KEY UPDATE` (MySQL) ou `MERGE` (SQL Server, Oracle), em lotes como o `insert`.
+   * Dispara os eventos BEFORE/AFTER INSERT.
+   * 
+   * @param data - Linha ou linhas a gravar
+   * @param options - Colunas de conflito, colunas a atualizar e modo de eventos
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Exemplo básico - Criar ou atualizar por email
+   * await new QueryBuilder<User>('users')
+   *   .upsert({ email: 'ana@x.com', name: 'Ana' }, { conflict: ['email'] })
+   *   .make();
+   * 
+   * @example
+   * // Exemplo intermediário - Atualizar apenas algumas colunas
+   * await new QueryBuilder('stock')
+   *   .upsert(items, { conflict: ['sku'], update: ['quantity', 'updated_at'] })
+   *   .make();
+   * 
+   * @example
+   * // Exemplo avançado - Sincronização em lote com um único evento
+   * const { changes } = await new QueryBuilder('prices')
+   *   .upsert(feed.map(p => ({ sku: p.sku, price: p.value })), { conflict: ['sku'], events: 'batch' })
+   *   .make();
+   * 
+   * // Output (PostgreSQL): INSERT INTO prices (sku, price) VALUES (?, ?), ... ON CONFLICT (sku) DO UPDATE SET price = excluded.price
+   */
+  upsert(data: Partial<T> | Partial<T>[], options: UpsertOptions): this { this.track('upsert', { data, options }); const dataAsArray = Array.isArray(data) ? data : [data]; this.pendingAction = { type: 'upsert', data: dataAsArray, options }; return this; }
+
+  /**
+   * Prepara um INSERT que ignora linhas cuja chave única já existe.
+   * Compila para `ON CONFLICT DO NOTHING` (SQLite, PostgreSQL), `INSERT IGNORE` (MySQL)
+   * ou `MERGE ... WHEN NOT MATCHED` (SQL Server, Oracle; sem `conflict`, o MERGE usa a chave de `returning()`,
+   * `id` por padrão, e linhas sem essa chave viram um INSERT simples).
+   * 
+   * @param data - Linha ou linhas a inserir
+   * @param options - Colunas de conflito e modo de eventos
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Dados iniciais
+   * const tags = [{ slug: 'news' }, { slug: 'sports' }];
+   * 
+   * // Como usar
+   * const { changes } = await new QueryBuilder('tags').insertOrIgnore(tags, { conflict: ['slug'] }).make();
+   * 
+   * // Output: changes conta apenas as tags que ainda não existiam
+   */
+  insertOrIgnore(data: Partial<T> | Partial<T>[], options: InsertOrIgnoreOptions = {}): this { this.track('insertOrIgnore', { data, options }); const dataAsArray = Array.isArray(data) ? data : [data]; this.pendingAction = { type: 'insertOrIgnore', data: dataAsArray, options }; return this; }
+
+  /**
+   * Prepara um `INSERT INTO ... SELECT` alimentado por outra query, executado num único statement
+   * sem trazer as linhas para a aplicação. As colunas do SELECT preenchem `columns` na ordem.
+   * Dispara um evento BEFORE/AFTER INSERT com `data: { columns, select }` e `changes` no resultado.
+   * 
+   * @param columns - Colunas de destino, na ordem da lista de seleção da query
+   * @param query - Query de origem (seus bindings entram depois dos das CTEs desta query)
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * const { changes } = await table('archive')
+   *   .insertFrom(['id', 'total'], table('orders').select(['id', 'total']).where('status', '=', 'closed'))
+   *   .make();
+   * // SQL: INSERT INTO archive (id, total) SELECT id, total FROM orders WHERE status = ?
+   */
+  insertFrom(columns: (keyof T & string)[] | string[], query: QueryBuilder<any>): this { this.track('insertFrom', { columns }); this.pendingAction = { type: 'insertFrom', data: { columns, query } }; return this; }
   
   /**
    * Prepara uma operação de UPDATE na tabela.
@@ -997,6 +1389,43 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * }
    */
   delete(): this { this.track('delete'); this.pendingAction = { type: 'delete' }; return this; }
+
+  /**
+   * Pede ao `make()` as linhas afetadas por insert, upsert, update ou delete, em `result.rows`.
+   * Compila para `RETURNING` (PostgreSQL, SQLite 3.35+), `OUTPUT INSERTED|DELETED` (SQL Server)
+   * ou `RETURNING ... INTO` (Oracle, uma linha por statement). No MySQL as linhas são relidas
+   * pela chave: por `key` (ou pelo auto-increment) após inserts, pelas chaves selecionadas antes
+   * de updates e pelas linhas lidas antes de deletes.
+   * 
+   * @param columns - Colunas a devolver (padrão: todas; o Oracle exige colunas explícitas)
+   * @param options - `key`: coluna usada para reler as linhas no MySQL (padrão: 'id')
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Exemplo básico - ID gerado no PostgreSQL
+   * const { rows } = await new QueryBuilder<User>('users')
+   *   .insert({ name: 'Ana' })
+   *   .returning(['id', 'created_at'])
+   *   .make();
+   * 
+   * @example
+   * // Exemplo intermediário - Linhas removidas
+   * const { rows: removed } = await new QueryBuilder('sessions')
+   *   .where('expires_at', '<', new Date())
+   *   .delete()
+   *   .returning(['id', 'user_id'])
+   *   .make();
+   * 
+   * @example
+   * // Exemplo avançado - Upsert devolvendo o estado final
+   * const { rows } = await new QueryBuilder('stock')
+   *   .upsert(items, { conflict: ['sku'] })
+   *   .returning(['sku', 'quantity'], { key: 'sku' })
+   *   .make();
+   * 
+   * // Output: [{ sku: 'A1', quantity: 10 }, ...]
+   */
+  returning(columns: (keyof T | string)[] = ['*'], options: { key?: string } = {}): this { this.track('returning', { columns }); this.returningColumns = columns.map(String); this.returningKey = options.key || 'id'; return this; }
   
   /**
    * Prepara uma operação de UPDATE OR INSERT (upsert).
@@ -1210,7 +1639,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * Útil para filtrar por múltiplos valores possíveis.
    * 
    * @param column - Nome da coluna ou chave do tipo T para filtrar
-   * @param values - Array de valores para verificar
+   * @param values - Array de valores para verificar, ou subconsulta cujos bindings são incorporados
    * @param logical - Conectivo lógico ('AND' ou 'OR', padrão: 'AND')
    * @returns Instância atual do QueryBuilder para method chaining
    * 
@@ -1259,15 +1688,29 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *       .all();
    *   }
    * }
+   * 
+   * @example
+   * // Exemplo com subconsulta - IN (SELECT ...)
+   * const buyers = await new QueryBuilder<User>('users')
+   *   .whereIn('id', new QueryBuilder('orders').select(['user_id']).where('total', '>', 100))
+   *   .all();
+   * // SQL: SELECT * FROM users WHERE id IN (SELECT user_id FROM orders WHERE total > ?)
    */
-  whereIn(column: keyof T | string, values: any[], logical: 'AND' | 'OR' = 'AND'): this { this.whereClauses.push({ type: 'in', column, value: values, logical, not: false }); return this; }
+  whereIn(column: keyof T | string, values: any[] | QueryBuilder<any>, logical: 'AND' | 'OR' = 'AND'): this { this.whereClauses.push(this.inClause(column, values, logical, false)); return this; }
+
+  /**
+   * Monta a cláusula IN/NOT IN a partir de uma lista de valores ou de uma subconsulta.
+   */
+  private inClause(column: keyof T | string, values: any[] | QueryBuilder<any>, logical: 'AND' | 'OR', not: boolean): WhereClause<T> {
+    return values instanceof QueryBuilder ? { type: 'in', column, query: values, logical, not } : { type: 'in', column, value: values, logical, not };
+  }
   
   /**
    * Adiciona uma cláusula OR WHERE IN para verificar se um valor está em uma lista.
    * Conecta com OR às condições anteriores.
    * 
    * @param column - Nome da coluna ou chave do tipo T para filtrar
-   * @param values - Array de valores para verificar
+   * @param values - Array de valores para verificar, ou subconsulta
    * @returns Instância atual do QueryBuilder para method chaining
    * 
    * @example
@@ -1323,14 +1766,14 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  orWhereIn(column: keyof T | string, values: any[]): this { return this.whereIn(column, values, 'OR'); }
+  orWhereIn(column: keyof T | string, values: any[] | QueryBuilder<any>): this { return this.whereIn(column, values, 'OR'); }
   
   /**
    * Adiciona uma cláusula WHERE NOT IN para verificar se um valor NÃO está em uma lista.
    * Exclui registros que correspondem aos valores especificados.
    * 
    * @param column - Nome da coluna ou chave do tipo T para filtrar
-   * @param values - Array de valores para excluir
+   * @param values - Array de valores para excluir, ou subconsulta
    * @returns Instância atual do QueryBuilder para method chaining
    * 
    * @example
@@ -1388,14 +1831,14 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  whereNotIn(column: keyof T | string, values: any[]): this { this.whereClauses.push({ type: 'in', column, value: values, logical: 'AND', not: true }); return this; }
+  whereNotIn(column: keyof T | string, values: any[] | QueryBuilder<any>): this { this.whereClauses.push(this.inClause(column, values, 'AND', true)); return this; }
   
   /**
    * Adiciona uma cláusula OR WHERE NOT IN para verificar se um valor NÃO está em uma lista.
    * Conecta com OR às condições anteriores.
    * 
    * @param column - Nome da coluna ou chave do tipo T para filtrar
-   * @param values - Array de valores para excluir
+   * @param values - Array de valores para excluir, ou subconsulta
    * @returns Instância atual do QueryBuilder para method chaining
    * 
    * @example
@@ -1443,7 +1886,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  orWhereNotIn(column: keyof T | string, values: any[]): this { this.orWhereClauses.push({ type: 'in', column, value: values, logical: 'OR', not: true }); return this; }
+  orWhereNotIn(column: keyof T | string, values: any[] | QueryBuilder<any>): this { this.whereClauses.push(this.inClause(column, values, 'OR', true)); return this; }
 
   /**
    * Adiciona uma cláusula WHERE IS NULL para verificar se um campo é nulo.
@@ -1544,7 +1987,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  orWhereNull(column: keyof T | string): this { this.orWhereClauses.push({ type: 'null', column, logical: 'OR', not: false, value: undefined }); return this; }
+  orWhereNull(column: keyof T | string): this { this.whereClauses.push({ type: 'null', column, logical: 'OR', not: false, value: undefined }); return this; }
   
   /**
    * Adiciona uma cláusula WHERE IS NOT NULL para verificar se um campo não é nulo.
@@ -1666,7 +2109,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  orWhereNotNull(column: keyof T | string): this { this.orWhereClauses.push({ type: 'null', column, logical: 'OR', not: true, value: undefined }); return this; }
+  orWhereNotNull(column: keyof T | string): this { this.whereClauses.push({ type: 'null', column, logical: 'OR', not: true, value: undefined }); return this; }
 
   /**
    * Adiciona uma cláusula WHERE BETWEEN para verificar se um valor está em um intervalo.
@@ -1787,6 +2230,40 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * }
    */
   whereNotBetween(column: keyof T | string, values: [any, any]): this { this.whereClauses.push({ type: 'between', column, value: values, logical: 'AND', not: true }); return this; }
+
+  /**
+   * Adiciona uma cláusula OR WHERE BETWEEN, conectada com OR às condições anteriores.
+   * 
+   * @param column - Nome da coluna ou chave do tipo T para filtrar
+   * @param values - Tupla com [valor_inicio, valor_fim] do intervalo
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Exemplo básico - Faixa etária ou perfil específico
+   * const users = await new QueryBuilder<User>('users')
+   *   .where('role', '=', 'admin')
+   *   .orWhereBetween('age', [18, 25])
+   *   .all();
+   * // SQL: WHERE role = ? OR age BETWEEN ? AND ?
+   */
+  orWhereBetween(column: keyof T | string, values: [any, any]): this { this.whereClauses.push({ type: 'between', column, value: values, logical: 'OR', not: false }); return this; }
+
+  /**
+   * Adiciona uma cláusula OR WHERE NOT BETWEEN, conectada com OR às condições anteriores.
+   * 
+   * @param column - Nome da coluna ou chave do tipo T para filtrar
+   * @param values - Tupla com [valor_inicio, valor_fim] do intervalo a ser excluído
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Exemplo básico - Pedidos sinalizados ou com valor fora da faixa comum
+   * const orders = await new QueryBuilder<Order>('orders')
+   *   .where('flagged', '=', true)
+   *   .orWhereNotBetween('total', [10, 1000])
+   *   .all();
+   * // SQL: WHERE flagged = ? OR total NOT BETWEEN ? AND ?
+   */
+  orWhereNotBetween(column: keyof T | string, values: [any, any]): this { this.whereClauses.push({ type: 'between', column, value: values, logical: 'OR', not: true }); return this; }
   
   /**
    * Adiciona uma cláusula WHERE para comparar duas colunas da mesma tabela.
@@ -1846,6 +2323,24 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    */
   whereColumn(firstColumn: keyof T | string, operator: Operator, secondColumn: keyof T | string, logical: 'AND' | 'OR' = 'AND'): this { this.whereClauses.push({ type: 'column', column: firstColumn, operator, value: secondColumn, logical }); return this; }
 
+  /**
+   * Adiciona uma comparação entre colunas conectada com OR às condições anteriores.
+   * 
+   * @param firstColumn - Primeira coluna
+   * @param operator - Operador de comparação SQL
+   * @param secondColumn - Segunda coluna
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Exemplo básico - Registros arquivados ou alterados após a publicação
+   * const posts = await new QueryBuilder<Post>('posts')
+   *   .where('archived', '=', true)
+   *   .orWhereColumn('updated_at', '>', 'published_at')
+   *   .all();
+   * // SQL: WHERE archived = ? OR updated_at > published_at
+   */
+  orWhereColumn(firstColumn: keyof T | string, operator: Operator, secondColumn: keyof T | string): this { return this.whereColumn(firstColumn, operator, secondColumn, 'OR'); }
+
   /**
    * Adiciona uma cláusula WHERE com SQL raw customizado.
    * Permite expressões SQL complexas que não são suportadas pelos métodos padrão.
@@ -1934,6 +2429,23 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * }
    */
   whereRaw(sql: string, bindings: any[] = [], logical: 'AND' | 'OR' = 'AND'): this { this.whereClauses.push({ type: 'raw', sql, logical, value: bindings } as any); return this; }
+
+  /**
+   * Adiciona uma condição SQL bruta conectada com OR às condições anteriores.
+   * 
+   * @param sql - Trecho SQL da condição (use `?` para os parâmetros)
+   * @param bindings - Parâmetros da condição
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Exemplo básico - Condição bruta alternativa
+   * const users = await new QueryBuilder<User>('users')
+   *   .where('role', '=', 'admin')
+   *   .orWhereRaw('LOWER(email) = ?', ['root@example.com'])
+   *   .all();
+   * // SQL: WHERE role = ? OR LOWER(email) = ?
+   */
+  orWhereRaw(sql: string, bindings: any[] = []): this { return this.whereRaw(sql, bindings, 'OR'); }
   
   /**
    * Adiciona uma cláusula WHERE para busca em texto em múltiplas colunas.
@@ -2226,6 +2738,38 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    */
   whereNotExists(query: QueryBuilder<any>): this { this.whereClauses.push({ type: 'exists', query, logical: 'AND', not: true, value: undefined }); return this; }
 
+  /**
+   * Adiciona uma cláusula OR EXISTS com a subconsulta informada.
+   * 
+   * @param query - Subconsulta avaliada pelo EXISTS
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Exemplo básico - Administradores ou usuários com pedidos
+   * const users = await new QueryBuilder<User>('users')
+   *   .where('role', '=', 'admin')
+   *   .orWhereExists(new QueryBuilder('orders').whereRaw('orders.user_id = users.id'))
+   *   .all();
+   * // SQL: WHERE role = ? OR EXISTS (SELECT * FROM orders WHERE orders.user_id = users.id)
+   */
+  orWhereExists(query: QueryBuilder<any>): this { this.whereClauses.push({ type: 'exists', query, logical: 'OR', not: false, value: undefined }); return this; }
+
+  /**
+   * Adiciona uma cláusula OR NOT EXISTS com a subconsulta informada.
+   * 
+   * @param query - Subconsulta avaliada pelo NOT EXISTS
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Exemplo básico - Contas bloqueadas ou sem nenhum login
+   * const users = await new QueryBuilder<User>('users')
+   *   .where('blocked', '=', true)
+   *   .orWhereNotExists(new QueryBuilder('logins').whereRaw('logins.user_id = users.id'))
+   *   .all();
+   * // SQL: WHERE blocked = ? OR NOT EXISTS (SELECT * FROM logins WHERE logins.user_id = users.id)
+   */
+  orWhereNotExists(query: QueryBuilder<any>): this { this.whereClauses.push({ type: 'exists', query, logical: 'OR', not: true, value: undefined }); return this; }
+
   /**
    * Aplica uma callback condicionalmente se a condição for verdadeira.
    * Permite construir queries dinâmicas baseadas em condições.
@@ -2613,7 +3157,143 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  clone(): this { const newQuery = new (this.constructor as any)(this.tableName); Object.assign(newQuery, { ...this, selectColumns: [...this.selectColumns], whereClauses: [...this.whereClauses], orWhereClauses: [...this.orWhereClauses], joins: [...this.joins], orderClauses: [...this.orderClauses], groupByColumns: [...this.groupByColumns], havingClauses: [...this.havingClauses], aggregates: [...this.aggregates], }); return newQuery; }
+  clone(): this { const newQuery = new (this.constructor as any)(this.tableName); Object.assign(newQuery, { ...this, selectColumns: [...this.selectColumns], whereClauses: [...this.whereClauses], joins: [...this.joins], orderClauses: [...this.orderClauses], groupByColumns: [...this.groupByColumns], havingClauses: [...this.havingClauses], aggregates: [...this.aggregates], ctes: [...this.ctes], windowDefinitions: [...this.windowDefinitions], }); return newQuery; }
+
+  /**
+   * Serializa o estado da query num AST versionado em JSON puro: seleção, condições, joins, subqueries,
+   * CTEs, uniões, paginação, locks e a escrita pendente, com expressões `raw()`, datas e bigints marcados.
+   * `QueryBuilder.fromAST()` reconstrói uma query equivalente, inclusive após `JSON.stringify`/`JSON.parse`.
+   *
+   * @returns AST da query
+   * @throws Error se a query tiver callbacks (`relationship(fn)`, `onLimitReached`), que não são serializáveis
+   *
+   * @example
+   * const ast = new QueryBuilder('users').where('active', '=', true).orderBy('name').limit(10).toAST();
+   * worker.postMessage(JSON.stringify(ast));
+   * // no worker:
+   * const { sql, bindings } = QueryBuilder.fromAST(JSON.parse(message)).toSql();
+   * // SQL: SELECT * FROM users WHERE active = ? ORDER BY name ASC LIMIT ?
+   */
+  toAST(): QueryAST {
+    if (typeof this.includeAllRelations === 'function') throw new Error('toAST() cannot serialize a relationship() selector function');
+    if (this.memoryLimitOptions?.onLimitReached) throw new Error('toAST() cannot serialize the onLimitReached callback of memoryLimit()');
+    const value = (v: any): AstValue => encodeAstValue(v, (q: QueryBuilder<any>) => q.toAST(), v => v instanceof QueryBuilder);
+    const where = (clauses: WhereClause<T>[]): WhereNode[] => clauses.map(c => ({
+      type: c.type,
+      logical: c.logical,
+      ...(c.column !== undefined ? { column: String(c.column) } : {}),
+      ...(c.operator !== undefined ? { operator: c.operator } : {}),
+      ...(c.value !== undefined ? { value: value(c.value) } : {}),
+      ...(c.sql !== undefined ? { sql: c.sql } : {}),
+      ...(c.not !== undefined ? { not: c.not } : {}),
+      ...(c.query ? { query: c.query.toAST() } : {}),
+      ...(c.clauses ? { clauses: where(c.clauses) } : {}),
+    }));
+    const select = this.selectColumns.map((c): SelectNode => {
+      if (c && typeof c === 'object' && 'toSQL' in c) return { raw: (c as any).toSQL() };
+      if (c && typeof c === 'object' && 'subquery' in c) return { subquery: (c as SubquerySelect).subquery.toAST(), alias: (c as SubquerySelect).alias };
+      if (c && typeof c === 'object' && 'windowFunction' in c) {
+        const w = c as WindowSelect;
+        return { window: w.windowFunction, options: value(w.options) as { [key: string]: AstValue }, ...(w.queryOrder ? { queryOrder: true } : {}) };
+      }
+      return String(c);
+    });
+    const { onLimitReached: _callback, ...memoryLimit } = this.memoryLimitOptions || ({} as MemoryLimitOptions);
+    const action = this.pendingAction;
+    return {
+      version: QUERY_AST_VERSION,
+      table: this.tableName,
+      ...(this.tableAlias ? { alias: this.tableAlias } : {}),
+      ...(this.fromSubquery ? { from: { query: this.fromSubquery.query.toAST(), alias: this.fromSubquery.alias } } : {}),
+      select,
+      distinct: this.isDistinct,
+      aggregates: this.aggregates.map(a => ({ ...a })),
+      joins: this.joins.map(j => ({ type: j.type, table: j.table, on: j.on, ...(j.left !== undefined ? { left: j.left } : {}), ...(j.right !== undefined ? { right: j.right } : {}), ...(j.query ? { query: j.query.toAST() } : {}) })),
+      where: where(this.whereClauses),
+      groupBy: [...this.groupByColumns],
+      having: where(this.havingClauses),
+      orderBy: this.orderClauses.map(o => ({ ...o })),
+      ...(this.limitValue !== undefined ? { limit: this.limitValue } : {}),
+      ...(this.offsetValue !== undefined ? { offset: this.offsetValue } : {}),
+      windows: this.windowDefinitions.map(w => ({ name: w.name, spec: structuredClone(w.spec) })),
+      unions: this.unionParts.map(u => ({ type: u.type, query: u.query.toAST() })),
+      ctes: this.ctes.map(cte => ({
+        name: cte.name, columns: [...cte.columns], query: cte.query.toAST(),
+        ...(cte.recursivePart ? { recursivePart: cte.recursivePart.toAST() } : {}),
+        unionAll: cte.unionAll, materialized: cte.materialized,
+      })),
+      ...(this.rowLock ? { lock: { ...this.rowLock } } : {}),
+      ...(this.targetBanks ? { banks: [...this.targetBanks] } : {}),
+      ...(this.returningColumns || this.returningKey !== 'id' ? { returning: { ...(this.returningColumns ? { columns: [...this.returningColumns] } : {}), key: this.returningKey } } : {}),
+      ...(this.memoryLimitOptions ? { memoryLimit } : {}),
+      ...(this.includeAllRelations ? { relations: true as const } : {}),
+      ...(action ? { write: {
+        type: action.type,
+        ...(action.data !== undefined ? { data: value(action.data) } : {}),
+        ...(action.attributes !== undefined ? { attributes: value(action.attributes) } : {}),
+        ...(action.options !== undefined ? { options: value(action.options) } : {}),
+      } } : {}),
+    };
+  }
+
+  /**
+   * Reconstrói uma query a partir do AST de `toAST()`.
+   *
+   * @param ast - AST serializado (objeto ou resultado de `JSON.parse`)
+   * @returns Nova instância com o mesmo estado
+   * @throws Error se a versão do AST não for suportada
+   */
+  static fromAST<U extends { id?: any } & Record<string, any> = any>(ast: QueryAST): QueryBuilder<U> {
+    if (!ast || ast.version !== QUERY_AST_VERSION) throw new Error(`Unsupported query AST version: ${ast?.version}`);
+    const value = (v: AstValue | undefined) => decodeAstValue(v, child => QueryBuilder.fromAST(child));
+    const where = (nodes: WhereNode[]): WhereClause<U>[] => nodes.map(n => ({
+      type: n.type,
+      logical: n.logical,
+      ...(n.column !== undefined ? { column: n.column } : {}),
+      ...(n.operator !== undefined ? { operator: n.operator } : {}),
+      ...(n.value !== undefined ? { value: value(n.value) } : {}),
+      ...(n.sql !== undefined ? { sql: n.sql } : {}),
+      ...(n.not !== undefined ? { not: n.not } : {}),
+      ...(n.query ? { query: QueryBuilder.fromAST(n.query) } : {}),
+      ...(n.clauses ? { clauses: where(n.clauses) } : {}),
+    }));
+    const q = new QueryBuilder<U>(ast.table);
+    q.tableAlias = ast.alias;
+    if (ast.from) q.fromSubquery = { query: QueryBuilder.fromAST(ast.from.query), alias: ast.from.alias };
+    q.selectColumns = ast.select.map(c => {
+      if (typeof c === 'string') return c;
+      if ('raw' in c) return raw(c.raw);
+      if ('subquery' in c) return { subquery: QueryBuilder.fromAST(c.subquery), alias: c.alias } as SubquerySelect;
+      return { windowFunction: c.window, options: value(c.options), ...(c.queryOrder ? { queryOrder: true } : {}) } as WindowSelect;
+    });
+    q.isDistinct = ast.distinct;
+    q.aggregates = ast.aggregates.map(a => ({ ...a }));
+    q.joins = ast.joins.map(({ query, ...j }) => ({ ...j, ...(query ? { query: QueryBuilder.fromAST(query) } : {}) }));
+    q.whereClauses = where(ast.where);
+    q.groupByColumns = [...ast.groupBy];
+    q.havingClauses = where(ast.having);
+    q.orderClauses = ast.orderBy.map(o => ({ ...o }));
+    q.limitValue = ast.limit;
+    q.offsetValue = ast.offset;
+    q.windowDefinitions = ast.windows.map(w => ({ name: w.name, spec: structuredClone(w.spec) }));
+    q.unionParts = ast.unions.map(u => ({ type: u.type, query: QueryBuilder.fromAST(u.query) }));
+    q.ctes = ast.ctes.map(cte => ({
+      name: cte.name, columns: [...cte.columns], query: QueryBuilder.fromAST(cte.query),
+      ...(cte.recursivePart ? { recursivePart: QueryBuilder.fromAST(cte.recursivePart) } : {}),
+      unionAll: cte.unionAll, materialized: cte.materialized,
+    }));
+    q.rowLock = ast.lock ? { ...ast.lock } : undefined;
+    q.targetBanks = ast.banks ? [...ast.banks] : undefined;
+    q.returningColumns = ast.returning?.columns ? [...ast.returning.columns] : undefined;
+    q.returningKey = ast.returning?.key ?? 'id';
+    q.memoryLimitOptions = ast.memoryLimit ? { ...ast.memoryLimit } : undefined;
+    q.includeAllRelations = ast.relations === true;
+    if (ast.write) {
+      const { type, data, attributes, options } = ast.write;
+      q.pendingAction = { type, ...(data !== undefined ? { data: value(data) } : {}), ...(attributes !== undefined ? { attributes: value(attributes) } : {}), ...(options !== undefined ? { options: value(options) } : {}) };
+    }
+    return q;
+  }
 
   /**
    * Adiciona uma cláusula ORDER BY para ordenar os resultados.
@@ -3004,7 +3684,8 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * 
    * @param targetTable - Nome da tabela a ser unida
    * @param on - Condição de junção (ex: 'users.id = posts.user_id')
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @typeParam J - Tipo das linhas da tabela unida (padrão: nenhuma coluna)
+   * @returns QueryBuilder com as linhas de J mescladas ao tipo do resultado
    * 
    * @example
    * // Exemplo básico - INNER JOIN simples
@@ -3088,7 +3769,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  innerJoin(targetTable: string, on: string): this { this.joins.push({ type: 'INNER', table: targetTable, on }); return this; }
+  innerJoin<J extends Record<string, any> = {}>(targetTable: string, on: string): QueryBuilder<JoinedRow<T, J, 'INNER'>> { this.joins.push({ type: 'INNER', table: targetTable, on }); return this as any; }
   
   /**
    * Adiciona um LEFT JOIN à consulta.
@@ -3096,7 +3777,8 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * 
    * @param targetTable - Nome da tabela a ser unida
    * @param on - Condição de junção (ex: 'users.id = posts.user_id')
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @typeParam J - Tipo das linhas da tabela unida (padrão: nenhuma coluna)
+   * @returns QueryBuilder com as linhas de J mescladas ao resultado, colunas de J anuláveis
    * 
    * @example
    * // Exemplo básico - LEFT JOIN simples
@@ -3194,7 +3876,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  leftJoin(targetTable: string, on: string): this { this.joins.push({ type: 'LEFT', table: targetTable, on }); return this; }
+  leftJoin<J extends Record<string, any> = {}>(targetTable: string, on: string): QueryBuilder<JoinedRow<T, J, 'LEFT'>> { this.joins.push({ type: 'LEFT', table: targetTable, on }); return this as any; }
   
   /**
    * Adiciona um RIGHT JOIN à consulta.
@@ -3202,7 +3884,8 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * 
    * @param targetTable - Nome da tabela a ser unida
    * @param on - Condição de junção (ex: 'users.id = posts.user_id')
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @typeParam J - Tipo das linhas da tabela unida (padrão: nenhuma coluna)
+   * @returns QueryBuilder com as linhas de J mescladas ao resultado, colunas de T anuláveis
    * 
    * @example
    * // Exemplo básico - RIGHT JOIN simples
@@ -3278,7 +3961,31 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  rightJoin(targetTable: string, on: string): this { this.joins.push({ type: 'RIGHT', table: targetTable, on }); return this; }
+  rightJoin<J extends Record<string, any> = {}>(targetTable: string, on: string): QueryBuilder<JoinedRow<T, J, 'RIGHT'>> { this.joins.push({ type: 'RIGHT', table: targetTable, on }); return this as any; }
+
+  /**
+   * Adiciona um JOIN com uma subconsulta (`JOIN (SELECT ...) alias ON ...`).
+   * Os bindings da subconsulta entram depois dos do FROM e antes dos do WHERE.
+   * 
+   * @param query - Subconsulta da tabela derivada
+   * @param alias - Alias usado na condição ON e nas colunas
+   * @param on - Condição de junção
+   * @param type - Tipo do JOIN (padrão: 'INNER')
+   * @returns QueryBuilder com as linhas da subconsulta mescladas ao resultado (anuláveis conforme o tipo do JOIN)
+   * 
+   * @example
+   * // Dados iniciais
+   * const latest = new QueryBuilder('orders').select(['user_id', 'MAX(created_at) as last_at']).groupBy(['user_id']);
+   * 
+   * // Como usar
+   * const users = await new QueryBuilder('users')
+   *   .select(['users.id', 'l.last_at'])
+   *   .joinSub(latest, 'l', 'l.user_id = users.id', 'LEFT')
+   *   .all();
+   * 
+   * // Output: SELECT users.id, l.last_at FROM users LEFT JOIN (SELECT user_id, MAX(created_at) as last_at FROM orders GROUP BY user_id) l ON l.user_id = users.id
+   */
+  joinSub<J extends { id?: any } & Record<string, any>, Type extends 'INNER' | 'LEFT' | 'RIGHT' = 'INNER'>(query: QueryBuilder<J>, alias: string, on: string, type: Type = 'INNER' as Type): QueryBuilder<JoinedRow<T, J, Type>> { this.track('joinSub', { alias, on, type }); this.joins.push({ type, table: alias, on, query }); return this as any; }
   
   /**
    * Adiciona um INNER JOIN com condição de igualdade entre duas colunas.
@@ -3287,7 +3994,8 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * @param targetTable - Nome da tabela a ser unida
    * @param left - Nome da coluna da tabela principal
    * @param right - Nome da coluna da tabela unida
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @typeParam J - Tipo das linhas da tabela unida (padrão: nenhuma coluna)
+   * @returns QueryBuilder com as linhas de J mescladas ao tipo do resultado
    * 
    * @example
    * // Exemplo básico - JOIN simples por igualdade
@@ -3351,7 +4059,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  innerJoinOn(targetTable: string, left: string, right: string): this { return this.innerJoin(targetTable, `${left} = ${right}`); }
+  innerJoinOn<J extends Record<string, any> = {}>(targetTable: string, left: string, right: string): QueryBuilder<JoinedRow<T, J, 'INNER'>> { this.joins.push({ type: 'INNER', table: targetTable, on: `${left} = ${right}`, left, right }); return this as any; }
   
   /**
    * Adiciona um LEFT JOIN com condição de igualdade entre duas colunas.
@@ -3360,7 +4068,8 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * @param targetTable - Nome da tabela a ser unida
    * @param left - Nome da coluna da tabela principal
    * @param right - Nome da coluna da tabela unida
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @typeParam J - Tipo das linhas da tabela unida (padrão: nenhuma coluna)
+   * @returns QueryBuilder com as linhas de J mescladas ao resultado, colunas de J anuláveis
    * 
    * @example
    * // Exemplo básico - LEFT JOIN simples por igualdade
@@ -3470,7 +4179,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  leftJoinOn(targetTable: string, left: string, right: string): this { return this.leftJoin(targetTable, `${left} = ${right}`); }
+  leftJoinOn<J extends Record<string, any> = {}>(targetTable: string, left: string, right: string): QueryBuilder<JoinedRow<T, J, 'LEFT'>> { this.joins.push({ type: 'LEFT', table: targetTable, on: `${left} = ${right}`, left, right }); return this as any; }
   
   /**
    * Adiciona um RIGHT JOIN com condição de igualdade entre duas colunas.
@@ -3479,7 +4188,8 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * @param targetTable - Nome da tabela a ser unida
    * @param left - Nome da coluna da tabela principal
    * @param right - Nome da coluna da tabela unida
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @typeParam J - Tipo das linhas da tabela unida (padrão: nenhuma coluna)
+   * @returns QueryBuilder com as linhas de J mescladas ao resultado, colunas de T anuláveis
    * 
    * @example
    * // Exemplo básico - RIGHT JOIN simples por igualdade
@@ -3585,7 +4295,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  rightJoinOn(targetTable: string, left: string, right: string): this { return this.rightJoin(targetTable, `${left} = ${right}`); }
+  rightJoinOn<J extends Record<string, any> = {}>(targetTable: string, left: string, right: string): QueryBuilder<JoinedRow<T, J, 'RIGHT'>> { this.joins.push({ type: 'RIGHT', table: targetTable, on: `${left} = ${right}`, left, right }); return this as any; }
 
   /**
    * Gera a string SQL e os bindings para a query construída.
@@ -3706,52 +4416,171 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * }
    */
   public toSql(): { sql: string; bindings: any[] } {
-    if (this.aggregates.length > 0) {
-      const agg = this.aggregates[0];
-      this.selectColumns = [raw(`${agg.func}(${agg.column}) as ${agg.alias || 'aggregate'}`)];
-    }
-    let baseSelect = `SELECT ${this.isDistinct ? 'DISTINCT' : ''} ${this.selectColumns.map(c => (c && typeof c === 'object' && 'toSQL' in c) ? (c as any).toSQL() : String(c)).join(', ')} FROM ${this.tableName}${this.tableAlias ? ' ' + this.tableAlias : ''}`;
-    const params: any[] = [];
-    if (this.joins.length > 0) baseSelect += ' ' + this.joins.map(j => `${j.type} JOIN ${j.table} ON ${j.on}`).join(' ');
-    const whereClause = this.buildWhereClause(this.whereClauses, params, 'AND');
-    const orWhereClause = this.buildWhereClause(this.orWhereClauses, params, 'OR');
-    
-    if (whereClause || orWhereClause) {
-      baseSelect += ' WHERE';
-      if (whereClause) baseSelect += ` ${whereClause}`;
-      if (orWhereClause) {
-        if (whereClause) baseSelect += ' OR';
-        baseSelect += ` ${orWhereClause}`;
+    const grammar = this.grammar();
+    const mode = this.identifierQuoting();
+    // agregados somam-se às colunas selecionadas; sem select(), às colunas do GROUP BY
+    const plainSelect = this.selectColumns.length === 1 && this.selectColumns[0] === '*';
+    const selectList = this.aggregates.length === 0 ? this.selectColumns : [
+      ...(plainSelect ? this.groupByColumns : this.selectColumns),
+      ...this.aggregates.map(agg => raw(`${agg.func}(${agg.column === '*' ? '*' : grammar.wrap(agg.column, mode)}) as ${grammar.wrapIdentifier(agg.alias || 'aggregate', mode)}`)),
+    ];
+    const whereParams: any[] = [];
+    const where = this.buildWhereClause(this.whereClauses, whereParams, 'AND', grammar);
+    const havingParams: any[] = [];
+    const having = this.havingClauses.length > 0 ? this.buildWhereClause(this.havingClauses as any, havingParams, 'AND', grammar) : '';
+    const columnBindings: any[] = [];
+    const fromBindings: any[] = [];
+    const joinBindings: any[] = [];
+    return grammar.compileSelect({
+      distinct: this.isDistinct,
+      columns: selectList.map(c => {
+        if (c && typeof c === 'object' && 'toSQL' in c) return (c as any).toSQL();
+        if (c && typeof c === 'object' && 'subquery' in c) {
+          const sub = (c as SubquerySelect).subquery.toSql();
+          columnBindings.push(...sub.bindings);
+          return `(${sub.sql}) AS ${grammar.wrapIdentifier((c as SubquerySelect).alias, mode)}`;
+        }
+        if (c && typeof c === 'object' && 'windowFunction' in c) return this.compileWindowSelect(c as WindowSelect, grammar, columnBindings);
+        return grammar.wrap(String(c), mode);
+      }),
+      columnBindings,
+      from: this.fromSubquery
+        ? this.derivedTable(this.fromSubquery.query, this.fromSubquery.alias, grammar, fromBindings)
+        : `${grammar.wrapTable(this.tableName, mode)}${this.tableAlias ? ' ' + grammar.wrapIdentifier(this.tableAlias, mode) : ''}`,
+      fromBindings,
+      joins: this.compileJoins(grammar, joinBindings).map(j => `${j.type} JOIN ${j.table} ON ${j.on}`),
+      joinBindings,
+      where: { sql: where, bindings: whereParams },
+      groupBy: this.groupByColumns.map(c => grammar.wrap(c, mode)),
+      having: { sql: having, bindings: havingParams },
+      windows: grammar.supportsNamedWindows
+        ? this.windowDefinitions.map(w => ({ name: grammar.wrapIdentifier(w.name, mode), definition: this.windowDefinition(w.spec, grammar) }))
+        : [],
+      orders: this.orderClauses.map(o => `${grammar.wrap(o.column, mode)} ${o.direction}`),
+      limit: this.limitValue,
+      offset: this.offsetValue,
+      unions: this.unionParts.map(part => ({ type: part.type, query: part.query.toSql() })),
+      ctes: this.compileCtes(grammar),
+      lock: this.rowLock,
+    });
+  }
+
+  /**
+   * Pede ao banco o plano de execução da query e o normaliza numa árvore de nós com tabela, índice,
+   * linhas e custo estimados. `fullScans` lista as tabelas lidas por inteiro (sem índice).
+   * Usa `EXPLAIN QUERY PLAN` (SQLite), `EXPLAIN (FORMAT JSON)` (PostgreSQL), `EXPLAIN FORMAT=JSON` (MySQL),
+   * `SET SHOWPLAN_XML` (SQL Server) e `EXPLAIN PLAN FOR` (Oracle). Os dois últimos precisam de vários
+   * statements na mesma conexão: fora de uma transação, rodam numa transação própria desfeita no final.
+   *
+   * @param options - `analyze` executa a query e inclui as linhas reais (PostgreSQL e MySQL)
+   * @returns Plano normalizado
+   *
+   * @example
+   * const plan = await new QueryBuilder('users').where('email', '=', 'ana@x.com').explain();
+   * // SQL (PostgreSQL): EXPLAIN (FORMAT JSON) SELECT * FROM users WHERE email = ?
+   * // Output: { nodes: [{ operation: 'Index Scan', table: 'users', index: 'users_email_idx', rows: 1, cost: 8.3, fullScan: false, children: [] }], fullScans: [], ... }
+   */
+  async explain(options: ExplainOptions = {}): Promise<QueryPlan> {
+    this.track('explain', options);
+    simulationManager.assertExecutorAllowed(`explain(${this.tableName})`);
+    const exec = getExecutorForTable(this.tableName, this.targetBanks) as DatabaseExecutor;
+    if (!exec) throw new Error('No executor configured for QueryKit');
+    const grammar = getGrammar(exec.dialect || QueryKitConfig.defaultDialect);
+    const query = this.toSql();
+    const { before, plan, after } = grammar.compileExplain(query, options);
+    const session = before.length > 0 && exec.beginTransaction ? await exec.beginTransaction() : exec;
+    let raw: any[];
+    try {
+      for (const statement of before) await session.executeQuery(statement.sql, grammar.prepareBindings(statement.bindings));
+      raw = (await session.executeQuery(plan.sql, grammar.prepareBindings(plan.bindings)))?.data || [];
+    } finally {
+      try {
+        for (const statement of after) await session.executeQuery(statement.sql, grammar.prepareBindings(statement.bindings));
+      } finally {
+        if (session !== exec) await session.rollback?.();
       }
     }
-    if (this.groupByColumns.length > 0) baseSelect += ` GROUP BY ${this.groupByColumns.join(', ')}`;
-    if (this.havingClauses.length > 0) {
-      const havingClause = this.buildWhereClause(this.havingClauses as any, params, 'AND');
-      if (havingClause) baseSelect += ` HAVING ${havingClause}`;
-    }
-    if (this.unionParts.length === 0) {
-      if (this.orderClauses.length > 0) baseSelect += ` ORDER BY ${this.orderClauses.map(o => `${o.column} ${o.direction}`).join(', ')}`;
-      if (typeof this.limitValue === 'number') { baseSelect += ` LIMIT ?`; params.push(this.limitValue); }
-      if (typeof this.offsetValue === 'number') { baseSelect += ` OFFSET ?`; params.push(this.offsetValue); }
-    }
-    if (this.unionParts.length > 0) {
-      let sql = `${baseSelect}`;
-      for (const part of this.unionParts) { const { sql: subSql, bindings: subBindings } = part.query.toSql(); sql += ` ${part.type} ${subSql}`; params.push(...subBindings); }
-      if (this.orderClauses.length > 0) sql += ` ORDER BY ${this.orderClauses.map(o => `${o.column} ${o.direction}`).join(', ')}`;
-      if (typeof this.limitValue === 'number') { sql += ` LIMIT ?`; params.push(this.limitValue); }
-      if (typeof this.offsetValue === 'number') { sql += ` OFFSET ?`; params.push(this.offsetValue); }
-      return { sql, bindings: params };
-    }
-    return { sql: baseSelect, bindings: params };
+    const nodes = grammar.parseExplain(raw);
+    return { dialect: grammar.dialect, sql: query.sql, bindings: query.bindings, nodes, fullScans: collectFullScans(nodes), raw };
+  }
+
+  // Tabelas derivadas não usam AS: o Oracle não aceita AS em alias de tabela
+  private derivedTable(query: QueryBuilder<any>, alias: string, grammar: Grammar, bindings: any[]): string {
+    const sub = query.toSql();
+    bindings.push(...sub.bindings);
+    return `(${sub.sql}) ${grammar.wrapIdentifier(alias, this.identifierQuoting())}`;
+  }
+
+  /**
+   * Compila os JOINs (tabela ou subquery e condição), acumulando os bindings das subqueries.
+   */
+  private compileJoins(grammar: Grammar, bindings: any[]): NonNullable<WriteModifiers['joins']> {
+    const mode = this.identifierQuoting();
+    return this.joins.map(j => ({
+      type: j.type,
+      table: j.query ? this.derivedTable(j.query, j.table, grammar, bindings) : grammar.wrapTable(j.table, mode),
+      on: j.left !== undefined && j.right !== undefined
+        ? `${grammar.wrapIdentifier(j.left, mode)} = ${grammar.wrapIdentifier(j.right, mode)}`
+        : j.on,
+    }));
+  }
+
+  /**
+   * Resolve o dialeto do executor desta tabela, caindo para `defaultDialect` (ou SQLite)
+   * quando não há executor configurado.
+   */
+  private resolveDialect(): Dialect {
+    let executor: DatabaseExecutor | undefined;
+    try { executor = getExecutorForTable(this.tableName, this.targetBanks); } catch {}
+    return executor?.dialect || QueryKitConfig.defaultDialect || 'sqlite';
+  }
+
+  /**
+   * Gramática usada para compilar o SQL desta query.
+   */
+  private grammar(): Grammar {
+    return getGrammar(this.resolveDialect());
+  }
+
+  /**
+   * Cita uma coluna para os helpers que montam SQL bruto por dialeto (whereILike, whereRegex, ...).
+   */
+  private wrapColumn(column: keyof T | string, dialect?: Dialect): string {
+    return getGrammar(dialect || QueryKitConfig.defaultDialect).wrapIdentifier(String(column), this.identifierQuoting());
   }
 
-  private buildWhereClause(clauses: WhereClause<T>[], params: any[], def: 'AND' | 'OR'): string {
+  /**
+   * Modo de quoting de identificadores configurado (padrão: 'auto').
+   */
+  private identifierQuoting(): IdentifierQuoting {
+    return QueryKitConfig.identifierQuoting || 'auto';
+  }
+
+  /**
+   * Converte os bindings para o formato aceito pelo driver do executor.
+   */
+  private prepareBindings(executor: DatabaseExecutor, bindings: any[]): any[] {
+    return getGrammar(executor.dialect || QueryKitConfig.defaultDialect).prepareBindings(bindings);
+  }
+
+  /**
+   * Monta as condições WHERE/HAVING com as colunas citadas pela gramática.
+   *
+   * @param clauses - Cláusulas a compilar
+   * @param params - Bindings acumulados (recebe os valores na ordem dos placeholders)
+   * @param def - Operador lógico padrão entre as cláusulas
+   * @param grammar - Gramática do dialeto de destino
+   */
+  private buildWhereClause(clauses: WhereClause<T>[], params: any[], def: 'AND' | 'OR', grammar: Grammar): string {
     if (clauses.length === 0) return '';
+    const mode = this.identifierQuoting();
+    // colunas podem ser expressões (`DATE(created_at)`, `COUNT(*)` no HAVING), que passam sem citação
+    const col = (column: unknown) => grammar.wrap(String(column), mode);
     return clauses.map((clause, index) => {
       let conditionStr: string;
       switch (clause.type) {
-        case 'basic': params.push(clause.value); conditionStr = `${String(clause.column)} ${clause.operator} ?`; break;
-        case 'column': conditionStr = `${String(clause.column)} ${clause.operator} ${String(clause.value)}`; break;
+        case 'basic': params.push(clause.value); conditionStr = `${col(clause.column)} ${clause.operator} ?`; break;
+        case 'column': conditionStr = `${col(clause.column)} ${clause.operator} ${col(clause.value)}`; break;
         case 'raw': 
           // Para cláusulas raw, adiciona os bindings se existirem
           if (clause.value && Array.isArray(clause.value)) {
@@ -3759,10 +4588,11 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
           }
           conditionStr = clause.sql!; 
           break;
-        case 'in': if (!Array.isArray(clause.value) || clause.value.length === 0) { conditionStr = clause.not ? '1=1' : '1=0'; } else { params.push(...clause.value); const placeholders = clause.value.map(() => '?').join(', '); conditionStr = `${String(clause.column)} ${clause.not ? 'NOT IN' : 'IN'} (${placeholders})`; } break;
-        case 'null': conditionStr = `${String(clause.column)} IS ${clause.not ? 'NOT ' : ''}NULL`; break;
-        case 'between': params.push(...clause.value); conditionStr = `${String(clause.column)} ${clause.not ? 'NOT BETWEEN' : 'BETWEEN'} ? AND ?`; break;
+        case 'in': if (clause.query) { const sub = clause.query.toSql(); params.push(...sub.bindings); conditionStr = `${col(clause.column)} ${clause.not ? 'NOT IN' : 'IN'} (${sub.sql})`; } else if (!Array.isArray(clause.value) || clause.value.length === 0) { conditionStr = clause.not ? '1=1' : '1=0'; } else { params.push(...clause.value); const placeholders = clause.value.map(() => '?').join(', '); conditionStr = `${col(clause.column)} ${clause.not ? 'NOT IN' : 'IN'} (${placeholders})`; } break;
+        case 'null': conditionStr = `${col(clause.column)} IS ${clause.not ? 'NOT ' : ''}NULL`; break;
+        case 'between': params.push(...clause.value); conditionStr = `${col(clause.column)} ${clause.not ? 'NOT BETWEEN' : 'BETWEEN'} ? AND ?`; break;
         case 'exists': const { sql, bindings } = clause.query!.toSql(); params.push(...bindings); conditionStr = `${clause.not ? 'NOT ' : ''}EXISTS (${sql})`; break;
+        case 'nested': conditionStr = `(${this.buildWhereClause(clause.clauses || [], params, 'AND', grammar)})`; break;
         default: throw new Error('Unsupported where clause type');
       }
       const logical = index > 0 ? clause.logical || def : '';
@@ -4118,13 +4948,14 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * Útil para obter listas simples de valores.
    * 
    * @param column - Nome da coluna ou chave do tipo T para extrair
-   * @returns Promise que resolve para array dos valores da coluna
+   * @returns Promise que resolve para array dos valores da coluna, com o tipo `T[column]`
    * 
    * @example
    * // Exemplo básico - Extrair lista de nomes
    * const userNames = await new QueryBuilder<User>('users')
    *   .where('active', '=', true)
    *   .pluck('name');
+   * // userNames: User['name'][]
    * 
    * @example
    * // Exemplo intermediário - Extrair múltiplas colunas
@@ -4215,7 +5046,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  async pluck(column: keyof T): Promise<any[]> { const results = await this.select([column]).all(); return results.map(r => r[column]); }
+  async pluck<K extends keyof T>(column: K): Promise<T[K][]> { const results = await this.select([column]).all<T>(); return results.map(r => r[column]); }
 
   /**
    * Executa a query e retorna todos os registros encontrados.
@@ -4386,35 +5217,232 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  async all<U = T>(): Promise<U[]> {
-    this.track('all');
+  async all<U = T>(): Promise<U[]> {
+    this.track('all');
+    if (simulationManager.isActive() && !this.memoryLimitOptions) {
+      return this.attachIncluded(this.readVirtual<U>());
+    }
+    let rows: U[];
+    if (this.memoryLimitOptions) {
+      rows = await this.readWithinBudget<U>(this.memoryLimitOptions);
+    } else {
+      const exec = getExecutorForTable(this.tableName, this.targetBanks) as any;
+      if (!exec) throw new Error('No executor configured for QueryKit');
+      const { sql, bindings } = this.toSql();
+      const qbHelper = <X = any>(t?: string) => new QueryBuilder<X>(t || this.tableName);
+      eventManager.emit(`querykit:trigger:BEFORE:READ:${this.tableName}`, { table: this.tableName, action: 'READ', timing: 'BEFORE', where: undefined, qb: qbHelper } as any);
+      const res = await exec.executeQuery(sql, this.prepareBindings(exec, bindings));
+      rows = res.data as U[];
+      eventManager.emit(`querykit:trigger:AFTER:READ:${this.tableName}`, { table: this.tableName, action: 'READ', timing: 'AFTER', rows, qb: qbHelper } as any);
+    }
+    return this.attachIncluded(rows);
+  }
+
+  // carrega os relacionamentos pedidos em relationship()
+  private async attachIncluded<U>(rows: U[]): Promise<U[]> {
+    if (!this.includeAllRelations) return rows;
+    const { attachRelations } = await import('./relations-resolver').catch(() => ({ attachRelations: async (x: any) => x }))
+    const selector = typeof this.includeAllRelations === 'function' ? this.includeAllRelations : undefined
+    return (await attachRelations(this.tableName, rows as any, selector)) as any
+  }
+
+  /**
+   * Percorre o resultado linha a linha sem carregá-lo inteiro na memória.
+   * Usa o streaming nativo do executor (`iterate()` no better-sqlite3, cursores no PostgreSQL,
+   * streams no mysql2, mssql e oracledb); executores sem `stream()` caem para lotes LIMIT/OFFSET via `lazy()`.
+   * Sair do laço com `break` libera o cursor. Relacionamentos de `include()` não são carregados.
+   * O evento `AFTER:READ` sai ao fim da leitura (inclusive com `break`), sem `rows` para não reter o resultado.
+   *
+   * @param options - `batchSize`: linhas buscadas por vez no driver (padrão 1000)
+   *
+   * @example
+   * for await (const user of new QueryBuilder<User>('users').where('active', '=', true).stream()) {
+   *   await sendNewsletter(user);
+   * }
+   */
+  async *stream<U = T>(options: StreamOptions = {}): AsyncGenerator<U> {
+    this.track('stream', options);
     if (simulationManager.isActive()) {
-      const virtualData = simulationManager.getStateFor(this.tableName);
-      if (virtualData) {
-        this.virtualTable = JSON.parse(JSON.stringify(virtualData));
-        let results = this.applyWhereClausesToVirtual(this.virtualTable) as unknown as U[];
-        const offset = this.offsetValue || 0;
-        const limit = this.limitValue === undefined ? results.length : this.limitValue;
-        results = results.slice(offset, offset + limit);
-        if (!this.includeAllRelations) return results;
-        const { attachRelations } = await import('./relations-resolver').catch(() => ({ attachRelations: async (x: any) => x }))
-        const selector = typeof this.includeAllRelations === 'function' ? this.includeAllRelations : undefined
-        return (await attachRelations(this.tableName, results as any, selector)) as any
-      }
-      return [];
+      yield* await this.page().all<U>();
+      return;
     }
-    const exec = getExecutorForTable(this.tableName, this.targetBanks) as any;
+    const exec = getExecutorForTable(this.tableName, this.targetBanks) as DatabaseExecutor;
     if (!exec) throw new Error('No executor configured for QueryKit');
+    if (!exec.stream) {
+      yield* this.lazy<U>(options.batchSize || 1000);
+      return;
+    }
     const { sql, bindings } = this.toSql();
     const qbHelper = <X = any>(t?: string) => new QueryBuilder<X>(t || this.tableName);
     eventManager.emit(`querykit:trigger:BEFORE:READ:${this.tableName}`, { table: this.tableName, action: 'READ', timing: 'BEFORE', where: undefined, qb: qbHelper } as any);
-    const res = await exec.executeQuery(sql, bindings);
-    let rows = res.data as U[];
-    eventManager.emit(`querykit:trigger:AFTER:READ:${this.tableName}`, { table: this.tableName, action: 'READ', timing: 'AFTER', rows, qb: qbHelper } as any);
-    if (!this.includeAllRelations) return rows;
-    const { attachRelations } = await import('./relations-resolver').catch(() => ({ attachRelations: async (x: any) => x }))
-    const selector = typeof this.includeAllRelations === 'function' ? this.includeAllRelations : undefined
-    return (await attachRelations(this.tableName, rows as any, selector)) as any
+    let failed = false;
+    try {
+      yield* exec.stream(sql, this.prepareBindings(exec, bindings), options) as AsyncIterable<U>;
+    } catch (err) {
+      failed = true;
+      throw err;
+    } finally {
+      if (!failed) eventManager.emit(`querykit:trigger:AFTER:READ:${this.tableName}`, { table: this.tableName, action: 'READ', timing: 'AFTER', qb: qbHelper } as any);
+    }
+  }
+
+  /**
+   * Lê o resultado em lotes de `size` linhas (LIMIT/OFFSET) e chama `callback` para cada lote.
+   * Retornar `false` no callback interrompe a leitura. `limit()`/`offset()` já aplicados são respeitados.
+   * Use um `orderBy()` estável para que os lotes não se sobreponham.
+   *
+   * @param size - Quantidade de linhas por lote
+   * @param callback - Recebe as linhas do lote e o número do lote (a partir de 1)
+   * @returns `false` se o callback interrompeu a leitura, `true` caso contrário
+   *
+   * @example
+   * await new QueryBuilder<User>('users').orderBy('id').chunk(500, async (users, page) => {
+   *   await reindex(users);
+   *   if (page === 10) return false;
+   * });
+   * // SQL: SELECT * FROM users ORDER BY id ASC LIMIT 500 OFFSET 0, ... OFFSET 500, ...
+   */
+  async chunk<U = T>(size: number, callback: (rows: U[], page: number) => unknown): Promise<boolean> {
+    this.track('chunk', { size });
+    let page = 0;
+    for await (const rows of this.pages<U>(size)) {
+      if (await callback(rows, ++page) === false) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Como `chunk()`, mas entrega as linhas uma a uma num iterável assíncrono.
+   * Apenas um lote de `size` linhas fica em memória por vez.
+   *
+   * @param size - Quantidade de linhas buscadas por lote (padrão 1000)
+   *
+   * @example
+   * for await (const order of new QueryBuilder<Order>('orders').orderBy('id').lazy(200)) {
+   *   total += order.amount;
+   * }
+   */
+  async *lazy<U = T>(size = 1000): AsyncGenerator<U> {
+    this.track('lazy', { size });
+    for await (const rows of this.pages<U>(size)) yield* rows;
+  }
+
+  /**
+   * Limita a memória usada por `all()`. As linhas são lidas conforme `strategy` e o tamanho
+   * estimado é somado a cada linha; ao ultrapassar `bytes`, a leitura para e `onLimitReached`
+   * é chamado com o uso e o limite, e `all()` devolve as linhas que couberam.
+   * Sem `onLimitReached`, `all()` lança um erro.
+   *
+   * @param options - Orçamento em bytes, estratégia de leitura e callback
+   *
+   * @example
+   * const rows = await new QueryBuilder('events')
+   *   .memoryLimit({ bytes: 50 * 1024 * 1024, strategy: 'chunk', chunkSize: 5000, onLimitReached: (used, limit) => log.warn({ used, limit }) })
+   *   .all();
+   */
+  memoryLimit(options: MemoryLimitOptions): this {
+    if (!(options.bytes > 0)) throw new Error(`Invalid memory limit: ${options.bytes}`);
+    this.track('memoryLimit', options);
+    this.memoryLimitOptions = options;
+    return this;
+  }
+
+  /**
+   * Bloqueia as linhas lidas para escrita até o fim da transação (`FOR UPDATE`).
+   * No SQL Server vira a dica `WITH (UPDLOCK)`; no SQLite não tem efeito.
+   *
+   * @example
+   * await transaction(async () => {
+   *   const [job] = await table('jobs').where('status', '=', 'queued').orderBy('id').limit(1).forUpdate().skipLocked().all();
+   *   if (job) await table('jobs').where('id', '=', job.id).update({ status: 'running' }).make();
+   * });
+   * // SQL (PostgreSQL): SELECT * FROM jobs WHERE status = ? ORDER BY id ASC LIMIT ? FOR UPDATE SKIP LOCKED
+   */
+  forUpdate(): this { this.track('forUpdate'); this.rowLock = { ...this.rowLock, mode: 'UPDATE' }; return this; }
+
+  /**
+   * Bloqueia as linhas lidas contra alterações de outras transações, sem impedir que elas também as leiam (`FOR SHARE`).
+   * No SQL Server vira a dica `WITH (REPEATABLEREAD)`; o Oracle não tem lock compartilhado de linha.
+   */
+  forShare(): this { this.track('forShare'); this.rowLock = { ...this.rowLock, mode: 'SHARE' }; return this; }
+
+  /** Alias de `forShare()`. */
+  sharedLock(): this { return this.forShare(); }
+
+  /**
+   * Pula as linhas já bloqueadas por outra transação (`SKIP LOCKED`; `READPAST` no SQL Server).
+   * Sem `forShare()`, bloqueia para escrita.
+   */
+  skipLocked(): this { this.track('skipLocked'); this.rowLock = { mode: this.rowLock?.mode ?? 'UPDATE', wait: 'SKIP LOCKED' }; return this; }
+
+  /**
+   * Falha na hora se alguma linha já estiver bloqueada, em vez de esperar (`NOWAIT`).
+   * Sem `forShare()`, bloqueia para escrita.
+   */
+  noWait(): this { this.track('noWait'); this.rowLock = { mode: this.rowLock?.mode ?? 'UPDATE', wait: 'NOWAIT' }; return this; }
+
+  // cópia sem o limite de memória, usada pelas leituras em lotes para não reentrar no orçamento
+  private page(): this {
+    const q = this.clone();
+    q.memoryLimitOptions = undefined;
+    return q;
+  }
+
+  private async *pages<U>(size: number): AsyncGenerator<U[]> {
+    if (!Number.isInteger(size) || size < 1) throw new Error(`Invalid chunk size: ${size}`);
+    const start = this.offsetValue || 0;
+    const cap = this.limitValue;
+    for (let read = 0; ; read += size) {
+      const take = cap === undefined ? size : Math.min(size, cap - read);
+      if (take <= 0) return;
+      const rows = await this.page().limit(take).offset(start + read).all<U>();
+      if (rows.length > 0) yield rows;
+      if (rows.length < take) return;
+    }
+  }
+
+  // paginação por chave (WHERE key > último ORDER BY key): não degrada em offsets altos
+  private async *rowsByKey<U>(size: number, key: string): AsyncGenerator<U> {
+    if (!Number.isInteger(size) || size < 1) throw new Error(`Invalid chunk size: ${size}`);
+    const cap = this.limitValue;
+    let last: any;
+    for (let read = 0; ; ) {
+      const take = cap === undefined ? size : Math.min(size, cap - read);
+      if (take <= 0) return;
+      const q = this.page();
+      q.whereClauses = this.whereClauses.length ? [{ type: 'nested', logical: 'AND', clauses: this.whereClauses }] : [];
+      if (last !== undefined) q.where(key, '>', last);
+      q.orderClauses = [{ column: key, direction: 'ASC' }];
+      q.offsetValue = undefined;
+      const rows = await q.limit(take).all<U>();
+      yield* rows;
+      read += rows.length;
+      if (rows.length < take) return;
+      last = columnValue(rows[rows.length - 1] as any, key);
+      if (last === undefined) throw new Error(`Key column ${key} must be selected to paginate ${this.tableName} by key`);
+    }
+  }
+
+  private async readWithinBudget<U>(options: MemoryLimitOptions): Promise<U[]> {
+    const size = options.chunkSize || 1000;
+    const strategy = options.strategy || 'stream';
+    const source: AsyncIterable<U> = strategy === 'chunk'
+      ? this.lazy<U>(size)
+      : strategy === 'paginate'
+        ? this.rowsByKey<U>(size, options.key || 'id')
+        : this.page().stream<U>({ batchSize: size });
+    const rows: U[] = [];
+    let usage = 0;
+    for await (const row of source) {
+      usage += estimateBytes(row);
+      if (usage > options.bytes) {
+        if (!options.onLimitReached) throw new Error(`Memory limit of ${options.bytes} bytes exceeded reading ${this.tableName}`);
+        options.onLimitReached(usage, options.bytes);
+        break;
+      }
+      rows.push(row);
+    }
+    return rows;
   }
 /**
  * Executa a query de forma síncrona.
@@ -4498,7 +5526,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
  *   }
  * }
  */
-  run(): any { const exec = QueryKitConfig.defaultExecutor; if (!exec || !exec.runSync) throw new Error('No executor configured for QueryKit'); const { sql, bindings } = this.toSql(); return exec.runSync(sql, bindings); }
+  run(): any { simulationManager.assertExecutorAllowed(`run(${this.tableName})`); const exec = QueryKitConfig.defaultExecutor && resolveTransactionExecutor(QueryKitConfig.defaultExecutor); if (!exec || !exec.runSync) throw new Error('No executor configured for QueryKit'); const { sql, bindings } = this.toSql(); return exec.runSync(sql, this.prepareBindings(exec, bindings)); }
   /**
  * Executa a query de forma síncrona e retorna todos os registros.
  * Versão síncrona do método all(), útil para operações que precisam ser executadas
@@ -4585,12 +5613,13 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
  * }
  */
   allSync<U = T>(): U[] {
+    if (simulationManager.isActive()) return this.readVirtual<U>();
     const exec = getExecutorForTable(this.tableName, this.targetBanks) as any;
     if (!exec || !exec.executeQuerySync) throw new Error('No executor configured for QueryKit');
     const { sql, bindings } = this.toSql();
     const qbHelper = <X = any>(t?: string) => new QueryBuilder<X>(t || this.tableName);
     eventManager.emit(`querykit:trigger:BEFORE:READ:${this.tableName}`, { table: this.tableName, action: 'READ', timing: 'BEFORE', where: undefined, qb: qbHelper } as any);
-    const out = exec.executeQuerySync(sql, bindings).data as U[];
+    const out = exec.executeQuerySync(sql, this.prepareBindings(exec, bindings)).data as U[];
     eventManager.emit(`querykit:trigger:AFTER:READ:${this.tableName}`, { table: this.tableName, action: 'READ', timing: 'AFTER', rows: out, qb: qbHelper } as any);
     return out;
   }
@@ -4944,7 +5973,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
  *   }
  * }
  */
-  pluckSync(column: keyof T | string): any[] { const rows = this.select([String(column)]).allSync<any>(); return rows.map(r => (r as any)[String(column)]); }
+  pluckSync<K extends keyof T | string>(column: K): (K extends keyof T ? T[K] : any)[] { const rows = this.select([String(column)]).allSync<any>(); return rows.map(r => (r as any)[String(column)]); }
   /**
  * Executa a query de forma síncrona e retorna um valor escalar único.
  * Versão síncrona do método scalar(), útil para obter valores únicos como contagens,
@@ -5251,7 +6280,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  count(column: string = '*', alias?: string): this { return this.addAggregate('count', column, alias); }
+  count<C extends string = '*', A extends string = AggregateAlias<'count', C>>(column: C = '*' as C, alias?: A): QueryBuilder<T & Record<A, number>> { return this.addAggregate('count', column, alias) as any; }
   
   /**
    * Adiciona uma função de agregação SUM à query.
@@ -5364,7 +6393,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  sum(column: string, alias?: string): this { return this.addAggregate('sum', column, alias); }
+  sum<C extends string, A extends string = AggregateAlias<'sum', C>>(column: C, alias?: A): QueryBuilder<T & Record<A, number>> { return this.addAggregate('sum', column, alias) as any; }
   
   /**
    * Adiciona uma função de agregação AVG à query.
@@ -5482,7 +6511,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  avg(column: string, alias?: string): this { return this.addAggregate('avg', column, alias); }
+  avg<C extends string, A extends string = AggregateAlias<'avg', C>>(column: C, alias?: A): QueryBuilder<T & Record<A, number>> { return this.addAggregate('avg', column, alias) as any; }
   
   /**
    * Adiciona uma função de agregação MIN à query.
@@ -5607,7 +6636,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  min(column: string, alias?: string): this { return this.addAggregate('min', column, alias); }
+  min<C extends string, A extends string = AggregateAlias<'min', C>>(column: C, alias?: A): QueryBuilder<T & Record<A, number>> { return this.addAggregate('min', column, alias) as any; }
   
   /**
    * Adiciona uma função de agregação MAX à query.
@@ -5731,18 +6760,42 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  max(column: string, alias?: string): this { return this.addAggregate('max', column, alias); }
+  max<C extends string, A extends string = AggregateAlias<'max', C>>(column: C, alias?: A): QueryBuilder<T & Record<A, number>> { return this.addAggregate('max', column, alias) as any; }
   
   /**
    * Método interno para adicionar funções de agregação.
    * Não deve ser chamado diretamente, use os métodos específicos (count, sum, avg, min, max).
+   * Os agregados se acumulam na ordem das chamadas.
    * 
    * @param func - Função de agregação a ser aplicada
    * @param column - Coluna para aplicar a agregação
    * @param alias - Alias para o resultado da agregação
    * @returns Instância atual do QueryBuilder para method chaining
    */
-  private addAggregate(func: Aggregate['func'], column: string, alias?: string) { this.aggregates.push({ func, column, alias: alias || `${func}_${column}` }); return this; }
+  private addAggregate(func: Aggregate['func'], column: string, alias?: string) { this.track(func, { column, alias }); this.aggregates.push({ func, column, alias: alias || (column === '*' ? func : `${func}_${column.split('.').pop()}`) }); return this; }
+
+  /**
+   * Adiciona vários agregados de uma vez, um por chave do objeto (a chave vira o alias).
+   * Combina com `select()` e `groupBy()`: sem `select()`, as colunas do GROUP BY entram na seleção.
+   *
+   * @param spec - Alias → `[função, coluna]`
+   * @returns QueryBuilder tipado com os aliases como números
+   *
+   * @example
+   * const rows = await new QueryBuilder<Order>('orders')
+   *   .groupBy(['customer_id'])
+   *   .aggregate({ total: ['sum', 'amount'], n: ['count', '*'] })
+   *   .all();
+   * // SQL: SELECT customer_id, sum(amount) as total, count(*) as n FROM orders GROUP BY customer_id
+   * // Output: [{ customer_id: 1, total: 420, n: 3 }, ...]
+   */
+  aggregate<S extends AggregateSpec>(spec: S): QueryBuilder<T & { [K in keyof S]: number }> {
+    for (const [alias, [func, column]] of Object.entries(spec)) {
+      if (!AGGREGATE_FUNCTIONS.includes(func)) throw new Error(`Invalid aggregate function: ${func}`);
+      this.addAggregate(func, column, alias);
+    }
+    return this as any;
+  }
 
   /**
    * Adiciona uma expressão SQL personalizada à seleção.
@@ -5800,7 +6853,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * 
    * @param expression - Expressão SQL a ser incluída na seleção
    * @param alias - Alias opcional para a expressão
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @returns QueryBuilder com a chave do alias (quando informado) tipada como `unknown`
    * 
    * @example
    * // Exemplo básico - Expressão SQL simples
@@ -5830,14 +6883,14 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   `)
    *   .all();
    */
-  selectExpression(expression: string, alias?: string): this { const expr = alias ? `${expression} AS ${alias}` : expression; this.selectColumns.push(raw(expr)); return this; }
+  selectExpression<A extends string = never>(expression: string, alias?: A): QueryBuilder<[A] extends [never] ? T : T & Record<A, unknown>> { const expr = alias ? `${expression} AS ${alias}` : expression; this.selectColumns.push(raw(expr)); return this as any; }
   /**
    * Adiciona uma função COUNT à seleção.
    * Atalho para selectExpression com COUNT.
    * 
    * @param column - Coluna para contar (padrão: '*')
    * @param alias - Alias para o resultado (padrão: 'count')
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @returns QueryBuilder com a chave do alias tipada como número
    * 
    * @example
    * // Exemplo básico - Contar registros
@@ -5853,14 +6906,14 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   .where('created_at', '>', new Date('2024-01-01'))
    *   .all();
    */
-  selectCount(column: string = '*', alias: string = 'count'): this { return this.selectExpression(`COUNT(${column})`, alias); }
+  selectCount<A extends string = 'count'>(column: string = '*', alias: A = 'count' as A): QueryBuilder<T & Record<A, number>> { return this.selectExpression(`COUNT(${column})`, alias) as any; }
   /**
    * Adiciona uma função SUM à seleção.
    * Atalho para selectExpression com SUM.
    * 
    * @param column - Coluna para somar
    * @param alias - Alias para o resultado (padrão: 'sum')
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @returns QueryBuilder com a chave do alias tipada como número
    * 
    * @example
    * // Exemplo básico - Somar valores
@@ -5876,14 +6929,14 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   .where('created_at', '>', new Date('2024-01-01'))
    *   .all();
    */
-  selectSum(column: string, alias: string = 'sum'): this { return this.selectExpression(`SUM(${column})`, alias); }
+  selectSum<A extends string = 'sum'>(column: string, alias: A = 'sum' as A): QueryBuilder<T & Record<A, number>> { return this.selectExpression(`SUM(${column})`, alias) as any; }
   /**
    * Adiciona uma função AVG à seleção.
    * Atalho para selectExpression com AVG.
    * 
    * @param column - Coluna para calcular a média
    * @param alias - Alias para o resultado (padrão: 'avg')
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @returns QueryBuilder com a chave do alias tipada como número
    * 
    * @example
    * // Exemplo básico - Calcular média
@@ -5899,14 +6952,14 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   .selectAvg('CASE WHEN experience_years >= 5 THEN salary END', 'senior_avg_salary')
    *   .all();
    */
-  selectAvg(column: string, alias: string = 'avg'): this { return this.selectExpression(`AVG(${column})`, alias); }
+  selectAvg<A extends string = 'avg'>(column: string, alias: A = 'avg' as A): QueryBuilder<T & Record<A, number>> { return this.selectExpression(`AVG(${column})`, alias) as any; }
   /**
    * Adiciona uma função MIN à seleção.
    * Atalho para selectExpression com MIN.
    * 
    * @param column - Coluna para encontrar o valor mínimo
    * @param alias - Alias para o resultado (padrão: 'min')
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @returns QueryBuilder com a chave do alias tipada como número
    * 
    * @example
    * // Exemplo básico - Encontrar valor mínimo
@@ -5922,14 +6975,14 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   .selectMin('CASE WHEN product_category = "Electronics" THEN amount END', 'electronics_min_sale')
    *   .all();
    */
-  selectMin(column: string, alias: string = 'min'): this { return this.selectExpression(`MIN(${column})`, alias); }
+  selectMin<A extends string = 'min'>(column: string, alias: A = 'min' as A): QueryBuilder<T & Record<A, number>> { return this.selectExpression(`MIN(${column})`, alias) as any; }
   /**
    * Adiciona uma função MAX à seleção.
    * Atalho para selectExpression com MAX.
    * 
    * @param column - Coluna para encontrar o valor máximo
    * @param alias - Alias para o resultado (padrão: 'max')
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @returns QueryBuilder com a chave do alias tipada como número
    * 
    * @example
    * // Exemplo básico - Encontrar valor máximo
@@ -5945,14 +6998,14 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   .selectMax('CASE WHEN product_category = "Clothing" THEN amount END', 'clothing_max_sale')
    *   .all();
    */
-  selectMax(column: string, alias: string = 'max'): this { return this.selectExpression(`MAX(${column})`, alias); }
+  selectMax<A extends string = 'max'>(column: string, alias: A = 'max' as A): QueryBuilder<T & Record<A, number>> { return this.selectExpression(`MAX(${column})`, alias) as any; }
   /**
    * Adiciona uma soma condicional à seleção.
    * Conta registros que atendem a uma condição específica.
    * 
    * @param conditionSql - Condição SQL para o CASE WHEN
    * @param alias - Alias para o resultado
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @returns QueryBuilder com a chave do alias tipada como número
    * 
    * @example
    * // Exemplo básico - Contar registros condicionalmente
@@ -5968,7 +7021,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   .selectCaseSum('total_amount > 100', 'high_value_orders')
    *   .all();
    */
-  selectCaseSum(conditionSql: string, alias: string): this { return this.selectExpression(`SUM(CASE WHEN ${conditionSql} THEN 1 ELSE 0 END)`, alias); }
+  selectCaseSum<A extends string>(conditionSql: string, alias: A): QueryBuilder<T & Record<A, number>> { return this.selectExpression(`SUM(CASE WHEN ${conditionSql} THEN 1 ELSE 0 END)`, alias) as any; }
   /**
    * Adiciona uma coluna única ao GROUP BY.
    * Atalho para groupBy com uma única coluna.
@@ -6055,6 +7108,111 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    * }
    */
   paginate(page: number = 1, perPage: number = 25): this { const safePage = Math.max(1, page || 1); const safePerPage = Math.max(1, perPage || 25); this.limit(safePerPage); this.offset((safePage - 1) * safePerPage); return this; }
+  /**
+   * Pagina a query e conta o total de linhas numa segunda query derivada desta, sem ORDER BY,
+   * LIMIT/OFFSET nem `relationship()`. Queries com GROUP BY, DISTINCT, HAVING ou UNION são contadas
+   * como subquery (`SELECT COUNT(*) FROM (...) querykit_count`), contando grupos e linhas distintas.
+   *
+   * @param page - Número da página (começa em 1)
+   * @param perPage - Itens por página (padrão: 25)
+   * @returns Linhas da página com `total`, `perPage`, `currentPage` e `lastPage`
+   *
+   * @example
+   * const result = await new QueryBuilder<Order>('orders').where('status', '=', 'paid').orderBy('id', 'DESC').paginateWithMeta(3, 20);
+   * // SQL: SELECT count(*) as total FROM orders WHERE status = ?
+   * // SQL: SELECT * FROM orders WHERE status = ? ORDER BY id DESC LIMIT ? OFFSET ?
+   * // Output: { data: [...], total: 134, perPage: 20, currentPage: 3, lastPage: 7 }
+   */
+  async paginateWithMeta<U = T>(page: number = 1, perPage: number = 25): Promise<PaginatedResult<U>> {
+    this.track('paginateWithMeta', { page, perPage });
+    const currentPage = Math.max(1, Math.floor(page) || 1);
+    const size = Math.max(1, Math.floor(perPage) || 25);
+    const total = await this.countForPagination();
+    const data = await this.clone().paginate(currentPage, size).all<U>();
+    return { data, total, perPage: size, currentPage, lastPage: Math.max(1, Math.ceil(total / size)) };
+  }
+
+  private async countForPagination(): Promise<number> {
+    const base = this.page();
+    base.orderClauses = [];
+    base.rowLock = undefined;
+    base.limitValue = undefined;
+    base.offsetValue = undefined;
+    base.includeAllRelations = false;
+    if (simulationManager.isActive()) return (await base.all()).length;
+    const grouped = base.isDistinct || base.groupByColumns.length > 0 || base.havingClauses.length > 0 || base.unionParts.length > 0;
+    let counter = base;
+    if (grouped) {
+      // as CTEs sobem para a query externa: SQL Server não aceita WITH dentro de tabela derivada
+      counter = new QueryBuilder<any>(this.tableName).fromSub(base, 'querykit_count') as any;
+      counter.ctes = base.ctes;
+      counter.targetBanks = base.targetBanks;
+      base.ctes = [];
+    }
+    counter.selectColumns = ['*'];
+    counter.aggregates = [{ func: 'count', column: '*', alias: 'total' }];
+    const [row] = await counter.all<Record<string, any>>();
+    // o Oracle devolve o alias em maiúsculas e o pg devolve COUNT como string
+    return row ? Number(Object.values(row)[0]) : 0;
+  }
+
+  /**
+   * Paginação por cursor (keyset): em vez de OFFSET, filtra as linhas depois/antes da última/primeira
+   * linha vista pela tupla de `orderBy`, o que mantém o custo constante e as páginas estáveis
+   * mesmo com inserções concorrentes. Filtros existentes são preservados entre parênteses e
+   * `relationship()` é aplicado apenas às linhas da página.
+   *
+   * @param options - Chave de ordenação, cursor (`after` ou `before`) e tamanho da página (padrão 25)
+   * @returns Linhas da página, cursores opacos e se há páginas seguinte/anterior
+   * @throws Error se `after` e `before` forem usados juntos, se o cursor for inválido ou se uma coluna de `orderBy` não vier nas linhas
+   *
+   * @example
+   * const first = await new QueryBuilder<Post>('posts').where('published', '=', true)
+   *   .cursorPaginate({ orderBy: [{ column: 'created_at', direction: 'DESC' }, { column: 'id', direction: 'DESC' }], limit: 20 });
+   * const second = await new QueryBuilder<Post>('posts').where('published', '=', true)
+   *   .cursorPaginate({ orderBy: [{ column: 'created_at', direction: 'DESC' }, { column: 'id', direction: 'DESC' }], limit: 20, after: first.nextCursor });
+   * // SQL: SELECT * FROM posts WHERE (published = ?) AND (created_at, id) < (?, ?) ORDER BY created_at DESC, id DESC LIMIT ?
+   */
+  async cursorPaginate<U = T>(options: CursorPaginateOptions): Promise<CursorPage<U>> {
+    this.track('cursorPaginate', options);
+    if (options.after && options.before) throw new Error('cursorPaginate accepts either after or before, not both');
+    const order = options.orderBy.map(o => typeof o === 'string' ? { column: o, direction: 'ASC' as const } : { column: o.column, direction: o.direction === 'DESC' ? 'DESC' as const : 'ASC' as const });
+    if (order.length === 0) throw new Error('cursorPaginate requires at least one orderBy column');
+    const limit = Math.max(1, options.limit || 25);
+    const backward = !!options.before;
+    const cursor = options.after || options.before;
+    const q = this.clone();
+    q.whereClauses = this.whereClauses.length ? [{ type: 'nested', logical: 'AND', clauses: this.whereClauses }] : [];
+    if (cursor) {
+      const grammar = this.grammar();
+      const mode = this.identifierQuoting();
+      const operators = order.map(o => (o.direction === 'ASC') !== backward ? '>' as const : '<' as const);
+      const condition = grammar.compileKeysetCondition(order.map(o => grammar.wrap(o.column, mode)), operators, decodeCursor(cursor, order.length));
+      q.whereRaw(condition.sql, condition.bindings);
+    }
+    // para trás, lê na ordem inversa e desvira a página
+    q.orderClauses = order.map(o => ({ column: o.column, direction: backward ? (o.direction === 'ASC' ? 'DESC' : 'ASC') : o.direction }));
+    q.offsetValue = undefined;
+    q.includeAllRelations = false;
+    const rows = await q.limit(limit + 1).all<U>();
+    const more = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (backward) page.reverse();
+    const hasNext = backward || more;
+    const hasPrev = backward ? more : !!options.after;
+    const keyOf = (row: any) => encodeCursor(order.map(o => {
+      const value = columnValue(row, o.column);
+      if (value === undefined) throw new Error(`Cursor column ${o.column} must be selected to paginate ${this.tableName}`);
+      return value;
+    }));
+    return {
+      data: await this.attachIncluded(page),
+      nextCursor: hasNext && page.length > 0 ? keyOf(page[page.length - 1]) : null,
+      prevCursor: hasPrev && page.length > 0 ? keyOf(page[0]) : null,
+      hasNext,
+      hasPrev,
+    };
+  }
   /**
    * Adiciona filtro de intervalo de datas à query.
    * Permite filtrar registros dentro de um período específico.
@@ -6414,23 +7572,24 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
   whereILike(column: keyof T | string, pattern: string): this { 
     // Detecta o executor para usar a sintaxe correta do banco
     const executor = getExecutorForTable(this.tableName, this.targetBanks);
+    const col = this.wrapColumn(column, executor?.dialect);
     let sql: string;
     
     if (executor?.dialect === 'postgres') {
       // PostgreSQL - ILIKE para case-insensitive
-      sql = `${String(column)} ILIKE ?`;
+      sql = `${col} ILIKE ?`;
     } else if (executor?.dialect === 'mysql') {
       // MySQL - COLLATE para case-insensitive
-      sql = `${String(column)} LIKE ? COLLATE utf8_general_ci`;
+      sql = `${col} LIKE ? COLLATE utf8_general_ci`;
     } else if (executor?.dialect === 'oracle') {
       // Oracle - UPPER() para case-insensitive
-      sql = `UPPER(${String(column)}) LIKE UPPER(?)`;
+      sql = `UPPER(${col}) LIKE UPPER(?)`;
     } else if (executor?.dialect === 'mssql') {
       // SQL Server - COLLATE para case-insensitive
-      sql = `${String(column)} LIKE ? COLLATE SQL_Latin1_General_CP1_CI_AS`;
+      sql = `${col} LIKE ? COLLATE SQL_Latin1_General_CP1_CI_AS`;
     } else {
       // Fallback universal - LOWER() para case-insensitive
-      sql = `LOWER(${String(column)}) LIKE LOWER(?)`;
+      sql = `LOWER(${col}) LIKE LOWER(?)`;
     }
     
     return this.whereRaw(sql, [pattern]); 
@@ -6806,11 +7965,225 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    */
   unionAll(query: QueryBuilder<any>): this { this.unionParts.push({ type: 'UNION ALL', query }); return this; }
 
-  async make(): Promise<{ changes: number; lastInsertRowid: number | bigint }> {
+  /**
+   * Declara uma CTE (`WITH name AS (...)`) que pode ser usada como tabela pela própria query,
+   * por joins e subconsultas, e também por UPDATE/DELETE (Oracle não aceita WITH em escritas
+   * e o MySQL não aceita antes de INSERT). Os bindings das CTEs vêm antes dos da query.
+   * 
+   * @param name - Nome da CTE
+   * @param query - Query que define a CTE
+   * @param options - Colunas declaradas
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Exemplo básico - Ler de uma CTE
+   * const rows = await new QueryBuilder('recent_orders')
+   *   .with('recent_orders', new QueryBuilder('orders').where('created_at', '>', '2025-01-01'))
+   *   .where('total', '>', 100)
+   *   .all();
+   * // SQL: WITH recent_orders AS (SELECT * FROM orders WHERE created_at > ?) SELECT * FROM recent_orders WHERE total > ?
+   * 
+   * @example
+   * // Exemplo intermediário - CTE como origem de um DELETE
+   * await new QueryBuilder('sessions')
+   *   .with('stale', new QueryBuilder('users').select(['id']).where('active', '=', false))
+   *   .whereRaw('user_id IN (SELECT id FROM stale)')
+   *   .delete()
+   *   .make();
+   * // SQL: WITH stale AS (SELECT id FROM users WHERE active = ?) DELETE FROM sessions WHERE user_id IN (SELECT id FROM stale)
+   */
+  with(name: string, query: QueryBuilder<any>, options: CteOptions = {}): this { this.track('with', { name }); this.ctes.push({ name, columns: options.columns || [], query, unionAll: true, materialized: false }); return this; }
+
+  /**
+   * Declara uma CTE recursiva: a âncora é unida (UNION ALL por padrão) à parte recursiva,
+   * que referencia a própria CTE pelo nome. Emite `WITH RECURSIVE` onde o dialeto exige.
+   * 
+   * @param name - Nome da CTE
+   * @param anchor - Query inicial (não referencia a CTE)
+   * @param recursive - Query recursiva (referencia a CTE)
+   * @param options - Colunas declaradas (obrigatórias no Oracle) e tipo de união
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Dados iniciais
+   * // categories: { id, parent_id, name }
+   * 
+   * // Como usar - Todas as subcategorias de uma categoria
+   * const tree = await new QueryBuilder('tree')
+   *   .withRecursive('tree',
+   *     new QueryBuilder('categories').select(['id', 'parent_id']).where('id', '=', 1),
+   *     new QueryBuilder('categories c').select(['c.id', 'c.parent_id']).innerJoinOn('tree', 'tree.id', 'c.parent_id'),
+   *     { columns: ['id', 'parent_id'] })
+   *   .all();
+   * 
+   * // Output (PostgreSQL): WITH RECURSIVE tree (id, parent_id) AS (SELECT id, parent_id FROM categories WHERE id = ?
+   * //   UNION ALL SELECT c.id, c.parent_id FROM categories c INNER JOIN tree ON tree.id = c.parent_id) SELECT * FROM tree
+   */
+  withRecursive(name: string, anchor: QueryBuilder<any>, recursive: QueryBuilder<any>, options: RecursiveCteOptions = {}): this { this.track('withRecursive', { name }); this.ctes.push({ name, columns: options.columns || [], query: anchor, recursivePart: recursive, unionAll: options.unionAll !== false, materialized: false }); return this; }
+
+  /**
+   * Declara uma CTE pedindo ao banco que a materialize uma única vez.
+   * Compila para `AS MATERIALIZED` (PostgreSQL 12+, SQLite 3.35+) e para a dica MATERIALIZE no Oracle;
+   * MySQL e SQL Server não têm a dica e recebem uma CTE comum.
+   * 
+   * @param name - Nome da CTE
+   * @param query - Query que define a CTE
+   * @param options - Colunas declaradas
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Como usar
+   * const { sql } = new QueryBuilder('totals')
+   *   .withMaterialized('totals', new QueryBuilder('orders').select(['user_id', 'SUM(total) as amount']).groupBy(['user_id']))
+   *   .where('amount', '>', 1000)
+   *   .toSql();
+   * 
+   * // Output (PostgreSQL): WITH totals AS MATERIALIZED (SELECT user_id, SUM(total) as amount FROM orders GROUP BY user_id) SELECT * FROM totals WHERE amount > ?
+   */
+  withMaterialized(name: string, query: QueryBuilder<any>, options: CteOptions = {}): this { this.track('withMaterialized', { name }); this.ctes.push({ name, columns: options.columns || [], query, unionAll: true, materialized: true }); return this; }
+
+  /**
+   * Compila as CTEs declaradas com os nomes e colunas citados pela gramática.
+   */
+  private compileCtes(grammar: Grammar): CommonTableExpression[] {
+    const mode = this.identifierQuoting();
+    return this.ctes.map(cte => {
+      let query = cte.query.toSql();
+      if (cte.recursivePart) {
+        const recursive = cte.recursivePart.toSql();
+        query = { sql: `${query.sql} ${cte.unionAll ? 'UNION ALL' : 'UNION'} ${recursive.sql}`, bindings: [...query.bindings, ...recursive.bindings] };
+      }
+      return {
+        name: grammar.wrapIdentifier(cte.name, mode),
+        columns: cte.columns.map(c => grammar.wrapIdentifier(c, mode)),
+        query,
+        recursive: !!cte.recursivePart,
+        materialized: cte.materialized,
+      };
+    });
+  }
+
+  /**
+   * Agrupa as linhas de um INSERT em lotes: linhas consecutivas com o mesmo conjunto de colunas
+   * vão para o mesmo statement, respeitando o limite de linhas por statement da gramática.
+   * Com `singleRow`, cada linha vira um statement (retorno no Oracle).
+   */
+  private insertBatches(rows: Record<string, any>[], grammar: Grammar, singleRow = false): Record<string, any>[][] {
+    const batches: Record<string, any>[][] = [];
+    let signature = '';
+    for (const row of rows) {
+      const keys = Object.keys(row).sort().join('\u0000');
+      const current = batches[batches.length - 1];
+      if (current && !singleRow && keys === signature && current.length < grammar.insertChunkSize(Object.keys(row).length)) current.push(row);
+      else batches.push([row]);
+      signature = keys;
+    }
+    return batches;
+  }
+
+  // alias da tabela alvo ('users u' → 'u'), usado para qualificar a chave nas escritas
+  private writeAlias(): string {
+    return this.tableName.trim().split(/\s+/).pop()!;
+  }
+
+  // se a escrita tem JOINs, ORDER BY ou LIMIT/OFFSET além do WHERE
+  private hasWriteModifiers(): boolean {
+    return this.joins.length > 0 || this.orderClauses.length > 0 || this.limitValue !== undefined || this.offsetValue !== undefined;
+  }
+
+  /**
+   * SELECT das colunas (qualificadas pela tabela alvo) com os JOINs, WHERE, ORDER BY e limite desta query.
+   */
+  private keySelect(columns: string[]): QueryBuilder<any> {
+    const q = this.page();
+    q.selectColumns = columns.map(c => `${this.writeAlias()}.${c}`);
+    q.aggregates = [];
+    q.isDistinct = false;
+    q.unionParts = [];
+    q.ctes = [];
+    q.includeAllRelations = false;
+    q.rowLock = undefined;
+    return q;
+  }
+
+  /**
+   * WHERE e modificadores de um UPDATE/DELETE. Se o dialeto não aceita os JOINs, a ordenação ou o limite
+   * na escrita, a condição vira `alvo.chave IN (SELECT alvo.chave ...)` com tudo aplicado no SELECT.
+   */
+  private writeScope(grammar: Grammar, kind: 'update' | 'delete'): { where: SqlFragment; modifiers: WriteModifiers } {
+    const mode = this.identifierQuoting();
+    const joinBindings: any[] = [];
+    const modifiers: WriteModifiers = {
+      target: grammar.wrapIdentifier(this.writeAlias(), mode),
+      joins: this.compileJoins(grammar, joinBindings),
+      joinBindings,
+      orders: this.orderClauses.map(o => `${grammar.wrap(o.column, mode)} ${o.direction}`),
+      limit: this.limitValue,
+    };
+    if (this.offsetValue === undefined && grammar.supportsWriteModifiers(kind, modifiers)) {
+      const params: any[] = [];
+      const where = this.buildWhereClause(this.whereClauses, params, 'AND', grammar);
+      return { where: { sql: where || '1 = 1', bindings: params }, modifiers };
+    }
+    const key = grammar.wrapIdentifier(`${this.writeAlias()}.${this.returningKey}`, mode);
+    return { where: grammar.compileKeyRestriction(key, this.keySelect([this.returningKey]).toSql()), modifiers: { target: modifiers.target } };
+  }
+
+  /**
+   * Lê as linhas que a escrita vai alcançar, com JOINs, ordenação e limite (emulação de RETURNING no MySQL).
+   */
+  private async selectScoped(exec: DatabaseExecutor, grammar: Grammar, columns: string[]): Promise<any[]> {
+    const query = grammar.compileWith(this.compileCtes(grammar), this.keySelect(columns).toSql());
+    const res = await exec.executeQuery(query.sql, grammar.prepareBindings(query.bindings));
+    return res?.data || [];
+  }
+
+  /**
+   * Lê linhas da tabela desta query (usado para emular RETURNING no MySQL).
+   */
+  private async selectRows(exec: DatabaseExecutor, grammar: Grammar, columns: string[], where: SqlFragment): Promise<any[]> {
+    const mode = this.identifierQuoting();
+    const query = grammar.compileSelect({
+      distinct: false,
+      columns: columns.map(c => c === '*' ? '*' : grammar.wrapIdentifier(c, mode)),
+      from: grammar.wrapTable(this.tableName, mode),
+      joins: [],
+      where,
+      groupBy: [],
+      orders: [],
+      unions: [],
+      ctes: this.compileCtes(grammar),
+    });
+    const res = await exec.executeQuery(query.sql, grammar.prepareBindings(query.bindings));
+    return res?.data || [];
+  }
+
+  /**
+   * Relê as colunas de `returning()` das linhas identificadas pelas tuplas de chave.
+   */
+  private async reselect(exec: DatabaseExecutor, grammar: Grammar, keyColumns: string[], tuples: any[][]): Promise<any[]> {
+    if (tuples.length === 0) return [];
+    const keys = keyColumns.map(c => grammar.wrapIdentifier(c, this.identifierQuoting()));
+    const where = keys.length === 1
+      ? { sql: `${keys[0]} IN (${tuples.map(() => '?').join(', ')})`, bindings: tuples.map(t => t[0]) }
+      : { sql: tuples.map(() => `(${keys.map(k => `${k} = ?`).join(' AND ')})`).join(' OR '), bindings: tuples.flat() };
+    return this.selectRows(exec, grammar, this.returningColumns || ['*'], where);
+  }
+
+  async make(): Promise<WriteResult> {
+    if (simulationManager.isActive()) {
+      if (!this.pendingAction) throw new Error('No pending write action to execute. Call insert(), update(), or delete() before .make()');
+      return this.makeVirtual();
+    }
     const exec = getExecutorForTable(this.tableName, this.targetBanks) as any;
     if (!exec) throw new Error('No executor configured for QueryKit');
     if (!this.pendingAction) throw new Error('No pending write action to execute. Call insert(), update(), or delete() before .make()');
-    const { type, data } = this.pendingAction;
+    const { type, data, options } = this.pendingAction;
+    const grammar = getGrammar(exec.dialect || QueryKitConfig.defaultDialect);
+    const mode = this.identifierQuoting();
+    const table = grammar.wrapTable(this.tableName, mode);
+    const columnsOf = (row: Record<string, any>) => Object.keys(row).map(k => grammar.wrapIdentifier(k, mode));
+    const assignments = (row: Record<string, any>): SqlFragment => ({ sql: columnsOf(row).map(c => `${c} = ?`).join(', '), bindings: Object.values(row) });
 
     const mapAsyncResult = (raw: any): { changes: number; lastInsertRowid: number | bigint } => {
       if (Array.isArray(raw)) {
@@ -6824,102 +8197,157 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
       return { changes, lastInsertRowid: lastId };
     };
 
+    const wantsRows = !!this.returningColumns;
+    const fallback = wantsRows && !grammar.supportsReturning;
+    const returning = wantsRows && !fallback ? this.returningColumns!.map(c => c === '*' ? '*' : grammar.wrapIdentifier(c, mode)) : [];
+
+    const ctes = this.compileCtes(grammar);
+    const key = grammar.wrapIdentifier(this.returningKey, mode);
+    const write = async (query: SqlFragment, kind: StatementKind): Promise<WriteResult> => {
+      const { sql, bindings } = grammar.compileWith(ctes, query, kind);
+      // a chave volta como número dos binds de saída (Oracle), as demais colunas como texto
+      const values = grammar.prepareBindings(bindings.map(b => b instanceof OutBind && b.column === key ? new OutBind(b.column, 'number') : b));
+      if (returning.length > 0) {
+        const res = await exec.executeQuery(sql, values);
+        const rows: any[] = res?.data || [];
+        return { changes: res?.affectedRows ?? rows.length, lastInsertRowid: res?.lastInsertId ?? rows[rows.length - 1]?.[this.returningKey] ?? 0, rows };
+      }
+      return exec.runSync ? exec.runSync(sql, values) : mapAsyncResult(await exec.executeQuery(sql, values));
+    };
+
     const qbHelper = <X = any>(t?: string) => new QueryBuilder<X>(t || this.tableName);
 
     switch (type) {
-      case 'insert': {
-        const obj = Array.isArray(data) ? data[0] : data;
-        const columns = Object.keys(obj);
-        const values = Object.values(obj);
-        const placeholders = columns.map(() => '?').join(', ');
-        const sql = `INSERT INTO ${this.tableName} (${columns.join(', ')}) VALUES (${placeholders})`;
-        eventManager.emit(`querykit:trigger:BEFORE:INSERT:${this.tableName}`, { table: this.tableName, action: 'INSERT', timing: 'BEFORE', data: obj, where: undefined, qb: qbHelper } as any);
-        const res = exec.runSync ? exec.runSync(sql, values) : await exec.executeQuery(sql, values);
-        const mapped = exec.runSync ? res : mapAsyncResult(res);
-        eventManager.emit(`querykit:trigger:AFTER:INSERT:${this.tableName}`, { table: this.tableName, action: 'INSERT', timing: 'AFTER', data: obj, result: mapped, qb: qbHelper } as any);
+      case 'insert':
+      case 'upsert':
+      case 'insertOrIgnore': {
+        const rows: Record<string, any>[] = Array.isArray(data) ? data : [data];
+        const perRow = options?.events !== 'batch';
+        // sem `conflict`, o MERGE do SQL Server/Oracle ignora linhas cuja chave de returning() já existe
+        const keyed = type === 'insertOrIgnore' && !options?.conflict && grammar.requiresConflictTarget;
+        const conflictKeys = options?.conflict || (keyed ? [this.returningKey] : []);
+        const conflict = conflictKeys.map(c => grammar.wrapIdentifier(c, mode));
+        const updateOf = (keys: string[]) => type === 'upsert'
+          ? (options?.update || keys.filter(k => !conflictKeys.includes(k))).map(c => grammar.wrapIdentifier(c, mode))
+          : [];
+        const emit = (timing: 'BEFORE' | 'AFTER', payload: Record<string, any>) =>
+          eventManager.emit(`querykit:trigger:${timing}:INSERT:${this.tableName}`, { table: this.tableName, action: 'INSERT', timing, where: undefined, qb: qbHelper, ...payload } as any);
+        const total: WriteResult = { changes: 0, lastInsertRowid: 0, ...(wantsRows ? { rows: [] } : {}) };
+        if (!perRow) emit('BEFORE', { data: rows, rows });
+        for (const batch of this.insertBatches(rows, grammar, returning.length > 0 && !grammar.supportsBatchReturning)) {
+          const columns = Object.keys(batch[0]);
+          const values = batch.map(row => columns.map(c => row[c]));
+          // linhas sem a chave não têm com o que conflitar nela
+          const query = type === 'insert' || (keyed && !columns.includes(this.returningKey))
+            ? grammar.compileInsertBatch(table, columnsOf(batch[0]), values, returning)
+            : grammar.compileUpsert(table, columnsOf(batch[0]), values, conflict, updateOf(columns), returning);
+          if (perRow) batch.forEach(row => emit('BEFORE', { data: row }));
+          const mapped = await write(query, 'insert');
+          if (fallback) {
+            const first = Number(mapped.lastInsertRowid);
+            const byKey = conflictKeys.length > 0 ? conflictKeys : [this.returningKey];
+            const tuples = conflictKeys.length > 0 || batch.every(row => row[this.returningKey] !== undefined)
+              ? batch.map(row => byKey.map(k => row[k]))
+              : (first > 0 ? batch.map((_, i) => [first + i]) : []);
+            mapped.rows = await this.reselect(exec, grammar, byKey, tuples);
+          }
+          total.changes += mapped.changes;
+          total.lastInsertRowid = mapped.lastInsertRowid;
+          if (mapped.rows) total.rows!.push(...mapped.rows);
+          if (perRow) batch.forEach(row => emit('AFTER', { data: row, result: mapped }));
+        }
+        if (!perRow) emit('AFTER', { data: rows, rows, result: total });
+        this.pendingAction = undefined;
+        return total;
+      }
+      case 'insertFrom': {
+        if (fallback) throw new Error('MySQL cannot return rows from INSERT ... SELECT');
+        const source = (data.query as QueryBuilder<any>).clone();
+        if (!grammar.supportsWithInInsertSelect) { ctes.push(...source.compileCtes(grammar)); source.ctes = []; }
+        const select = source.toSql();
+        const query = grammar.compileInsertSelect(table, (data.columns as string[]).map(c => grammar.wrapIdentifier(c, mode)), select, returning);
+        const payload = { columns: data.columns, select };
+        eventManager.emit(`querykit:trigger:BEFORE:INSERT:${this.tableName}`, { table: this.tableName, action: 'INSERT', timing: 'BEFORE', data: payload, where: undefined, qb: qbHelper } as any);
+        const mapped = await write(query, 'insert');
+        eventManager.emit(`querykit:trigger:AFTER:INSERT:${this.tableName}`, { table: this.tableName, action: 'INSERT', timing: 'AFTER', data: payload, where: undefined, result: mapped, qb: qbHelper } as any);
         this.pendingAction = undefined;
         return mapped;
       }
       case 'update': {
-        if (this.whereClauses.length === 0) throw new Error('Update operations must have a WHERE clause.');
-        const setClauses = Object.keys(data).map(k => `${k} = ?`).join(', ');
-        const params = Object.values(data);
-        const where = this.buildWhereClause(this.whereClauses, params as any[], 'AND');
-        const sql = `UPDATE ${this.tableName} SET ${setClauses} WHERE ${where}`;
-        eventManager.emit(`querykit:trigger:BEFORE:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'BEFORE', data, where: { sql: where, bindings: params }, qb: qbHelper } as any);
-        const res = exec.runSync ? exec.runSync(sql, params) : await exec.executeQuery(sql, params);
-        const mapped = exec.runSync ? res : mapAsyncResult(res);
-        eventManager.emit(`querykit:trigger:AFTER:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'AFTER', data, where: { sql: where, bindings: params }, result: mapped, qb: qbHelper } as any);
+        if (this.whereClauses.length === 0 && this.limitValue === undefined) throw new Error('Update operations must have a WHERE clause.');
+        const set = assignments(data);
+        const scope = this.writeScope(grammar, 'update');
+        const { sql: where, bindings: whereParams } = scope.where;
+        const keys = !fallback ? [] : this.hasWriteModifiers()
+          ? await this.selectScoped(exec, grammar, [this.returningKey])
+          : await this.selectRows(exec, grammar, [this.returningKey], scope.where);
+        const query = grammar.compileUpdate(table, set, scope.where, returning, scope.modifiers);
+        eventManager.emit(`querykit:trigger:BEFORE:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'BEFORE', data, where: { sql: where, bindings: query.bindings }, qb: qbHelper } as any);
+        const mapped = await write(query, 'update');
+        if (fallback) mapped.rows = await this.reselect(exec, grammar, [this.returningKey], keys.map(r => [r[this.returningKey]]));
+        eventManager.emit(`querykit:trigger:AFTER:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'AFTER', data, where: { sql: where, bindings: query.bindings }, result: mapped, qb: qbHelper } as any);
         this.pendingAction = undefined;
         return mapped;
       }
       case 'delete': {
-        if (this.whereClauses.length === 0) throw new Error('Delete operations must have a WHERE clause.');
-        const params: any[] = [];
-        const where = this.buildWhereClause(this.whereClauses, params, 'AND');
-        const sql = `DELETE FROM ${this.tableName} WHERE ${where}`;
+        if (this.whereClauses.length === 0 && this.limitValue === undefined) throw new Error('Delete operations must have a WHERE clause.');
+        const scope = this.writeScope(grammar, 'delete');
+        const { sql: where, bindings: params } = scope.where;
+        const deleted = !fallback ? [] : this.hasWriteModifiers()
+          ? await this.selectScoped(exec, grammar, this.returningColumns!)
+          : await this.selectRows(exec, grammar, this.returningColumns!, scope.where);
+        const query = grammar.compileDelete(table, scope.where, returning, scope.modifiers);
         eventManager.emit(`querykit:trigger:BEFORE:DELETE:${this.tableName}`, { table: this.tableName, action: 'DELETE', timing: 'BEFORE', where: { sql: where, bindings: params }, qb: qbHelper } as any);
-        const res = exec.runSync ? exec.runSync(sql, params) : await exec.executeQuery(sql, params);
-        const mapped = exec.runSync ? res : mapAsyncResult(res);
+        const mapped = await write(query, 'delete');
+        if (fallback) mapped.rows = deleted;
         eventManager.emit(`querykit:trigger:AFTER:DELETE:${this.tableName}`, { table: this.tableName, action: 'DELETE', timing: 'AFTER', where: { sql: where, bindings: params }, result: mapped, qb: qbHelper } as any);
         this.pendingAction = undefined;
         return mapped;
       }
-      case 'increment': {
-        if (this.whereClauses.length === 0) throw new Error('Update operations must have a WHERE clause.');
-        const { column, amount } = data as { column: string; amount: number };
-        const params: any[] = [amount ?? 1];
-        const where = this.buildWhereClause(this.whereClauses, params as any[], 'AND');
-        const sql = `UPDATE ${this.tableName} SET ${column} = ${column} + ? WHERE ${where}`;
-        eventManager.emit(`querykit:trigger:BEFORE:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'BEFORE', data: { column, amount }, where: { sql: where, bindings: params }, qb: qbHelper } as any);
-        const res = exec.runSync ? exec.runSync(sql, params) : await exec.executeQuery(sql, params);
-        const mapped = exec.runSync ? res : mapAsyncResult(res);
-        eventManager.emit(`querykit:trigger:AFTER:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'AFTER', data: { column, amount }, where: { sql: where, bindings: params }, result: mapped, qb: qbHelper } as any);
-        this.pendingAction = undefined;
-        return mapped;
-      }
+      case 'increment':
       case 'decrement': {
-        if (this.whereClauses.length === 0) throw new Error('Update operations must have a WHERE clause.');
+        if (this.whereClauses.length === 0 && this.limitValue === undefined) throw new Error('Update operations must have a WHERE clause.');
         const { column, amount } = data as { column: string; amount: number };
-        const params: any[] = [amount ?? 1];
-        const where = this.buildWhereClause(this.whereClauses, params as any[], 'AND');
-        const sql = `UPDATE ${this.tableName} SET ${column} = ${column} - ? WHERE ${where}`;
-        eventManager.emit(`querykit:trigger:BEFORE:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'BEFORE', data: { column, amount }, where: { sql: where, bindings: params }, qb: qbHelper } as any);
-        const res = exec.runSync ? exec.runSync(sql, params) : await exec.executeQuery(sql, params);
-        const mapped = exec.runSync ? res : mapAsyncResult(res);
-        eventManager.emit(`querykit:trigger:AFTER:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'AFTER', data: { column, amount }, where: { sql: where, bindings: params }, result: mapped, qb: qbHelper } as any);
+        const target = grammar.wrapIdentifier(column, mode);
+        const set = { sql: `${target} = ${target} ${type === 'increment' ? '+' : '-'} ?`, bindings: [amount ?? 1] };
+        const scope = this.writeScope(grammar, 'update');
+        const { sql: where } = scope.where;
+        const keys = !fallback ? [] : this.hasWriteModifiers()
+          ? await this.selectScoped(exec, grammar, [this.returningKey])
+          : await this.selectRows(exec, grammar, [this.returningKey], scope.where);
+        const query = grammar.compileUpdate(table, set, scope.where, returning, scope.modifiers);
+        eventManager.emit(`querykit:trigger:BEFORE:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'BEFORE', data: { column, amount }, where: { sql: where, bindings: query.bindings }, qb: qbHelper } as any);
+        const mapped = await write(query, 'update');
+        if (fallback) mapped.rows = await this.reselect(exec, grammar, [this.returningKey], keys.map(r => [r[this.returningKey]]));
+        eventManager.emit(`querykit:trigger:AFTER:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'AFTER', data: { column, amount }, where: { sql: where, bindings: query.bindings }, result: mapped, qb: qbHelper } as any);
         this.pendingAction = undefined;
         return mapped;
       }
       case 'updateOrInsert': {
         const { attributes, values } = data as { attributes: Record<string, any>; values: Record<string, any> };
         // Attempt update
-        const setClauses = Object.keys(values).map(k => `${k} = ?`).join(', ');
-        const params = Object.values(values);
+        const set = assignments(values);
         // Build where from attributes, ensuring params appended for where after values
         const whereClausesBackup = [...this.whereClauses];
         this.whereClauses = [];
         Object.entries(attributes).forEach(([k, v]) => this.where(k, '=', v));
-        const where = this.buildWhereClause(this.whereClauses, params as any[], 'AND');
-        const sqlUpd = `UPDATE ${this.tableName} SET ${setClauses} WHERE ${where}`;
-        eventManager.emit(`querykit:trigger:BEFORE:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'BEFORE', data: values, where: { sql: where, bindings: params }, qb: qbHelper } as any);
-        const resUpd = exec.runSync ? exec.runSync(sqlUpd, params) : await exec.executeQuery(sqlUpd, params);
-        const mappedUpd = exec.runSync ? resUpd : mapAsyncResult(resUpd);
-        eventManager.emit(`querykit:trigger:AFTER:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'AFTER', data: values, where: { sql: where, bindings: params }, result: mappedUpd, qb: qbHelper } as any);
+        const whereParams: any[] = [];
+        const where = this.buildWhereClause(this.whereClauses, whereParams, 'AND', grammar);
+        const updateQuery = grammar.compileUpdate(table, set, { sql: where, bindings: whereParams }, returning);
+        eventManager.emit(`querykit:trigger:BEFORE:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'BEFORE', data: values, where: { sql: where, bindings: updateQuery.bindings }, qb: qbHelper } as any);
+        const mappedUpd = await write(updateQuery, 'update');
+        eventManager.emit(`querykit:trigger:AFTER:UPDATE:${this.tableName}`, { table: this.tableName, action: 'UPDATE', timing: 'AFTER', data: values, where: { sql: where, bindings: updateQuery.bindings }, result: mappedUpd, qb: qbHelper } as any);
         let result = mappedUpd;
         if (!mappedUpd.changes) {
           // Perform insert with merged attributes+values
           const insertObj = { ...attributes, ...values };
-          const columns = Object.keys(insertObj);
-          const vals = Object.values(insertObj);
-          const placeholders = columns.map(() => '?').join(', ');
-          const sqlIns = `INSERT INTO ${this.tableName} (${columns.join(', ')}) VALUES (${placeholders})`;
+          const insertQuery = grammar.compileInsert(table, columnsOf(insertObj), Object.values(insertObj), returning);
           eventManager.emit(`querykit:trigger:BEFORE:INSERT:${this.tableName}`, { table: this.tableName, action: 'INSERT', timing: 'BEFORE', data: insertObj, where: undefined, qb: qbHelper } as any);
-          const resIns = exec.runSync ? exec.runSync(sqlIns, vals) : await exec.executeQuery(sqlIns, vals);
-          const mappedIns = exec.runSync ? resIns : mapAsyncResult(resIns);
+          const mappedIns = await write(insertQuery, 'insert');
           eventManager.emit(`querykit:trigger:AFTER:INSERT:${this.tableName}`, { table: this.tableName, action: 'INSERT', timing: 'AFTER', data: insertObj, result: mappedIns, qb: qbHelper } as any);
           result = mappedIns;
         }
+        if (fallback) result.rows = await this.reselect(exec, grammar, Object.keys(attributes), [Object.values(attributes)]);
         // restore whereClauses
         this.whereClauses = whereClausesBackup;
         this.pendingAction = undefined;
@@ -6930,6 +8358,162 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
     }
   }
 
+  /**
+   * Executa a escrita pendente sobre o estado virtual da simulação, sem tocar no banco.
+   * Dispara os mesmos eventos de trigger de `make()` e devolve o mesmo formato de resultado
+   * (`rows` com as colunas de `returning()`).
+   */
+  private makeVirtual(): WriteResult {
+    const { type, data, options } = this.pendingAction!;
+    const table = this.virtualName();
+    const state: Record<string, any>[] = [...(simulationManager.getStateFor(table) || [])];
+    // tabelas tocadas pela escrita (a própria e as alcançadas por chaves estrangeiras), gravadas só no final
+    const tables = new Map<string, Record<string, any>[]>([[table, state]]);
+    const schema = simulationManager.getSchema();
+    const constraints = schema && new VirtualConstraints(schema, tables, name => simulationManager.getStateFor(name));
+    const grammar = getGrammar(this.resolveDialect());
+    const qbHelper = <X = any>(t?: string) => new QueryBuilder<X>(t || this.tableName);
+    const emit = (timing: 'BEFORE' | 'AFTER', action: 'INSERT' | 'UPDATE' | 'DELETE', payload: Record<string, any>) =>
+      eventManager.emit(`querykit:trigger:${timing}:${action}:${this.tableName}`, { table: this.tableName, action, timing, where: undefined, qb: qbHelper, ...payload } as any);
+    const whereOf = (q: QueryBuilder<any>) => { const bindings: any[] = []; const sql = q.buildWhereClause(q.whereClauses, bindings, 'AND', grammar); return { sql: sql || '1 = 1', bindings }; };
+    // valores como ficariam gravados: raw() avaliado sobre a linha atual, datas em ISO 8601
+    const stored = (values: Record<string, any>, current: Record<string, any> = {}) => Object.fromEntries(Object.entries(values)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => [k, v instanceof Raw ? evaluateExpression(v.toSQL(), current, this.tableName, this.virtualOptions()) : v instanceof Date ? v.toISOString() : v]));
+    const pick = (row: Record<string, any>) => !this.returningColumns || this.returningColumns.includes('*')
+      ? { ...row }
+      : Object.fromEntries(this.returningColumns.map(c => [c, row[c] ?? null]));
+    const result = (changed: Record<string, any>[], lastInsertRowid: number | bigint = 0): WriteResult =>
+      ({ changes: changed.length, lastInsertRowid, ...(this.returningColumns ? { rows: changed.map(pick) } : {}) });
+    const insert = (rows: Record<string, any>[]) => rows.map(row => {
+      const added = constraints ? constraints.insert(table, stored(row)) : stored(row);
+      state.push(added);
+      return added;
+    });
+    const update = (targets: Set<Record<string, any>>, apply: (row: Record<string, any>) => Record<string, any>) => {
+      const changed: Record<string, any>[] = [];
+      state.forEach((row, i) => {
+        if (!targets.has(row)) return;
+        const next = { ...row, ...apply(row) };
+        constraints?.update(table, row, next);
+        state[i] = next;
+        changed.push(next);
+      });
+      return changed;
+    };
+    const requireScope = () => { if (this.whereClauses.length === 0 && this.limitValue === undefined) throw new Error(`${type === 'delete' ? 'Delete' : 'Update'} operations must have a WHERE clause.`); };
+    let out: WriteResult;
+
+    switch (type) {
+      case 'insert':
+      case 'upsert':
+      case 'insertOrIgnore': {
+        const rows: Record<string, any>[] = Array.isArray(data) ? data : [data];
+        const perRow = options?.events !== 'batch';
+        // sem `conflict`, o insertOrIgnore usa as chaves do schema da simulação ou, sem schema, a chave de `returning()` (como o MERGE de `make()`)
+        const keyed = type === 'insertOrIgnore' && !options?.conflict && !schema?.[table];
+        const conflict = options?.conflict || (keyed ? [this.returningKey] : []);
+        // como no banco, NULL nunca conflita
+        const same = (a: Record<string, any>, b: Record<string, any>) => conflict.every(c => b[c] !== undefined && b[c] !== null && stored({ v: a[c] }).v === stored({ v: b[c] }).v);
+        const ignoring = (row: Record<string, any>) => {
+          try {
+            return insert([row]);
+          } catch (err) {
+            if (err instanceof Error && err.message.startsWith('UNIQUE constraint failed')) return [];
+            throw err;
+          }
+        };
+        if (!perRow) emit('BEFORE', 'INSERT', { data: rows, rows });
+        const changed: Record<string, any>[] = [];
+        for (const row of rows) {
+          if (perRow) emit('BEFORE', 'INSERT', { data: row });
+          const existing = type !== 'insert' && conflict.length > 0 ? state.find(r => same(r, row)) : undefined;
+          if (!existing) changed.push(...(type === 'insertOrIgnore' && constraints ? ignoring(row) : insert([row])));
+          else if (type === 'upsert') {
+            const columns = options?.update || Object.keys(row).filter(k => !conflict.includes(k));
+            changed.push(...update(new Set([existing]), current => stored(Object.fromEntries(columns.map(c => [c, row[c]])), current)));
+          }
+          if (perRow) emit('AFTER', 'INSERT', { data: row, result: result(changed) });
+        }
+        out = result(changed, changed[changed.length - 1]?.[this.returningKey] ?? 0);
+        if (!perRow) emit('AFTER', 'INSERT', { data: rows, rows, result: out });
+        break;
+      }
+      case 'insertFrom': {
+        const columns = data.columns as string[];
+        const source = evaluateQuery((data.query as QueryBuilder<any>).virtualAST(), this.virtualOptions());
+        const rows = source.map(r => { const values = Object.values(r); return Object.fromEntries(columns.map((c, i) => [c, values[i] ?? null])); });
+        const payload = { columns, select: (data.query as QueryBuilder<any>).toSql() };
+        emit('BEFORE', 'INSERT', { data: payload });
+        const added = insert(rows);
+        out = result(added, added[added.length - 1]?.[this.returningKey] ?? 0);
+        emit('AFTER', 'INSERT', { data: payload, result: out });
+        break;
+      }
+      case 'update':
+      case 'increment':
+      case 'decrement': {
+        requireScope();
+        const payload = type === 'update' ? data : { column: data.column, amount: data.amount };
+        const where = whereOf(this);
+        emit('BEFORE', 'UPDATE', { data: payload, where });
+        const step = type === 'increment' ? (data.amount ?? 1) : -(data.amount ?? 1);
+        out = result(update(this.virtualTargets(state), row => type === 'update'
+          ? stored(data, row)
+          : { [data.column]: (Number(row[data.column]) || 0) + step }));
+        emit('AFTER', 'UPDATE', { data: payload, where, result: out });
+        break;
+      }
+      case 'delete': {
+        requireScope();
+        const where = whereOf(this);
+        emit('BEFORE', 'DELETE', { where });
+        const targets = this.virtualTargets(state);
+        const deleted = state.filter(row => targets.has(row));
+        state.splice(0, state.length, ...state.filter(row => !targets.has(row)));
+        constraints?.delete(table, deleted);
+        out = result(deleted);
+        emit('AFTER', 'DELETE', { where, result: out });
+        break;
+      }
+      case 'updateOrInsert': {
+        const { attributes, values } = data as { attributes: Record<string, any>; values: Record<string, any> };
+        const lookup = new QueryBuilder<any>(this.tableName);
+        Object.entries(attributes).forEach(([k, v]) => lookup.where(k, '=', v));
+        const where = whereOf(lookup);
+        emit('BEFORE', 'UPDATE', { data: values, where });
+        out = result(update(lookup.virtualTargets(state), row => stored(values, row)));
+        emit('AFTER', 'UPDATE', { data: values, where, result: out });
+        if (!out.changes) {
+          const insertObj = { ...attributes, ...values };
+          emit('BEFORE', 'INSERT', { data: insertObj });
+          const added = insert([insertObj]);
+          out = result(added, added[0][this.returningKey] ?? 0);
+          emit('AFTER', 'INSERT', { data: insertObj, result: out });
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unsupported pending action: ${type}`);
+    }
+    for (const [name, rows] of tables) simulationManager.updateStateFor(name, rows);
+    this.pendingAction = undefined;
+    return out;
+  }
+
+  /**
+   * Linhas do estado virtual alcançadas pela escrita: WHERE, JOINs, ORDER BY e LIMIT avaliados como no SELECT.
+   */
+  private virtualTargets(rows: Record<string, any>[]): Set<Record<string, any>> {
+    const position = '__querykit_row';
+    const q = this.keySelect([position]);
+    q.ctes = this.ctes;
+    const tagged = rows.map((row, i) => ({ ...row, [position]: i }));
+    const options = this.virtualOptions();
+    const found = evaluateQuery(q.virtualAST(), { ...options, tables: name => name === this.virtualName() ? tagged : options.tables(name) });
+    return new Set(found.map(r => rows[r[position]]));
+  }
+
   public relationship(selector?: RelationshipSelector<T>): this {
     this.includeAllRelations = selector || true
     return this
@@ -7122,19 +8706,18 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
     
     // Detecta o executor para usar a sintaxe correta do banco
     const executor = getExecutorForTable(this.tableName, this.targetBanks);
+    const col = this.wrapColumn(column, executor?.dialect);
     let sql: string;
     
     if (executor?.dialect === 'postgres') {
-      sql = `${String(column)} @> ?`; // PostgreSQL
+      sql = `${col} @> ?`; // PostgreSQL
     } else if (executor?.dialect === 'mysql') {
-      sql = `JSON_CONTAINS(${String(column)}, ?)`; // MySQL
+      sql = `JSON_CONTAINS(${col}, ?)`; // MySQL
     } else if (executor?.dialect === 'oracle') {
-      sql = `JSON_EXISTS(${String(column)}, '$')`; // Oracle
-    } else if (executor?.dialect === 'mssql') {
-      sql = `${String(column)} LIKE '%' + ? + '%'`; // SQL Server (fallback)
+      sql = `JSON_EXISTS(${col}, '$')`; // Oracle
     } else {
-      // Fallback universal - funciona em qualquer banco
-      sql = `${String(column)} LIKE '%' + ? + '%'`;
+      // SQL Server e fallback universal - LIKE com a concatenação do dialeto
+      sql = `${col} LIKE ${getGrammar(executor?.dialect).compileConcat(["'%'", '?', "'%'"])}`;
     }
     
     this.whereClauses.push({ 
@@ -7436,23 +9019,24 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
     
     // Detecta o executor para usar a sintaxe correta do banco
     const executor = getExecutorForTable(this.tableName, this.targetBanks);
+    const col = this.wrapColumn(column, executor?.dialect);
     let sql: string;
     
     if (executor?.dialect === 'postgres') {
       // PostgreSQL - operador ANY
-      sql = `? = ANY(${String(column)})`;
+      sql = `? = ANY(${col})`;
     } else if (executor?.dialect === 'mysql') {
       // MySQL - FIND_IN_SET para campos SET, JSON_CONTAINS para JSON
-      sql = `FIND_IN_SET(?, ${String(column)}) > 0`;
+      sql = `FIND_IN_SET(?, ${col}) > 0`;
     } else if (executor?.dialect === 'oracle') {
       // Oracle - operador IN com subquery
-      sql = `? IN (SELECT COLUMN_VALUE FROM TABLE(SYS.ODCIVARCHAR2LIST(${String(column)})))`;
+      sql = `? IN (SELECT COLUMN_VALUE FROM TABLE(SYS.ODCIVARCHAR2LIST(${col})))`;
     } else if (executor?.dialect === 'mssql') {
       // SQL Server - STRING_SPLIT para campos separados por vírgula
-      sql = `? IN (SELECT value FROM STRING_SPLIT(${String(column)}, ','))`;
+      sql = `? IN (SELECT value FROM STRING_SPLIT(${col}, ','))`;
     } else {
       // Fallback universal - LIKE para campos de texto
-      sql = `${String(column)} LIKE ?`;
+      sql = `${col} LIKE ?`;
     }
     
     this.whereClauses.push({ 
@@ -7602,23 +9186,24 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
     
     // Detecta o executor para usar a sintaxe correta do banco
     const executor = getExecutorForTable(this.tableName, this.targetBanks);
+    const col = this.wrapColumn(column, executor?.dialect);
     let sql: string;
     
     if (executor?.dialect === 'mysql') {
       // MySQL - FIND_IN_SET para campos SET
-      sql = `FIND_IN_SET(?, ${String(column)}) > 0`;
+      sql = `FIND_IN_SET(?, ${col}) > 0`;
     } else if (executor?.dialect === 'postgres') {
       // PostgreSQL - operador ANY com array
-      sql = `? = ANY(string_to_array(${String(column)}, ','))`;
+      sql = `? = ANY(string_to_array(${col}, ','))`;
     } else if (executor?.dialect === 'oracle') {
       // Oracle - operador IN com subquery
-      sql = `? IN (SELECT COLUMN_VALUE FROM TABLE(SYS.ODCIVARCHAR2LIST(${String(column)})))`;
+      sql = `? IN (SELECT COLUMN_VALUE FROM TABLE(SYS.ODCIVARCHAR2LIST(${col})))`;
     } else if (executor?.dialect === 'mssql') {
       // SQL Server - STRING_SPLIT para campos separados por vírgula
-      sql = `? IN (SELECT value FROM STRING_SPLIT(${String(column)}, ','))`;
+      sql = `? IN (SELECT value FROM STRING_SPLIT(${col}, ','))`;
     } else {
       // Fallback universal - LIKE para campos de texto
-      sql = `${String(column)} LIKE ?`;
+      sql = `${col} LIKE ?`;
     }
     
     this.whereClauses.push({ 
@@ -7632,10 +9217,11 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
 
   /**
    * Adiciona uma função ROW_NUMBER() à seleção para numerar linhas sequencialmente.
-   * Funcionalidade específica do SQL Server e outros bancos que suportam window functions.
+   * Compila para `ROW_NUMBER() OVER (ORDER BY ...)` nativo em todos os dialetos (SQLite 3.25+),
+   * usando o ORDER BY da query no momento do `toSql()`.
    * 
    * @param alias - Alias para a coluna ROW_NUMBER (padrão: 'row_number')
-   * @returns Instância atual do QueryBuilder para method chaining
+   * @returns QueryBuilder com a chave do alias tipada como número
    * 
    * @example
    * // Exemplo básico - Adicionar numeração de linhas
@@ -7785,37 +9371,117 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
    *   }
    * }
    */
-  selectRowNumber(alias: string = 'row_number'): this {
+  selectRowNumber<A extends string = 'row_number'>(alias: A = 'row_number' as A): QueryBuilder<T & Record<A, number>> {
     this.track('selectRowNumber', { alias });
-    
-    // Detecta o executor para usar a sintaxe correta do banco
-    const executor = getExecutorForTable(this.tableName, this.targetBanks);
-    let sql: string;
-    
-    if (executor?.dialect === 'postgres' || executor?.dialect === 'mssql' || executor?.dialect === 'oracle') {
-      // PostgreSQL, SQL Server, Oracle - ROW_NUMBER() OVER()
-      const orderBy = this.orderClauses.length > 0 
-        ? this.orderClauses.map(o => `${o.column} ${o.direction}`).join(', ') 
-        : '1';
-      sql = `ROW_NUMBER() OVER (ORDER BY ${orderBy}) as ${alias}`;
-    } else if (executor?.dialect === 'mysql') {
-      // MySQL - ROW_NUMBER() OVER() (MySQL 8.0+)
-      const orderBy = this.orderClauses.length > 0 
-        ? this.orderClauses.map(o => `${o.column} ${o.direction}`).join(', ') 
-        : '1';
-      sql = `ROW_NUMBER() OVER (ORDER BY ${orderBy}) as ${alias}`;
-    } else {
-      // Fallback universal - subquery com LIMIT
-      const orderBy = this.orderClauses.length > 0 
-        ? this.orderClauses.map(o => `${o.column} ${o.direction}`).join(', ') 
-        : '1';
-      sql = `(SELECT COUNT(*) + 1 FROM ${this.tableName} t2 WHERE t2.${orderBy.split(' ')[0]} < ${this.tableName}.${orderBy.split(' ')[0]}) as ${alias}`;
-    }
-    
-    this.selectColumns.push(raw(sql));
+    this.selectColumns.push({ windowFunction: 'row_number', options: { alias }, queryOrder: true } as WindowSelect);
+    return this as any;
+  }
+
+  /**
+   * Adiciona uma função de janela à seleção (`RANK() OVER (PARTITION BY ... ORDER BY ... ROWS ...)`).
+   * Usa a sintaxe nativa de cada dialeto; em SQL Server e Oracle as janelas nomeadas são expandidas inline.
+   * 
+   * @param fn - Função de janela
+   * @param options - Definição da janela (ou `window` nomeada), coluna, alias e argumentos da função
+   * @returns Instância atual do QueryBuilder para method chaining
+   * @throws Error se LAG/LEAD/SUM/AVG não tiverem `column`, se `window` não tiver sido declarada
+   *   ou se `offset`/`buckets` não forem inteiros válidos (ao compilar)
+   * 
+   * @example
+   * // Exemplo básico - Ranking por departamento
+   * const ranked = await new QueryBuilder('employees')
+   *   .select(['name', 'department'])
+   *   .selectWindow('rank', { partitionBy: ['department'], orderBy: [{ column: 'salary', direction: 'DESC' }], alias: 'position' })
+   *   .all();
+   * // SQL: SELECT name, department, RANK() OVER (PARTITION BY department ORDER BY salary DESC) AS position FROM employees
+   * 
+   * @example
+   * // Exemplo intermediário - Variação em relação ao dia anterior
+   * const daily = await new QueryBuilder('sales')
+   *   .select(['day', 'total'])
+   *   .selectWindow('lag', { column: 'total', orderBy: ['day'], default: 0, alias: 'previous' })
+   *   .all();
+   * // SQL: SELECT day, total, LAG(total, 1, ?) OVER (ORDER BY day) AS previous FROM sales
+   * 
+   * @example
+   * // Exemplo avançado - Janela nomeada com frame para média móvel
+   * const moving = await new QueryBuilder('sales')
+   *   .window('last7', { orderBy: ['day'], frame: { start: { preceding: 6 }, end: 'CURRENT ROW' } })
+   *   .select(['day'])
+   *   .selectWindow('avg', { column: 'total', window: 'last7', alias: 'avg_7d' })
+   *   .selectWindow('sum', { column: 'total', window: 'last7', alias: 'sum_7d' })
+   *   .all();
+   * // SQL (PostgreSQL): SELECT day, AVG(total) OVER last7 AS avg_7d, SUM(total) OVER last7 AS sum_7d FROM sales
+   * //   WINDOW last7 AS (ORDER BY day ROWS BETWEEN 6 PRECEDING AND CURRENT ROW)
+   */
+  selectWindow(fn: WindowFunction, options: WindowOptions = {}): this {
+    this.track('selectWindow', { fn, options });
+    if (['lag', 'lead', 'sum', 'avg'].includes(fn) && !options.column) throw new Error(`Window function ${fn} requires a column`);
+    if (options.window && !this.windowDefinitions.some(w => w.name === options.window)) throw new Error(`Unknown window: ${options.window}`);
+    this.selectColumns.push({ windowFunction: fn, options } as WindowSelect);
     return this;
   }
 
+  /**
+   * Declara uma janela nomeada (`WINDOW name AS (...)`) para ser reutilizada por `selectWindow`.
+   * 
+   * @param name - Nome da janela
+   * @param spec - Partição, ordenação e frame
+   * @returns Instância atual do QueryBuilder para method chaining
+   * 
+   * @example
+   * // Como usar
+   * const { sql } = new QueryBuilder('scores')
+   *   .window('w', { partitionBy: ['game'], orderBy: [{ column: 'points', direction: 'DESC' }] })
+   *   .selectWindow('rank', { window: 'w' })
+   *   .selectWindow('dense_rank', { window: 'w' })
+   *   .toSql();
+   * 
+   * // Output (MySQL): SELECT *, RANK() OVER w AS `rank`, DENSE_RANK() OVER w AS dense_rank FROM scores WINDOW w AS (PARTITION BY game ORDER BY points DESC)
+   */
+  window(name: string, spec: WindowSpec): this { this.track('window', { name, spec }); this.windowDefinitions = [...this.windowDefinitions.filter(w => w.name !== name), { name, spec }]; return this; }
+
+  /**
+   * Cita as colunas de uma definição de janela para a gramática.
+   */
+  private windowDefinition(spec: WindowSpec, grammar: Grammar): WindowDefinition {
+    const mode = this.identifierQuoting();
+    return {
+      partitionBy: (spec.partitionBy || []).map(c => grammar.wrap(c, mode)),
+      orderBy: (spec.orderBy || []).map(o => typeof o === 'string' ? grammar.wrap(o, mode) : `${grammar.wrap(o.column, mode)} ${o.direction === 'DESC' ? 'DESC' : 'ASC'}`),
+      frame: spec.frame,
+    };
+  }
+
+  /**
+   * Compila uma função de janela da lista de seleção. O valor padrão de LAG/LEAD vira binding.
+   */
+  private compileWindowSelect(item: WindowSelect, grammar: Grammar, bindings: any[]): string {
+    const mode = this.identifierQuoting();
+    const { windowFunction: fn, options } = item;
+    const integer = (value: number, min: number, label: string) => {
+      if (!Number.isInteger(value) || value < min) throw new Error(`Invalid ${label} for ${fn}: ${value}`);
+      return String(value);
+    };
+    const aggregate = fn === 'sum' || fn === 'avg';
+    const args: string[] = [];
+    if (aggregate || fn === 'lag' || fn === 'lead') args.push(grammar.wrap(options.column!, mode));
+    if ((fn === 'lag' || fn === 'lead') && (options.offset !== undefined || options.default !== undefined)) {
+      args.push(integer(options.offset ?? 1, 0, 'offset'));
+      if (options.default !== undefined) { args.push('?'); bindings.push(options.default); }
+    }
+    if (fn === 'ntile') args.push(integer(options.buckets as number, 1, 'buckets'));
+    const named = options.window ? this.windowDefinitions.find(w => w.name === options.window) : undefined;
+    if (options.window && !named) throw new Error(`Unknown window: ${options.window}`);
+    const spec: WindowSpec = named ? named.spec : item.queryOrder && !options.orderBy
+      ? { ...options, orderBy: this.orderClauses.map(o => ({ column: o.column, direction: o.direction })) }
+      : options;
+    const over = named && grammar.supportsNamedWindows
+      ? grammar.wrapIdentifier(named.name, mode)
+      : `(${grammar.compileWindow(this.windowDefinition(spec, grammar), !aggregate)})`;
+    return `${grammar.compileWindowFunction(fn, args, over)} AS ${grammar.wrapIdentifier(options.alias || fn, mode)}`;
+  }
+
   /**
    * Adiciona uma cláusula WHERE para filtrar por data específica (ignorando hora).
    * Funciona com diferentes tipos de bancos de dados.
@@ -7959,6 +9625,7 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
     
     // Detecta o executor para usar a sintaxe correta do banco
     const executor = getExecutorForTable(this.tableName, this.targetBanks);
+    const col = this.wrapColumn(column, executor?.dialect);
     let sql: string;
     let values: any[];
     
@@ -7969,23 +9636,23 @@ export class QueryBuilder<T extends { id?: any } & Record<string, any>> {
     
     if (executor?.dialect === 'postgres') {
       // PostgreSQL - DATE() função para extrair apenas a data
-      sql = `DATE(${String(column)}) = DATE(?)`;
+      sql = `DATE(${col}) = DATE(?)`;
       values = [date];
     } else if (executor?.dialect === 'mysql') {
       // MySQL - DATE() função para extrair apenas a data
-      sql = `DATE(${String(column)}) = DATE(?)`;
+      sql = `DATE(${col}) = DATE(?)`;
       values = [date];
     } else if (executor?.dialect === 'oracle') {
       // Oracle - TRUNC() para truncar para início do dia
-      sql = `TRUNC(${String(column)}) = TRUNC(?)`;
+      sql = `TRUNC(${col}) = TRUNC(?)`;
       values = [date];
     } else if (executor?.dialect === 'mssql') {
       // SQL Server - CAST para DATE
-      sql = `CAST(${String(column)} AS DATE) = CAST(? AS DATE)`;
+      sql = `CAST(${col} AS DATE) = CAST(? AS DATE)`;
       values = [date];
     } else {
       // Fallback universal - BETWEEN com início e fim do dia
-      sql = `${String(column)} BETWEEN ? AND ?`;
+      sql = `${col} BETWEEN ? AND ?`;
       values = [startOfDay, endOfDay];
     }
     
@@ -8844,22 +10511,23 @@ selectAllExcept(excludeColumns: (keyof T | string)[]): this {
 
     const executor = QueryKitConfig.defaultExecutor;
     const dialect = executor?.dialect || QueryKitConfig.defaultDialect || 'sqlite';
+    const col = this.wrapColumn(column, dialect);
 
     let dateExpression: string;
 
     switch (dialect) {
       case 'mysql':
-        dateExpression = `CONVERT_TZ(${String(column)}, 'UTC', ?) BETWEEN ? AND ?`;
+        dateExpression = `CONVERT_TZ(${col}, 'UTC', ?) BETWEEN ? AND ?`;
         break;
       case 'postgres':
-        dateExpression = `${String(column)} AT TIME ZONE 'UTC' AT TIME ZONE ? BETWEEN ? AND ?`;
+        dateExpression = `${col} AT TIME ZONE 'UTC' AT TIME ZONE ? BETWEEN ? AND ?`;
         break;
       case 'oracle':
-        dateExpression = `FROM_TZ(${String(column)}, 'UTC') AT TIME ZONE ? BETWEEN ? AND ?`;
+        dateExpression = `FROM_TZ(${col}, 'UTC') AT TIME ZONE ? BETWEEN ? AND ?`;
         break;
       default:
         // Outros bancos - usa comparação direta
-        dateExpression = `${String(column)} BETWEEN ? AND ?`;
+        dateExpression = `${col} BETWEEN ? AND ?`;
         this.whereRaw(dateExpression, [startDate, endDate]);
         return this;
     }
@@ -8971,22 +10639,23 @@ selectAllExcept(excludeColumns: (keyof T | string)[]): this {
 
     const executor = QueryKitConfig.defaultExecutor;
     const dialect = executor?.dialect || QueryKitConfig.defaultDialect || 'sqlite';
+    const col = this.wrapColumn(column, dialect);
 
     let regexExpression: string;
 
     switch (dialect) {
       case 'mysql':
-        regexExpression = `${String(column)} REGEXP ?`;
+        regexExpression = `${col} REGEXP ?`;
         break;
       case 'postgres':
-        regexExpression = `${String(column)} ~ ?`;
+        regexExpression = `${col} ~ ?`;
         break;
       case 'oracle':
-        regexExpression = `REGEXP_LIKE(${String(column)}, ?)`;
+        regexExpression = `REGEXP_LIKE(${col}, ?)`;
         break;
       default:
         // Outros bancos - usa LIKE como fallback
-        regexExpression = `${String(column)} LIKE ?`;
+        regexExpression = `${col} LIKE ?`;
         const likePattern = pattern.replace(/[.*+?^${}()|[\]\\]/g, '%');
         this.whereRaw(regexExpression, [likePattern]);
         return this;
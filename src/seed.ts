@@ -1,6 +1,7 @@
 import type { DatabaseExecutor } from './types'
 import { QueryKitConfig, getExecutorForTable } from './config'
 import { QueryBuilder } from './query-builder'
+import { simulationManager } from './simulation-manager'
 
 /**
  * Contexto passado para execução de seeds.
@@ -114,7 +115,7 @@ export class Seed<T = any> implements SeedRunnable<T> {
 export type RunSeedOptions<T = any> = {
 	/** Se deve truncar a tabela antes de inserir */
 	truncate?: boolean
-	/** Colunas para verificar duplicatas */
+	/** Colunas da chave única usadas para detectar duplicatas (ON CONFLICT / MERGE) */
 	uniqueBy?: (keyof T)[] | string[]
 	/** Se deve fazer upsert em vez de insert simples */
 	upsert?: boolean
@@ -151,9 +152,12 @@ export type RunSeedOptions<T = any> = {
  * ```
  */
 export async function runSeed<T = any>(table: string, dataOrSeed: Partial<T>[] | SeedRunnable<T>, opts: RunSeedOptions<T> = {}): Promise<number> {
-	const exec = getExecutorForTable(table)
+	const simulated = simulationManager.isActive()
+	// na simulação o seed grava no estado virtual; o executor real só é resolvido se o seed usar ctx.exec
+	const exec = simulated ? simulationManager.guardExecutor(() => getExecutorForTable(table), `runSeed(${table})`) : getExecutorForTable(table)
 	if (!exec) throw new Error('No executor configured for QueryKit')
-	if (opts.truncate) {
+	if (opts.truncate && simulated) simulationManager.updateStateFor(table, [])
+	else if (opts.truncate) {
 		if ((exec as any).runSync) (exec as any).runSync(`DELETE FROM ${table}`, [])
 		else await exec.executeQuery(`DELETE FROM ${table}`, [])
 	}
@@ -167,28 +171,8 @@ export async function runSeed<T = any>(table: string, dataOrSeed: Partial<T>[] |
 	if (!rows.length) return 0
 	// batch insert with optional conflict handling
 	const uniqueKeys = (opts.uniqueBy || []) as string[]
-	const shouldUpsert = !!opts.upsert
-	const shouldIgnore = !!opts.ignoreDuplicates
-	for (const row of rows) {
-		if (uniqueKeys.length && shouldIgnore) {
-			const attributes: Record<string, any> = {}
-			for (const key of uniqueKeys) attributes[String(key)] = (row as any)[String(key)]
-			const exists = await new QueryBuilder<any>(table).whereAll(attributes).exists()
-			if (exists) continue
-			await new QueryBuilder<any>(table).insert(row).make()
-			continue
-		}
-		if (uniqueKeys.length && shouldUpsert) {
-			const attributes: Record<string, any> = {}
-			const values: Record<string, any> = {}
-			for (const [k, v] of Object.entries(row)) {
-				if (uniqueKeys.includes(k)) attributes[k] = v
-				else values[k] = v
-			}
-			await new QueryBuilder<any>(table).updateOrInsert(attributes, values).make()
-			continue
-		}
-		await new QueryBuilder<any>(table).insert(row).make()
-	}
+	if (uniqueKeys.length && opts.ignoreDuplicates) await new QueryBuilder<any>(table).insertOrIgnore(rows, { conflict: uniqueKeys }).make()
+	else if (uniqueKeys.length && opts.upsert) await new QueryBuilder<any>(table).upsert(rows, { conflict: uniqueKeys }).make()
+	else await new QueryBuilder<any>(table).insert(rows).make()
 	return rows.length
 } 
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { QueryKitConfig } from './config';
+import { getGrammar, type Dialect } from './grammars';
+
+/**
+ * Cópia do estado virtual de todas as tabelas da simulação.
+ */
+export type SimulationSnapshot = { tables: Record<string, any[]> };
+
+/**
+ * Mudanças de uma tabela: linhas inseridas, atualizadas (antes/depois) e removidas.
+ */
+export type TableDiff = {
+  inserted: Record<string, any>[];
+  updated: { before: Record<string, any>; after: Record<string, any> }[];
+  deleted: Record<string, any>[];
+};
+
+/**
+ * Mudanças por tabela. Só aparecem tabelas com alguma mudança.
+ */
+export type SimulationDiff = Record<string, TableDiff>;
+
+/**
+ * Opções de `diff()`: colunas que identificam as linhas de cada tabela (padrão `['id']`).
+ * Linhas sem valor nessas colunas são comparadas inteiras e nunca aparecem como atualizadas.
+ */
+export type DiffOptions = { keys?: Record<string, string[]> };
+
+/**
+ * Opções de `exportDiff()`. Em `sql`, os valores entram como literais no dialeto escolhido
+ * (padrão `QueryKitConfig.defaultDialect` ou SQLite).
+ */
+export type DiffExportOptions = { format: 'json' | 'sql'; dialect?: Dialect; keys?: Record<string, string[]> };
+
+/**
+ * Compara dois estados de simulação tabela a tabela.
+ *
+ * @param before - Estado anterior
+ * @param after - Estado atual
+ * @param options - Colunas-chave por tabela
+ * @returns Mudanças por tabela
+ *
+ * @example
+ * const changes = diffSnapshots({ tables: { users: [{ id: 1, name: 'Ana' }] } }, { tables: { users: [{ id: 1, name: 'Bia' }] } });
+ * // Output: { users: { inserted: [], updated: [{ before: { id: 1, name: 'Ana' }, after: { id: 1, name: 'Bia' } }], deleted: [] } }
+ */
+export function diffSnapshots(before: SimulationSnapshot, after: SimulationSnapshot, options: DiffOptions = {}): SimulationDiff {
+  const out: SimulationDiff = {};
+  const names = [...new Set([...Object.keys(before.tables), ...Object.keys(after.tables)])];
+  for (const name of names) {
+    const diff = diffRows(before.tables[name] || [], after.tables[name] || [], options.keys?.[name] || ['id']);
+    if (diff.inserted.length || diff.updated.length || diff.deleted.length) out[name] = diff;
+  }
+  return out;
+}
+
+function diffRows(before: Record<string, any>[], after: Record<string, any>[], keys: string[]): TableDiff {
+  const diff: TableDiff = { inserted: [], updated: [], deleted: [] };
+  const keyOf = (row: Record<string, any>) => keys.every(k => row[k] !== undefined && row[k] !== null) ? serialize(keys.map(k => row[k])) : undefined;
+  const keyed = new Map<string, Record<string, any>>();
+  const loose = new Map<string, Record<string, any>[]>();
+  for (const row of before) {
+    const key = keyOf(row);
+    if (key !== undefined) { keyed.set(key, row); continue; }
+    const whole = serialize(row);
+    loose.set(whole, [...(loose.get(whole) || []), row]);
+  }
+  for (const row of after) {
+    const key = keyOf(row);
+    const previous = key !== undefined ? keyed.get(key) : loose.get(serialize(row))?.shift();
+    if (key !== undefined) keyed.delete(key);
+    if (!previous) diff.inserted.push(row);
+    else if (serialize(previous) !== serialize(row)) diff.updated.push({ before: previous, after: row });
+  }
+  diff.deleted.push(...keyed.values(), ...[...loose.values()].flat());
+  return diff;
+}
+
+// JSON estável: chaves ordenadas, bigint e datas em texto
+function serialize(value: any): string {
+  return JSON.stringify(value, (_, v) => {
+    if (typeof v === 'bigint') return `${v}n`;
+    if (v && typeof v === 'object' && !Array.isArray(v) && !(v instanceof Date)) return Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]));
+    return v;
+  });
+}
+
+/**
+ * Renderiza as mudanças como JSON ou como os statements SQL equivalentes (INSERT, UPDATE e DELETE
+ * por linha, identificados pelas colunas-chave), para revisar um cenário antes de aplicá-lo de verdade.
+ *
+ * @param diff - Mudanças de `diff()`
+ * @param options - Formato, dialeto e colunas-chave por tabela
+ * @returns Texto JSON ou statements SQL separados por `;` e quebra de linha
+ *
+ * @example
+ * exportDiff(simulationManager.diff(), { format: 'sql', dialect: 'postgres' });
+ * // Output:
+ * // INSERT INTO users (id, name) VALUES (3, 'Caio');
+ * // UPDATE users SET name = 'Bia' WHERE id = 1;
+ * // DELETE FROM users WHERE id = 2;
+ */
+export function exportDiff(diff: SimulationDiff, options: DiffExportOptions): string {
+  if (options.format === 'json') return JSON.stringify(diff, (_, v) => typeof v === 'bigint' ? v.toString() : v, 2);
+  const grammar = getGrammar(options.dialect || QueryKitConfig.defaultDialect || 'sqlite');
+  const column = (c: string) => grammar.wrapIdentifier(c);
+  const statements: string[] = [];
+  for (const [name, changes] of Object.entries(diff)) {
+    const table = grammar.wrapTable(name);
+    const keys = options.keys?.[name] || ['id'];
+    const match = (row: Record<string, any>) => {
+      const columns = keys.every(k => row[k] !== undefined && row[k] !== null) ? keys : Object.keys(row);
+      const bindings: any[] = [];
+      const sql = columns.map(c => {
+        if (row[c] === null || row[c] === undefined) return `${column(c)} IS NULL`;
+        bindings.push(row[c]);
+        return `${column(c)} = ?`;
+      }).join(' AND ');
+      return { sql, bindings };
+    };
+    for (const row of changes.inserted) {
+      const columns = Object.keys(row);
+      statements.push(inline(grammar.compileInsert(table, columns.map(column), columns.map(c => row[c])), grammar));
+    }
+    for (const { before, after } of changes.updated) {
+      const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(c => serialize(before[c] ?? null) !== serialize(after[c] ?? null));
+      const set = { sql: changed.map(c => `${column(c)} = ?`).join(', '), bindings: changed.map(c => after[c] ?? null) };
+      statements.push(inline(grammar.compileUpdate(table, set, match(before)), grammar));
+    }
+    for (const row of changes.deleted) statements.push(inline(grammar.compileDelete(table, match(row)), grammar));
+  }
+  return statements.map(s => `${s};`).join('\n');
+}
+
+// troca cada `?` (fora de literais e identificadores citados) pelo literal do valor
+function inline(query: { sql: string; bindings: any[] }, grammar: ReturnType<typeof getGrammar>): string {
+  const values = grammar.prepareBindings(query.bindings);
+  let index = 0;
+  return query.sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|\?/g, token => token === '?' ? literal(values[index++], grammar) : token);
+}
+
+function literal(value: any, grammar: ReturnType<typeof getGrammar>): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'boolean') return grammar.compileBoolean(value);
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  if (value instanceof Date) return `'${value.toISOString()}'`;
+  if (Buffer.isBuffer(value)) return `X'${value.toString('hex')}'`;
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
@@ -1,5 +1,10 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type { QueryBuilder } from './query-builder';
+import type { DatabaseExecutor } from './types';
 import { QueryKitConfig } from './config';
+import { MigrationBuilder } from './migration-dsl';
+import type { SimulationSchema } from './simulation-schema';
+import { diffSnapshots, type DiffOptions, type SimulationDiff, type SimulationSnapshot } from './simulation-diff';
 
 /**
  * Estado virtual para simulação de banco de dados.
@@ -7,6 +12,19 @@ import { QueryKitConfig } from './config';
  */
 type VirtualState = Map<string, any[]>;
 
+/**
+ * Estado de uma simulação: tabelas virtuais, modo estrito, snapshot inicial usado por `diff()` e schema.
+ */
+type SimulationScope = { state: VirtualState; strict: boolean; baseline: SimulationSnapshot; schema?: SimulationSchema };
+
+/**
+ * Opções de `start()`. `strict` faz qualquer acesso a um executor real (SQL bruto, DDL, `explain()`,
+ * seeds que usam `ctx.exec`) lançar erro enquanto a simulação estiver ativa.
+ * `schema` (de um `MigrationBuilder` ou de `introspectSchema()`) faz as escritas virtuais respeitarem
+ * chaves primárias/únicas, NOT NULL, defaults, auto-incremento e chaves estrangeiras.
+ */
+export type SimulationOptions = { strict?: boolean; schema?: SimulationSchema | MigrationBuilder };
+
 /**
  * Gerenciador de simulação para o QueryKit.
  * Permite executar queries em dados simulados sem afetar o banco real.
@@ -31,7 +49,8 @@ type VirtualState = Map<string, any[]>;
 class SimulationManager {
   private static instance: SimulationManager;
   private active: boolean = false;
-  private virtualState: VirtualState = new Map();
+  private global: SimulationScope = { state: new Map(), strict: false, baseline: { tables: {} } };
+  private scopes = new AsyncLocalStorage<SimulationScope>();
 
   private constructor() {}
 
@@ -77,6 +96,7 @@ class SimulationManager {
    * ```
    */
   public isActive(): boolean {
+    if (this.scopes.getStore()) return true;
     return QueryKitConfig.simulation?.isActive() ?? this.active;
   }
 
@@ -85,6 +105,7 @@ class SimulationManager {
    * Aceita dados diretos ou QueryBuilders para carregar dados do banco.
    * 
    * @param initialState - Estado inicial das tabelas (dados ou queries)
+   * @param options - `strict: true` proíbe o uso de executores reais até `stop()`
    * @returns Promise que resolve quando a simulação for iniciada
    * 
    * @example
@@ -102,28 +123,81 @@ class SimulationManager {
    * // Output: Simulação iniciada com dados mock e dados do banco
    * ```
    */
-  public async start(initialState: Record<string, any[] | QueryBuilder<any>>): Promise<void> {
-    if (QueryKitConfig.simulation) return QueryKitConfig.simulation.start(initialState) as any;
+  public async start(initialState: Record<string, any[] | QueryBuilder<any>>, options: SimulationOptions = {}): Promise<void> {
+    this.global.strict = false;
+    if (QueryKitConfig.simulation) {
+      await QueryKitConfig.simulation.start(initialState);
+      this.global.strict = !!options.strict;
+      this.global.schema = this.schemaOf(options);
+      return;
+    }
     this.active = true;
-    this.virtualState.clear();
+    this.global.state = await this.load(initialState);
+    this.global.strict = !!options.strict;
+    this.global.schema = this.schemaOf(options);
+    this.global.baseline = this.copy(this.global.state);
+  }
+
+  /**
+   * Executa um callback com uma simulação própria, isolada via `AsyncLocalStorage`.
+   * Tudo o que roda dentro do callback (inclusive código assíncrono e triggers disparados por ele)
+   * lê e escreve apenas neste estado; fora dele vale a simulação global de `start()`, se houver.
+   * Simulações concorrentes, como testes em paralelo ou requisições HTTP, não interferem entre si.
+   *
+   * @param initialState - Estado inicial das tabelas (dados ou queries)
+   * @param callback - Código a executar dentro da simulação
+   * @param options - `strict: true` proíbe o uso de executores reais dentro do callback
+   * @returns Resultado do callback
+   *
+   * @example
+   * ```typescript
+   * // Dados iniciais
+   * const users = [{ id: 1, name: 'John' }];
+   *
+   * // Como usar
+   * const [a, b] = await Promise.all([
+   *   simulationManager.run({ users }, async () => {
+   *     await new QueryBuilder('users').where('id', '=', 1).delete().make();
+   *     return new QueryBuilder('users').pluck('id');
+   *   }),
+   *   simulationManager.run({ users }, () => new QueryBuilder('users').pluck('id')),
+   * ]);
+   *
+   * // Output: a = [], b = [1]
+   * ```
+   */
+  public async run<R>(initialState: Record<string, any[] | QueryBuilder<any>>, callback: () => Promise<R> | R, options: SimulationOptions = {}): Promise<R> {
+    const state = await this.load(initialState);
+    const scope: SimulationScope = { state, strict: !!options.strict, baseline: this.copy(state), schema: this.schemaOf(options) };
+    return this.scopes.run(scope, callback);
+  }
+
+  private schemaOf(options: SimulationOptions): SimulationSchema | undefined {
+    if (!options.schema) return undefined;
+    return options.schema instanceof MigrationBuilder ? options.schema.schema() : structuredClone(options.schema);
+  }
+
+  private async load(initialState: Record<string, any[] | QueryBuilder<any>>): Promise<VirtualState> {
+    const state: VirtualState = new Map();
     for (const key in initialState) {
       const value = initialState[key];
       if (Array.isArray(value)) {
-        this.virtualState.set(key, JSON.parse(JSON.stringify(value)));
+        state.set(key, JSON.parse(JSON.stringify(value)));
       } else {
         const { sql, bindings } = value.toSql();
         const exec = QueryKitConfig.defaultExecutor;
-        if (!exec) { this.virtualState.set(key, []); continue; }
+        if (!exec) { state.set(key, []); continue; }
         const result = await exec.executeQuery(sql, bindings);
         const data = result.data as any[];
-        this.virtualState.set(key, data);
+        state.set(key, data);
       }
     }
+    return state;
   }
 
   /**
    * Para a simulação e limpa o estado virtual.
-   * Restaura o comportamento normal do banco de dados.
+   * Restaura o comportamento normal do banco de dados. Simulações de `run()` não são afetadas.
    * 
    * @example
    * ```typescript
@@ -140,7 +214,159 @@ class SimulationManager {
   public stop(): void {
     if (QueryKitConfig.simulation) { (QueryKitConfig.simulation.stop() as any); }
     this.active = false;
-    this.virtualState.clear();
+    this.global = { state: new Map(), strict: false, baseline: { tables: {} } };
+  }
+
+  /**
+   * Tira uma cópia profunda do estado virtual de todas as tabelas.
+   *
+   * @returns Snapshot para `restore()` e `diff()`
+   * @throws Error quando a simulação é delegada a um `SimulationController`
+   *
+   * @example
+   * ```typescript
+   * // Dados iniciais
+   * await simulationManager.start({ users: [{ id: 1, name: 'John' }] });
+   *
+   * // Como usar
+   * const before = simulationManager.snapshot();
+   * await new QueryBuilder('users').where('id', '=', 1).delete().make();
+   * simulationManager.restore(before);
+   *
+   * // Output: users volta a ter o usuário 1
+   * ```
+   */
+  public snapshot(): SimulationSnapshot {
+    this.assertOwnState('snapshot()');
+    return this.copy(this.current().state);
+  }
+
+  /**
+   * Restaura o estado virtual de um snapshot. Tabelas criadas depois do snapshot são descartadas.
+   *
+   * @param snapshot - Snapshot de `snapshot()`
+   * @throws Error quando a simulação é delegada a um `SimulationController`
+   */
+  public restore(snapshot: SimulationSnapshot): void {
+    this.assertOwnState('restore()');
+    this.current().state = new Map(Object.entries(snapshot.tables).map(([name, rows]) => [name, structuredClone(rows)]));
+  }
+
+  /**
+   * Lista as linhas inseridas, atualizadas (antes/depois) e removidas de cada tabela desde um snapshot
+   * (padrão: o estado de `start()`). As linhas são identificadas pelas colunas de `options.keys`, pela chave
+   * primária do schema da simulação ou por `id`, nessa ordem.
+   *
+   * @param since - Snapshot de referência
+   * @param options - Colunas-chave por tabela
+   * @returns Mudanças por tabela; use `exportDiff()` para gerar JSON ou SQL
+   *
+   * @example
+   * ```typescript
+   * // Dados iniciais
+   * await simulationManager.start({ users: [{ id: 1, name: 'John' }] });
+   *
+   * // Como usar
+   * await new QueryBuilder('users').where('id', '=', 1).update({ name: 'Jane' }).make();
+   * const changes = simulationManager.diff();
+   *
+   * // Output: { users: { inserted: [], updated: [{ before: { id: 1, name: 'John' }, after: { id: 1, name: 'Jane' } }], deleted: [] } }
+   * ```
+   */
+  public diff(since?: SimulationSnapshot, options: DiffOptions = {}): SimulationDiff {
+    const keys: Record<string, string[]> = {};
+    for (const [table, def] of Object.entries(this.current().schema || {})) {
+      const primary = Object.keys(def.columns).filter(c => def.columns[c].primaryKey);
+      if (primary.length) keys[table] = primary;
+    }
+    return diffSnapshots(since || this.current().baseline, this.snapshot(), { ...options, keys: { ...keys, ...options.keys } });
+  }
+
+  /**
+   * Obtém o schema da simulação em curso, usado para validar as escritas virtuais.
+   *
+   * @returns Schema por tabela ou undefined se a simulação não tiver schema
+   *
+   * @example
+   * ```typescript
+   * // Dados iniciais
+   * await simulationManager.start({ users: [] }, { schema: { users: { columns: { email: { unique: true } } } } });
+   *
+   * // Como usar
+   * const schema = simulationManager.getSchema();
+   *
+   * // Output: { users: { columns: { email: { unique: true } } } }
+   * ```
+   */
+  public getSchema(): SimulationSchema | undefined {
+    return this.current().schema;
+  }
+
+  // simulação do `run()` em curso ou, fora dele, a global
+  private current(): SimulationScope {
+    return this.scopes.getStore() || this.global;
+  }
+
+  private copy(state: VirtualState): SimulationSnapshot {
+    const tables: Record<string, any[]> = {};
+    for (const [name, rows] of state) tables[name] = structuredClone(rows);
+    return { tables };
+  }
+
+  private assertOwnState(operation: string): void {
+    if (QueryKitConfig.simulation && !this.scopes.getStore()) throw new Error(`${operation} is not available when simulation is delegated to a SimulationController`);
+  }
+
+  /**
+   * Garante que uma operação pode usar um executor real. No modo `strict` com a simulação ativa, lança erro.
+   *
+   * @param operation - Descrição da operação, usada na mensagem de erro
+   * @throws Error se a simulação estrita estiver ativa
+   *
+   * @example
+   * ```typescript
+   * // Dados iniciais
+   * await simulationManager.start({ users: [] }, { strict: true });
+   *
+   * // Como usar
+   * simulationManager.assertExecutorAllowed('explain(users)');
+   *
+   * // Output: Error: Strict simulation: explain(users) would touch a real executor
+   * ```
+   */
+  public assertExecutorAllowed(operation: string): void {
+    if (this.current().strict && this.isActive()) throw new Error(`Strict simulation: ${operation} would touch a real executor`);
+  }
+
+  /**
+   * Envolve um executor para que cada chamada passe por `assertExecutorAllowed()`.
+   * O executor só é resolvido no primeiro acesso, então a simulação funciona sem executor configurado.
+   *
+   * @param resolve - Função que devolve o executor real
+   * @param operation - Descrição da operação, usada na mensagem de erro
+   * @returns Executor protegido
+   *
+   * @example
+   * ```typescript
+   * // Dados iniciais
+   * await simulationManager.start({ users: [] }, { strict: true });
+   *
+   * // Como usar
+   * const exec = simulationManager.guardExecutor(() => getExecutorForTable('users'), 'runSeed(users)');
+   * await exec.executeQuery('SELECT 1', []);
+   *
+   * // Output: Error: Strict simulation: runSeed(users) would touch a real executor
+   * ```
+   */
+  public guardExecutor(resolve: () => DatabaseExecutor, operation: string): DatabaseExecutor {
+    return new Proxy({} as DatabaseExecutor, {
+      get: (_, key) => {
+        const exec = resolve() as any;
+        const value = exec[key];
+        if (typeof value !== 'function') return value;
+        return (...args: any[]) => { this.assertExecutorAllowed(operation); return value.apply(exec, args); };
+      },
+    });
   }
 
   /**
@@ -163,8 +389,10 @@ class SimulationManager {
    * ```
    */
   public getStateFor(tableName: string): any[] | undefined {
+    const scope = this.scopes.getStore();
+    if (scope) return scope.state.get(tableName);
     if (QueryKitConfig.simulation) return QueryKitConfig.simulation.getStateFor(tableName);
-    return this.virtualState.get(tableName);
+    return this.global.state.get(tableName);
   }
 
   /**
@@ -187,9 +415,11 @@ class SimulationManager {
    * ```
    */
   public updateStateFor(tableName: string, data: any[]): void {
+    const scope = this.scopes.getStore();
+    if (scope) { scope.state.set(tableName, data); return; }
     if (this.isActive()) {
       if (QueryKitConfig.simulation) return QueryKitConfig.simulation.updateStateFor(tableName, data);
-      this.virtualState.set(tableName, data);
+      this.global.state.set(tableName, data);
     }
   }
 }
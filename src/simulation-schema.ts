@@ -0,0 +1,163 @@
+import type { DatabaseExecutor } from './types';
+import { QueryKitConfig } from './config';
+import { ColumnDefault, type ColumnDefinition, type ForeignKeyOptions } from './migration-dsl';
+import { simulationManager } from './simulation-manager';
+
+/**
+ * Coluna de uma tabela simulada. Usa as mesmas opções de `createTable()`; o tipo é opcional.
+ */
+export type SimulatedColumn = Partial<ColumnDefinition>;
+
+/**
+ * Tabela simulada: colunas e conjuntos de colunas únicos além dos declarados nas próprias colunas.
+ */
+export type SimulatedTable = { columns: Record<string, SimulatedColumn>; unique?: string[][] };
+
+/**
+ * Schema aplicado às escritas da simulação, por tabela. Tabelas fora do schema continuam
+ * aceitando qualquer linha.
+ */
+export type SimulationSchema = Record<string, SimulatedTable>;
+
+type Introspection = {
+  columns: (table: string) => { sql: string; bindings: any[] };
+  keys: (table: string) => { sql: string; bindings: any[] };
+  foreignKeys: (table: string) => { sql: string; bindings: any[] };
+};
+
+const INFORMATION_SCHEMA = (schema: string): Introspection => ({
+  columns: table => ({
+    sql: `SELECT column_name AS name, is_nullable AS nullable, column_default AS default_value, ${schema === 'DATABASE()' ? 'extra' : 'is_identity'} AS extra FROM information_schema.columns WHERE table_schema = ${schema} AND table_name = ? ORDER BY ordinal_position`,
+    bindings: [table],
+  }),
+  keys: table => ({
+    sql: `SELECT tc.constraint_name AS name, tc.constraint_type AS kind, kcu.column_name AS column_name FROM information_schema.table_constraints tc JOIN information_schema.key_column_usage kcu ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema AND kcu.table_name = tc.table_name WHERE tc.table_schema = ${schema} AND tc.table_name = ? AND tc.constraint_type IN ('PRIMARY KEY', 'UNIQUE') ORDER BY kcu.ordinal_position`,
+    bindings: [table],
+  }),
+  foreignKeys: table => ({
+    sql: schema === 'DATABASE()'
+      ? `SELECT kcu.column_name AS column_name, kcu.referenced_table_name AS ref_table, kcu.referenced_column_name AS ref_column, rc.delete_rule AS on_delete FROM information_schema.key_column_usage kcu JOIN information_schema.referential_constraints rc ON rc.constraint_name = kcu.constraint_name AND rc.constraint_schema = kcu.constraint_schema WHERE kcu.table_schema = ${schema} AND kcu.table_name = ? AND kcu.referenced_table_name IS NOT NULL`
+      : `SELECT kcu.column_name AS column_name, ccu.table_name AS ref_table, ccu.column_name AS ref_column, rc.delete_rule AS on_delete FROM information_schema.referential_constraints rc JOIN information_schema.key_column_usage kcu ON kcu.constraint_name = rc.constraint_name AND kcu.constraint_schema = rc.constraint_schema JOIN information_schema.constraint_column_usage ccu ON ccu.constraint_name = rc.constraint_name AND ccu.constraint_schema = rc.constraint_schema WHERE kcu.table_schema = ${schema} AND kcu.table_name = ?`,
+    bindings: [table],
+  }),
+});
+
+const ON_DELETE = ['CASCADE', 'RESTRICT', 'SET NULL', 'NO ACTION'];
+
+/**
+ * Lê do banco o schema das tabelas informadas (colunas, NOT NULL, defaults, auto-incremento,
+ * chaves primárias/únicas e chaves estrangeiras), no formato aceito por `simulationManager.start()`.
+ * Suporta SQLite, PostgreSQL e MySQL.
+ *
+ * @param tables - Tabelas a descrever
+ * @param exec - Executor a consultar (padrão: o executor padrão)
+ * @returns Schema por tabela
+ * @throws Error se não houver executor ou o dialeto não for suportado
+ *
+ * @example
+ * ```typescript
+ * // Dados iniciais
+ * const tables = ['users', 'orders'];
+ *
+ * // Como usar
+ * const schema = await introspectSchema(tables);
+ * await simulationManager.start({ users: [], orders: [] }, { schema });
+ *
+ * // Output: { users: { columns: { id: { primaryKey: true, notNull: true, autoIncrement: true }, ... }, unique: [] }, orders: { ... } }
+ * ```
+ */
+export async function introspectSchema(tables: string[], exec: DatabaseExecutor | undefined = QueryKitConfig.defaultExecutor): Promise<SimulationSchema> {
+  simulationManager.assertExecutorAllowed('introspectSchema()');
+  if (!exec) throw new Error('No executor configured for QueryKit');
+  const dialect = exec.dialect || QueryKitConfig.defaultDialect || 'sqlite';
+  const schema: SimulationSchema = {};
+  for (const table of tables) {
+    switch (dialect) {
+      case 'sqlite': schema[table] = await introspectSqlite(exec, table); break;
+      case 'postgres': schema[table] = await introspectInformationSchema(exec, table, INFORMATION_SCHEMA('current_schema()')); break;
+      case 'mysql': schema[table] = await introspectInformationSchema(exec, table, INFORMATION_SCHEMA('DATABASE()')); break;
+      default: throw new Error(`Schema introspection is not supported for ${dialect}`);
+    }
+  }
+  return schema;
+}
+
+async function rows(exec: DatabaseExecutor, query: { sql: string; bindings: any[] }): Promise<any[]> {
+  return ((await exec.executeQuery(query.sql, query.bindings)).data || []) as any[];
+}
+
+async function introspectSqlite(exec: DatabaseExecutor, table: string): Promise<SimulatedTable> {
+  const info = await rows(exec, { sql: 'SELECT name, type, "notnull" AS not_null, dflt_value, pk FROM pragma_table_info(?) ORDER BY cid', bindings: [table] });
+  const keyCount = info.filter(c => Number(c.pk) > 0).length;
+  const columns: Record<string, SimulatedColumn> = {};
+  for (const c of info) {
+    const column: SimulatedColumn = {};
+    if (Number(c.pk) > 0) column.primaryKey = true;
+    if (Number(c.not_null)) column.notNull = true;
+    // INTEGER PRIMARY KEY é alias do rowid e recebe o próximo id
+    if (keyCount === 1 && Number(c.pk) > 0 && /^INTEGER$/i.test(String(c.type))) column.autoIncrement = true;
+    const value = parseDefault(c.dflt_value);
+    if (value !== undefined) column.default = value;
+    columns[c.name] = column;
+  }
+  const unique: string[][] = [];
+  for (const index of await rows(exec, { sql: 'SELECT name, "unique" AS is_unique, origin FROM pragma_index_list(?)', bindings: [table] })) {
+    if (!Number(index.is_unique) || index.origin === 'pk') continue;
+    const parts = await rows(exec, { sql: 'SELECT name FROM pragma_index_info(?) ORDER BY seqno', bindings: [index.name] });
+    unique.push(parts.map(p => p.name));
+  }
+  for (const fk of await rows(exec, { sql: 'SELECT "from" AS column_name, "table" AS ref_table, "to" AS ref_column, on_delete FROM pragma_foreign_key_list(?)', bindings: [table] })) {
+    if (columns[fk.column_name]) columns[fk.column_name].references = reference(fk);
+  }
+  return { columns, unique };
+}
+
+async function introspectInformationSchema(exec: DatabaseExecutor, table: string, queries: Introspection): Promise<SimulatedTable> {
+  const columns: Record<string, SimulatedColumn> = {};
+  for (const c of await rows(exec, queries.columns(table))) {
+    const column: SimulatedColumn = {};
+    if (String(c.nullable).toUpperCase() === 'NO') column.notNull = true;
+    const text = c.default_value === null || c.default_value === undefined ? '' : String(c.default_value);
+    if (/auto_increment/i.test(String(c.extra)) || String(c.extra).toUpperCase() === 'YES' || /^nextval\(/i.test(text)) column.autoIncrement = true;
+    else {
+      const value = parseDefault(c.default_value);
+      if (value !== undefined) column.default = value;
+    }
+    columns[c.name] = column;
+  }
+  const groups = new Map<string, { kind: string; columns: string[] }>();
+  for (const k of await rows(exec, queries.keys(table))) {
+    const group = groups.get(k.name) || { kind: String(k.kind).toUpperCase(), columns: [] };
+    group.columns.push(k.column_name);
+    groups.set(k.name, group);
+  }
+  const unique: string[][] = [];
+  for (const group of groups.values()) {
+    if (group.kind === 'UNIQUE') { unique.push(group.columns); continue; }
+    for (const c of group.columns) if (columns[c]) columns[c].primaryKey = true;
+  }
+  for (const fk of await rows(exec, queries.foreignKeys(table))) {
+    if (columns[fk.column_name]) columns[fk.column_name].references = reference(fk);
+  }
+  return { columns, unique };
+}
+
+function reference(fk: { ref_table: string; ref_column?: string | null; on_delete?: string | null }): ForeignKeyOptions {
+  const onDelete = String(fk.on_delete || '').toUpperCase();
+  return { table: fk.ref_table, column: fk.ref_column || 'id', ...(ON_DELETE.includes(onDelete) ? { onDelete: onDelete as ForeignKeyOptions['onDelete'] } : {}) };
+}
+
+// default como o banco o reporta: literal SQL (`'abc'::text`, `42`, `NULL`) ou expressão conhecida
+function parseDefault(raw: unknown): SimulatedColumn['default'] | undefined {
+  if (raw === null || raw === undefined) return undefined;
+  if (typeof raw === 'number' || typeof raw === 'boolean') return raw;
+  const text = String(raw).trim().replace(/^\((.*)\)$/, '$1');
+  if (/^(CURRENT_TIMESTAMP|now\(\))/i.test(text)) return ColumnDefault.CurrentTimestamp;
+  if (/^(gen_random_uuid|uuid_generate_v4|uuid)\(\)$/i.test(text)) return ColumnDefault.UuidV4;
+  if (/^NULL\b/i.test(text)) return null;
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  const quoted = /^'((?:[^']|'')*)'/.exec(text);
+  if (quoted) return quoted[1].replace(/''/g, "'");
+  return text;
+}
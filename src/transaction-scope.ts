@@ -0,0 +1,48 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { DatabaseExecutor } from './types'
+
+/**
+ * Estado de uma transação ativa: executor fixado na conexão, profundidade e contador de savepoints.
+ */
+export type TransactionState = {
+  /** Executor base que originou a transação */
+  base: DatabaseExecutor
+  /** Executor transacional (conexão fixada) */
+  executor: DatabaseExecutor
+  /** Número de savepoints abertos acima da transação raiz */
+  depth: number
+  /** Savepoints já criados na transação; compartilhado pelos níveis aninhados para nomes únicos */
+  savepoints: { count: number }
+}
+
+/**
+ * Escopo assíncrono das transações ativas, indexado pelo executor base.
+ * Cada callback de `transaction()` roda com seu próprio mapa.
+ */
+export const transactionScope = new AsyncLocalStorage<Map<DatabaseExecutor, TransactionState>>()
+
+/**
+ * Procura a transação ativa para um executor, aceitando tanto o executor base
+ * quanto o próprio executor transacional.
+ *
+ * @param exec - Executor base ou transacional
+ * @returns Estado da transação ou undefined fora de um escopo
+ */
+export function findTransaction(exec: DatabaseExecutor): TransactionState | undefined {
+  const store = transactionScope.getStore()
+  if (!store) return undefined
+  const direct = store.get(exec)
+  if (direct) return direct
+  for (const state of store.values()) if (state.executor === exec) return state
+  return undefined
+}
+
+/**
+ * Troca o executor base pelo executor transacional quando há uma transação ativa para ele.
+ *
+ * @param exec - Executor resolvido pela configuração
+ * @returns Executor a ser usado na query
+ */
+export function resolveTransactionExecutor(exec: DatabaseExecutor): DatabaseExecutor {
+  return findTransaction(exec)?.executor || exec
+}
@@ -0,0 +1,223 @@
+import type { DatabaseExecutor, QueryResult } from './types'
+import { QueryKitConfig, getExecutorForTable } from './config'
+import { QueryBuilder } from './query-builder'
+import { simulationManager } from './simulation-manager'
+import { getGrammar } from './grammars'
+import { transactionScope, findTransaction, type TransactionState } from './transaction-scope'
+
+/**
+ * Opções para abrir uma transação.
+ *
+ * @example
+ * ```typescript
+ * // Dados iniciais
+ * const options: TransactionOptions = { table: 'orders', banks: ['sales'] };
+ *
+ * // Como usar
+ * await transaction(async trx => { ... }, options);
+ *
+ * // Output: Transação aberta no executor que atende a tabela 'orders'
+ * ```
+ */
+export type TransactionOptions = {
+  /** Executor explícito (padrão: executor da tabela ou executor padrão) */
+  executor?: DatabaseExecutor
+  /** Tabela usada para resolver o executor em cenários multi-banco */
+  table?: string
+  /** Bancos preferidos na resolução do executor */
+  banks?: string[]
+}
+
+/**
+ * Handle entregue ao callback de `transaction()`.
+ * Todas as operações feitas dentro do callback (QueryBuilder, Model.save, runSeed, migrações)
+ * usam automaticamente a conexão fixada da transação.
+ *
+ * @example
+ * ```typescript
+ * // Dados iniciais
+ * setDefaultExecutor(new PostgresExecutor({ connectionString }));
+ *
+ * // Como usar
+ * await transaction(async trx => {
+ *   await trx.table('accounts').where('id', '=', 1).decrement('balance', 100).make();
+ *   await trx.table('accounts').where('id', '=', 2).increment('balance', 100).make();
+ * });
+ *
+ * // Output: As duas atualizações são confirmadas juntas ou nenhuma é aplicada
+ * ```
+ */
+export class Transaction {
+  /**
+   * @param executor - Executor fixado na conexão da transação
+   * @param depth - Profundidade de savepoints (0 para a transação raiz)
+   */
+  constructor(public readonly executor: DatabaseExecutor, public readonly depth: number) {}
+
+  /**
+   * Cria um QueryBuilder para a tabela, executado dentro da transação.
+   *
+   * @param tableName - Nome da tabela
+   * @returns Novo QueryBuilder
+   */
+  table<T extends Record<string, any> = any>(tableName: string): QueryBuilder<T> {
+    return new QueryBuilder<T>(tableName)
+  }
+
+  /**
+   * Executa SQL bruto na conexão da transação.
+   *
+   * @param sql - Query SQL
+   * @param bindings - Parâmetros da query
+   * @returns Promise com o resultado da query
+   */
+  query(sql: string, bindings: any[] = []): Promise<QueryResult> {
+    return this.executor.executeQuery(sql, bindings)
+  }
+
+  /**
+   * Abre um savepoint aninhado. Um erro no callback desfaz apenas o savepoint.
+   *
+   * @param callback - Função executada dentro do savepoint
+   * @returns Promise com o retorno do callback
+   *
+   * @example
+   * ```typescript
+   * // Dados iniciais
+   * await transaction(async trx => {
+   *   await trx.table('orders').insert({ id: 1 }).make();
+   *
+   *   // Como usar
+   *   await trx.transaction(async () => {
+   *     await trx.table('audit').insert({ order_id: 1 }).make();
+   *     throw new Error('falha');
+   *   }).catch(() => {});
+   * });
+   *
+   * // Output: O pedido é confirmado; apenas a linha de auditoria é desfeita
+   * ```
+   */
+  transaction<R>(callback: (trx: Transaction) => Promise<R> | R): Promise<R> {
+    return transaction(callback, { executor: this.executor })
+  }
+}
+
+/**
+ * Inicia a transação no executor. Executores sem `beginTransaction` (conexão única)
+ * recebem BEGIN diretamente e são usados como executor transacional.
+ *
+ * @param exec - Executor base
+ * @returns Executor transacional
+ */
+async function begin(exec: DatabaseExecutor): Promise<DatabaseExecutor> {
+  if (exec.beginTransaction) return exec.beginTransaction()
+  await exec.executeQuery(getGrammar(exec.dialect || QueryKitConfig.defaultDialect).compileBegin(), [])
+  return exec
+}
+
+/**
+ * Finaliza a transação com commit ou rollback.
+ *
+ * @param exec - Executor transacional
+ * @param action - Ação de finalização
+ */
+async function finish(exec: DatabaseExecutor, action: 'commit' | 'rollback'): Promise<void> {
+  if (exec[action]) return exec[action]!()
+  await exec.executeQuery(action === 'commit' ? 'COMMIT' : 'ROLLBACK', [])
+}
+
+/**
+ * Executa o callback em um novo escopo com o estado de transação informado.
+ *
+ * @param state - Estado da transação para o executor base
+ * @param callback - Função do usuário
+ * @returns Promise com o retorno do callback
+ */
+function runInScope<R>(state: TransactionState, callback: (trx: Transaction) => Promise<R> | R): Promise<R> {
+  const store = new Map(transactionScope.getStore() || [])
+  store.set(state.base, state)
+  return transactionScope.run(store, async () => callback(new Transaction(state.executor, state.depth)))
+}
+
+/**
+ * Executa um callback em savepoint dentro de uma transação já ativa.
+ *
+ * @param active - Transação ativa
+ * @param callback - Função do usuário
+ * @returns Promise com o retorno do callback
+ */
+async function runSavepoint<R>(active: TransactionState, callback: (trx: Transaction) => Promise<R> | R): Promise<R> {
+  const state: TransactionState = { ...active, depth: active.depth + 1 }
+  const grammar = getGrammar(state.executor.dialect || QueryKitConfig.defaultDialect)
+  // savepoints irmãos concorrentes na mesma conexão não podem repetir o nome
+  const name = `qk_sp_${++state.savepoints.count}`
+  await state.executor.executeQuery(grammar.compileSavepoint(name), [])
+  let result: R
+  try {
+    result = await runInScope(state, callback)
+  } catch (err) {
+    await state.executor.executeQuery(grammar.compileRollbackToSavepoint(name), [])
+    throw err
+  }
+  const release = grammar.compileReleaseSavepoint(name)
+  if (release) await state.executor.executeQuery(release, [])
+  return result
+}
+
+/**
+ * Executa um callback de forma atômica.
+ * Fixa uma conexão do pool durante todo o callback: QueryBuilder, Model.save, runSeed e migrações
+ * executados dentro dele usam essa conexão. Commit ao final; rollback se o callback lançar erro.
+ * Chamadas aninhadas (ou `trx.transaction`) viram savepoints.
+ *
+ * @param callback - Função executada dentro da transação
+ * @param options - Executor explícito ou tabela/bancos para resolvê-lo
+ * @returns Promise com o retorno do callback
+ * @throws Error se nenhum executor estiver configurado, ou o erro lançado pelo callback
+ *
+ * @example
+ * ```typescript
+ * // Exemplo básico
+ * await transaction(async () => {
+ *   await new QueryBuilder('users').insert({ email: 'a@b.com' }).make();
+ *   await new QueryBuilder('profiles').insert({ user_email: 'a@b.com' }).make();
+ * });
+ *
+ * // Exemplo intermediário - savepoint aninhado
+ * await transaction(async trx => {
+ *   const user = new User();
+ *   user.fill({ name: 'Ana' });
+ *   await user.save();
+ *   await trx.transaction(async () => {
+ *     await runSeed('roles', [{ name: 'admin' }], { uniqueBy: ['name'], upsert: true });
+ *   });
+ * });
+ *
+ * // Exemplo avançado - banco específico em cenário multi-banco
+ * const total = await transaction(async trx => {
+ *   const res = await trx.query('SELECT SUM(amount) AS total FROM payments');
+ *   return res.data[0].total;
+ * }, { table: 'payments' });
+ *
+ * // Output: Operações confirmadas juntas ou todas desfeitas em caso de erro
+ * ```
+ */
+export async function transaction<R>(callback: (trx: Transaction) => Promise<R> | R, options: TransactionOptions = {}): Promise<R> {
+  simulationManager.assertExecutorAllowed('transaction()')
+  const exec = options.executor
+    || (options.table ? getExecutorForTable(options.table, options.banks) : QueryKitConfig.defaultExecutor)
+  if (!exec) throw new Error('No executor configured for QueryKit')
+  const active = findTransaction(exec)
+  if (active) return runSavepoint(active, callback)
+
+  const pinned = await begin(exec)
+  let result: R
+  try {
+    result = await runInScope({ base: exec, executor: pinned, depth: 0, savepoints: { count: 0 } }, callback)
+  } catch (err) {
+    try { await finish(pinned, 'rollback') } catch {}
+    throw err
+  }
+  await finish(pinned, 'commit')
+  return result
+}
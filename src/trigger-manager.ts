@@ -1,5 +1,6 @@
 import { QueryKitConfig } from './config';
 import { eventManager } from './event-manager';
+import { simulationManager } from './simulation-manager';
 
 /**
  * Tipos de eventos que podem disparar triggers SQL.
@@ -205,6 +206,7 @@ export class TriggerManager {
       return;
     }
     if (typeof body === 'string') {
+      simulationManager.assertExecutorAllowed(`trigger ${ctx.timing} ${ctx.action} ${ctx.table}`);
       const exec = QueryKitConfig.defaultExecutor;
       if (!exec || !exec.runSync) throw new Error('No executor configured for QueryKit');
       exec.runSync(body, []);
@@ -507,6 +509,7 @@ export class TriggerManager {
         ${body}
       END;
     `;
+    simulationManager.assertExecutorAllowed(`createTrigger(${name})`);
     const exec = QueryKitConfig.defaultExecutor as any;
     if (!exec) throw new Error('No executor configured for QueryKit');
     if (exec.runSync) exec.runSync(createTriggerSql, []);
@@ -515,6 +518,7 @@ export class TriggerManager {
 
   public dropTrigger(name: string): void {
     const dropTriggerSql = `DROP TRIGGER IF EXISTS ${name}`;
+    simulationManager.assertExecutorAllowed(`dropTrigger(${name})`);
     const exec = QueryKitConfig.defaultExecutor as any;
     if (!exec) throw new Error('No executor configured for QueryKit');
     if (exec.runSync) exec.runSync(dropTriggerSql, []);
@@ -540,6 +544,7 @@ export class TriggerManager {
   }
 
   public listTriggers(): string[] {
+    simulationManager.assertExecutorAllowed('listTriggers()');
     const exec = QueryKitConfig.defaultExecutor as any;
     if (!exec) throw new Error('No executor configured for QueryKit');
     if (!exec.executeQuerySync) return [];
@@ -561,6 +566,7 @@ export class TriggerManager {
   }
 
   public async listTriggersAsync(): Promise<string[]> {
+    simulationManager.assertExecutorAllowed('listTriggersAsync()');
     const exec = QueryKitConfig.defaultExecutor as any;
     if (!exec) throw new Error('No executor configured for QueryKit');
     if (exec.executeQuerySync) return this.listTriggers();
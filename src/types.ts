@@ -17,6 +17,12 @@
  */
 export type QueryResult = { data: any[]; affectedRows?: number; lastInsertId?: number | string };
 
+/**
+ * Opções de leitura em streaming repassadas ao executor.
+ * `batchSize` controla quantas linhas o driver busca por vez (FETCH do cursor, fetchArraySize etc.).
+ */
+export type StreamOptions = { batchSize?: number };
+
 /**
  * Interface para execução de queries SQL no banco de dados.
  * Define métodos para executar queries de forma síncrona e assíncrona.
@@ -74,7 +80,39 @@ export interface DatabaseExecutor {
    * @returns Informações sobre as mudanças realizadas
    */
   runSync?(sql: string, bindings: any[]): { changes: number; lastInsertRowid: number | bigint };
-  
+
+  /**
+   * Lê o resultado de um SELECT linha a linha, sem carregá-lo inteiro na memória (opcional).
+   * Usa o mecanismo nativo do driver: `iterate()` no better-sqlite3, cursores no PostgreSQL,
+   * streams no mysql2/oracledb e o modo `stream` do mssql.
+   * Interromper a iteração (`break`) libera o cursor/conexão.
+   *
+   * @param sql - Query SQL a ser executada
+   * @param bindings - Parâmetros para a query
+   * @param options - Tamanho do lote buscado por vez
+   * @returns Iterável assíncrono com as linhas
+   */
+  stream?(sql: string, bindings: any[], options?: StreamOptions): AsyncIterable<any>;
+
+  /**
+   * Inicia uma transação (opcional).
+   * Executores com pool fixam uma única conexão e devolvem um executor transacional,
+   * onde todas as queries rodam até `commit()` ou `rollback()`.
+   *
+   * @returns Promise com o executor fixado na conexão da transação
+   */
+  beginTransaction?(): Promise<DatabaseExecutor>;
+
+  /**
+   * Confirma a transação do executor transacional e libera a conexão fixada.
+   */
+  commit?(): Promise<void>;
+
+  /**
+   * Desfaz a transação do executor transacional e libera a conexão fixada.
+   */
+  rollback?(): Promise<void>;
+
   /**
    * Dialeto SQL suportado pelo executor.
    */
@@ -1,4 +1,5 @@
 import { QueryKitConfig } from './config';
+import { simulationManager } from './simulation-manager';
 import type { QueryBuilder } from './query-builder';
 import { scheduler } from './scheduler';
 import { table } from './table';
@@ -144,6 +145,7 @@ export class ViewManager {
     await this.dropView(viewName);
     const inlined = inlineBindings(sql, bindings);
     const createViewSql = `CREATE VIEW ${viewName} AS ${inlined}`;
+    simulationManager.assertExecutorAllowed(`createOrReplaceView(${viewName})`);
     const exec = QueryKitConfig.defaultExecutor as any;
     if (!exec) throw new Error('No executor configured for QueryKit');
     if (exec.runSync) exec.runSync(createViewSql, []);
@@ -216,6 +218,7 @@ export class ViewManager {
    */
   public async dropView(viewName: string): Promise<void> {
     const dropViewSql = `DROP VIEW IF EXISTS ${viewName}`;
+    simulationManager.assertExecutorAllowed(`dropView(${viewName})`);
     const exec = QueryKitConfig.defaultExecutor as any;
     if (!exec) throw new Error('No executor configured for QueryKit');
     if (exec.runSync) exec.runSync(dropViewSql, []);
@@ -240,6 +243,7 @@ export class ViewManager {
    * ```
    */
   public listViews(): string[] {
+    simulationManager.assertExecutorAllowed('listViews()');
     const exec = QueryKitConfig.defaultExecutor as any;
     if (!exec) throw new Error('No executor configured for QueryKit');
     if (!exec.executeQuerySync) return [];
@@ -295,6 +299,7 @@ export class ViewManager {
    * ```
    */
   public async listViewsAsync(): Promise<string[]> {
+    simulationManager.assertExecutorAllowed('listViewsAsync()');
     const exec = QueryKitConfig.defaultExecutor as any;
     if (!exec) throw new Error('No executor configured for QueryKit');
     if (exec.executeQuerySync) return this.listViews();
@@ -0,0 +1,136 @@
+import { randomUUID } from 'node:crypto';
+import { ColumnDefault } from './migration-dsl';
+import type { SimulatedColumn, SimulationSchema } from './simulation-schema';
+
+type Row = Record<string, any>;
+
+/**
+ * Aplica o schema da simulação às escritas virtuais: defaults, auto-incremento, NOT NULL,
+ * chaves primárias e únicas, chaves estrangeiras e ações `ON DELETE`.
+ * As mensagens de erro seguem as do SQLite.
+ *
+ * `tables` é o conjunto de trabalho da escrita: as tabelas lidas ou alteradas entram nele como cópias,
+ * e o chamador só as grava de volta no estado da simulação se nenhuma restrição falhar.
+ */
+export class VirtualConstraints {
+  constructor(
+    private schema: SimulationSchema,
+    private tables: Map<string, Row[]>,
+    private load: (table: string) => Row[] | undefined,
+  ) {}
+
+  /**
+   * Completa uma linha nova com auto-incremento e defaults e valida as restrições.
+   *
+   * @returns Linha como será gravada
+   */
+  insert(table: string, row: Row): Row {
+    const def = this.schema[table];
+    if (!def) return row;
+    const next: Row = {};
+    for (const [name, column] of Object.entries(def.columns)) {
+      if (column.autoIncrement && (row[name] === undefined || row[name] === null)) next[name] = this.nextId(table, name, column);
+      else if (row[name] !== undefined) next[name] = row[name];
+      else if (column.default !== undefined) next[name] = defaultValue(column.default);
+    }
+    for (const [name, value] of Object.entries(row)) if (!(name in next)) next[name] = value;
+    this.check(table, next);
+    return next;
+  }
+
+  /**
+   * Valida uma linha alterada; `before` é a versão ainda presente na tabela.
+   */
+  update(table: string, before: Row, after: Row): void {
+    this.check(table, after, before);
+  }
+
+  /**
+   * Aplica as ações `ON DELETE` das chaves estrangeiras que apontam para as linhas removidas:
+   * CASCADE remove, SET NULL limpa a coluna e RESTRICT/NO ACTION (padrão) falham.
+   */
+  delete(table: string, deleted: Row[]): void {
+    for (const [child, def] of Object.entries(this.schema)) {
+      for (const [column, options] of Object.entries(def.columns)) {
+        const ref = options.references;
+        if (!ref || ref.table !== table) continue;
+        const rows = this.rows(child);
+        const keys = deleted.map(r => r[ref.column || 'id']).filter(v => v !== undefined && v !== null);
+        if (!rows || keys.length === 0) continue;
+        const orphans = new Set(rows.filter(r => keys.some(k => same(k, r[column]))));
+        if (orphans.size === 0) continue;
+        switch (ref.onDelete) {
+          case 'CASCADE':
+            rows.splice(0, rows.length, ...rows.filter(r => !orphans.has(r)));
+            this.delete(child, [...orphans]);
+            break;
+          case 'SET NULL':
+            rows.forEach((r, i) => {
+              if (!orphans.has(r)) return;
+              rows[i] = { ...r, [column]: null };
+              this.check(child, rows[i], r);
+            });
+            break;
+          default:
+            throw new Error(`FOREIGN KEY constraint failed: ${child}.${column} references ${table}`);
+        }
+      }
+    }
+  }
+
+  private check(table: string, row: Row, previous?: Row): void {
+    const def = this.schema[table];
+    if (!def) return;
+    const columns = Object.entries(def.columns);
+    for (const [name, column] of columns) {
+      if ((column.notNull || column.primaryKey) && (row[name] === undefined || row[name] === null)) throw new Error(`NOT NULL constraint failed: ${table}.${name}`);
+    }
+    const primary = columns.filter(([, c]) => c.primaryKey).map(([name]) => name);
+    const sets = [...(primary.length ? [primary] : []), ...columns.filter(([, c]) => c.unique).map(([name]) => [name]), ...(def.unique || [])];
+    const rows = this.rows(table) || [];
+    for (const set of sets) {
+      if (set.some(c => row[c] === undefined || row[c] === null)) continue;
+      if (rows.some(other => other !== previous && other !== row && set.every(c => same(other[c], row[c])))) {
+        throw new Error(`UNIQUE constraint failed: ${set.map(c => `${table}.${c}`).join(', ')}`);
+      }
+    }
+    for (const [name, column] of columns) {
+      const ref = column.references;
+      const value = row[name];
+      if (!ref || value === undefined || value === null || (previous && same(previous[name], value))) continue;
+      const key = ref.column || 'id';
+      if (ref.table === table && same(row[key], value)) continue;
+      const parents = this.rows(ref.table);
+      if (parents && !parents.some(p => same(p[key], value))) throw new Error(`FOREIGN KEY constraint failed: ${table}.${name} references ${ref.table}`);
+    }
+  }
+
+  private nextId(table: string, column: string, options: SimulatedColumn): number {
+    const { start = 1, increment = 1 } = typeof options.autoIncrement === 'object' ? options.autoIncrement : {};
+    const max = (this.rows(table) || []).reduce<number | undefined>((m, r) => {
+      const n = r[column] === null || r[column] === undefined ? NaN : Number(r[column]);
+      return Number.isFinite(n) && (m === undefined || n > m) ? n : m;
+    }, undefined);
+    return max === undefined ? start : max + increment;
+  }
+
+  // tabelas sem estado na simulação não são verificadas
+  private rows(table: string): Row[] | undefined {
+    if (!this.tables.has(table)) {
+      const rows = this.load(table);
+      if (!rows) return undefined;
+      this.tables.set(table, [...rows]);
+    }
+    return this.tables.get(table);
+  }
+}
+
+function defaultValue(value: SimulatedColumn['default']): any {
+  if (value === ColumnDefault.CurrentTimestamp || (typeof value === 'string' && value.toUpperCase() === 'CURRENT_TIMESTAMP')) return new Date().toISOString();
+  if (value === ColumnDefault.UuidV4) return randomUUID();
+  return value;
+}
+
+function same(a: any, b: any): boolean {
+  return a === b || (a !== undefined && a !== null && b !== undefined && b !== null && String(a) === String(b));
+}
@@ -0,0 +1,878 @@
+import { Raw } from './raw';
+import { decodeAstValue, type AstValue, type QueryAST, type SelectNode, type WhereNode } from './query-ast';
+import type { Dialect, WindowFrameBound } from './grammars';
+import type { WindowFunction, WindowSpec } from './query-builder';
+
+/**
+ * Opções do avaliador em memória: origem das linhas de cada tabela virtual e dialeto imitado
+ * (LIKE sensível a maiúsculas no PostgreSQL e Oracle, NULLs por último nesses dois, divisão inteira fora do MySQL).
+ */
+export type VirtualQueryOptions = { tables: (name: string) => any[] | undefined; dialect?: Dialect };
+
+type Row = Record<string, any>;
+
+/**
+ * Expressão SQL já analisada. `param` referencia os bindings `?` na ordem em que aparecem.
+ */
+type Expr =
+  | { k: 'lit'; v: any }
+  | { k: 'param'; i: number }
+  | { k: 'col'; table?: string; name: string }
+  | { k: 'star'; table?: string }
+  | { k: 'not'; e: Expr }
+  | { k: 'neg'; e: Expr }
+  | { k: 'bin'; op: string; l: Expr; r: Expr }
+  | { k: 'like'; e: Expr; pattern: Expr; not: boolean; ci: boolean }
+  | { k: 'in'; e: Expr; list: Expr[]; not: boolean }
+  | { k: 'between'; e: Expr; lo: Expr; hi: Expr; not: boolean }
+  | { k: 'isnull'; e: Expr; not: boolean }
+  | { k: 'fn'; name: string; args: Expr[]; distinct: boolean }
+  | { k: 'case'; base?: Expr; whens: [Expr, Expr][]; else?: Expr }
+  | { k: 'cast'; e: Expr; type: string };
+
+type SelectItem = { expr: Expr; alias?: string; text: string };
+
+type Table = { name: string; row: Row | null; columns: string[] };
+
+/**
+ * Linha em avaliação: as linhas de cada tabela do FROM/JOIN, a linha já projetada (visível em ORDER BY e HAVING),
+ * as linhas do grupo (agregados) e o escopo da query externa (subqueries correlacionadas).
+ */
+type Scope = { tables: Table[]; output?: Row; aliasFirst?: boolean; group?: Scope[]; outer?: Scope };
+
+type Source = { rows: Row[]; columns: string[] };
+
+type Context = { options: VirtualQueryOptions; tables: Map<string, Source>; ctes: Map<string, Source> };
+
+type Projector =
+  | { kind: 'star'; table?: string }
+  | { kind: 'expr'; expr: Expr; key: string }
+  | { kind: 'sub'; query: QueryAST; key: string }
+  | { kind: 'window'; fn: WindowFunction; options: Row; queryOrder: boolean; key: string };
+
+/**
+ * Subquery usada como valor (`where('id', 'IN', query)`), marcada na decodificação do AST.
+ */
+class Subquery {
+  constructor(readonly ast: QueryAST) {}
+}
+
+const AGGREGATES = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'TOTAL', 'GROUP_CONCAT', 'STRING_AGG'];
+const MAX_RECURSION = 10000;
+
+/**
+ * Executa um `QueryAST` sobre as tabelas virtuais, com a mesma semântica do SQL: JOINs, WHERE (todos os tipos de
+ * cláusula), GROUP BY/HAVING, agregados, funções de janela, DISTINCT, UNION, CTEs (inclusive recursivas),
+ * ORDER BY e LIMIT/OFFSET. SQL bruto é interpretado por um subconjunto de expressões (operadores, LIKE, IN,
+ * BETWEEN, CASE, CAST e funções comuns); o que ficar fora dele lança erro em vez de ser ignorado.
+ *
+ * @param ast - Query a avaliar
+ * @param options - Tabelas virtuais e dialeto
+ * @returns Linhas do resultado
+ * @throws Error para SQL fora do subconjunto suportado
+ */
+export function evaluateQuery(ast: QueryAST, options: VirtualQueryOptions): Row[] {
+  return runQuery(ast, { options, tables: new Map(), ctes: new Map() }).rows;
+}
+
+/**
+ * Indica se uma linha da tabela `table` satisfaz as condições WHERE (usado por UPDATE e DELETE simulados).
+ *
+ * @param row - Linha da tabela virtual
+ * @param table - Nome (e alias) da tabela, como no QueryBuilder
+ * @param where - Condições do AST
+ * @param options - Tabelas virtuais (para subqueries) e dialeto
+ */
+export function matchesWhere(row: Row, table: string, where: WhereNode[], options: VirtualQueryOptions): boolean {
+  const ref = tableRef(table);
+  return matches(where, { tables: [{ name: ref.alias, row, columns: Object.keys(row) }] }, { options, tables: new Map(), ctes: new Map() });
+}
+
+/**
+ * Avalia uma expressão SQL (ex.: o `raw('stock - 1')` de um UPDATE) sobre uma linha da tabela `table`.
+ *
+ * @param sql - Expressão SQL
+ * @param row - Linha da tabela virtual
+ * @param table - Nome (e alias) da tabela
+ * @param options - Tabelas virtuais e dialeto
+ * @throws Error para SQL fora do subconjunto suportado
+ */
+export function evaluateExpression(sql: string, row: Row, table: string, options: VirtualQueryOptions): any {
+  const ref = tableRef(table);
+  return evaluate(parseExpr(sql), { tables: [{ name: ref.alias, row, columns: Object.keys(row) }] }, [], { options, tables: new Map(), ctes: new Map() });
+}
+
+// ---------------------------------------------------------------------------------------------------------------
+// Execução
+
+function runQuery(ast: QueryAST, parent: Context, outer?: Scope): Source {
+  const ctx = withCtes(ast, parent, outer);
+  let { rows, columns, scopes } = runSelect(ast, ctx, outer);
+  if (ast.unions.length > 0) {
+    for (const part of ast.unions) {
+      const other = runQuery(part.query, ctx, outer).rows.map(r => {
+        const values = Object.values(r);
+        return Object.fromEntries(columns.map((c, i) => [c, values[i] ?? null]));
+      });
+      rows = rows.concat(other);
+      if (part.type === 'UNION') rows = distinctRows(rows);
+    }
+    scopes = rows.map(output => ({ tables: [], output, aliasFirst: true, outer }));
+  }
+  if (ast.orderBy.length > 0) {
+    const order = ast.orderBy.map(o => ({ expr: parseExpr(o.column), desc: o.direction === 'DESC' }));
+    const keyed = rows.map((row, i) => ({ row, keys: order.map(o => evaluate(o.expr, { ...scopes[i], output: row, aliasFirst: true }, [], ctx)) }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < order.length; i++) {
+        const c = sortCompare(a.keys[i], b.keys[i], ctx.options.dialect);
+        if (c !== 0) return order[i].desc ? -c : c;
+      }
+      return 0;
+    });
+    rows = keyed.map(k => k.row);
+  }
+  const offset = ast.offset || 0;
+  rows = rows.slice(offset, ast.limit === undefined ? undefined : offset + ast.limit);
+  return { rows, columns };
+}
+
+function withCtes(ast: QueryAST, parent: Context, outer?: Scope): Context {
+  if (ast.ctes.length === 0) return parent;
+  const ctx: Context = { ...parent, ctes: new Map(parent.ctes) };
+  for (const cte of ast.ctes) {
+    const rename = (source: Source): Source => cte.columns.length === 0 ? source : {
+      columns: [...cte.columns],
+      rows: source.rows.map(r => { const values = Object.values(r); return Object.fromEntries(cte.columns.map((c, i) => [c, values[i] ?? null])); }),
+    };
+    const anchor = rename(runQuery(cte.query, ctx, outer));
+    if (!cte.recursivePart) { ctx.ctes.set(cte.name, anchor); continue; }
+    const seen = new Set(anchor.rows.map(rowKey));
+    let all = cte.unionAll ? anchor.rows : distinctRows(anchor.rows);
+    let work = all;
+    for (let i = 0; work.length > 0; i++) {
+      if (i >= MAX_RECURSION) throw new Error(`Recursive CTE ${cte.name} did not terminate in simulation`);
+      ctx.ctes.set(cte.name, { rows: work, columns: anchor.columns });
+      let next = rename(runQuery(cte.recursivePart, ctx, outer)).rows;
+      if (!cte.unionAll) next = next.filter(r => { const key = rowKey(r); if (seen.has(key)) return false; seen.add(key); return true; });
+      all = all.concat(next);
+      work = next;
+    }
+    ctx.ctes.set(cte.name, { rows: all, columns: anchor.columns });
+  }
+  return ctx;
+}
+
+function runSelect(ast: QueryAST, ctx: Context, outer?: Scope): { rows: Row[]; columns: string[]; scopes: Scope[] } {
+  const base = ast.from
+    ? { alias: ast.from.alias, source: runQuery(ast.from.query, ctx, outer) }
+    : { alias: ast.alias || tableRef(ast.table).alias, source: tableSource(tableRef(ast.table).name, ctx) };
+  let layout: Table[] = [{ name: base.alias, row: null, columns: base.source.columns }];
+  let scopes: Scope[] = base.source.rows.map(row => ({ tables: [{ ...layout[0], row }], outer }));
+
+  for (const join of ast.joins) {
+    const ref = join.query ? { alias: join.table, source: runQuery(join.query, ctx, outer) } : { alias: tableRef(join.table).alias, source: tableSource(tableRef(join.table).name, ctx) };
+    const on = parseExpr(join.on);
+    const empty: Table = { name: ref.alias, row: null, columns: ref.source.columns };
+    const matched = new Set<number>();
+    const next: Scope[] = [];
+    for (const scope of scopes) {
+      let found = false;
+      ref.source.rows.forEach((row, i) => {
+        const candidate: Scope = { ...scope, tables: [...scope.tables, { ...empty, row }] };
+        if (evaluate(on, candidate, [], ctx) === true) { found = true; matched.add(i); next.push(candidate); }
+      });
+      if (!found && join.type === 'LEFT') next.push({ ...scope, tables: [...scope.tables, empty] });
+    }
+    if (join.type === 'RIGHT') ref.source.rows.forEach((row, i) => { if (!matched.has(i)) next.push({ tables: [...layout, { ...empty, row }], outer }); });
+    layout = [...layout, empty];
+    scopes = next;
+  }
+
+  scopes = scopes.filter(scope => matches(ast.where, scope, ctx));
+
+  const projectors = selectProjectors(ast);
+  const aggregated = ast.groupBy.length > 0 || ast.aggregates.length > 0 || ast.having.length > 0
+    || projectors.some(p => p.kind === 'expr' && hasAggregate(p.expr));
+  if (aggregated) scopes = groupScopes(ast, scopes, layout, projectors, ctx, outer);
+
+  let pairs = scopes.map(scope => ({ scope, output: project(projectors, scope, ctx) }));
+  if (ast.having.length > 0) pairs = pairs.filter(p => matches(ast.having, { ...p.scope, output: p.output }, ctx));
+  for (const p of projectors) if (p.kind === 'window') applyWindow(p, ast, pairs, ctx);
+  if (ast.distinct) {
+    const seen = new Set<string>();
+    pairs = pairs.filter(p => { const key = rowKey(p.output); if (seen.has(key)) return false; seen.add(key); return true; });
+  }
+  const columns = projectors.flatMap(p => p.kind !== 'star' ? [p.key] : layout.filter(t => !p.table || sameName(t.name, p.table)).flatMap(t => t.columns));
+  return { rows: pairs.map(p => p.output), columns: [...new Set(columns)], scopes: pairs.map(p => p.scope) };
+}
+
+function tableRef(ref: string): { name: string; alias: string } {
+  const [name, ...rest] = ref.trim().split(/\s+/);
+  const alias = rest.length > 0 ? rest[rest.length - 1] : name.split('.').pop()!;
+  return { name: unquote(name), alias: unquote(alias) };
+}
+
+function tableSource(name: string, ctx: Context): Source {
+  const cte = ctx.ctes.get(name);
+  if (cte) return cte;
+  let source = ctx.tables.get(name);
+  if (!source) {
+    const rows = ctx.options.tables(name) ?? (name.includes('.') ? ctx.options.tables(name.split('.').pop()!) : undefined) ?? [];
+    source = { rows, columns: [...new Set(rows.flatMap(r => Object.keys(r)))] };
+    ctx.tables.set(name, source);
+  }
+  return source;
+}
+
+function selectProjectors(ast: QueryAST): Projector[] {
+  const plain = ast.select.length === 1 && ast.select[0] === '*';
+  const items: SelectNode[] = ast.aggregates.length === 0 ? ast.select : [
+    ...(plain ? ast.groupBy : ast.select),
+    ...ast.aggregates.map(a => ({ raw: `${a.func}(${a.column}) as ${a.alias || 'aggregate'}` })),
+  ];
+  return items.flatMap((item): Projector[] => {
+    if (typeof item === 'string' || 'raw' in item) {
+      return parseSelectList(typeof item === 'string' ? item : item.raw).map((s): Projector => s.expr.k === 'star'
+        ? { kind: 'star', table: s.expr.table }
+        : { kind: 'expr', expr: s.expr, key: s.alias ?? (s.expr.k === 'col' ? s.expr.name : s.text) });
+    }
+    if ('subquery' in item) return [{ kind: 'sub', query: item.subquery, key: item.alias }];
+    const options = decodeAstValue(item.options as AstValue, q => q) as Row;
+    return [{ kind: 'window', fn: item.window, options, queryOrder: !!item.queryOrder, key: options.alias || item.window }];
+  });
+}
+
+function groupScopes(ast: QueryAST, scopes: Scope[], layout: Table[], projectors: Projector[], ctx: Context, outer?: Scope): Scope[] {
+  const keys = ast.groupBy.map(column => {
+    const expr = parseExpr(column);
+    const aliased = expr.k === 'col' && !expr.table && !layout.some(t => t.columns.includes(expr.name))
+      ? projectors.find(p => p.kind === 'expr' && p.key === expr.name && !hasAggregate(p.expr)) as { expr: Expr } | undefined
+      : undefined;
+    return aliased ? aliased.expr : expr;
+  });
+  if (keys.length === 0) return [{ tables: scopes[0]?.tables ?? layout, group: scopes, outer }];
+  const groups = new Map<string, Scope[]>();
+  for (const scope of scopes) {
+    const key = rowKey(keys.map(k => evaluate(k, scope, [], ctx)));
+    const group = groups.get(key);
+    if (group) group.push(scope); else groups.set(key, [scope]);
+  }
+  return [...groups.values()].map(group => ({ ...group[0], group }));
+}
+
+function project(projectors: Projector[], scope: Scope, ctx: Context): Row {
+  const out: Row = {};
+  for (const p of projectors) {
+    if (p.kind === 'star') {
+      for (const t of scope.tables) {
+        if (p.table && !sameName(t.name, p.table)) continue;
+        for (const c of t.columns) out[c] = t.row ? t.row[c] ?? null : null;
+      }
+    } else if (p.kind === 'expr') {
+      out[p.key] = evaluate(p.expr, scope, [], ctx);
+    } else if (p.kind === 'sub') {
+      const row = runQuery(p.query, ctx, scope).rows[0];
+      out[p.key] = row ? Object.values(row)[0] ?? null : null;
+    } else {
+      out[p.key] = null;
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------------------------------------------
+// Funções de janela
+
+function applyWindow(p: Extract<Projector, { kind: 'window' }>, ast: QueryAST, pairs: { scope: Scope; output: Row }[], ctx: Context): void {
+  const named = p.options.window ? ast.windows.find(w => w.name === p.options.window) : undefined;
+  if (p.options.window && !named) throw new Error(`Unknown window: ${p.options.window}`);
+  const spec: WindowSpec = named ? named.spec : p.queryOrder && !p.options.orderBy ? { ...p.options, orderBy: ast.orderBy } : p.options;
+  const at = (i: number): Scope => ({ ...pairs[i].scope, output: pairs[i].output });
+  const partitionBy = (spec.partitionBy || []).map(parseExpr);
+  const orderBy = (spec.orderBy || []).map(o => {
+    const [column, direction] = typeof o === 'string' ? [o.replace(/\s+(ASC|DESC)$/i, ''), /\s+DESC$/i.test(o) ? 'DESC' : 'ASC'] : [o.column, o.direction];
+    return { expr: parseExpr(column), desc: direction === 'DESC' };
+  });
+  const partitions = new Map<string, number[]>();
+  pairs.forEach((_, i) => {
+    const key = rowKey(partitionBy.map(e => evaluate(e, at(i), [], ctx)));
+    const part = partitions.get(key);
+    if (part) part.push(i); else partitions.set(key, [i]);
+  });
+  const column = p.options.column ? parseExpr(p.options.column) : undefined;
+  for (const indexes of partitions.values()) {
+    const keys = new Map(indexes.map(i => [i, orderBy.map(o => evaluate(o.expr, at(i), [], ctx))]));
+    const compare = (a: number, b: number) => {
+      for (let k = 0; k < orderBy.length; k++) {
+        const c = sortCompare(keys.get(a)![k], keys.get(b)![k], ctx.options.dialect);
+        if (c !== 0) return orderBy[k].desc ? -c : c;
+      }
+      return 0;
+    };
+    const sorted = [...indexes].sort(compare);
+    const n = sorted.length;
+    const value = (pos: number) => column ? evaluate(column, at(sorted[pos]), [], ctx) : null;
+    const peers = (pos: number): [number, number] => {
+      let first = pos, last = pos;
+      while (first > 0 && compare(sorted[first - 1], sorted[pos]) === 0) first--;
+      while (last < n - 1 && compare(sorted[last + 1], sorted[pos]) === 0) last++;
+      return [first, last];
+    };
+    let rank = 0, dense = 0;
+    sorted.forEach((index, pos) => {
+      const newPeerGroup = pos === 0 || compare(sorted[pos - 1], index) !== 0;
+      if (newPeerGroup) { rank = pos + 1; dense++; }
+      let result: any;
+      switch (p.fn) {
+        case 'row_number': result = pos + 1; break;
+        case 'rank': result = rank; break;
+        case 'dense_rank': result = dense; break;
+        case 'lag':
+        case 'lead': {
+          const target = p.fn === 'lag' ? pos - (p.options.offset ?? 1) : pos + (p.options.offset ?? 1);
+          result = target >= 0 && target < n ? value(target) : p.options.default ?? null;
+          break;
+        }
+        case 'ntile': {
+          const buckets = p.options.buckets as number, size = Math.floor(n / buckets), extra = n % buckets;
+          result = pos < extra * (size + 1) ? Math.floor(pos / (size + 1)) + 1 : extra + Math.floor((pos - extra * (size + 1)) / size) + 1;
+          break;
+        }
+        default: {
+          const [from, to] = frameRange(spec, pos, n, peers, orderBy.length > 0, i => keys.get(sorted[i])![0]);
+          const values = [];
+          for (let i = from; i <= to; i++) { const v = value(i); if (v !== null && v !== undefined) values.push(toNumber(v)); }
+          const sum = values.reduce((a, b) => a + b, 0);
+          result = values.length === 0 ? null : p.fn === 'sum' ? sum : sum / values.length;
+        }
+      }
+      pairs[index].output[p.key] = result;
+    });
+  }
+}
+
+function frameRange(spec: WindowSpec, pos: number, n: number, peers: (pos: number) => [number, number], ordered: boolean, key: (pos: number) => any): [number, number] {
+  if (!spec.frame) return ordered ? [0, peers(pos)[1]] : [0, n - 1];
+  const range = spec.frame.unit === 'RANGE';
+  const bound = (b: WindowFrameBound, end: boolean): number => {
+    if (b === 'UNBOUNDED PRECEDING') return 0;
+    if (b === 'UNBOUNDED FOLLOWING') return n - 1;
+    if (b === 'CURRENT ROW') return range ? peers(pos)[end ? 1 : 0] : pos;
+    const offset = 'preceding' in b ? -b.preceding : b.following;
+    if (!range) return Math.min(n - 1, Math.max(0, pos + offset));
+    const target = toNumber(key(pos)) + offset;
+    let i = end ? n - 1 : 0;
+    if (end) while (i >= 0 && toNumber(key(i)) > target) i--;
+    else while (i < n && toNumber(key(i)) < target) i++;
+    return i;
+  };
+  return [bound(spec.frame.start, false), bound(spec.frame.end ?? 'CURRENT ROW', true)];
+}
+
+// ---------------------------------------------------------------------------------------------------------------
+// Condições
+
+function matches(clauses: WhereNode[], scope: Scope, ctx: Context): boolean {
+  const groups: WhereNode[][] = [];
+  clauses.forEach((clause, index) => {
+    if (index === 0 || clause.logical === 'OR') groups.push([clause]);
+    else groups[groups.length - 1].push(clause);
+  });
+  return groups.length === 0 || groups.some(group => group.every(clause => condition(clause, scope, ctx) === true));
+}
+
+function condition(node: WhereNode, scope: Scope, ctx: Context): boolean | null {
+  const column = () => evaluate(parseExpr(node.column!), scope, [], ctx);
+  const value = () => operand(decodeAstValue(node.value, q => new Subquery(q)), scope, ctx);
+  switch (node.type) {
+    case 'nested': return matches(node.clauses || [], scope, ctx);
+    case 'raw': {
+      const bindings = (decodeAstValue(node.value, q => new Subquery(q)) as any[] | undefined) || [];
+      return evaluate(parseExpr(node.sql!), scope, bindings.map(b => operand(b, scope, ctx)), ctx) === true;
+    }
+    case 'column': return compareWith(node.operator!, column(), evaluate(parseExpr(String(node.value)), scope, [], ctx), ctx);
+    case 'null': { const isNull = column() === null; return node.not ? !isNull : isNull; }
+    case 'between': { const [lo, hi] = value(); return not(node.not, and(compare(column(), lo, '>='), compare(column(), hi, '<='))); }
+    case 'exists': { const found = runQuery(node.query!, ctx, scope).rows.length > 0; return node.not ? !found : found; }
+    case 'in': {
+      const list = node.query ? runQuery(node.query, ctx, scope).rows.map(r => Object.values(r)[0] ?? null) : value();
+      if (!Array.isArray(list) || list.length === 0) return !!node.not;
+      return inList(column(), list, !!node.not);
+    }
+    default: return compareWith(node.operator!, column(), value(), ctx);
+  }
+}
+
+function operand(value: any, scope: Scope, ctx: Context): any {
+  if (value instanceof Raw) return evaluate(parseExpr(value.toSQL()), scope, [], ctx);
+  if (value instanceof Subquery) return runQuery(value.ast, ctx, scope).rows.map(r => Object.values(r)[0] ?? null);
+  if (Array.isArray(value)) return value.map(v => operand(v, scope, ctx));
+  return value === undefined ? null : value;
+}
+
+function compareWith(operator: string, left: any, right: any, ctx: Context): boolean | null {
+  switch (operator.toUpperCase()) {
+    case 'LIKE': return like(left, right, false, !caseSensitiveLike(ctx));
+    case 'NOT LIKE': return like(left, right, true, !caseSensitiveLike(ctx));
+    case 'IN': return inList(left, Array.isArray(right) ? right : [right], false);
+    case 'NOT IN': return inList(left, Array.isArray(right) ? right : [right], true);
+    case 'BETWEEN': return and(compare(left, right[0], '>='), compare(left, right[1], '<='));
+    case 'NOT BETWEEN': return not(true, and(compare(left, right[0], '>='), compare(left, right[1], '<=')));
+    case 'IS NULL': return left === null;
+    case 'IS NOT NULL': return left !== null;
+    default: return compare(left, Array.isArray(right) ? right[0] ?? null : right, operator);
+  }
+}
+
+function caseSensitiveLike(ctx: Context): boolean {
+  return ctx.options.dialect === 'postgres' || ctx.options.dialect === 'oracle';
+}
+
+// ---------------------------------------------------------------------------------------------------------------
+// Valores
+
+function normalize(value: any): any {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (Buffer.isBuffer(value)) return value.toString('hex');
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+const NUMERIC = /^\s*-?\d+(\.\d+)?([eE][-+]?\d+)?\s*$/;
+
+/**
+ * Compara dois valores não nulos como o SQLite: números antes de textos, textos numéricos comparados como números.
+ */
+function compareValues(a: any, b: any): number {
+  a = normalize(a); b = normalize(b);
+  const numeric = (v: any) => typeof v === 'number' || typeof v === 'bigint';
+  if (numeric(a) && typeof b === 'string' && NUMERIC.test(b)) b = Number(b);
+  if (numeric(b) && typeof a === 'string' && NUMERIC.test(a)) a = Number(a);
+  if (numeric(a) !== numeric(b)) return numeric(a) ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compare(a: any, b: any, operator: string): boolean | null {
+  if (a === null || a === undefined || b === null || b === undefined) return null;
+  const c = compareValues(a, b);
+  switch (operator) {
+    case '=': case '==': return c === 0;
+    case '!=': case '<>': return c !== 0;
+    case '>': return c > 0;
+    case '>=': return c >= 0;
+    case '<': return c < 0;
+    case '<=': return c <= 0;
+    default: throw new Error(`Cannot simulate SQL operator: ${operator}`);
+  }
+}
+
+function sortCompare(a: any, b: any, dialect?: Dialect): number {
+  const nullA = a === null || a === undefined, nullB = b === null || b === undefined;
+  if (nullA || nullB) {
+    if (nullA && nullB) return 0;
+    const nullsLast = dialect === 'postgres' || dialect === 'oracle';
+    return nullA === nullsLast ? 1 : -1;
+  }
+  return compareValues(a, b);
+}
+
+function like(value: any, pattern: any, negate: boolean, ci: boolean): boolean | null {
+  if (value === null || pattern === null) return null;
+  const source = String(pattern).replace(/[.+^${}()|[\]\\*?]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  const found = new RegExp(`^${source}$`, ci ? 'is' : 's').test(String(normalize(value)));
+  return negate ? !found : found;
+}
+
+function inList(value: any, list: any[], negate: boolean): boolean | null {
+  if (value === null) return null;
+  let unknown = false;
+  for (const item of list) {
+    if (item === null || item === undefined) { unknown = true; continue; }
+    if (compareValues(value, item) === 0) return !negate;
+  }
+  return unknown ? null : negate;
+}
+
+function and(a: boolean | null, b: boolean | null): boolean | null {
+  if (a === false || b === false) return false;
+  return a === null || b === null ? null : true;
+}
+
+function or(a: boolean | null, b: boolean | null): boolean | null {
+  if (a === true || b === true) return true;
+  return a === null || b === null ? null : false;
+}
+
+function not(negate: boolean | undefined, value: boolean | null): boolean | null {
+  return negate && value !== null ? !value : value;
+}
+
+function truth(value: any): boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return NUMERIC.test(value) ? Number(value) !== 0 : false;
+  return !!normalize(value);
+}
+
+function toNumber(value: any): number {
+  value = normalize(value);
+  return typeof value === 'number' ? value : Number(value) || 0;
+}
+
+function rowKey(row: Row | any[]): string {
+  return JSON.stringify((Array.isArray(row) ? row : Object.values(row)).map(v => typeof v === 'bigint' ? `${v}n` : normalize(v)));
+}
+
+function distinctRows(rows: Row[]): Row[] {
+  const seen = new Set<string>();
+  return rows.filter(r => { const key = rowKey(r); if (seen.has(key)) return false; seen.add(key); return true; });
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function unquote(name: string): string {
+  return name.replace(/^["`[](.*)["`\]]$/, '$1');
+}
+
+// ---------------------------------------------------------------------------------------------------------------
+// Avaliação de expressões
+
+function column(node: Extract<Expr, { k: 'col' }>, scope: Scope): any {
+  for (let s: Scope | undefined = scope; s; s = s.outer) {
+    if (!node.table && s.aliasFirst && s.output && node.name in s.output) return s.output[node.name];
+    for (const t of s.tables) {
+      const hit = node.table ? sameName(t.name, node.table) : t.row ? node.name in t.row : t.columns.includes(node.name);
+      if (hit) return t.row ? t.row[node.name] ?? null : null;
+    }
+    if (s.output && node.name in s.output && (!node.table || s.tables.length === 0)) return s.output[node.name];
+  }
+  return null;
+}
+
+function evaluate(e: Expr, scope: Scope, params: any[], ctx: Context): any {
+  const ev = (x: Expr) => evaluate(x, scope, params, ctx);
+  switch (e.k) {
+    case 'lit': return e.v;
+    case 'param': return params[e.i] === undefined ? null : params[e.i];
+    case 'col': return column(e, scope);
+    case 'star': throw new Error('Cannot simulate SQL: * outside of a select list or COUNT(*)');
+    case 'not': { const v = truth(ev(e.e)); return v === null ? null : !v; }
+    case 'neg': { const v = ev(e.e); return v === null ? null : -toNumber(v); }
+    case 'isnull': { const isNull = ev(e.e) === null; return e.not ? !isNull : isNull; }
+    case 'like': return like(ev(e.e), ev(e.pattern), e.not, e.ci || !caseSensitiveLike(ctx));
+    case 'in': return inList(ev(e.e), e.list.map(ev), e.not);
+    case 'between': { const v = ev(e.e); return not(e.not, and(compare(v, ev(e.lo), '>='), compare(v, ev(e.hi), '<='))); }
+    case 'case': {
+      const base = e.base ? ev(e.base) : undefined;
+      for (const [when, then] of e.whens) if (e.base ? compare(base, ev(when), '=') === true : truth(ev(when)) === true) return ev(then);
+      return e.else ? ev(e.else) : null;
+    }
+    case 'cast': return cast(ev(e.e), e.type);
+    case 'fn': return AGGREGATES.includes(e.name) ? aggregate(e, scope, params, ctx) : call(e.name, e.args.map(ev), ctx);
+    case 'bin': {
+      if (e.op === 'AND') return and(truth(ev(e.l)), truth(ev(e.r)));
+      if (e.op === 'OR') return or(truth(ev(e.l)), truth(ev(e.r)));
+      const l = ev(e.l), r = ev(e.r);
+      if (['=', '==', '!=', '<>', '<', '<=', '>', '>='].includes(e.op)) return compare(l, r, e.op);
+      if (l === null || r === null) return null;
+      if (e.op === '||') return `${normalize(l)}${normalize(r)}`;
+      const a = toNumber(l), b = toNumber(r);
+      switch (e.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': if (b === 0) return null; return ctx.options.dialect !== 'mysql' && Number.isInteger(a) && Number.isInteger(b) ? Math.trunc(a / b) : a / b;
+        case '%': return b === 0 ? null : a % b;
+      }
+    }
+  }
+  throw new Error(`Cannot simulate SQL expression: ${(e as any).k}`);
+}
+
+function aggregate(e: Extract<Expr, { k: 'fn' }>, scope: Scope, params: any[], ctx: Context): any {
+  const members = scope.group ?? [scope];
+  const star = e.args.length === 0 || e.args[0].k === 'star';
+  if (e.name === 'COUNT' && star) return members.length;
+  let values = members.map(m => evaluate(e.args[0], { ...m, output: scope.output }, params, ctx)).filter(v => v !== null && v !== undefined);
+  if (e.distinct) { const seen = new Set<string>(); values = values.filter(v => { const key = rowKey([v]); if (seen.has(key)) return false; seen.add(key); return true; }); }
+  switch (e.name) {
+    case 'COUNT': return values.length;
+    case 'SUM': return values.length === 0 ? null : values.reduce((a, v) => a + toNumber(v), 0);
+    case 'TOTAL': return values.reduce((a, v) => a + toNumber(v), 0);
+    case 'AVG': return values.length === 0 ? null : values.reduce((a, v) => a + toNumber(v), 0) / values.length;
+    case 'MIN': return values.length === 0 ? null : values.reduce((a, v) => compareValues(v, a) < 0 ? v : a);
+    case 'MAX': return values.length === 0 ? null : values.reduce((a, v) => compareValues(v, a) > 0 ? v : a);
+    default: {
+      const separator = e.args[1] ? evaluate(e.args[1], scope, params, ctx) : ',';
+      return values.length === 0 ? null : values.map(v => String(normalize(v))).join(separator);
+    }
+  }
+}
+
+function call(name: string, args: any[], ctx: Context): any {
+  const [a, b, c] = args;
+  const text = (v: any) => v === null ? null : String(normalize(v));
+  switch (name) {
+    case 'COALESCE': case 'IFNULL': case 'ISNULL': case 'NVL': return args.find(v => v !== null && v !== undefined) ?? null;
+    case 'NULLIF': return compare(a, b, '=') === true ? null : a;
+    case 'LOWER': case 'LCASE': return text(a)?.toLowerCase() ?? null;
+    case 'UPPER': case 'UCASE': return text(a)?.toUpperCase() ?? null;
+    case 'LENGTH': case 'LEN': case 'CHAR_LENGTH': return a === null ? null : text(a)!.length;
+    case 'TRIM': return text(a)?.trim() ?? null;
+    case 'LTRIM': return text(a)?.trimStart() ?? null;
+    case 'RTRIM': return text(a)?.trimEnd() ?? null;
+    case 'SUBSTR': case 'SUBSTRING': return a === null ? null : text(a)!.substr(Math.max(0, toNumber(b) - 1), c === undefined ? undefined : toNumber(c));
+    case 'REPLACE': return a === null ? null : text(a)!.split(text(b)!).join(text(c) ?? '');
+    case 'CONCAT': return args.some(v => v === null) && ctx.options.dialect === 'mysql' ? null : args.map(v => v === null ? '' : text(v)).join('');
+    case 'ABS': return a === null ? null : Math.abs(toNumber(a));
+    case 'ROUND': { if (a === null) return null; const f = 10 ** (b === undefined ? 0 : toNumber(b)); return Math.round(toNumber(a) * f) / f; }
+    case 'FLOOR': return a === null ? null : Math.floor(toNumber(a));
+    case 'CEIL': case 'CEILING': return a === null ? null : Math.ceil(toNumber(a));
+    case 'DATE': return a === null ? null : text(a)!.slice(0, 10);
+    case 'NOW': case 'CURRENT_TIMESTAMP': case 'GETDATE': case 'SYSDATE': return new Date().toISOString();
+    case 'CURRENT_DATE': return new Date().toISOString().slice(0, 10);
+    default: throw new Error(`Cannot simulate SQL function: ${name}`);
+  }
+}
+
+function cast(value: any, type: string): any {
+  if (value === null) return null;
+  if (/INT/.test(type)) return Math.trunc(toNumber(value));
+  if (/REAL|FLOA|DOUB|NUM|DEC/.test(type)) return toNumber(value);
+  if (/CHAR|TEXT|CLOB|STRING/.test(type)) return String(normalize(value));
+  return value;
+}
+
+function hasAggregate(e: Expr): boolean {
+  switch (e.k) {
+    case 'fn': return AGGREGATES.includes(e.name) || e.args.some(hasAggregate);
+    case 'not': case 'neg': case 'isnull': case 'cast': return hasAggregate(e.e);
+    case 'bin': return hasAggregate(e.l) || hasAggregate(e.r);
+    case 'like': return hasAggregate(e.e) || hasAggregate(e.pattern);
+    case 'in': return hasAggregate(e.e) || e.list.some(hasAggregate);
+    case 'between': return hasAggregate(e.e) || hasAggregate(e.lo) || hasAggregate(e.hi);
+    case 'case': return (!!e.base && hasAggregate(e.base)) || e.whens.some(([w, t]) => hasAggregate(w) || hasAggregate(t)) || (!!e.else && hasAggregate(e.else));
+    default: return false;
+  }
+}
+
+// ---------------------------------------------------------------------------------------------------------------
+// Análise de SQL
+
+type Token = { t: 'num' | 'str' | 'id' | 'qid' | 'op' | 'param'; v: string; at: number; end: number };
+
+// árvores já analisadas por texto SQL; LRU limitado, pois as simulações rodam por requisição em servidores
+const PARSE_CACHE_SIZE = 500;
+const parsed = new Map<string, Expr>();
+const parsedLists = new Map<string, SelectItem[]>();
+
+function cached<V>(cache: Map<string, V>, sql: string, parse: (p: Parser) => V): V {
+  let value = cache.get(sql);
+  if (value !== undefined) {
+    cache.delete(sql);
+  } else {
+    const p = new Parser(sql);
+    value = parse(p);
+    p.done();
+    if (cache.size >= PARSE_CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  }
+  cache.set(sql, value);
+  return value;
+}
+
+function parseExpr(sql: string): Expr {
+  return cached(parsed, sql, p => p.expression());
+}
+
+function parseSelectList(sql: string): SelectItem[] {
+  return cached(parsedLists, sql, p => p.selectList());
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /\s+|(\d+(?:\.\d+)?(?:[eE][-+]?\d+)?)|'((?:[^']|'')*)'|([A-Za-z_][\w$]*)|"((?:[^"]|"")*)"|`([^`]*)`|\[([^\]]*)\]|(\?)|(<=|>=|<>|!=|==|\|\||::|[-+*/%=<>(),.])/y;
+  let match: RegExpExecArray | null;
+  while (re.lastIndex < sql.length) {
+    const at = re.lastIndex;
+    if (!(match = re.exec(sql))) throw new Error(`Cannot simulate SQL: ${sql}`);
+    const end = re.lastIndex;
+    if (match[1] !== undefined) tokens.push({ t: 'num', v: match[1], at, end });
+    else if (match[2] !== undefined) tokens.push({ t: 'str', v: match[2].replace(/''/g, "'"), at, end });
+    else if (match[3] !== undefined) tokens.push({ t: 'id', v: match[3], at, end });
+    else if (match[4] !== undefined) tokens.push({ t: 'qid', v: match[4].replace(/""/g, '"'), at, end });
+    else if (match[5] !== undefined) tokens.push({ t: 'qid', v: match[5], at, end });
+    else if (match[6] !== undefined) tokens.push({ t: 'qid', v: match[6], at, end });
+    else if (match[7] !== undefined) tokens.push({ t: 'param', v: '?', at, end });
+    else if (match[8] !== undefined) tokens.push({ t: 'op', v: match[8], at, end });
+  }
+  return tokens;
+}
+
+/**
+ * Analisador descendente do subconjunto de SQL aceito pelo avaliador.
+ */
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+  private params = 0;
+
+  constructor(private sql: string) { this.tokens = tokenize(sql); }
+
+  done(): void { if (this.pos < this.tokens.length) this.fail(); }
+
+  selectList(): SelectItem[] {
+    const items: SelectItem[] = [];
+    do {
+      const start = this.peek()?.at ?? 0;
+      const expr = this.expression();
+      const text = this.sql.slice(start, this.tokens[this.pos - 1].end).trim();
+      let alias: string | undefined;
+      if (this.word('AS')) alias = this.name();
+      else if (this.peek() && (this.peek()!.t === 'qid' || (this.peek()!.t === 'id' && !this.isKeyword(this.peek()!)))) alias = this.name();
+      items.push({ expr, alias, text });
+    } while (this.op(','));
+    return items;
+  }
+
+  expression(): Expr { return this.or(); }
+
+  private or(): Expr {
+    let l = this.and();
+    while (this.word('OR')) l = { k: 'bin', op: 'OR', l, r: this.and() };
+    return l;
+  }
+
+  private and(): Expr {
+    let l = this.not();
+    while (this.word('AND')) l = { k: 'bin', op: 'AND', l, r: this.not() };
+    return l;
+  }
+
+  private not(): Expr {
+    if (this.word('NOT')) return { k: 'not', e: this.not() };
+    if (this.peekWord('EXISTS')) this.fail();
+    return this.predicate();
+  }
+
+  private predicate(): Expr {
+    let e = this.concat();
+    for (;;) {
+      const t = this.peek();
+      if (t?.t === 'op' && ['=', '==', '!=', '<>', '<', '<=', '>', '>='].includes(t.v)) { this.pos++; e = { k: 'bin', op: t.v, l: e, r: this.concat() }; continue; }
+      if (this.word('IS')) { const negate = this.word('NOT'); this.expect('NULL'); e = { k: 'isnull', e, not: negate }; continue; }
+      const save = this.pos;
+      const negate = this.word('NOT');
+      if (this.peekWord('LIKE') || this.peekWord('ILIKE')) { const ci = this.next().v.toUpperCase() === 'ILIKE'; e = { k: 'like', e, pattern: this.concat(), not: negate, ci }; continue; }
+      if (this.word('IN')) {
+        this.expectOp('(');
+        if (this.peekWord('SELECT')) this.fail();
+        const list: Expr[] = [];
+        if (!this.op(')')) { do list.push(this.expression()); while (this.op(',')); this.expectOp(')'); }
+        e = { k: 'in', e, list, not: negate };
+        continue;
+      }
+      if (this.word('BETWEEN')) { const lo = this.concat(); this.expect('AND'); e = { k: 'between', e, lo, hi: this.concat(), not: negate }; continue; }
+      this.pos = save;
+      return e;
+    }
+  }
+
+  private concat(): Expr {
+    let l = this.additive();
+    while (this.op('||')) l = { k: 'bin', op: '||', l, r: this.additive() };
+    return l;
+  }
+
+  private additive(): Expr {
+    let l = this.multiplicative();
+    for (let t = this.peek(); t?.t === 'op' && (t.v === '+' || t.v === '-'); t = this.peek()) { this.pos++; l = { k: 'bin', op: t.v, l, r: this.multiplicative() }; }
+    return l;
+  }
+
+  private multiplicative(): Expr {
+    let l = this.unary();
+    for (let t = this.peek(); t?.t === 'op' && (t.v === '*' || t.v === '/' || t.v === '%'); t = this.peek()) { this.pos++; l = { k: 'bin', op: t.v, l, r: this.unary() }; }
+    return l;
+  }
+
+  private unary(): Expr {
+    if (this.op('-')) return { k: 'neg', e: this.unary() };
+    if (this.op('+')) return this.unary();
+    return this.primary();
+  }
+
+  private primary(): Expr {
+    const t = this.next();
+    if (!t) return this.fail();
+    if (t.t === 'num') return { k: 'lit', v: Number(t.v) };
+    if (t.t === 'str') return { k: 'lit', v: t.v };
+    if (t.t === 'param') return { k: 'param', i: this.params++ };
+    if (t.t === 'op' && t.v === '*') return { k: 'star' };
+    if (t.t === 'op' && t.v === '(') {
+      if (this.peekWord('SELECT')) this.fail();
+      const e = this.expression();
+      this.expectOp(')');
+      return e;
+    }
+    if (t.t !== 'id' && t.t !== 'qid') return this.fail();
+    const word = t.t === 'id' ? t.v.toUpperCase() : '';
+    if (word === 'NULL') return { k: 'lit', v: null };
+    if (word === 'TRUE' || word === 'FALSE') return { k: 'lit', v: word === 'TRUE' ? 1 : 0 };
+    if (word === 'CURRENT_TIMESTAMP' || word === 'CURRENT_DATE') return { k: 'fn', name: word, args: [], distinct: false };
+    if (word === 'CASE') return this.caseExpr();
+    if (word === 'CAST' && this.op('(')) {
+      const e = this.expression();
+      this.expect('AS');
+      const type = this.name().toUpperCase();
+      if (this.op('(')) { while (!this.op(')')) this.next() ?? this.fail(); }
+      this.expectOp(')');
+      return { k: 'cast', e, type };
+    }
+    if (t.t === 'id' && this.op('(')) {
+      const distinct = this.word('DISTINCT');
+      const args: Expr[] = [];
+      if (!this.op(')')) { do args.push(this.expression()); while (this.op(',')); this.expectOp(')'); }
+      return { k: 'fn', name: word, args, distinct };
+    }
+    if (this.op('.')) {
+      if (this.op('*')) return { k: 'star', table: t.v };
+      let name = this.name();
+      let table = t.v;
+      // schema.tabela.coluna
+      while (this.op('.')) { table = name; name = this.name(); }
+      return { k: 'col', table, name };
+    }
+    return { k: 'col', name: t.v };
+  }
+
+  private caseExpr(): Expr {
+    const base = this.peekWord('WHEN') ? undefined : this.expression();
+    const whens: [Expr, Expr][] = [];
+    while (this.word('WHEN')) { const when = this.expression(); this.expect('THEN'); whens.push([when, this.expression()]); }
+    const otherwise = this.word('ELSE') ? this.expression() : undefined;
+    this.expect('END');
+    return { k: 'case', base, whens, else: otherwise };
+  }
+
+  private isKeyword(t: Token): boolean {
+    return ['AND', 'OR', 'NOT', 'LIKE', 'ILIKE', 'IN', 'IS', 'BETWEEN', 'AS', 'WHEN', 'THEN', 'ELSE', 'END', 'FROM'].includes(t.v.toUpperCase());
+  }
+
+  private name(): string {
+    const t = this.next();
+    if (!t || (t.t !== 'id' && t.t !== 'qid')) return this.fail();
+    return t.v;
+  }
+
+  private peek(): Token | undefined { return this.tokens[this.pos]; }
+  private next(): Token | undefined { return this.tokens[this.pos++]; }
+  private peekWord(word: string): boolean { const t = this.peek(); return t?.t === 'id' && t.v.toUpperCase() === word; }
+  private word(word: string): boolean { if (!this.peekWord(word)) return false; this.pos++; return true; }
+  private expect(word: string): void { if (!this.word(word)) this.fail(); }
+  private op(v: string): boolean { const t = this.peek(); if (t?.t !== 'op' || t.v !== v) return false; this.pos++; return true; }
+  private expectOp(v: string): void { if (!this.op(v)) this.fail(); }
+  private fail(): never { throw new Error(`Cannot simulate SQL: ${this.sql}`); }
+}